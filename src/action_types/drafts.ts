@@ -0,0 +1,10 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import keyMirror from 'utils/key_mirror';
+
+export default keyMirror({
+    SET_DRAFT: null,
+    REMOVE_DRAFT: null,
+    RECEIVED_DRAFTS: null,
+});
@@ -34,6 +34,7 @@ export default keyMirror({
     WEBSOCKET_SUCCESS: null,
     WEBSOCKET_FAILURE: null,
     WEBSOCKET_CLOSED: null,
+    WEBSOCKET_HEARTBEAT: null,
 
     REDIRECT_LOCATION_SUCCESS: null,
     REDIRECT_LOCATION_FAILURE: null,
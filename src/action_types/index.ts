@@ -1,11 +1,14 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import ChannelTypes from './channels';
+import ChannelCategoryTypes from './channel_categories';
+import DraftTypes from './drafts';
 import ErrorTypes from './errors';
 import GeneralTypes from './general';
 import UserTypes from './users';
 import TeamTypes from './teams';
 import PostTypes from './posts';
+import ThreadTypes from './threads';
 import FileTypes from './files';
 import PreferenceTypes from './preferences';
 import IntegrationTypes from './integrations';
@@ -16,6 +19,7 @@ import AlertTypes from './alerts';
 import JobTypes from './jobs';
 import SearchTypes from './search';
 import RoleTypes from './roles';
+import ScheduledPostTypes from './scheduled_posts';
 import SchemeTypes from './schemes';
 import GroupTypes from './groups';
 import BotTypes from './bots';
@@ -27,7 +31,11 @@ export {
     UserTypes,
     TeamTypes,
     ChannelTypes,
+    ChannelCategoryTypes,
     PostTypes,
+    ThreadTypes,
+    DraftTypes,
+    ScheduledPostTypes,
     FileTypes,
     PreferenceTypes,
     IntegrationTypes,
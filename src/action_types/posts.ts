@@ -39,6 +39,7 @@ export default keyMirror({
 
     POST_DELETED: null,
     POST_REMOVED: null,
+    POST_REMINDER_DUE: null,
 
     RECEIVED_FOCUSED_POST: null,
     RECEIVED_POST_SELECTED: null,
@@ -0,0 +1,11 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import keyMirror from 'utils/key_mirror';
+
+export default keyMirror({
+    RECEIVED_SCHEDULED_POST: null,
+    SCHEDULED_POST_SENDING: null,
+    SCHEDULED_POST_FAILED: null,
+    SCHEDULED_POST_REMOVED: null,
+});
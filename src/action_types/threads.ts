@@ -0,0 +1,13 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import keyMirror from 'utils/key_mirror';
+
+export default keyMirror({
+    RECEIVED_THREADS: null,
+    RECEIVED_THREAD: null,
+
+    FOLLOW_CHANGED_THREAD: null,
+    READ_CHANGED_THREAD: null,
+    ALL_TEAM_THREADS_READ: null,
+});
@@ -0,0 +1,147 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import * as Actions from 'actions/channel_categories';
+import {Client4} from 'client';
+import {General} from '../constants';
+
+import TestHelper from 'test/test_helper';
+import configureStore from 'test/test_store';
+
+describe('Actions.ChannelCategories', () => {
+    const userId = 'user1';
+    const teamId = 'team1';
+
+    const favoritesCategory = {id: 'favorites1', user_id: userId, team_id: teamId, type: 'favorites', display_name: 'Favorites', sorting: '', channel_ids: [], collapsed: false};
+    const channelsCategory = {id: 'channels1', user_id: userId, team_id: teamId, type: 'channels', display_name: 'Channels', sorting: '', channel_ids: ['channel1', 'channel2'], collapsed: false};
+    const dmsCategory = {id: 'dms1', user_id: userId, team_id: teamId, type: 'direct_messages', display_name: 'Direct Messages', sorting: '', channel_ids: ['dm1'], collapsed: false};
+    const customCategory = {id: 'custom1', user_id: userId, team_id: teamId, type: 'custom', display_name: 'Custom', sorting: '', channel_ids: ['channel3', 'dm2'], collapsed: false};
+
+    let store;
+
+    beforeAll(async () => {
+        await TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(async () => {
+        store = await configureStore({
+            entities: {
+                channelCategories: {
+                    byId: {
+                        favorites1: favoritesCategory,
+                        channels1: channelsCategory,
+                        dms1: dmsCategory,
+                        custom1: customCategory,
+                    },
+                    orderByTeam: {
+                        [teamId]: ['favorites1', 'custom1', 'channels1', 'dms1'],
+                    },
+                },
+                channels: {
+                    channels: {
+                        channel3: {id: 'channel3', team_id: teamId, type: General.OPEN_CHANNEL},
+                        dm2: {id: 'dm2', team_id: '', type: General.DM_CHANNEL},
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                },
+            },
+        });
+    });
+
+    afterAll(async () => {
+        await TestHelper.tearDown();
+    });
+
+    it('fetchMyCategories', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            get('').
+            reply(200, {categories: [favoritesCategory, channelsCategory], order: ['channels1', 'favorites1']});
+
+        await store.dispatch(Actions.fetchMyCategories(teamId));
+
+        const state = store.getState().entities.channelCategories;
+        assert.deepEqual(state.byId.channels1, channelsCategory);
+        assert.deepEqual(state.orderByTeam[teamId], ['channels1', 'favorites1']);
+    });
+
+    it('createCategory', async () => {
+        const newCategory = {id: 'custom2', user_id: userId, team_id: teamId, type: 'custom', display_name: 'New', sorting: '', channel_ids: ['channel1'], collapsed: false};
+
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            post('').
+            reply(201, newCategory);
+
+        const {data} = await store.dispatch(Actions.createCategory(teamId, 'New', ['channel1']));
+        assert.deepEqual(data, newCategory);
+
+        const state = store.getState().entities.channelCategories;
+        assert.deepEqual(state.byId.custom2, newCategory);
+        assert.deepEqual(state.byId.channels1.channel_ids, ['channel2']);
+        assert.deepEqual(state.orderByTeam[teamId], ['favorites1', 'custom2', 'custom1', 'channels1', 'dms1']);
+    });
+
+    it('renameCategory', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            put('').
+            reply(200, [{...customCategory, display_name: 'Renamed'}]);
+
+        await store.dispatch(Actions.renameCategory('custom1', 'Renamed'));
+
+        assert.equal(store.getState().entities.channelCategories.byId.custom1.display_name, 'Renamed');
+    });
+
+    it('setCategoryCollapsed should be reverted if the request fails', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            put('').
+            reply(400, {});
+
+        const promise = store.dispatch(Actions.setCategoryCollapsed('custom1', true));
+        assert.equal(store.getState().entities.channelCategories.byId.custom1.collapsed, true);
+
+        const {error} = await promise;
+        assert.ok(error);
+        assert.equal(store.getState().entities.channelCategories.byId.custom1.collapsed, false);
+    });
+
+    it('deleteCategory', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            delete('/custom1').
+            reply(200, {status: 'OK'});
+
+        await store.dispatch(Actions.deleteCategory('custom1'));
+
+        const state = store.getState().entities.channelCategories;
+        assert.equal(state.byId.custom1, undefined);
+        assert.deepEqual(state.byId.channels1.channel_ids, ['channel3', 'channel1', 'channel2']);
+        assert.deepEqual(state.byId.dms1.channel_ids, ['dm2', 'dm1']);
+        assert.deepEqual(state.orderByTeam[teamId], ['favorites1', 'channels1', 'dms1']);
+    });
+
+    it('moveChannelToCategory', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            put('').
+            reply(200, (uri, body) => body);
+
+        await store.dispatch(Actions.moveChannelToCategory('custom1', 'channel2', 1));
+
+        const state = store.getState().entities.channelCategories;
+        assert.deepEqual(state.byId.custom1.channel_ids, ['channel3', 'channel2', 'dm2']);
+        assert.equal(state.byId.custom1.sorting, 'manual');
+        assert.deepEqual(state.byId.channels1.channel_ids, ['channel1']);
+    });
+
+    it('moveCategory', async () => {
+        nock(Client4.getChannelCategoriesRoute(userId, teamId)).
+            put('/order').
+            reply(200, ['favorites1', 'channels1', 'dms1', 'custom1']);
+
+        await store.dispatch(Actions.moveCategory(teamId, 'custom1', 3));
+
+        assert.deepEqual(store.getState().entities.channelCategories.orderByTeam[teamId], ['favorites1', 'channels1', 'dms1', 'custom1']);
+    });
+});
@@ -0,0 +1,327 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Client4} from 'client';
+import {ChannelCategories, General} from '../constants';
+import {ChannelCategoryTypes} from 'action_types';
+import {getCategory, getCategoryIdsForTeam, getCategoryInTeamByType, getCategoryInTeamWithChannel, makeGetCategoriesForTeam} from 'selectors/entities/channel_categories';
+import {getAllChannels} from 'selectors/entities/channels';
+import {getCurrentUserId} from 'selectors/entities/users';
+
+import {ActionFunc, batchActions, DispatchFunc, GetStateFunc} from 'types/actions';
+import {CategorySorting, ChannelCategory} from 'types/channel_categories';
+
+import {logError} from './errors';
+import {forceLogoutIfNecessary} from './helpers';
+
+function insertWithoutDuplicates(items: string[], item: string, index: number) {
+    const result = items.filter((other) => other !== item);
+    result.splice(index, 0, item);
+    return result;
+}
+
+export function fetchMyCategories(teamId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let data;
+        try {
+            data = await Client4.getChannelCategories(currentUserId, teamId);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch(batchActions([
+            {
+                type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+                data: data.categories,
+            },
+            {
+                type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+                data: {
+                    teamId,
+                    order: data.order,
+                },
+            },
+        ]));
+
+        return {data: true};
+    };
+}
+
+export function fetchCategory(teamId: string, categoryId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let category;
+        try {
+            category = await Client4.getChannelCategory(currentUserId, teamId, categoryId);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: ChannelCategoryTypes.RECEIVED_CATEGORY,
+            data: category,
+        });
+
+        return {data: category};
+    };
+}
+
+// saveCategories updates the given categories in the store right away and then saves them to the server, putting them
+// back the way they were if that fails.
+function saveCategories(teamId: string, categories: ChannelCategory[]): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const currentUserId = getCurrentUserId(state);
+
+        const originalCategories = categories.map((category) => getCategory(state, category.id)!);
+
+        dispatch({
+            type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+            data: categories,
+        });
+
+        let updatedCategories;
+        try {
+            updatedCategories = await Client4.updateChannelCategories(currentUserId, teamId, categories);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch({
+                type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+                data: originalCategories,
+            });
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+            data: updatedCategories,
+        });
+
+        return {data: updatedCategories};
+    };
+}
+
+// createCategory creates a custom category containing the given channels. The channels are removed from whichever
+// categories they were in before, and the new category is placed after the favorites category.
+export function createCategory(teamId: string, displayName: string, channelIds: string[] = []): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let category: ChannelCategory;
+        try {
+            category = await Client4.createChannelCategory(currentUserId, teamId, {
+                user_id: currentUserId,
+                team_id: teamId,
+                type: ChannelCategories.CUSTOM,
+                display_name: displayName,
+                channel_ids: channelIds,
+            });
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        // The server moves the channels out of their old categories as well, so this only needs to happen locally
+        const state = getState();
+        const modifiedCategories = makeGetCategoriesForTeam()(state, teamId).
+            filter((other) => other.id !== category.id && other.channel_ids.some((channelId) => channelIds.includes(channelId))).
+            map((other) => ({
+                ...other,
+                channel_ids: other.channel_ids.filter((channelId) => !channelIds.includes(channelId)),
+            }));
+
+        const order = getCategoryIdsForTeam(state, teamId) || [];
+        const favoritesCategory = getCategoryInTeamByType(state, teamId, ChannelCategories.FAVORITES);
+        const newIndex = favoritesCategory ? order.indexOf(favoritesCategory.id) + 1 : 0;
+
+        dispatch(batchActions([
+            {
+                type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+                data: [category, ...modifiedCategories],
+            },
+            {
+                type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+                data: {
+                    teamId,
+                    order: insertWithoutDuplicates(order, category.id, newIndex),
+                },
+            },
+        ]));
+
+        return {data: category};
+    };
+}
+
+export function renameCategory(categoryId: string, displayName: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const category = getCategory(getState(), categoryId)!;
+
+        return dispatch(saveCategories(category.team_id, [{
+            ...category,
+            display_name: displayName,
+        }]));
+    };
+}
+
+export function setCategoryCollapsed(categoryId: string, collapsed: boolean): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const category = getCategory(getState(), categoryId)!;
+
+        return dispatch(saveCategories(category.team_id, [{
+            ...category,
+            collapsed,
+        }]));
+    };
+}
+
+export function setCategorySorting(categoryId: string, sorting: CategorySorting): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const category = getCategory(getState(), categoryId)!;
+
+        return dispatch(saveCategories(category.team_id, [{
+            ...category,
+            sorting,
+        }]));
+    };
+}
+
+// deleteCategory deletes a custom category. Its channels go back into the channels or direct messages category.
+export function deleteCategory(categoryId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const currentUserId = getCurrentUserId(state);
+        const category = getCategory(state, categoryId)!;
+
+        try {
+            await Client4.deleteChannelCategory(currentUserId, category.team_id, category.id);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        const channels = getAllChannels(state);
+        const channelsCategory = getCategoryInTeamByType(state, category.team_id, ChannelCategories.CHANNELS);
+        const directMessagesCategory = getCategoryInTeamByType(state, category.team_id, ChannelCategories.DIRECT_MESSAGES);
+
+        const channelIds: string[] = [];
+        const directChannelIds: string[] = [];
+        for (const channelId of category.channel_ids) {
+            const channel = channels[channelId];
+            if (channel && (channel.type === General.DM_CHANNEL || channel.type === General.GM_CHANNEL)) {
+                directChannelIds.push(channelId);
+            } else {
+                channelIds.push(channelId);
+            }
+        }
+
+        const modifiedCategories: ChannelCategory[] = [];
+        if (channelsCategory && channelIds.length > 0) {
+            modifiedCategories.push({
+                ...channelsCategory,
+                channel_ids: [...channelIds, ...channelsCategory.channel_ids],
+            });
+        }
+        if (directMessagesCategory && directChannelIds.length > 0) {
+            modifiedCategories.push({
+                ...directMessagesCategory,
+                channel_ids: [...directChannelIds, ...directMessagesCategory.channel_ids],
+            });
+        }
+
+        dispatch(batchActions([
+            {
+                type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+                data: modifiedCategories,
+            },
+            {
+                type: ChannelCategoryTypes.CATEGORY_DELETED,
+                data: category.id,
+            },
+        ]));
+
+        return {data: true};
+    };
+}
+
+// moveChannelToCategory moves a channel into a category, removing it from the category it was in before. If newIndex
+// is provided, the channel is placed at that position and the category is switched to manual sorting so that it stays
+// there.
+export function moveChannelToCategory(categoryId: string, channelId: string, newIndex?: number): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const category = getCategory(state, categoryId)!;
+        const sourceCategory = getCategoryInTeamWithChannel(state, category.team_id, channelId);
+
+        const index = typeof newIndex === 'undefined' ? category.channel_ids.length : newIndex;
+
+        const modifiedCategory: ChannelCategory = {
+            ...category,
+            channel_ids: insertWithoutDuplicates(category.channel_ids, channelId, index),
+        };
+        if (typeof newIndex !== 'undefined') {
+            modifiedCategory.sorting = ChannelCategories.SORTING_MANUAL;
+        }
+
+        const modifiedCategories = [modifiedCategory];
+        if (sourceCategory && sourceCategory.id !== category.id) {
+            modifiedCategories.push({
+                ...sourceCategory,
+                channel_ids: sourceCategory.channel_ids.filter((id) => id !== channelId),
+            });
+        }
+
+        return dispatch(saveCategories(category.team_id, modifiedCategories));
+    };
+}
+
+export function moveCategory(teamId: string, categoryId: string, newIndex: number): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const currentUserId = getCurrentUserId(state);
+        const originalOrder = getCategoryIdsForTeam(state, teamId) || [];
+        const newOrder = insertWithoutDuplicates(originalOrder, categoryId, newIndex);
+
+        dispatch({
+            type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+            data: {
+                teamId,
+                order: newOrder,
+            },
+        });
+
+        let order;
+        try {
+            order = await Client4.updateChannelCategoryOrder(currentUserId, teamId, newOrder);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch({
+                type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+                data: {
+                    teamId,
+                    order: originalOrder,
+                },
+            });
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+            data: {
+                teamId,
+                order,
+            },
+        });
+
+        return {data: order};
+    };
+}
@@ -1,6 +1,6 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
-import {Client4} from 'client';
+import {Client4, isRequestCancelled} from 'client';
 import {General, Preferences} from '../constants';
 import {ChannelTypes, PreferenceTypes, UserTypes} from 'action_types';
 import {savePreferences, deletePreferences} from './preferences';
@@ -10,12 +10,12 @@ import {getCurrentTeamId} from 'selectors/entities/teams';
 
 import {Action, ActionFunc, batchActions, DispatchFunc, GetStateFunc} from 'types/actions';
 
-import {Channel, ChannelNotifyProps, ChannelMembership} from 'types/channels';
+import {Channel, ChannelNotifyProps, ChannelMembership, ChannelsWithTotalCount} from 'types/channels';
 
 import {PreferenceType} from 'types/preferences';
 
 import {logError} from './errors';
-import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
+import {bindClientFunc, cancelPreviousRequest, finishRequest, forceLogoutIfNecessary} from './helpers';
 import {getMissingProfilesByIds} from './users';
 import {loadRolesIfNeeded} from './roles';
 import {UserProfile} from 'types/users';
@@ -829,7 +829,7 @@ export function getAllChannelsWithCount(page = 0, perPage: number = General.CHAN
 
         let payload;
         try {
-            payload = await Client4.getAllChannels(page, perPage, notAssociatedToGroup, excludeDefaultChannels, true);
+            payload = await Client4.getAllChannels(page, perPage, notAssociatedToGroup, excludeDefaultChannels, true) as ChannelsWithTotalCount;
         } catch (error) {
             forceLogoutIfNecessary(error, dispatch, getState);
             dispatch(batchActions([
@@ -887,20 +887,29 @@ export function getAllChannels(page = 0, perPage: number = General.CHANNELS_CHUN
     };
 }
 
-export function autocompleteChannels(teamId: string, term: string): ActionFunc {
+// autocompleteChannels cancels the previous request made with the same requestKey, so separate autocompletes should
+// each use their own key.
+export function autocompleteChannels(teamId: string, term: string, requestKey = ''): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         dispatch({type: ChannelTypes.GET_CHANNELS_REQUEST, data: null}, getState);
 
         let channels;
+        const requestOptions = cancelPreviousRequest('autocompleteChannels', requestKey);
         try {
-            channels = await Client4.autocompleteChannels(teamId, term);
+            channels = await Client4.autocompleteChannels(teamId, term, requestOptions);
         } catch (error) {
+            if (isRequestCancelled(error)) {
+                return {error};
+            }
+
             forceLogoutIfNecessary(error, dispatch, getState);
             dispatch(batchActions([
                 {type: ChannelTypes.GET_CHANNELS_FAILURE, error},
                 logError(error),
             ]), getState);
             return {error};
+        } finally {
+            finishRequest('autocompleteChannels', requestOptions, requestKey);
         }
 
         dispatch(batchActions([
@@ -918,20 +927,27 @@ export function autocompleteChannels(teamId: string, term: string): ActionFunc {
     };
 }
 
-export function autocompleteChannelsForSearch(teamId: string, term: string): ActionFunc {
+export function autocompleteChannelsForSearch(teamId: string, term: string, requestKey = ''): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         dispatch({type: ChannelTypes.GET_CHANNELS_REQUEST, data: null}, getState);
 
         let channels;
+        const requestOptions = cancelPreviousRequest('autocompleteChannelsForSearch', requestKey);
         try {
-            channels = await Client4.autocompleteChannelsForSearch(teamId, term);
+            channels = await Client4.autocompleteChannelsForSearch(teamId, term, requestOptions);
         } catch (error) {
+            if (isRequestCancelled(error)) {
+                return {error};
+            }
+
             forceLogoutIfNecessary(error, dispatch, getState);
             dispatch(batchActions([
                 {type: ChannelTypes.GET_CHANNELS_FAILURE, error},
                 logError(error),
             ]), getState);
             return {error};
+        } finally {
+            finishRequest('autocompleteChannelsForSearch', requestOptions, requestKey);
         }
 
         dispatch(batchActions([
@@ -0,0 +1,163 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import * as Actions from 'actions/drafts';
+import {Client4} from 'client';
+import {Posts} from '../constants';
+
+import TestHelper from 'test/test_helper';
+import configureStore from 'test/test_store';
+
+describe('Actions.Drafts', () => {
+    const userId = 'user1';
+    const teamId = 'team1';
+
+    const channelDraft = {
+        create_at: 100,
+        update_at: 100,
+        user_id: userId,
+        channel_id: 'channel1',
+        root_id: '',
+        message: 'channel',
+        file_ids: [],
+        props: {},
+    };
+
+    let store;
+
+    beforeAll(async () => {
+        await TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(async () => {
+        store = await configureStore({
+            entities: {
+                drafts: {
+                    drafts: {
+                        channel1: {'': channelDraft},
+                    },
+                },
+                general: {
+                    config: {
+                        AllowSyncedDrafts: 'true',
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                },
+            },
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    afterAll(async () => {
+        await TestHelper.tearDown();
+    });
+
+    it('saveDraft should wait for changes to stop before saving', async () => {
+        jest.useFakeTimers();
+
+        await store.dispatch(Actions.saveDraft('channel1', 'root1', {message: 'first'}));
+        await store.dispatch(Actions.saveDraft('channel1', 'root1', {message: 'second'}));
+
+        assert.equal(store.getState().entities.drafts.drafts.channel1.root1, undefined);
+
+        jest.advanceTimersByTime(Posts.DRAFT_SAVE_DELAY);
+
+        const draft = store.getState().entities.drafts.drafts.channel1.root1;
+        assert.equal(draft.message, 'second');
+        assert.equal(draft.user_id, userId);
+        assert.equal(draft.create_at, draft.update_at);
+    });
+
+    it('saveDraft should keep the original creation time', async () => {
+        jest.useFakeTimers();
+
+        await store.dispatch(Actions.saveDraft('channel1', '', {message: 'updated'}));
+        jest.advanceTimersByTime(Posts.DRAFT_SAVE_DELAY);
+
+        const draft = store.getState().entities.drafts.drafts.channel1[''];
+        assert.equal(draft.message, 'updated');
+        assert.equal(draft.create_at, channelDraft.create_at);
+        assert.ok(draft.update_at > channelDraft.update_at);
+    });
+
+    it('saveDraft should remove empty drafts', async () => {
+        jest.useFakeTimers();
+
+        nock(Client4.getUserRoute(userId)).
+            delete('/channels/channel1/drafts').
+            reply(200, {status: 'OK'});
+
+        await store.dispatch(Actions.saveDraft('channel1', '', {message: '  '}));
+        jest.advanceTimersByTime(Posts.DRAFT_SAVE_DELAY);
+
+        assert.equal(store.getState().entities.drafts.drafts.channel1, undefined);
+    });
+
+    it('flushDrafts', async () => {
+        jest.useFakeTimers();
+
+        await store.dispatch(Actions.saveDraft('channel2', '', {message: 'pending'}));
+        await store.dispatch(Actions.flushDrafts());
+
+        assert.equal(store.getState().entities.drafts.drafts.channel2[''].message, 'pending');
+    });
+
+    it('removeDraft should cancel changes that have not been saved', async () => {
+        jest.useFakeTimers();
+
+        nock(Client4.getUserRoute(userId)).
+            delete('/channels/channel1/drafts').
+            reply(200, {status: 'OK'});
+
+        await store.dispatch(Actions.saveDraft('channel1', '', {message: 'updated'}));
+        const result = await store.dispatch(Actions.removeDraft('channel1'));
+        jest.advanceTimersByTime(Posts.DRAFT_SAVE_DELAY);
+
+        assert.equal(result.data, true);
+        assert.equal(store.getState().entities.drafts.drafts.channel1, undefined);
+    });
+
+    it('removeDraft without a draft', async () => {
+        const result = await store.dispatch(Actions.removeDraft('channel2'));
+
+        assert.equal(result.data, false);
+    });
+
+    it('getDrafts', async () => {
+        const threadDraft = {...channelDraft, root_id: 'root1', message: 'thread', update_at: 200};
+        const olderDraft = {...channelDraft, message: 'older', update_at: 50};
+
+        nock(Client4.getUserRoute(userId)).
+            get(`/teams/${teamId}/drafts`).
+            reply(200, [olderDraft, threadDraft]);
+
+        const result = await store.dispatch(Actions.getDrafts(teamId));
+
+        assert.deepEqual(result.data, [olderDraft, threadDraft]);
+        assert.deepEqual(store.getState().entities.drafts.drafts.channel1, {'': channelDraft, root1: threadDraft});
+    });
+
+    it('getDrafts when drafts are not synced', async () => {
+        store = await configureStore({
+            entities: {
+                general: {
+                    config: {
+                        AllowSyncedDrafts: 'false',
+                    },
+                },
+            },
+        });
+
+        const result = await store.dispatch(Actions.getDrafts(teamId));
+
+        assert.deepEqual(result.data, []);
+    });
+});
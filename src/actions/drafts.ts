@@ -0,0 +1,185 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Client4} from 'client';
+import {Posts} from '../constants';
+import {DraftTypes} from 'action_types';
+import {getDraft} from 'selectors/entities/drafts';
+import {getConfig} from 'selectors/entities/general';
+import {getCurrentUserId} from 'selectors/entities/users';
+
+import {ActionFunc, DispatchFunc, GenericAction, GetStateFunc} from 'types/actions';
+import {Draft, DraftContents} from 'types/drafts';
+import {GlobalState} from 'types/store';
+import {Dictionary} from 'types/utilities';
+
+import {logError} from './errors';
+import {forceLogoutIfNecessary} from './helpers';
+
+type PendingDraft = {
+    timeout: NodeJS.Timeout;
+    save: () => void;
+};
+
+// pendingDrafts contains the drafts waiting to be saved by saveDraft, keyed by channel and root ID
+const pendingDrafts: Dictionary<PendingDraft> = {};
+
+function getDraftKey(channelId: string, rootId: string) {
+    return `${channelId}:${rootId}`;
+}
+
+function cancelPendingDraft(channelId: string, rootId: string) {
+    const key = getDraftKey(channelId, rootId);
+
+    const pending = pendingDrafts[key];
+    if (pending) {
+        clearTimeout(pending.timeout);
+        Reflect.deleteProperty(pendingDrafts, key);
+    }
+}
+
+function isDraftSyncEnabled(state: GlobalState) {
+    return getConfig(state).AllowSyncedDrafts === 'true';
+}
+
+function isDraftEmpty(contents: DraftContents) {
+    return !(contents.message && contents.message.trim()) && !(contents.file_ids && contents.file_ids.length);
+}
+
+function setDraft(channelId: string, rootId: string, contents: DraftContents): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const existing = getDraft(state, channelId, rootId);
+
+        const timestamp = Date.now();
+        const draft: Draft = {
+            create_at: existing ? existing.create_at : timestamp,
+            update_at: timestamp,
+            user_id: getCurrentUserId(state),
+            channel_id: channelId,
+            root_id: rootId,
+            message: contents.message || '',
+            file_ids: contents.file_ids || [],
+            props: contents.props || {},
+        };
+
+        const action: GenericAction = {
+            type: DraftTypes.SET_DRAFT,
+            data: draft,
+        };
+
+        // The draft is kept locally either way, so there's nothing to undo if it can't be saved to the server
+        if (isDraftSyncEnabled(state)) {
+            action.meta = {
+                offline: {
+                    effect: () => Client4.upsertDraft(draft),
+                    commit: {type: 'do_nothing'}, // redux-offline always needs to dispatch something on commit
+                    rollback: {type: 'do_nothing'},
+                },
+            };
+        }
+
+        dispatch(action);
+
+        return {data: draft};
+    };
+}
+
+// saveDraft saves the contents of the message box for a channel or thread once they stop changing for a moment. Saving
+// an empty message without files removes the draft instead.
+export function saveDraft(channelId: string, rootId: string, contents: DraftContents): ActionFunc {
+    return async (dispatch: DispatchFunc) => {
+        cancelPendingDraft(channelId, rootId);
+
+        const save = () => {
+            cancelPendingDraft(channelId, rootId);
+
+            if (isDraftEmpty(contents)) {
+                dispatch(removeDraft(channelId, rootId));
+            } else {
+                dispatch(setDraft(channelId, rootId, contents));
+            }
+        };
+
+        pendingDrafts[getDraftKey(channelId, rootId)] = {
+            timeout: setTimeout(save, Posts.DRAFT_SAVE_DELAY),
+            save,
+        };
+
+        return {data: true};
+    };
+}
+
+// flushDrafts immediately saves any drafts that are waiting to be saved, such as before the app is closed
+export function flushDrafts(): ActionFunc {
+    return async () => {
+        for (const pending of Object.values(pendingDrafts)) {
+            pending.save();
+        }
+
+        return {data: true};
+    };
+}
+
+// removeDraft removes the draft for a channel or thread, including any changes to it that haven't been saved yet. The
+// server removes drafts by itself when a post is created, so deleteOnServer can be false in that case.
+export function removeDraft(channelId: string, rootId = '', deleteOnServer = true): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        cancelPendingDraft(channelId, rootId);
+
+        const state = getState();
+        if (!getDraft(state, channelId, rootId)) {
+            return {data: false};
+        }
+
+        const action: GenericAction = {
+            type: DraftTypes.REMOVE_DRAFT,
+            data: {
+                channel_id: channelId,
+                root_id: rootId,
+            },
+        };
+
+        if (deleteOnServer && isDraftSyncEnabled(state)) {
+            const currentUserId = getCurrentUserId(state);
+
+            action.meta = {
+                offline: {
+                    effect: () => Client4.deleteDraft(currentUserId, channelId, rootId),
+                    commit: {type: 'do_nothing'}, // redux-offline always needs to dispatch something on commit
+                    rollback: {type: 'do_nothing'},
+                },
+            };
+        }
+
+        dispatch(action);
+
+        return {data: true};
+    };
+}
+
+// getDrafts loads the current user's drafts for a team from the server when drafts are synced between devices. Drafts
+// that have been changed more recently on this device are kept.
+export function getDrafts(teamId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        if (!isDraftSyncEnabled(state)) {
+            return {data: []};
+        }
+
+        let drafts;
+        try {
+            drafts = await Client4.getUserDrafts(getCurrentUserId(state), teamId);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: DraftTypes.RECEIVED_DRAFTS,
+            data: drafts,
+        });
+
+        return {data: drafts};
+    };
+}
@@ -10,7 +10,7 @@ import {parseNeededCustomEmojisFromText} from 'utils/emoji_utils';
 import {GetStateFunc, DispatchFunc, ActionFunc, ActionResult} from 'types/actions';
 
 import {logError} from './errors';
-import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
+import {bindClientFunc, bindPaginatedClientFunc, forceLogoutIfNecessary} from './helpers';
 import {SystemEmoji, CustomEmoji} from 'types/emojis';
 import {Dictionary} from 'types/utilities';
 export let systemEmojis: Map<string, SystemEmoji> = new Map();
@@ -152,32 +152,15 @@ export function getAllCustomEmojis(perPage: number = General.PAGE_SIZE_MAXIMUM):
             data: null,
         });
 
-        let hasMore = true;
-        let page = 0;
-        const allEmojis = [];
-
-        do {
-            try {
-                let emojis = [];
-                emojis = await Client4.getCustomEmojis(page, perPage, Emoji.SORT_BY_NAME); // eslint-disable-line no-await-in-loop
-                if (emojis.length < perPage) {
-                    hasMore = false;
-                } else {
-                    page += 1;
-                }
-                allEmojis.push(...emojis);
-            } catch (error) {
-                forceLogoutIfNecessary(error, dispatch, getState);
+        const result = await bindPaginatedClientFunc({
+            fetchPage: (page, pageSize) => Client4.getCustomEmojis(page, pageSize, Emoji.SORT_BY_NAME),
+            onPage: EmojiTypes.RECEIVED_CUSTOM_EMOJIS,
+            options: {perPage},
+        })(dispatch, getState);
 
-                dispatch(logError(error));
-                return {error: true};
-            }
-        } while (hasMore);
-
-        dispatch({
-            type: EmojiTypes.RECEIVED_CUSTOM_EMOJIS,
-            data: allEmojis,
-        });
+        if ('error' in result) {
+            return {error: true};
+        }
 
         return {data: true};
     };
@@ -6,6 +6,7 @@ import assert from 'assert';
 import nock from 'nock';
 
 import * as Actions from 'actions/files';
+import {createPost} from 'actions/posts';
 import {Client4} from 'client';
 import {RequestStatus} from '../constants';
 import TestHelper from 'test/test_helper';
@@ -56,6 +57,126 @@ describe('Actions.Files', () => {
         assert.ok(file, 'Could not find uploaded file.');
     });
 
+    it('cancelUploadFile', async () => {
+        const {basicChannel} = TestHelper;
+        const clientId = TestHelper.generateId();
+
+        nock(Client4.getFilesRoute()).
+            post('').
+            delay(1000).
+            reply(201, {file_infos: [], client_ids: []});
+
+        const upload = Actions.uploadFile(basicChannel.id, '', [clientId], new FormData(), '')(store.dispatch, store.getState);
+
+        assert.equal(store.getState().entities.files.fileUploads[clientId].status, 'uploading');
+
+        await Actions.cancelUploadFile(clientId)(store.dispatch, store.getState);
+
+        assert.equal(store.getState().entities.files.fileUploads[clientId], null);
+        assert.equal(store.getState().requests.files.uploadFiles.status, RequestStatus.CANCELLED);
+
+        await upload;
+
+        assert.equal(store.getState().entities.files.fileUploads[clientId], null);
+    });
+
+    it('uploadFileInChunks', async () => {
+        const {basicChannel} = TestHelper;
+        const clientId = TestHelper.generateId();
+        const file = {name: 'test.txt', size: 10, slice: (start, end) => '0123456789'.slice(start, end)};
+
+        nock(Client4.getBaseRoute()).
+            post('/uploads').
+            reply(201, {id: 'upload1', channel_id: basicChannel.id, filename: 'test.txt', file_size: 10, file_offset: 0});
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload1', '012345').
+            reply(204);
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload1', '6789').
+            reply(500, {message: 'error'});
+
+        await Actions.uploadFileInChunks(basicChannel.id, '', clientId, file, 6)(store.dispatch, store.getState);
+
+        let state = store.getState();
+        assert.equal(state.entities.files.fileUploads[clientId].status, 'failed');
+        assert.deepEqual(state.entities.files.chunkedUploads[clientId], {
+            clientId,
+            channelId: basicChannel.id,
+            rootId: '',
+            uploadId: 'upload1',
+            filename: 'test.txt',
+            fileSize: 10,
+            fileOffset: 6,
+        });
+
+        const fileId = TestHelper.generateId();
+
+        nock(Client4.getBaseRoute()).
+            get('/uploads/upload1').
+            reply(200, {id: 'upload1', channel_id: basicChannel.id, filename: 'test.txt', file_size: 10, file_offset: 6});
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload1', '6789').
+            reply(201, {id: fileId, name: 'test.txt', size: 10});
+
+        await Actions.resumeFileUploads(() => file)(store.dispatch, store.getState);
+
+        state = store.getState();
+        assert.equal(state.entities.files.files[fileId].clientId, clientId);
+        assert.equal(state.entities.files.fileUploads[clientId], null);
+        assert.equal(state.entities.files.chunkedUploads[clientId], null);
+    });
+
+    it('resumeFileUploads', async () => {
+        const {basicChannel} = TestHelper;
+        const clientId = TestHelper.generateId();
+        const file = {name: 'test.txt', size: 10, slice: (start, end) => '0123456789'.slice(start, end)};
+
+        nock(Client4.getBaseRoute()).
+            post('/uploads').
+            reply(201, {id: 'upload2', channel_id: basicChannel.id, filename: 'test.txt', file_size: 10, file_offset: 0});
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload2', '01234').
+            reply(204);
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload2', '56789').
+            replyWithError('connection reset');
+
+        await Actions.uploadFileInChunks(basicChannel.id, '', clientId, file, 5)(store.dispatch, store.getState);
+
+        assert.equal(store.getState().entities.files.chunkedUploads[clientId].fileOffset, 5);
+
+        // The server received part of the last chunk before the connection dropped
+        const fileId = TestHelper.generateId();
+        nock(Client4.getBaseRoute()).
+            get('/uploads/upload2').
+            reply(200, {id: 'upload2', channel_id: basicChannel.id, filename: 'test.txt', file_size: 10, file_offset: 7});
+        nock(Client4.getBaseRoute()).
+            post('/uploads/upload2', '789').
+            reply(201, {id: fileId, name: 'test.txt', size: 10});
+
+        const getFile = jest.fn(() => file);
+        await Actions.resumeFileUploads(getFile)(store.dispatch, store.getState);
+
+        expect(getFile).toHaveBeenCalledWith(expect.objectContaining({clientId, uploadId: 'upload2'}));
+
+        let state = store.getState();
+        assert.equal(state.entities.files.files[fileId].clientId, clientId);
+        assert.equal(state.entities.files.chunkedUploads[clientId], null);
+
+        // The uploaded file can then be attached to a post like any other
+        const post = TestHelper.fakePost(basicChannel.id);
+        nock(Client4.getBaseRoute()).
+            post('/posts').
+            reply(201, {...post, id: TestHelper.generateId(), file_ids: [fileId]});
+
+        await store.dispatch(createPost(post, [state.entities.files.files[fileId]]));
+
+        state = store.getState();
+        const postWithFile = Object.values(state.entities.posts.posts).find((p) => p.file_ids && p.file_ids.includes(fileId));
+        assert.ok(postWithFile);
+        assert.deepEqual(state.entities.files.fileIdsByPostId[postWithFile.id], [fileId]);
+    });
+
     it('getFilesForPost', async () => {
         const {basicClient4, basicChannel} = TestHelper;
         const testFileName = 'test.png';
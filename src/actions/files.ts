@@ -1,13 +1,26 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import {Client4} from 'client';
+import {isRequestCancelled} from 'client/client4';
 import {FileTypes} from 'action_types';
 
-import {Action, batchActions, DispatchFunc, GetStateFunc, ActionFunc} from 'types/actions';
+import {Action, ActionResult, batchActions, DispatchFunc, GetStateFunc, ActionFunc} from 'types/actions';
+import {UploadProgress} from 'types/client4';
+import {Dictionary} from 'types/utilities';
 
 import {logError} from './errors';
 import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
-import {FileUploadResponse} from 'types/files';
+import {ChunkedUpload, FileInfo, FileUploadResponse, UploadableFile, UploadSession} from 'types/files';
+
+// DEFAULT_CHUNK_SIZE is the size of each part of a file sent by uploadFileInChunks
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// uploadControllers maps the client ID of each file being uploaded to the controller used to cancel its request
+const uploadControllers: Dictionary<AbortController> = {};
+
+// chunkedUploadsInProgress contains the client IDs of the files being uploaded in parts by this client so that they
+// aren't resumed twice
+const chunkedUploadsInProgress: Dictionary<boolean> = {};
 
 export function getFilesForPost(postId: string): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
@@ -31,26 +44,33 @@ export function getFilesForPost(postId: string): ActionFunc {
     };
 }
 
-export function uploadFile(channelId: string, rootId: string, clientIds: Array<string>, fileFormData: File, formBoundary: string): ActionFunc {
+// uploadFile uploads files for a post. When reportProgress is true, the progress of the upload is stored as it's sent,
+// which requires XMLHttpRequest.
+export function uploadFile(channelId: string, rootId: string, clientIds: Array<string>, fileFormData: File, formBoundary: string, reportProgress = false): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
-        dispatch({type: FileTypes.UPLOAD_FILES_REQUEST, data: {}}, getState);
+        dispatch({type: FileTypes.UPLOAD_FILES_REQUEST, data: {}, clientIds, channelId, rootId}, getState);
+
+        const signal = createUploadSignal(clientIds);
+
+        let onProgress;
+        if (reportProgress) {
+            onProgress = ({loaded, total}: UploadProgress) => {
+                dispatch({type: FileTypes.UPLOAD_FILES_PROGRESS, clientIds, loaded, total}, getState);
+            };
+        }
 
         let files: FileUploadResponse;
         try {
-            files = await Client4.uploadFile(fileFormData, formBoundary);
+            files = await Client4.uploadFile(fileFormData, formBoundary, {signal, onProgress});
         } catch (error) {
-            forceLogoutIfNecessary(error, dispatch, getState);
-
-            const failure = {
-                type: FileTypes.UPLOAD_FILES_FAILURE,
-                clientIds,
-                channelId,
-                rootId,
-                error,
-            };
+            return handleUploadError(error, clientIds, channelId, rootId, dispatch, getState);
+        } finally {
+            forgetUploadControllers(clientIds, signal);
+        }
 
-            dispatch(batchActions([failure, logError(error)]), getState);
-            return {error};
+        if (signal && signal.aborted) {
+            // The upload was cancelled after the server had already received it
+            return {data: files};
         }
 
         const data = files.file_infos.map((file, index) => {
@@ -69,6 +89,7 @@ export function uploadFile(channelId: string, rootId: string, clientIds: Array<s
             },
             {
                 type: FileTypes.UPLOAD_FILES_SUCCESS,
+                clientIds,
             },
         ]), getState);
 
@@ -76,6 +97,236 @@ export function uploadFile(channelId: string, rootId: string, clientIds: Array<s
     };
 }
 
+function createUploadSignal(clientIds: string[]) {
+    if (typeof AbortController === 'undefined') {
+        return undefined; // eslint-disable-line no-undefined
+    }
+
+    const controller = new AbortController();
+    for (const clientId of clientIds) {
+        uploadControllers[clientId] = controller;
+    }
+
+    return controller.signal;
+}
+
+function forgetUploadControllers(clientIds: string[], signal?: AbortSignal) {
+    for (const clientId of clientIds) {
+        const controller = uploadControllers[clientId];
+        if (controller && controller.signal === signal) {
+            Reflect.deleteProperty(uploadControllers, clientId);
+        }
+    }
+}
+
+// cancelUploadFile stops uploading the file with the given client ID and removes it from the store. Since files uploaded
+// in the same request can't be cancelled separately, any other files in that request are cancelled as well. This can
+// also be used to dismiss a file that failed to upload.
+export function cancelUploadFile(clientId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        let clientIds = [clientId];
+
+        const controller = uploadControllers[clientId];
+        if (controller) {
+            clientIds = Object.keys(uploadControllers).filter((id) => uploadControllers[id] === controller);
+            clientIds.forEach((id) => Reflect.deleteProperty(uploadControllers, id));
+
+            controller.abort();
+        }
+
+        dispatch({type: FileTypes.UPLOAD_FILES_CANCEL, clientIds}, getState);
+
+        return {data: true};
+    };
+}
+
+function handleUploadError(error: any, clientIds: string[], channelId: string, rootId: string, dispatch: DispatchFunc, getState: GetStateFunc) {
+    if (isRequestCancelled(error)) {
+        // cancelUploadFile has already removed the upload from the store
+        return {error};
+    }
+
+    forceLogoutIfNecessary(error, dispatch, getState);
+
+    const failure = {
+        type: FileTypes.UPLOAD_FILES_FAILURE,
+        clientIds,
+        channelId,
+        rootId,
+        error,
+    };
+
+    dispatch(batchActions([failure, logError(error)]), getState);
+    return {error};
+}
+
+// uploadFileInChunks uploads a file in parts using an upload session. The progress of the upload is stored so that,
+// if it fails or the app is restarted, resumeFileUpload can continue it from the last part received by the server.
+// The progress of each part is also stored as it's sent when reportProgress is true.
+export function uploadFileInChunks(channelId: string, rootId: string, clientId: string, file: UploadableFile, chunkSize = DEFAULT_CHUNK_SIZE, reportProgress = false): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const clientIds = [clientId];
+        dispatch({type: FileTypes.UPLOAD_FILES_REQUEST, data: {}, clientIds, channelId, rootId}, getState);
+
+        let session: UploadSession;
+        try {
+            session = await Client4.createUploadSession({
+                channel_id: channelId,
+                filename: file.name,
+                file_size: file.size,
+            });
+        } catch (error) {
+            return handleUploadError(error, clientIds, channelId, rootId, dispatch, getState);
+        }
+
+        const upload: ChunkedUpload = {
+            clientId,
+            channelId,
+            rootId,
+            uploadId: session.id,
+            filename: session.filename,
+            fileSize: session.file_size,
+            fileOffset: session.file_offset,
+        };
+
+        dispatch({type: FileTypes.RECEIVED_CHUNKED_UPLOAD, data: upload}, getState);
+
+        return sendChunks(upload, file, chunkSize, reportProgress, dispatch, getState);
+    };
+}
+
+// resumeFileUpload continues a stored upload started by uploadFileInChunks. The file must be provided again since it
+// can't be stored with the upload.
+export function resumeFileUpload(clientId: string, file: UploadableFile, chunkSize = DEFAULT_CHUNK_SIZE, reportProgress = false): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const upload = getState().entities.files.chunkedUploads[clientId];
+        if (!upload || chunkedUploadsInProgress[clientId]) {
+            return {data: false};
+        }
+
+        const {channelId, rootId} = upload;
+        const clientIds = [clientId];
+        dispatch({type: FileTypes.UPLOAD_FILES_REQUEST, data: {}, clientIds, channelId, rootId}, getState);
+
+        // The server knows how much of the file it received, even if the response for the last part was lost
+        let session: UploadSession;
+        try {
+            session = await Client4.getUploadSession(upload.uploadId);
+        } catch (error) {
+            if (error.status_code === 404) {
+                // The session has expired, so the file has to be uploaded again from the start
+                dispatch({type: FileTypes.REMOVED_CHUNKED_UPLOAD, data: {clientId}}, getState);
+            }
+
+            return handleUploadError(error, clientIds, channelId, rootId, dispatch, getState);
+        }
+
+        const resumed = {
+            ...upload,
+            fileOffset: session.file_offset,
+        };
+
+        dispatch({type: FileTypes.RECEIVED_CHUNKED_UPLOAD, data: resumed}, getState);
+
+        return sendChunks(resumed, file, chunkSize, reportProgress, dispatch, getState);
+    };
+}
+
+// resumeFileUploads resumes every stored upload that isn't already in progress. Nothing calls it automatically since
+// only the app knows where to find each file again, so apps should dispatch it once the store has been rehydrated and
+// whenever the websocket reconnects. getFile should return the file for each upload or null if it's no longer
+// available.
+export function resumeFileUploads(getFile: (upload: ChunkedUpload) => UploadableFile | null, chunkSize = DEFAULT_CHUNK_SIZE, reportProgress = false): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const uploads = Object.values(getState().entities.files.chunkedUploads).filter((upload) => !chunkedUploadsInProgress[upload.clientId]);
+
+        await Promise.all(uploads.map((upload) => {
+            const file = getFile(upload);
+            if (!file) {
+                return null;
+            }
+
+            return dispatch(resumeFileUpload(upload.clientId, file, chunkSize, reportProgress));
+        }));
+
+        return {data: true};
+    };
+}
+
+async function sendChunks(upload: ChunkedUpload, file: UploadableFile, chunkSize: number, reportProgress: boolean, dispatch: DispatchFunc, getState: GetStateFunc): Promise<ActionResult> {
+    const {clientId, channelId, rootId, uploadId, fileSize} = upload;
+    const clientIds = [clientId];
+
+    const signal = createUploadSignal(clientIds);
+    chunkedUploadsInProgress[clientId] = true;
+
+    let fileInfo: FileInfo | null = null;
+    let fileOffset = upload.fileOffset;
+    try {
+        // Files are always sent in at least one part so that the server can finish empty uploads
+        do {
+            const start = fileOffset;
+            const end = Math.min(start + chunkSize, fileSize);
+
+            let onProgress;
+            if (reportProgress) {
+                onProgress = ({loaded}: UploadProgress) => {
+                    dispatch({type: FileTypes.UPLOAD_FILES_PROGRESS, clientIds, loaded: start + loaded, total: fileSize}, getState);
+                };
+            }
+
+            fileInfo = await Client4.uploadData(uploadId, file.slice(start, end), {signal, onProgress}); // eslint-disable-line no-await-in-loop
+            fileOffset = end;
+
+            if (!fileInfo) {
+                dispatch(batchActions([
+                    {type: FileTypes.RECEIVED_CHUNKED_UPLOAD, data: {...upload, fileOffset}},
+                    {type: FileTypes.UPLOAD_FILES_PROGRESS, clientIds, loaded: fileOffset, total: fileSize},
+                ]), getState);
+            }
+        } while (!fileInfo && fileOffset < fileSize);
+    } catch (error) {
+        return handleUploadError(error, clientIds, channelId, rootId, dispatch, getState);
+    } finally {
+        forgetUploadControllers(clientIds, signal);
+        Reflect.deleteProperty(chunkedUploadsInProgress, clientId);
+    }
+
+    if (!fileInfo) {
+        const error = new Error('The server did not return the uploaded file.');
+        return handleUploadError(error, clientIds, channelId, rootId, dispatch, getState);
+    }
+
+    const files: FileUploadResponse = {
+        file_infos: [fileInfo],
+        client_ids: clientIds,
+    };
+
+    if (signal && signal.aborted) {
+        // The upload was cancelled after the server had already received it
+        return {data: files};
+    }
+
+    dispatch(batchActions([
+        {
+            type: FileTypes.RECEIVED_UPLOAD_FILES,
+            data: [{...fileInfo, clientId}],
+            channelId,
+            rootId,
+        },
+        {
+            type: FileTypes.UPLOAD_FILES_SUCCESS,
+            clientIds,
+        },
+        {
+            type: FileTypes.REMOVED_CHUNKED_UPLOAD,
+            data: {clientId},
+        },
+    ]), getState);
+
+    return {data: files};
+}
+
 export function getFilePublicLink(fileId: string): ActionFunc {
     return bindClientFunc({
         clientFunc: Client4.getFilePublicLink,
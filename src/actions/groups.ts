@@ -197,8 +197,7 @@ export function getAllGroupsAssociatedToTeam(teamID: string): ActionFunc {
     return bindClientFunc({
         clientFunc: async (param1) => {
             const result = await Client4.getAllGroupsAssociatedToTeam(param1);
-            result.teamID = param1;
-            return result;
+            return {...result, teamID: param1};
         },
         onRequest: GroupTypes.GET_ALL_GROUPS_ASSOCIATED_TO_TEAM_REQUEST,
         onSuccess: [GroupTypes.RECEIVED_ALL_GROUPS_ASSOCIATED_TO_TEAM, GroupTypes.GET_ALL_GROUPS_ASSOCIATED_TO_TEAM_SUCCESS],
@@ -213,8 +212,7 @@ export function getAllGroupsAssociatedToChannel(channelID: string): ActionFunc {
     return bindClientFunc({
         clientFunc: async (param1) => {
             const result = await Client4.getAllGroupsAssociatedToChannel(param1);
-            result.channelID = param1;
-            return result;
+            return {...result, channelID: param1};
         },
         onRequest: GroupTypes.GET_ALL_GROUPS_ASSOCIATED_TO_CHANNEL_REQUEST,
         onSuccess: [GroupTypes.RECEIVED_ALL_GROUPS_ASSOCIATED_TO_CHANNEL, GroupTypes.GET_ALL_GROUPS_ASSOCIATED_TO_CHANNEL_SUCCESS],
@@ -4,7 +4,7 @@
 import assert from 'assert';
 
 import {UserTypes} from 'action_types';
-import {forceLogoutIfNecessary} from 'actions/helpers';
+import {bindPaginatedClientFunc, cancelPreviousRequest, finishRequest, forceLogoutIfNecessary} from 'actions/helpers';
 import {Client4} from 'client';
 import {ClientError} from 'client/client4';
 import configureStore, {mockDispatch} from 'test/test_store';
@@ -126,4 +126,87 @@ describe('Actions.Helpers', () => {
             assert.deepEqual(dispatch.actions, []);
         });
     });
+
+    describe('cancelPreviousRequest', () => {
+        it('should cancel the previous request for the same purpose', () => {
+            const first = cancelPreviousRequest('autocompleteUsers');
+            const second = cancelPreviousRequest('autocompleteUsers');
+
+            assert.equal(first.signal.aborted, true);
+            assert.equal(second.signal.aborted, false);
+
+            finishRequest('autocompleteUsers', second);
+        });
+
+        it('should only cancel requests made with the same key', () => {
+            const first = cancelPreviousRequest('autocompleteUsers', 'post_textbox');
+            const second = cancelPreviousRequest('autocompleteUsers', 'channel_members');
+
+            assert.equal(first.signal.aborted, false);
+
+            const third = cancelPreviousRequest('autocompleteUsers', 'post_textbox');
+
+            assert.equal(first.signal.aborted, true);
+            assert.equal(second.signal.aborted, false);
+
+            finishRequest('autocompleteUsers', second, 'channel_members');
+            finishRequest('autocompleteUsers', third, 'post_textbox');
+        });
+
+        it('should not cancel a request once it has finished', () => {
+            const first = cancelPreviousRequest('searchPosts');
+            finishRequest('searchPosts', first);
+
+            const second = cancelPreviousRequest('searchPosts');
+
+            assert.equal(first.signal.aborted, false);
+
+            finishRequest('searchPosts', second);
+        });
+    });
+
+    describe('bindPaginatedClientFunc', () => {
+        it('should dispatch the results of each page as it arrives', async () => {
+            const store = await configureStore();
+            const dispatch = mockDispatch(store.dispatch);
+
+            const fetchPage = (page) => Promise.resolve(page < 2 ? [`item${page * 2}`, `item${(page * 2) + 1}`] : ['item4']);
+
+            const result = await bindPaginatedClientFunc({
+                fetchPage,
+                onRequest: 'REQUEST',
+                onPage: 'RECEIVED_PAGE',
+                onSuccess: 'SUCCESS',
+                options: {perPage: 2},
+            })(dispatch, store.getState);
+
+            assert.deepEqual(result, {data: ['item0', 'item1', 'item2', 'item3', 'item4']});
+            assert.deepEqual(dispatch.actions, [
+                {type: 'REQUEST', data: null},
+                {type: 'RECEIVED_PAGE', data: ['item0', 'item1']},
+                {type: 'RECEIVED_PAGE', data: ['item2', 'item3']},
+                {type: 'RECEIVED_PAGE', data: ['item4']},
+                {type: 'SUCCESS', data: null},
+            ]);
+        });
+
+        it('should keep the pages received before a page fails', async () => {
+            const store = await configureStore();
+            const dispatch = mockDispatch(store.dispatch);
+
+            const error = new Error('failed');
+            const fetchPage = (page) => (page === 0 ? Promise.resolve(['item0']) : Promise.reject(error));
+
+            const result = await bindPaginatedClientFunc({
+                fetchPage,
+                onPage: 'RECEIVED_PAGE',
+                onFailure: 'FAILURE',
+                options: {perPage: 1},
+            })(dispatch, store.getState);
+
+            assert.deepEqual(result, {error});
+            assert.deepEqual(dispatch.actions[0], {type: 'RECEIVED_PAGE', data: ['item0']});
+            assert.equal(dispatch.actions.length, 2);
+        });
+    });
 });
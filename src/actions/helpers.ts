@@ -3,8 +3,9 @@
 import {Client4} from 'client';
 import {UserTypes} from 'action_types';
 
-import {Client4Error} from 'types/client4';
+import {Client4Error, PageFetcher, PaginateOptions, RequestOptions} from 'types/client4';
 import {batchActions, Action, ActionFunc, GenericAction, DispatchFunc, GetStateFunc} from 'types/actions';
+import {Dictionary} from 'types/utilities';
 
 import {logError} from './errors';
 type ActionType = string;
@@ -104,6 +105,65 @@ export function bindClientFunc({
     };
 }
 
+/**
+ * Returns an ActionFunc which requests every page of a paged (client) function and
+ * dispatches the results of each page as it arrives so that the store is filled incrementally.
+ *
+ * @export
+ * @param {Object} obj                                          an object for destructirung required properties
+ * @param {(page, perPage) => Promise<Array>} obj.fetchPage     function which requests a single page
+ * @param {ActionType} obj.onRequest                            ActionType to dispatch on request
+ * @param {ActionType} obj.onPage                               ActionType to dispatch with the results of each page
+ * @param {ActionType} obj.onSuccess                            ActionType to dispatch once every page has been received
+ * @param {ActionType} obj.onFailure                            ActionType to dispatch on failure
+ * @param {Partial<PaginateOptions>} obj.options                options passed to Client4.paginate
+ * @returns {ActionFunc} ActionFunc which resolves to the results from every page
+ */
+
+export function bindPaginatedClientFunc<T>({
+    fetchPage,
+    onRequest,
+    onPage,
+    onSuccess,
+    onFailure,
+    options = {},
+}: {
+    fetchPage: PageFetcher<T>;
+    onRequest?: ActionType;
+    onPage: ActionType;
+    onSuccess?: ActionType;
+    onFailure?: ActionType;
+    options?: Partial<PaginateOptions>;
+}): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        if (onRequest) {
+            dispatch(requestData(onRequest), getState);
+        }
+
+        const data: T[] = [];
+        try {
+            for await (const items of Client4.paginate(fetchPage, options)) {
+                data.push(...items);
+                dispatch(requestSuccess(onPage, items), getState);
+            }
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            const actions: Action[] = [logError(error)];
+            if (onFailure) {
+                actions.push(requestFailure(onFailure, error));
+            }
+            dispatch(batchActions(actions));
+            return {error};
+        }
+
+        if (onSuccess) {
+            dispatch(requestData(onSuccess), getState);
+        }
+
+        return {data};
+    };
+}
+
 // Debounce function based on underscores modified to use es6 and a cb
 
 export function debounce(func: (...args: any) => unknown, wait: number, immediate: boolean, cb: () => unknown) {
@@ -132,6 +192,48 @@ export function debounce(func: (...args: any) => unknown, wait: number, immediat
     };
 }
 
+const pendingRequests: Dictionary<AbortController> = {};
+
+function getPendingRequestKey(purpose: string, key: string) {
+    return key ? `${purpose}:${key}` : purpose;
+}
+
+// cancelPreviousRequest aborts the request still in progress for the given purpose, such as searching for posts, and
+// returns the options to pass to Client4 for the request replacing it. This keeps the response to an old request from
+// overwriting the results of a newer one. Callers that make the same kind of request independently of each other, like
+// two autocompletes shown at once, should each pass their own key so that they only cancel their own requests.
+export function cancelPreviousRequest(purpose: string, key = ''): RequestOptions {
+    const pendingKey = getPendingRequestKey(purpose, key);
+
+    const previous = pendingRequests[pendingKey];
+    if (previous) {
+        previous.abort();
+        Reflect.deleteProperty(pendingRequests, pendingKey);
+    }
+
+    if (typeof AbortController === 'undefined') {
+        return {};
+    }
+
+    const controller = new AbortController();
+    pendingRequests[pendingKey] = controller;
+
+    return {signal: controller.signal};
+}
+
+export function finishRequest(purpose: string, requestOptions: RequestOptions, key = '') {
+    const pendingKey = getPendingRequestKey(purpose, key);
+
+    const controller = pendingRequests[pendingKey];
+    if (controller && controller.signal === requestOptions.signal) {
+        Reflect.deleteProperty(pendingRequests, pendingKey);
+    }
+}
+
+export function isRequestSuperseded(requestOptions: RequestOptions) {
+    return Boolean(requestOptions.signal && requestOptions.signal.aborted);
+}
+
 export class FormattedError extends Error {
     intl: {
         id: string;
@@ -5,6 +5,8 @@ import * as admin from './admin';
 import * as alerts from './alerts';
 import * as bots from './bots';
 import * as channels from './channels';
+import * as channelCategories from './channel_categories';
+import * as drafts from './drafts';
 import * as errors from './errors';
 import * as emojis from './emojis';
 import * as files from './files';
@@ -17,10 +19,13 @@ import * as jobs from './jobs';
 import * as plugins from './plugins';
 import * as posts from './posts';
 import * as preferences from './preferences';
+import * as reminders from './reminders';
 import * as roles from './roles';
+import * as scheduledPosts from './scheduled_posts';
 import * as schemes from './schemes';
 import * as search from './search';
 import * as teams from './teams';
+import * as threads from './threads';
 import * as timezone from './timezone';
 import * as websocket from './websocket';
 import * as users from './users';
@@ -30,6 +35,8 @@ export {
     alerts,
     bots,
     channels,
+    channelCategories,
+    drafts,
     errors,
     emojis,
     files,
@@ -42,10 +49,13 @@ export {
     plugins,
     posts,
     preferences,
+    reminders,
     roles,
+    scheduledPosts,
     schemes,
     search,
     teams,
+    threads,
     timezone,
     websocket,
     users,
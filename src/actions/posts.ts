@@ -16,6 +16,7 @@ import {parseNeededCustomEmojisFromText} from 'utils/emoji_utils';
 import {isFromWebhook, isSystemMessage, shouldIgnorePost} from 'utils/post_utils';
 
 import {getMyChannelMember, markChannelAsUnread, markChannelAsRead, markChannelAsViewed} from './channels';
+import {removeDraft} from './drafts';
 import {systemEmojis, getCustomEmojiByName, getCustomEmojisByName} from './emojis';
 import {logError} from './errors';
 import {bindClientFunc, forceLogoutIfNecessary} from './helpers';
@@ -26,14 +27,15 @@ import {
     makeGroupMessageVisibleIfNecessary,
     savePreferences,
 } from './preferences';
+import {handleThreadReply} from './threads';
 import {getProfilesByIds, getProfilesByUsernames, getStatusesByIds} from './users';
 import {Action, ActionFunc, ActionResult, batchActions, DispatchFunc, GetStateFunc, GenericAction} from 'types/actions';
 import {GlobalState} from 'types/store';
-import {Post} from 'types/posts';
+import {Post, PostList} from 'types/posts';
 import {Error} from 'types/errors';
 import {Reaction} from 'types/reactions';
 import {UserProfile} from 'types/users';
-import {Dictionary} from 'types/utilities';
+import {Dictionary, IDMappedObjects} from 'types/utilities';
 import {CustomEmoji} from 'types/emojis';
 
 // receivedPost should be dispatched after a single post from the server. This typically happens when an existing post
@@ -56,7 +58,7 @@ export function receivedNewPost(post: Post) {
 
 // receivedPosts should be dispatched when receiving multiple posts from the server that may or may not be ordered.
 // This will typically be used alongside other actions like receivedPostsAfter which require the posts to be ordered.
-export function receivedPosts(posts: CombinedPostList) {
+export function receivedPosts(posts: PostList) {
     return {
         type: PostTypes.RECEIVED_POSTS,
         data: posts,
@@ -64,7 +66,7 @@ export function receivedPosts(posts: CombinedPostList) {
 }
 
 // receivedPostsAfter should be dispatched when receiving an ordered list of posts that come before a given post.
-export function receivedPostsAfter(posts: Array<Post>, channelId: string, afterPostId: string, recent = false) {
+export function receivedPostsAfter(posts: PostList, channelId: string, afterPostId: string, recent = false) {
     return {
         type: PostTypes.RECEIVED_POSTS_AFTER,
         channelId,
@@ -75,7 +77,7 @@ export function receivedPostsAfter(posts: Array<Post>, channelId: string, afterP
 }
 
 // receivedPostsBefore should be dispatched when receiving an ordered list of posts that come after a given post.
-export function receivedPostsBefore(posts: Array<Post>, channelId: string, beforePostId: string, oldest = false) {
+export function receivedPostsBefore(posts: PostList, channelId: string, beforePostId: string, oldest = false) {
     return {
         type: PostTypes.RECEIVED_POSTS_BEFORE,
         channelId,
@@ -88,7 +90,7 @@ export function receivedPostsBefore(posts: Array<Post>, channelId: string, befor
 // receivedPostsSince should be dispatched when receiving a list of posts that have been updated since a certain time.
 // Due to how the API endpoint works, some of these posts will be ordered, but others will not, so this needs special
 // handling from the reducers.
-export function receivedPostsSince(posts: Array<Post>, channelId: string) {
+export function receivedPostsSince(posts: PostList, channelId: string) {
     return {
         type: PostTypes.RECEIVED_POSTS_SINCE,
         channelId,
@@ -98,7 +100,7 @@ export function receivedPostsSince(posts: Array<Post>, channelId: string) {
 
 // receivedPostsInChannel should be dispatched when receiving a list of ordered posts within a channel when the
 // the adjacent posts are not known.
-export function receivedPostsInChannel(posts: CombinedPostList, channelId: string, recent = false, oldest = false) {
+export function receivedPostsInChannel(posts: PostList, channelId: string, recent = false, oldest = false) {
     return {
         type: PostTypes.RECEIVED_POSTS_IN_CHANNEL,
         channelId,
@@ -109,7 +111,7 @@ export function receivedPostsInChannel(posts: CombinedPostList, channelId: strin
 }
 
 // receivedPostsInThread should be dispatched when receiving a list of unordered posts in a thread.
-export function receivedPostsInThread(posts: Array<Post>, rootId: string) {
+export function receivedPostsInThread(posts: PostList, rootId: string) {
     return {
         type: PostTypes.RECEIVED_POSTS_IN_THREAD,
         data: posts,
@@ -162,7 +164,9 @@ export function getPost(postId: string) {
     };
 }
 
-export function createPost(post: Post, files: any[] = []) {
+// createPost sends a new post. The draft for its channel or thread is removed unless clearDraft is false, such as when
+// the post wasn't written in the message box.
+export function createPost(post: Post, files: any[] = [], clearDraft = true) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
         const currentUserId = state.entities.users.currentUserId;
@@ -268,6 +272,11 @@ export function createPost(post: Post, files: any[] = []) {
             },
         });
 
+        if (clearDraft) {
+            // The server removes the draft when the post is created, so it only needs to be removed here
+            dispatch(removeDraft(post.channel_id, post.root_id || '', false));
+        }
+
         return {data: true};
     };
 }
@@ -749,12 +758,9 @@ export function getPostsAfter(channelId: string, postId: string, page = 0, perPa
         return {data: posts};
     };
 }
-export type CombinedPostList = {
-    posts: Array<Post>;
-    order: Array<string>;
-    next_post_id: string;
-    prev_post_id: string;
-}
+
+// CombinedPostList is kept for code written before PostList was added
+export type CombinedPostList = PostList;
 
 export function getPostsAround(channelId: string, postId: string, perPage = Posts.POST_CHUNK_SIZE / 2, fetchThreads = true) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
@@ -775,7 +781,7 @@ export function getPostsAround(channelId: string, postId: string, perPage = Post
         }
 
         // Dispatch a combined post list so that the order is correct for postsInChannel
-        const posts: CombinedPostList = {
+        const posts: PostList = {
             posts: {
                 ...after.posts,
                 ...thread.posts,
@@ -828,7 +834,7 @@ export function getThreadsForPosts(posts: Array<Post>, fetchThreads = true) {
 }
 
 // Note that getProfilesAndStatusesForPosts can take either an array of posts or a map of ids to posts
-export function getProfilesAndStatusesForPosts(postsArrayOrMap: Array<Post>|Map<string, Post>, dispatch: DispatchFunc, getState: GetStateFunc) {
+export function getProfilesAndStatusesForPosts(postsArrayOrMap: Array<Post>|Map<string, Post>|IDMappedObjects<Post>, dispatch: DispatchFunc, getState: GetStateFunc) {
     if (!postsArrayOrMap) {
         // Some API methods return {error} for no results
         return Promise.resolve();
@@ -1177,6 +1183,10 @@ function completePostReceive(post: Post, websocketMessageProps: any) {
             dispatch(getPostThread(post.root_id, true));
         }
 
+        if (post.root_id) {
+            dispatch(handleThreadReply(post, websocketMessageProps.mentions));
+        }
+
         dispatch(lastPostActions(post, websocketMessageProps) as any);
     };
 }
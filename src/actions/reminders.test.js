@@ -0,0 +1,175 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import * as Actions from 'actions/reminders';
+import {PreferenceTypes, UserTypes} from 'action_types';
+import {Client4} from 'client';
+import {General, Preferences} from '../constants';
+import EventEmitter from 'utils/event_emitter';
+import {getPreferenceKey} from 'utils/preference_utils';
+
+import TestHelper from 'test/test_helper';
+import configureStore from 'test/test_store';
+
+describe('Actions.Reminders', () => {
+    const userId = 'user1';
+    const category = Preferences.CATEGORY_POST_REMINDER;
+
+    let store;
+    let now;
+
+    // Date.now isn't changed by fake timers, so it has to be moved forward separately
+    function advanceTime(ms) {
+        now += ms;
+        jest.advanceTimersByTime(ms);
+    }
+
+    beforeAll(async () => {
+        await TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(async () => {
+        nock(Client4.getUserRoute(userId)).
+            put('/preferences').
+            times(5).
+            reply(200, {status: 'OK'});
+        nock(Client4.getUserRoute(userId)).
+            post('/preferences/delete').
+            times(5).
+            reply(200, {status: 'OK'});
+
+        store = await configureStore({
+            entities: {
+                general: {
+                    config: {
+                        ExperimentalTimezone: 'true',
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                    profiles: {
+                        [userId]: {
+                            id: userId,
+                            timezone: {useAutomaticTimezone: 'false', automaticTimezone: '', manualTimezone: 'Asia/Tokyo'},
+                        },
+                    },
+                },
+            },
+        });
+
+        // Fake timers would keep the test store from finishing its setup
+        jest.useFakeTimers();
+
+        now = Date.now();
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(async () => {
+        await store.dispatch(Actions.stopPostReminders());
+
+        jest.useRealTimers();
+        Date.now.mockRestore();
+        nock.cleanAll();
+    });
+
+    afterAll(async () => {
+        await TestHelper.tearDown();
+    });
+
+    it('setPostReminder after an amount of time', async () => {
+        const {data} = await store.dispatch(Actions.setPostReminder('post1', {after: 60000}));
+
+        assert.equal(data.post_id, 'post1');
+        assert.equal(data.remind_at, now + 60000);
+
+        const preference = store.getState().entities.preferences.myPreferences[getPreferenceKey(category, 'post1')];
+        assert.equal(preference.value, String(data.remind_at));
+    });
+
+    it('setPostReminder at a time of day should use the user\'s timezone', async () => {
+        const {data} = await store.dispatch(Actions.setPostReminder('post1', {days: 1, hour: 9}));
+
+        // 9:00 in Tokyo is midnight UTC
+        const remindAt = new Date(data.remind_at);
+        assert.equal(remindAt.getUTCHours(), 0);
+        assert.equal(remindAt.getUTCMinutes(), 0);
+    });
+
+    it('cancelPostReminder', async () => {
+        await store.dispatch(Actions.setPostReminder('post1', {after: 60000}));
+
+        let result = await store.dispatch(Actions.cancelPostReminder('post1'));
+        assert.equal(result.data, true);
+        assert.equal(store.getState().entities.preferences.myPreferences[getPreferenceKey(category, 'post1')], undefined);
+
+        result = await store.dispatch(Actions.cancelPostReminder('post1'));
+        assert.equal(result.data, false);
+    });
+
+    it('should send reminders when they are due', async () => {
+        const listener = jest.fn();
+        EventEmitter.on(General.POST_REMINDER_DUE, listener);
+
+        await store.dispatch(Actions.startPostReminders());
+        const {data} = await store.dispatch(Actions.setPostReminder('post1', {after: 30000}));
+
+        advanceTime(29000);
+        expect(listener).not.toHaveBeenCalled();
+
+        advanceTime(1000);
+        expect(listener).toHaveBeenCalledWith(data);
+        assert.equal(store.getState().entities.preferences.myPreferences[getPreferenceKey(category, 'post1')], undefined);
+
+        EventEmitter.off(General.POST_REMINDER_DUE, listener);
+    });
+
+    it('should stop sending reminders once a different user is logged in', async () => {
+        const listener = jest.fn();
+        EventEmitter.on(General.POST_REMINDER_DUE, listener);
+
+        await store.dispatch(Actions.startPostReminders());
+        await store.dispatch(Actions.setPostReminder('post1', {after: 30000}));
+
+        store.dispatch({type: UserTypes.LOGOUT_SUCCESS, data: null});
+        store.dispatch({type: UserTypes.RECEIVED_ME, data: {id: 'user2'}});
+        store.dispatch({type: PreferenceTypes.RECEIVED_PREFERENCES, data: [{user_id: 'user2', category, name: 'post2', value: String(now + 10000)}]});
+
+        // The timer set for the first user's reminder shouldn't send the second user's
+        advanceTime(30000);
+        expect(listener).not.toHaveBeenCalled();
+
+        EventEmitter.off(General.POST_REMINDER_DUE, listener);
+    });
+
+    it('startPostReminders should send reminders that were due while the app was closed', async () => {
+        const remindAt = Date.now() - 60000;
+
+        jest.useRealTimers();
+        store = await configureStore({
+            entities: {
+                preferences: {
+                    myPreferences: {
+                        [getPreferenceKey(category, 'post1')]: {user_id: userId, category, name: 'post1', value: String(remindAt)},
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                },
+            },
+        });
+        jest.useFakeTimers();
+
+        const listener = jest.fn();
+        EventEmitter.on(General.POST_REMINDER_DUE, listener);
+
+        await store.dispatch(Actions.startPostReminders());
+
+        expect(listener).toHaveBeenCalledWith({post_id: 'post1', remind_at: remindAt});
+        assert.equal(store.getState().entities.preferences.myPreferences[getPreferenceKey(category, 'post1')], undefined);
+
+        EventEmitter.off(General.POST_REMINDER_DUE, listener);
+    });
+});
@@ -0,0 +1,164 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {General, Posts, Preferences} from '../constants';
+import {PostTypes} from 'action_types';
+import {getPostReminder, getPostReminders} from 'selectors/entities/reminders';
+import {getUserTimezone, isTimezoneEnabled} from 'selectors/entities/timezone';
+import {getCurrentUserId} from 'selectors/entities/users';
+import EventEmitter from 'utils/event_emitter';
+import {getReminderTimestamp} from 'utils/reminder_utils';
+import {getUserCurrentTimezone} from 'utils/timezone_utils';
+
+import {ActionFunc, DispatchFunc, GetStateFunc} from 'types/actions';
+import {PostReminder, ReminderTime} from 'types/reminders';
+import {GlobalState} from 'types/store';
+
+import {deletePreferences, savePreferences} from './preferences';
+
+let remindersRunning = false;
+let remindersTimeout: NodeJS.Timeout | null = null;
+
+// remindersUserId is the user whose reminders are being sent
+let remindersUserId = '';
+
+function stopRemindersTimeout() {
+    if (remindersTimeout) {
+        clearTimeout(remindersTimeout);
+        remindersTimeout = null;
+    }
+}
+
+function getCurrentUserTimezone(state: GlobalState) {
+    if (!isTimezoneEnabled(state)) {
+        return null;
+    }
+
+    return getUserCurrentTimezone(getUserTimezone(state, getCurrentUserId(state)));
+}
+
+// scheduleNextReminder sets the timer for the next reminder. Reminders are stored as preferences, so the timer also
+// fires regularly to pick up any reminders that were set on other devices.
+function scheduleNextReminder(dispatch: DispatchFunc, getState: GetStateFunc) {
+    stopRemindersTimeout();
+
+    if (!remindersRunning) {
+        return;
+    }
+
+    let delay = Posts.REMINDER_CHECK_INTERVAL;
+
+    const reminders = getPostReminders(getState());
+    if (reminders.length) {
+        delay = Math.min(Math.max(reminders[0].remind_at - Date.now(), 0), delay);
+    }
+
+    remindersTimeout = setTimeout(() => {
+        remindersTimeout = null;
+
+        sendDueReminders(dispatch, getState);
+    }, delay);
+}
+
+// sendDueReminders dispatches an action and emits an event for each reminder that's due. Each reminder is removed as
+// it's sent so that it isn't sent again after a restart or by another device.
+function sendDueReminders(dispatch: DispatchFunc, getState: GetStateFunc) {
+    const state = getState();
+    const currentUserId = getCurrentUserId(state);
+
+    if (currentUserId !== remindersUserId) {
+        // The reminders belong to a user who has since logged out
+        remindersRunning = false;
+        return;
+    }
+
+    const now = Date.now();
+
+    const dueReminders = getPostReminders(state).filter((reminder) => reminder.remind_at <= now);
+    if (dueReminders.length) {
+        dispatch(deletePreferences(currentUserId, dueReminders.map((reminder) => ({
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_POST_REMINDER,
+            name: reminder.post_id,
+        }))));
+
+        for (const reminder of dueReminders) {
+            dispatch({
+                type: PostTypes.POST_REMINDER_DUE,
+                data: reminder,
+            });
+
+            EventEmitter.emit(General.POST_REMINDER_DUE, reminder);
+        }
+    }
+
+    scheduleNextReminder(dispatch, getState);
+}
+
+// setPostReminder reminds the current user about a post at a later time, replacing any existing reminder for it.
+// Times of day are in the user's timezone.
+export function setPostReminder(postId: string, time: ReminderTime): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const currentUserId = getCurrentUserId(state);
+
+        const reminder: PostReminder = {
+            post_id: postId,
+            remind_at: getReminderTimestamp(time, Date.now(), getCurrentUserTimezone(state)),
+        };
+
+        await dispatch(savePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_POST_REMINDER,
+            name: postId,
+            value: String(reminder.remind_at),
+        }]));
+
+        scheduleNextReminder(dispatch, getState);
+
+        return {data: reminder};
+    };
+}
+
+export function cancelPostReminder(postId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        if (!getPostReminder(state, postId)) {
+            return {data: false};
+        }
+
+        const currentUserId = getCurrentUserId(state);
+
+        await dispatch(deletePreferences(currentUserId, [{
+            user_id: currentUserId,
+            category: Preferences.CATEGORY_POST_REMINDER,
+            name: postId,
+        }]));
+
+        scheduleNextReminder(dispatch, getState);
+
+        return {data: true};
+    };
+}
+
+// startPostReminders starts sending reminders when they're due. This should be called once the current user's
+// preferences have been loaded. Any reminders that came due while the app wasn't running are sent right away.
+export function startPostReminders(): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        remindersRunning = true;
+        remindersUserId = getCurrentUserId(getState());
+        sendDueReminders(dispatch, getState);
+
+        return {data: true};
+    };
+}
+
+// stopPostReminders stops sending reminders. This should be called when the user logs out, but reminders also stop
+// being sent if the timer fires after someone else has logged in.
+export function stopPostReminders(): ActionFunc {
+    return async () => {
+        remindersRunning = false;
+        stopRemindersTimeout();
+
+        return {data: true};
+    };
+}
@@ -0,0 +1,202 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import * as Actions from 'actions/scheduled_posts';
+import {UserTypes} from 'action_types';
+import {Client4} from 'client';
+import {ScheduledPosts} from '../constants';
+
+import TestHelper from 'test/test_helper';
+import configureStore from 'test/test_store';
+
+describe('Actions.ScheduledPosts', () => {
+    const userId = 'user1';
+
+    let store;
+    let now;
+
+    // Fake timers don't change the value of Date.now, so it's advanced along with them
+    function advanceTime(ms) {
+        now += ms;
+        jest.advanceTimersByTime(ms);
+    }
+
+    beforeAll(async () => {
+        await TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(async () => {
+        store = await configureStore({
+            entities: {
+                channels: {
+                    channels: {
+                        channel1: {id: 'channel1', delete_at: 0},
+                        archived: {id: 'archived', delete_at: 100},
+                    },
+                },
+                drafts: {
+                    drafts: {
+                        channel1: {
+                            '': {channel_id: 'channel1', root_id: '', user_id: userId, message: 'draft', file_ids: [], props: {}, create_at: 1, update_at: 1},
+                        },
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                },
+            },
+        });
+
+        // The test store waits for a timeout while it's created, so fake timers can only be used once it exists
+        jest.useFakeTimers();
+
+        now = Date.now();
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(async () => {
+        await store.dispatch(Actions.stopScheduledPosts());
+
+        jest.useRealTimers();
+        Date.now.mockRestore();
+    });
+
+    afterAll(async () => {
+        await TestHelper.tearDown();
+    });
+
+    it('createScheduledPost', async () => {
+        const scheduledAt = Date.now() + 60000;
+
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, scheduledAt));
+
+        assert.deepEqual(store.getState().entities.scheduledPosts.byId[data.id], {
+            id: data.id,
+            create_at: data.create_at,
+            update_at: data.create_at,
+            scheduled_at: scheduledAt,
+            user_id: userId,
+            channel_id: 'channel1',
+            root_id: '',
+            message: 'later',
+            props: {},
+            status: ScheduledPosts.STATUS_SCHEDULED,
+        });
+    });
+
+    it('should send scheduled posts when they are due', async () => {
+        await store.dispatch(Actions.startScheduledPosts());
+
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, Date.now() + 60000));
+
+        advanceTime(59000);
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].status, ScheduledPosts.STATUS_SCHEDULED);
+
+        advanceTime(1000);
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].status, ScheduledPosts.STATUS_SENDING);
+
+        const pendingPost = store.getState().entities.posts.posts[data.id];
+        assert.equal(pendingPost.message, 'later');
+        assert.equal(pendingPost.pending_post_id, data.id);
+    });
+
+    it('createScheduledPost should give posts scheduled at the same time different IDs', async () => {
+        const first = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'first'}, Date.now() + 60000));
+        const second = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'second'}, Date.now() + 60000));
+
+        assert.notEqual(first.data.id, second.data.id);
+        assert.equal(Object.keys(store.getState().entities.scheduledPosts.byId).length, 2);
+    });
+
+    it('should stop sending scheduled posts once a different user is logged in', async () => {
+        await store.dispatch(Actions.startScheduledPosts());
+
+        store.dispatch({type: UserTypes.LOGOUT_SUCCESS, data: null});
+        store.dispatch({type: UserTypes.RECEIVED_ME, data: {id: 'user2'}});
+
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, Date.now() + 60000));
+
+        advanceTime(60000);
+
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].status, ScheduledPosts.STATUS_SCHEDULED);
+        assert.equal(store.getState().entities.posts.posts[data.id], undefined);
+    });
+
+    it('sendScheduledPost should keep the draft for the channel', async () => {
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, Date.now() + 60000));
+
+        await store.dispatch(Actions.sendScheduledPost(data.id));
+
+        assert.equal(store.getState().entities.posts.posts[data.id].message, 'later');
+        assert.equal(store.getState().entities.drafts.drafts.channel1[''].message, 'draft');
+    });
+
+    it('should not send scheduled posts while the scheduler is stopped', async () => {
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, Date.now() + 60000));
+
+        advanceTime(60000);
+
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].status, ScheduledPosts.STATUS_SCHEDULED);
+    });
+
+    it('updateScheduledPost should reschedule failed posts', async () => {
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'archived', message: 'later'}, Date.now()));
+
+        await store.dispatch(Actions.sendScheduledPost(data.id));
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].status, ScheduledPosts.STATUS_FAILED);
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id].error, ScheduledPosts.ERROR_CHANNEL_ARCHIVED);
+
+        const scheduledAt = Date.now() + 60000;
+        await store.dispatch(Actions.updateScheduledPost(data.id, {scheduled_at: scheduledAt}));
+
+        const scheduledPost = store.getState().entities.scheduledPosts.byId[data.id];
+        assert.equal(scheduledPost.status, ScheduledPosts.STATUS_SCHEDULED);
+        assert.equal(scheduledPost.scheduled_at, scheduledAt);
+        assert.equal(scheduledPost.error, undefined);
+    });
+
+    it('cancelScheduledPost', async () => {
+        await store.dispatch(Actions.startScheduledPosts());
+
+        const {data} = await store.dispatch(Actions.createScheduledPost({channel_id: 'channel1', message: 'later'}, Date.now() + 60000));
+        await store.dispatch(Actions.cancelScheduledPost(data.id));
+
+        advanceTime(60000);
+
+        assert.equal(store.getState().entities.scheduledPosts.byId[data.id], undefined);
+        assert.equal(store.getState().entities.posts.posts[data.id], undefined);
+    });
+
+    it('startScheduledPosts should reconcile posts that were due while the app was closed', async () => {
+        jest.useRealTimers();
+        store = await configureStore({
+            entities: {
+                scheduledPosts: {
+                    byId: {
+                        late: {id: 'late', channel_id: 'channel1', root_id: '', message: 'late', props: {}, scheduled_at: now - 1000, status: ScheduledPosts.STATUS_SCHEDULED},
+                        missed: {id: 'missed', channel_id: 'channel1', root_id: '', message: 'missed', props: {}, scheduled_at: now - ScheduledPosts.MISSED_THRESHOLD - 1000, status: ScheduledPosts.STATUS_SCHEDULED},
+                        interrupted: {id: 'interrupted', channel_id: 'channel1', root_id: '', message: 'interrupted', props: {}, scheduled_at: now - 1000, status: ScheduledPosts.STATUS_SENDING},
+                        future: {id: 'future', channel_id: 'channel1', root_id: '', message: 'future', props: {}, scheduled_at: now + 60000, status: ScheduledPosts.STATUS_SCHEDULED},
+                    },
+                },
+                users: {
+                    currentUserId: userId,
+                },
+            },
+        });
+        jest.useFakeTimers();
+
+        await store.dispatch(Actions.startScheduledPosts());
+        advanceTime(0);
+
+        const byId = store.getState().entities.scheduledPosts.byId;
+        assert.equal(byId.late.status, ScheduledPosts.STATUS_SENDING);
+        assert.equal(byId.missed.status, ScheduledPosts.STATUS_FAILED);
+        assert.equal(byId.missed.error, ScheduledPosts.ERROR_MISSED);
+        assert.equal(byId.interrupted.status, ScheduledPosts.STATUS_FAILED);
+        assert.equal(byId.interrupted.error, ScheduledPosts.ERROR_SEND_FAILED);
+        assert.equal(byId.future.status, ScheduledPosts.STATUS_SCHEDULED);
+    });
+});
@@ -0,0 +1,239 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {ScheduledPosts} from '../constants';
+import {ScheduledPostTypes} from 'action_types';
+import {getAllChannels} from 'selectors/entities/channels';
+import {getPost} from 'selectors/entities/posts';
+import {getAllScheduledPosts, getNextScheduledPost, getScheduledPost} from 'selectors/entities/scheduled_posts';
+import {getCurrentUserId} from 'selectors/entities/users';
+import {generateId} from 'utils/helpers';
+
+import {ActionFunc, DispatchFunc, GetStateFunc} from 'types/actions';
+import {Post} from 'types/posts';
+import {ScheduledPost, ScheduledPostChanges, ScheduledPostContents, ScheduledPostError} from 'types/scheduled_posts';
+
+import {createPost} from './posts';
+
+// setTimeout can't wait for longer than this, so the scheduler wakes up and checks again for posts due later than it
+const MAX_SCHEDULER_DELAY = 2147483647;
+
+let schedulerRunning = false;
+let schedulerTimeout: NodeJS.Timeout | null = null;
+
+// schedulerUserId is the user who was logged in when the scheduler was started
+let schedulerUserId = '';
+
+function stopSchedulerTimeout() {
+    if (schedulerTimeout) {
+        clearTimeout(schedulerTimeout);
+        schedulerTimeout = null;
+    }
+}
+
+// scheduleNextSend sets the scheduler to wake up when the next scheduled post is due. It should be called whenever a
+// scheduled post is added or changed.
+function scheduleNextSend(dispatch: DispatchFunc, getState: GetStateFunc) {
+    stopSchedulerTimeout();
+
+    if (!schedulerRunning) {
+        return;
+    }
+
+    const next = getNextScheduledPost(getState());
+    if (!next) {
+        return;
+    }
+
+    const delay = Math.min(Math.max(next.scheduled_at - Date.now(), 0), MAX_SCHEDULER_DELAY);
+    schedulerTimeout = setTimeout(() => {
+        schedulerTimeout = null;
+
+        sendDueScheduledPosts(dispatch, getState);
+    }, delay);
+}
+
+function sendDueScheduledPosts(dispatch: DispatchFunc, getState: GetStateFunc) {
+    if (getCurrentUserId(getState()) !== schedulerUserId) {
+        // The user logged out without the scheduler being stopped, so stop it before it sends anything for someone else
+        schedulerRunning = false;
+        return;
+    }
+
+    const now = Date.now();
+
+    for (const scheduledPost of Object.values(getAllScheduledPosts(getState()))) {
+        if (scheduledPost.status === ScheduledPosts.STATUS_SCHEDULED && scheduledPost.scheduled_at <= now) {
+            dispatch(sendScheduledPost(scheduledPost.id));
+        }
+    }
+
+    scheduleNextSend(dispatch, getState);
+}
+
+function scheduledPostFailed(id: string, error: ScheduledPostError) {
+    return {
+        type: ScheduledPostTypes.SCHEDULED_POST_FAILED,
+        data: {
+            id,
+            error,
+        },
+    };
+}
+
+// createScheduledPost saves a post to be sent to a channel or thread at a later time. The post will only be sent at
+// that time while the scheduler is running.
+export function createScheduledPost(contents: ScheduledPostContents, scheduledAt: number): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        const timestamp = Date.now();
+        const scheduledPost: ScheduledPost = {
+            id: generateId(),
+            create_at: timestamp,
+            update_at: timestamp,
+            scheduled_at: scheduledAt,
+            user_id: currentUserId,
+            channel_id: contents.channel_id,
+            root_id: contents.root_id || '',
+            message: contents.message,
+            props: contents.props || {},
+            status: ScheduledPosts.STATUS_SCHEDULED,
+        };
+
+        dispatch({
+            type: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+            data: scheduledPost,
+        });
+
+        scheduleNextSend(dispatch, getState);
+
+        return {data: scheduledPost};
+    };
+}
+
+// updateScheduledPost changes the contents or the send time of a scheduled post. Updating a post that failed to send
+// schedules it again. Posts that are already being sent can't be changed.
+export function updateScheduledPost(scheduledPostId: string, changes: ScheduledPostChanges): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const scheduledPost = getScheduledPost(getState(), scheduledPostId);
+        if (!scheduledPost || scheduledPost.status === ScheduledPosts.STATUS_SENDING) {
+            return {data: false};
+        }
+
+        const updatedScheduledPost: ScheduledPost = {
+            ...scheduledPost,
+            ...changes,
+            update_at: Date.now(),
+            status: ScheduledPosts.STATUS_SCHEDULED,
+        };
+        Reflect.deleteProperty(updatedScheduledPost, 'error');
+
+        dispatch({
+            type: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+            data: updatedScheduledPost,
+        });
+
+        scheduleNextSend(dispatch, getState);
+
+        return {data: updatedScheduledPost};
+    };
+}
+
+// cancelScheduledPost removes a scheduled post without sending it. Posts that are already being sent can't be
+// cancelled.
+export function cancelScheduledPost(scheduledPostId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const scheduledPost = getScheduledPost(getState(), scheduledPostId);
+        if (!scheduledPost || scheduledPost.status === ScheduledPosts.STATUS_SENDING) {
+            return {data: false};
+        }
+
+        dispatch({
+            type: ScheduledPostTypes.SCHEDULED_POST_REMOVED,
+            data: {
+                id: scheduledPostId,
+            },
+        });
+
+        scheduleNextSend(dispatch, getState);
+
+        return {data: true};
+    };
+}
+
+// sendScheduledPost sends a scheduled post immediately using createPost. The scheduled post is removed once the server
+// has created the post, and it's marked as failed if the post can't be created.
+export function sendScheduledPost(scheduledPostId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+
+        const scheduledPost = getScheduledPost(state, scheduledPostId);
+        if (!scheduledPost || scheduledPost.status === ScheduledPosts.STATUS_SENDING) {
+            return {data: false};
+        }
+
+        const channel = getAllChannels(state)[scheduledPost.channel_id];
+        if (channel && channel.delete_at !== 0) {
+            dispatch(scheduledPostFailed(scheduledPostId, ScheduledPosts.ERROR_CHANNEL_ARCHIVED));
+            return {data: false};
+        }
+
+        dispatch({
+            type: ScheduledPostTypes.SCHEDULED_POST_SENDING,
+            data: {
+                id: scheduledPostId,
+            },
+        });
+
+        const post = {
+            user_id: scheduledPost.user_id,
+            channel_id: scheduledPost.channel_id,
+            root_id: scheduledPost.root_id,
+            message: scheduledPost.message,
+            props: scheduledPost.props,
+            pending_post_id: scheduledPost.id,
+        } as Post;
+
+        // The user may have started writing something else in the channel since the post was scheduled
+        return dispatch(createPost(post, [], false));
+    };
+}
+
+// startScheduledPosts starts sending scheduled posts when they're due. This should be called once the store has been
+// loaded when the app starts. Posts that were due while the app wasn't running are sent if they're only slightly late
+// and otherwise marked as missed, and posts that were still being sent when the app was closed are marked as failed.
+export function startScheduledPosts(): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const now = Date.now();
+
+        for (const scheduledPost of Object.values(getAllScheduledPosts(state))) {
+            if (scheduledPost.status === ScheduledPosts.STATUS_SENDING) {
+                // A pending post that's still in the store will be marked as sent or failed once the server responds
+                if (!getPost(state, scheduledPost.id)) {
+                    dispatch(scheduledPostFailed(scheduledPost.id, ScheduledPosts.ERROR_SEND_FAILED));
+                }
+            } else if (scheduledPost.status === ScheduledPosts.STATUS_SCHEDULED && now - scheduledPost.scheduled_at > ScheduledPosts.MISSED_THRESHOLD) {
+                dispatch(scheduledPostFailed(scheduledPost.id, ScheduledPosts.ERROR_MISSED));
+            }
+        }
+
+        schedulerRunning = true;
+        schedulerUserId = getCurrentUserId(state);
+        sendDueScheduledPosts(dispatch, getState);
+
+        return {data: true};
+    };
+}
+
+// stopScheduledPosts stops sending scheduled posts. It should be called when the user logs out, although the scheduler
+// also stops by itself if it finds that a different user is logged in. Scheduled posts are kept until the scheduler is
+// started again unless the user logged out.
+export function stopScheduledPosts(): ActionFunc {
+    return async () => {
+        schedulerRunning = false;
+        stopSchedulerTimeout();
+
+        return {data: true};
+    };
+}
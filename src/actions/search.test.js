@@ -5,7 +5,7 @@ import assert from 'assert';
 import nock from 'nock';
 
 import * as Actions from 'actions/search';
-import {Client4} from 'client';
+import {Client4, isRequestCancelled} from 'client';
 
 import TestHelper from 'test/test_helper';
 import configureStore from 'test/test_store';
@@ -117,4 +117,56 @@ describe('Actions.Search', () => {
         //assert.equal(Object.keys(recent[TestHelper.basicTeam.id]).length, 1);
         //assert.equal(results.length, 0);
     });
+
+    describe('cancelling previous searches', () => {
+        const originalAbortController = global.AbortController;
+
+        class FakeAbortController {
+            signal = {
+                aborted: false,
+                listeners: [],
+                addEventListener(type, listener) {
+                    this.listeners.push(listener);
+                },
+                removeEventListener(type, listener) {
+                    this.listeners = this.listeners.filter((l) => l !== listener);
+                },
+            };
+
+            abort() {
+                this.signal.aborted = true;
+                this.signal.listeners.forEach((listener) => listener());
+            }
+        }
+
+        beforeAll(() => {
+            global.AbortController = FakeAbortController;
+        });
+
+        afterAll(() => {
+            global.AbortController = originalAbortController;
+        });
+
+        it('should only keep the results of the latest search', async () => {
+            const {dispatch, getState} = store;
+            const post = {...TestHelper.fakePostWithId(TestHelper.basicChannel.id)};
+
+            nock(Client4.getTeamsRoute()).
+                post(`/${TestHelper.basicTeam.id}/posts/search`).
+                delay(100).
+                reply(200, {order: [post.id], posts: {[post.id]: post}});
+            nock(Client4.getTeamsRoute()).
+                post(`/${TestHelper.basicTeam.id}/posts/search`).
+                reply(200, {order: [], posts: {}});
+
+            const [first, second] = await Promise.all([
+                Actions.searchPosts(TestHelper.basicTeam.id, 'first')(dispatch, getState),
+                Actions.searchPosts(TestHelper.basicTeam.id, 'second')(dispatch, getState),
+            ]);
+
+            assert.ok(isRequestCancelled(first.error));
+            assert.deepEqual(second.data, {order: [], posts: {}});
+            assert.deepEqual(getState().entities.search.results, []);
+        });
+    });
 });
@@ -1,12 +1,12 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
-import {Client4} from 'client';
+import {Client4, isRequestCancelled} from 'client';
 import {SearchTypes} from 'action_types';
 import {getCurrentTeamId} from 'selectors/entities/teams';
 import {getCurrentUserId, getCurrentUserMentionKeys} from 'selectors/entities/users';
 
 import {getChannelAndMyMember, getChannelMembers} from './channels';
-import {forceLogoutIfNecessary} from './helpers';
+import {cancelPreviousRequest, finishRequest, forceLogoutIfNecessary, isRequestSuperseded} from './helpers';
 import {logError} from './errors';
 import {getProfilesAndStatusesForPosts, receivedPosts} from './posts';
 import {ActionResult, batchActions, DispatchFunc, GetStateFunc, ActionFunc} from 'types/actions';
@@ -46,20 +46,32 @@ export function searchPostsWithParams(teamId: string, params: SearchParameter):
         });
         let posts;
 
+        const requestOptions = cancelPreviousRequest('searchPosts');
         try {
-            posts = await Client4.searchPostsWithParams(teamId, params);
+            posts = await Client4.searchPostsWithParams(teamId, params, requestOptions);
 
             const profilesAndStatuses = getProfilesAndStatusesForPosts(posts.posts, dispatch, getState);
             const missingChannels = dispatch(getMissingChannelsFromPosts(posts.posts));
             const arr: [Promise<any>, Promise<any>] = [profilesAndStatuses, missingChannels];
             await Promise.all(arr);
         } catch (error) {
+            if (isRequestCancelled(error)) {
+                return {error};
+            }
+
             forceLogoutIfNecessary(error, dispatch, getState);
             dispatch(batchActions([
                 {type: SearchTypes.SEARCH_POSTS_FAILURE, error},
                 logError(error),
             ]));
             return {error};
+        } finally {
+            finishRequest('searchPosts', requestOptions);
+        }
+
+        // Another search may have started while we were loading the users and channels for these results
+        if (isRequestSuperseded(requestOptions)) {
+            return {data: posts};
         }
 
         dispatch(batchActions([
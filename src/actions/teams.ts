@@ -13,7 +13,7 @@ import {getCurrentUserId} from 'selectors/entities/users';
 
 import {GetStateFunc, DispatchFunc, ActionFunc, ActionResult, batchActions, Action} from 'types/actions';
 
-import {Team, TeamMembership} from 'types/teams';
+import {Team, TeamMembership, TeamsWithCount} from 'types/teams';
 
 import {selectChannel} from './channels';
 import {logError} from './errors';
@@ -117,7 +117,7 @@ export function getTeams(page = 0, perPage: number = General.TEAMS_CHUNK_SIZE, i
         const actions: Action[] = [
             {
                 type: TeamTypes.RECEIVED_TEAMS_LIST,
-                data: includeTotalCount ? data.teams : data,
+                data: includeTotalCount ? (data as TeamsWithCount).teams : data,
             },
             {
                 type: TeamTypes.GET_TEAMS_SUCCESS,
@@ -128,7 +128,7 @@ export function getTeams(page = 0, perPage: number = General.TEAMS_CHUNK_SIZE, i
         if (includeTotalCount) {
             actions.push({
                 type: TeamTypes.RECEIVED_TOTAL_TEAM_COUNT,
-                data: data.total_count,
+                data: (data as TeamsWithCount).total_count,
             });
         }
 
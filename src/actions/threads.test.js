@@ -0,0 +1,165 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import * as Actions from 'actions/threads';
+import {Client4} from 'client';
+import {PostTypes} from 'action_types';
+import {Preferences} from '../constants';
+
+import TestHelper from 'test/test_helper';
+import configureStore from 'test/test_store';
+
+describe('Actions.Threads', () => {
+    const userId = 'user1';
+    const otherUserId = 'user2';
+    const teamId = 'team1';
+
+    const rootPost = {id: 'root1', user_id: userId, channel_id: 'channel1', root_id: '', create_at: 10};
+    const thread = {
+        id: 'root1',
+        reply_count: 1,
+        last_reply_at: 100,
+        last_viewed_at: 100,
+        participants: [{id: otherUserId}],
+        post: rootPost,
+        unread_replies: 0,
+        unread_mentions: 0,
+        is_following: true,
+    };
+
+    let store;
+
+    beforeAll(async () => {
+        await TestHelper.initBasic(Client4);
+    });
+
+    beforeEach(async () => {
+        store = await configureStore({
+            entities: {
+                channels: {
+                    channels: {
+                        channel1: {id: 'channel1', team_id: teamId},
+                    },
+                },
+                threads: {
+                    threads: {root1: thread},
+                    threadsInTeam: {[teamId]: ['root1']},
+                    counts: {[teamId]: {total: 1, total_unread_threads: 0, total_unread_mentions: 0}},
+                },
+                users: {
+                    currentUserId: userId,
+                    profiles: {
+                        [userId]: {id: userId, notify_props: {comments: Preferences.COMMENTS_ROOT}},
+                    },
+                },
+            },
+        });
+    });
+
+    afterAll(async () => {
+        await TestHelper.tearDown();
+    });
+
+    it('getThreads', async () => {
+        const otherThread = {...thread, id: 'root2', post: {...rootPost, id: 'root2'}, unread_replies: 2};
+
+        nock(Client4.getUserThreadsRoute(userId, teamId)).
+            get('').
+            query(true).
+            reply(200, {threads: [otherThread], total: 2, total_unread_threads: 1, total_unread_mentions: 0});
+
+        await store.dispatch(Actions.getThreads(teamId, {before: 'root1'}));
+
+        const state = store.getState().entities.threads;
+        assert.deepEqual(state.threads.root2, otherThread);
+        assert.deepEqual(state.threadsInTeam[teamId], ['root1', 'root2']);
+        assert.deepEqual(state.counts[teamId], {total: 2, total_unread_threads: 1, total_unread_mentions: 0});
+    });
+
+    it('setThreadFollow', async () => {
+        nock(Client4.getUserThreadRoute(userId, teamId, 'root1')).
+            delete('/following').
+            reply(200, {status: 'OK'});
+
+        await store.dispatch(Actions.setThreadFollow(teamId, 'root1', false));
+
+        const state = store.getState().entities.threads;
+        assert.equal(state.threads.root1.is_following, false);
+        assert.equal(state.counts[teamId].total, 0);
+    });
+
+    it('updateThreadRead', async () => {
+        store.dispatch(Actions.handleThreadArrived({...thread, unread_replies: 2, unread_mentions: 1}, teamId));
+        assert.deepEqual(store.getState().entities.threads.counts[teamId], {total: 1, total_unread_threads: 1, total_unread_mentions: 1});
+
+        nock(Client4.getUserThreadRoute(userId, teamId, 'root1')).
+            put('/read/200').
+            reply(200, {...thread, last_viewed_at: 200});
+
+        await store.dispatch(Actions.updateThreadRead(teamId, 'root1', 200));
+
+        const state = store.getState().entities.threads;
+        assert.equal(state.threads.root1.last_viewed_at, 200);
+        assert.deepEqual(state.counts[teamId], {total: 1, total_unread_threads: 0, total_unread_mentions: 0});
+    });
+
+    it('markAllThreadsInTeamRead', async () => {
+        store.dispatch(Actions.handleThreadArrived({...thread, unread_replies: 2}, teamId));
+
+        nock(Client4.getUserThreadsRoute(userId, teamId)).
+            put('/read').
+            reply(200, {status: 'OK'});
+
+        await store.dispatch(Actions.markAllThreadsInTeamRead(teamId));
+
+        const state = store.getState().entities.threads;
+        assert.equal(state.threads.root1.unread_replies, 0);
+        assert.equal(state.counts[teamId].total_unread_threads, 0);
+    });
+
+    describe('handleThreadReply', () => {
+        it('should count replies to the current user\'s thread as mentions', async () => {
+            const reply = {id: 'reply1', user_id: otherUserId, channel_id: 'channel1', root_id: 'root1', create_at: 200, message: 'reply'};
+
+            await store.dispatch(Actions.handleThreadReply(reply, '[]'));
+
+            const state = store.getState().entities.threads;
+            assert.equal(state.threads.root1.reply_count, 2);
+            assert.equal(state.threads.root1.last_reply_at, 200);
+            assert.equal(state.threads.root1.unread_replies, 1);
+            assert.equal(state.threads.root1.unread_mentions, 1);
+            assert.deepEqual(state.counts[teamId], {total: 1, total_unread_threads: 1, total_unread_mentions: 1});
+        });
+
+        it('should ignore replies that have already been received', async () => {
+            const reply = {id: 'reply1', user_id: otherUserId, channel_id: 'channel1', root_id: 'root1', create_at: 200, message: 'reply'};
+
+            await store.dispatch(Actions.handleThreadReply(reply, '[]'));
+            store.dispatch({type: PostTypes.RECEIVED_NEW_POST, data: reply});
+            await store.dispatch(Actions.handleThreadReply(reply, '[]'));
+
+            const state = store.getState().entities.threads;
+            assert.equal(state.threads.root1.reply_count, 2);
+            assert.equal(state.threads.root1.unread_replies, 1);
+            assert.equal(state.threads.root1.unread_mentions, 1);
+            assert.deepEqual(state.counts[teamId], {total: 1, total_unread_threads: 1, total_unread_mentions: 1});
+        });
+
+        it('should mark the thread as read when the current user replies', async () => {
+            store.dispatch(Actions.handleThreadArrived({...thread, unread_replies: 2}, teamId));
+
+            const reply = {id: 'reply1', user_id: userId, channel_id: 'channel1', root_id: 'root1', create_at: 200, message: 'reply'};
+
+            await store.dispatch(Actions.handleThreadReply(reply, '[]'));
+
+            const state = store.getState().entities.threads;
+            assert.equal(state.threads.root1.last_viewed_at, 200);
+            assert.equal(state.threads.root1.unread_replies, 0);
+            assert.deepEqual(state.threads.root1.participants, [{id: otherUserId}, {id: userId}]);
+            assert.equal(state.counts[teamId].total_unread_threads, 0);
+        });
+    });
+});
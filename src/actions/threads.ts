@@ -0,0 +1,280 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Client4} from 'client';
+import {ThreadTypes} from 'action_types';
+import {getAllChannels} from 'selectors/entities/channels';
+import {getCurrentTeamId} from 'selectors/entities/teams';
+import {getThread as getThreadSelector, getThreadsInTeam} from 'selectors/entities/threads';
+import {getCurrentUser, getCurrentUserId} from 'selectors/entities/users';
+import {isFromWebhook, isPostCommentMention} from 'utils/post_utils';
+
+import {Action, ActionFunc, batchActions, DispatchFunc, GetStateFunc} from 'types/actions';
+import {Post} from 'types/posts';
+import {GetUserThreadsOptions, UserThread} from 'types/threads';
+
+import {logError} from './errors';
+import {forceLogoutIfNecessary} from './helpers';
+
+function readChanged(thread: UserThread, teamId: string, prevUnreadReplies: number, prevUnreadMentions: number) {
+    return {
+        type: ThreadTypes.READ_CHANGED_THREAD,
+        data: {
+            id: thread.id,
+            team_id: teamId,
+            lastViewedAt: thread.last_viewed_at,
+            prevUnreadReplies,
+            newUnreadReplies: thread.unread_replies,
+            prevUnreadMentions,
+            newUnreadMentions: thread.unread_mentions,
+        },
+    };
+}
+
+// getThreads loads a page of the threads followed by the current user in a team along with the number of them that are
+// unread.
+export function getThreads(teamId: string, options: GetUserThreadsOptions = {}): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let threadList;
+        try {
+            threadList = await Client4.getUserThreads(currentUserId, teamId, options);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch({
+            type: ThreadTypes.RECEIVED_THREADS,
+            data: {
+                ...threadList,
+                team_id: teamId,
+            },
+        });
+
+        return {data: threadList};
+    };
+}
+
+// handleThreadArrived stores a thread that has been loaded or updated by the server, keeping the unread counts for the
+// team up to date.
+export function handleThreadArrived(thread: UserThread, teamId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const oldThread = getThreadSelector(getState(), thread.id);
+
+        dispatch(batchActions([
+            {
+                type: ThreadTypes.RECEIVED_THREAD,
+                data: {
+                    thread,
+                    team_id: teamId,
+                },
+            },
+            readChanged(thread, teamId, oldThread ? oldThread.unread_replies : 0, oldThread ? oldThread.unread_mentions : 0),
+        ]));
+
+        return {data: thread};
+    };
+}
+
+export function getThread(teamId: string, threadId: string, extended = false): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let thread;
+        try {
+            thread = await Client4.getUserThread(currentUserId, teamId, threadId, extended);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        return dispatch(handleThreadArrived(thread, teamId));
+    };
+}
+
+export function setThreadFollow(teamId: string, threadId: string, following: boolean): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        try {
+            await Client4.updateThreadFollowForUser(currentUserId, teamId, threadId, following);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch(handleFollowChanged(teamId, threadId, following));
+
+        return {data: true};
+    };
+}
+
+export function handleFollowChanged(teamId: string, threadId: string, following: boolean): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const thread = getThreadSelector(getState(), threadId);
+
+        // Threads that haven't been loaded are assumed to be followed since those are the only ones that are loaded
+        const wasFollowing = thread ? thread.is_following !== false : !following;
+        if (wasFollowing === following) {
+            return {data: false};
+        }
+
+        dispatch({
+            type: ThreadTypes.FOLLOW_CHANGED_THREAD,
+            data: {
+                id: threadId,
+                team_id: teamId,
+                following,
+                unreadReplies: thread ? thread.unread_replies : 0,
+                unreadMentions: thread ? thread.unread_mentions : 0,
+            },
+        });
+
+        return {data: true};
+    };
+}
+
+// updateThreadRead marks a thread as read up to the given time. Passing an earlier time can mark it as unread again.
+export function updateThreadRead(teamId: string, threadId: string, timestamp = Date.now()): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        let thread;
+        try {
+            thread = await Client4.updateThreadReadForUser(currentUserId, teamId, threadId, timestamp);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        return dispatch(handleThreadArrived(thread, teamId));
+    };
+}
+
+export function markAllThreadsInTeamRead(teamId: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const currentUserId = getCurrentUserId(getState());
+
+        try {
+            await Client4.updateThreadsReadForUser(currentUserId, teamId);
+        } catch (error) {
+            forceLogoutIfNecessary(error, dispatch, getState);
+            dispatch(logError(error));
+            return {error};
+        }
+
+        dispatch(handleAllTeamThreadsRead(teamId, Date.now()));
+
+        return {data: true};
+    };
+}
+
+export function handleAllTeamThreadsRead(teamId: string, lastViewedAt: number): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        dispatch({
+            type: ThreadTypes.ALL_TEAM_THREADS_READ,
+            data: {
+                team_id: teamId,
+                threadIds: getThreadsInTeam(getState())[teamId] || [],
+                lastViewedAt,
+            },
+        });
+
+        return {data: true};
+    };
+}
+
+// handleThreadReply updates a loaded thread when a reply is posted to it. The reply counts as a mention if it mentions
+// the current user or if their notification settings are set to treat replies to the thread as mentions. It must be
+// called before the reply is stored so that replies which have already been received aren't counted again.
+export function handleThreadReply(post: Post, mentions?: string): ActionFunc {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const currentUser = getCurrentUser(state);
+        const thread = getThreadSelector(state, post.root_id);
+
+        if (!currentUser || !post.root_id || state.entities.posts.posts[post.id]) {
+            return {data: false};
+        }
+
+        const fromCurrentUser = post.user_id === currentUser.id && !isFromWebhook(post);
+        const mentioned = Boolean(mentions && JSON.parse(mentions).includes(currentUser.id));
+
+        if (!thread) {
+            // The current user now follows a thread that hasn't been loaded, so it should be added to their threads if
+            // they've been loaded for the thread's team
+            const channel = getAllChannels(state)[post.channel_id];
+            const teamId = (channel && channel.team_id) || getCurrentTeamId(state);
+
+            if ((fromCurrentUser || mentioned) && getThreadsInTeam(state)[teamId]) {
+                return dispatch(getThread(teamId, post.root_id));
+            }
+
+            return {data: false};
+        }
+
+        const threadRepliedToByCurrentUser = thread.participants.some((participant) => participant.id === currentUser.id);
+        const isMention = mentioned || isPostCommentMention({post, currentUser, threadRepliedToByCurrentUser, rootPost: thread.post});
+
+        let lastViewedAt = thread.last_viewed_at;
+        let unreadReplies = thread.unread_replies;
+        let unreadMentions = thread.unread_mentions;
+        if (fromCurrentUser) {
+            // Replying to a thread marks it as read
+            lastViewedAt = post.create_at;
+            unreadReplies = 0;
+            unreadMentions = 0;
+        } else if (post.create_at > thread.last_viewed_at) {
+            unreadReplies += 1;
+            if (isMention) {
+                unreadMentions += 1;
+            }
+        }
+
+        let participants = thread.participants;
+        if (!participants.some((participant) => participant.id === post.user_id)) {
+            participants = [...participants, {id: post.user_id}];
+        }
+
+        const newThread: UserThread = {
+            ...thread,
+            reply_count: thread.reply_count + 1,
+            last_reply_at: Math.max(thread.last_reply_at, post.create_at),
+            last_viewed_at: lastViewedAt,
+            participants,
+            unread_replies: unreadReplies,
+            unread_mentions: unreadMentions,
+            is_following: fromCurrentUser || isMention ? true : thread.is_following,
+        };
+
+        const threadsInTeam = getThreadsInTeam(state);
+        const actions: Action[] = [];
+        for (const teamId of Object.keys(threadsInTeam)) {
+            if (!threadsInTeam[teamId].includes(thread.id)) {
+                continue;
+            }
+
+            actions.push(
+                {
+                    type: ThreadTypes.RECEIVED_THREAD,
+                    data: {
+                        thread: newThread,
+                        team_id: teamId,
+                    },
+                },
+                readChanged(newThread, teamId, thread.unread_replies, thread.unread_mentions),
+            );
+        }
+
+        if (actions.length) {
+            dispatch(batchActions(actions));
+        }
+
+        return {data: newThread};
+    };
+}
@@ -1,9 +1,9 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import {Action, ActionFunc, ActionResult, batchActions, DispatchFunc, GetStateFunc} from 'types/actions';
-import {UserProfile, UserStatus} from 'types/users';
+import {UserProfile, UserSearchOptions, UserStatus} from 'types/users';
 import {TeamMembership} from 'types/teams';
-import {Client4} from 'client';
+import {Client4, isRequestCancelled} from 'client';
 import {General} from '../constants';
 import {UserTypes, TeamTypes, AdminTypes} from 'action_types';
 import {getAllCustomEmojis} from './emojis';
@@ -19,7 +19,7 @@ import {getConfig, getServerVersion} from 'selectors/entities/general';
 import {getCurrentUserId, getUsers} from 'selectors/entities/users';
 
 import {logError} from './errors';
-import {bindClientFunc, forceLogoutIfNecessary, debounce} from './helpers';
+import {bindClientFunc, cancelPreviousRequest, finishRequest, forceLogoutIfNecessary, debounce} from './helpers';
 import {getMyPreferences, makeDirectChannelVisibleIfNecessary, makeGroupMessageVisibleIfNecessary} from './preferences';
 import {Dictionary} from 'types/utilities';
 export function checkMfa(loginId: string): ActionFunc {
@@ -842,8 +842,11 @@ export function getUserAudits(userId: string, page = 0, perPage: number = Genera
     });
 }
 
+// autocompleteUsers cancels the previous request made with the same requestKey in its options, so separate
+// autocompletes should each use their own key.
 export function autocompleteUsers(term: string, teamId = '', channelId = '', options: {
     limit: number;
+    requestKey?: string;
 } = {
     limit: General.AUTOCOMPLETE_LIMIT_DEFAULT,
 }): ActionFunc {
@@ -853,15 +856,22 @@ export function autocompleteUsers(term: string, teamId = '', channelId = '', opt
         const {currentUserId} = getState().entities.users;
 
         let data;
+        const requestOptions = cancelPreviousRequest('autocompleteUsers', options.requestKey);
         try {
-            data = await Client4.autocompleteUsers(term, teamId, channelId, options);
+            data = await Client4.autocompleteUsers(term, teamId, channelId, options, requestOptions);
         } catch (error) {
+            if (isRequestCancelled(error)) {
+                return {error};
+            }
+
             forceLogoutIfNecessary(error, dispatch, getState);
             dispatch(batchActions([
                 {type: UserTypes.AUTOCOMPLETE_USERS_FAILURE, error},
                 logError(error),
             ]), getState);
             return {error};
+        } finally {
+            finishRequest('autocompleteUsers', requestOptions, options.requestKey);
         }
 
         let users = [...data.users];
@@ -909,7 +919,7 @@ export function autocompleteUsers(term: string, teamId = '', channelId = '', opt
     };
 }
 
-export function searchProfiles(term: string, options: any = {}): ActionFunc {
+export function searchProfiles(term: string, options: UserSearchOptions = {}): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const {currentUserId} = getState().entities.users;
 
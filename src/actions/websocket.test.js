@@ -15,6 +15,7 @@ import * as TeamActions from 'actions/teams';
 import * as UserActions from 'actions/users';
 
 import {Client4} from 'client';
+import {WebSocketClient} from 'client/websocket_client';
 import {General, Posts, RequestStatus, WebsocketEvents} from '../constants';
 import {
     PostTypes,
@@ -22,9 +23,12 @@ import {
     UserTypes,
     ChannelTypes,
     GeneralTypes,
+    BotTypes,
+    GroupTypes,
 } from 'action_types';
 import TestHelper from 'test/test_helper';
 import configureStore from 'test/test_store';
+import websocketEventRegistry from 'utils/websocket_event_registry';
 
 describe('Actions.Websocket', () => {
     let store;
@@ -439,6 +443,123 @@ describe('Actions.Websocket', () => {
 
         test();
     });
+
+    it('Websocket Handle Team Member Role Updated', async () => {
+        const teamId = TestHelper.basicTeam.id;
+        const member = {team_id: teamId, user_id: TestHelper.basicUser.id, roles: 'team_user team_admin', delete_at: 0, scheme_user: true, scheme_admin: true};
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.MEMBERROLE_UPDATED, data: {member: JSON.stringify(member)}, broadcast: {omit_users: null, user_id: TestHelper.basicUser.id, channel_id: '', team_id: ''}, seq: 2}));
+
+        const {myMembers} = store.getState().entities.teams;
+        assert.strictEqual(myMembers[teamId].roles, 'team_user team_admin');
+        assert.strictEqual(myMembers[teamId].scheme_admin, true);
+    });
+
+    it('Websocket Handle Channel Scheme Updated', (done) => {
+        async function test() {
+            const channelId = TestHelper.basicChannel.id;
+            const schemeId = TestHelper.generateId();
+
+            // Earlier tests may leave unused responses for the basic channel behind, so they're removed first
+            nock.cleanAll();
+
+            nock(Client4.getChannelRoute(channelId)).
+                get('').
+                reply(200, {...TestHelper.basicChannel, scheme_id: schemeId});
+
+            nock(Client4.getChannelMemberRoute(channelId, 'me')).
+                get('').
+                reply(200, {...TestHelper.basicChannelMember, roles: 'channel_user channel_admin', scheme_admin: true});
+
+            mockServer.emit('message', JSON.stringify({event: WebsocketEvents.CHANNEL_SCHEME_UPDATED, data: {}, broadcast: {omit_users: null, user_id: '', channel_id: channelId, team_id: ''}, seq: 2}));
+
+            setTimeout(() => {
+                const {channels, myMembers} = store.getState().entities.channels;
+                assert.strictEqual(channels[channelId].scheme_id, schemeId);
+                assert.strictEqual(myMembers[channelId].roles, 'channel_user channel_admin');
+                done();
+            }, 500);
+        }
+
+        test();
+    });
+
+    it('Websocket Handle Bot Updated', (done) => {
+        async function test() {
+            const botId = TestHelper.generateId();
+            const bot = {user_id: botId, username: 'bot', display_name: '', description: '', owner_id: TestHelper.basicUser.id, create_at: 1507840900004, update_at: 1507840900004, delete_at: 0};
+            store.dispatch({type: BotTypes.RECEIVED_BOT_ACCOUNT, data: bot});
+
+            nock(Client4.getBotRoute(botId)).
+                get('').
+                reply(200, {...bot, update_at: 1508253268652, delete_at: 1508253268652});
+
+            mockServer.emit('message', JSON.stringify({event: WebsocketEvents.USER_UPDATED, data: {user: {id: botId, create_at: 1507840900004, update_at: 1508253268652, delete_at: 1508253268652, username: 'bot', is_bot: true, roles: 'system_user'}}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: ''}, seq: 2}));
+
+            setTimeout(() => {
+                const {accounts} = store.getState().entities.bots;
+                assert.strictEqual(accounts[botId].delete_at, 1508253268652);
+                done();
+            }, 500);
+        }
+
+        test();
+    });
+
+    it('Websocket Handle Group Received', () => {
+        const group = {id: TestHelper.generateId(), name: 'group', display_name: 'Group', description: '', source: 'ldap', remote_id: 'remote', create_at: 1, update_at: 1, delete_at: 0, has_syncables: false, member_count: 0};
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.RECEIVED_GROUP, data: {group: JSON.stringify(group)}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: ''}, seq: 2}));
+
+        const {groups} = store.getState().entities.groups;
+        assert.deepStrictEqual(groups[group.id], group);
+    });
+
+    it('Websocket Handle Group Associated To Team', (done) => {
+        async function test() {
+            const teamId = TestHelper.basicTeam.id;
+            const group = {id: TestHelper.generateId(), name: 'group', display_name: 'Group'};
+            store.dispatch({type: GroupTypes.RECEIVED_GROUPS_ASSOCIATED_TO_TEAM, data: {teamID: teamId, groups: [], totalGroupCount: 0}});
+
+            nock(Client4.getBaseRoute()).
+                get(`/groups/${group.id}`).
+                reply(200, group);
+
+            mockServer.emit('message', JSON.stringify({event: WebsocketEvents.RECEIVED_GROUP_ASSOCIATED_TO_TEAM, data: {group_id: group.id}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: teamId}, seq: 2}));
+
+            setTimeout(() => {
+                const state = store.getState();
+                assert.deepStrictEqual(state.entities.teams.groupsAssociatedToTeam[teamId], {ids: [group.id], totalCount: 1});
+                assert.strictEqual(state.entities.groups.groups[group.id].display_name, 'Group');
+                done();
+            }, 500);
+        }
+
+        test();
+    });
+
+    it('Websocket Handle Group Not Associated To Channel', () => {
+        const channelId = TestHelper.basicChannel.id;
+        const groupId = TestHelper.generateId();
+        store.dispatch({type: GroupTypes.RECEIVED_GROUPS_ASSOCIATED_TO_CHANNEL, data: {channelID: channelId, groups: [{id: groupId}], totalGroupCount: 1}});
+        store.dispatch({type: GroupTypes.RECEIVED_GROUP_CHANNELS, group_id: groupId, data: [{group_id: groupId, channel_id: channelId}]});
+
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.RECEIVED_GROUP_NOT_ASSOCIATED_TO_CHANNEL, data: {group_id: groupId}, broadcast: {omit_users: null, user_id: '', channel_id: channelId, team_id: ''}, seq: 2}));
+
+        const state = store.getState();
+        assert.deepStrictEqual(state.entities.channels.groupsAssociatedToChannel[channelId], []);
+        assert.deepStrictEqual(state.entities.groups.syncables[groupId].channels, []);
+    });
+
+    it('notifies subscribers of plugin events', () => {
+        const handler = jest.fn();
+        const unsubscribe = websocketEventRegistry.subscribe('custom_com.example.plugin_*', handler);
+
+        mockServer.emit('message', JSON.stringify({event: 'custom_com.example.plugin_updated', data: {value: 'test'}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: ''}, seq: 2}));
+
+        unsubscribe();
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(expect.objectContaining({event: 'custom_com.example.plugin_updated', data: {value: 'test'}}), expect.any(Function), expect.any(Function));
+    });
 });
 
 describe('Actions.Websocket doReconnect', () => {
@@ -592,3 +713,60 @@ describe('Actions.Websocket doReconnect', () => {
         expect(actions).not.toEqual(expect.arrayContaining(expectedMissingActions));
     });
 });
+
+describe('Actions.Websocket with multiple clients', () => {
+    const mockStore = configureMockStore([thunk]);
+
+    const serverUrl = 'http://otherhost:8065';
+
+    let mockServer;
+    let client;
+    let testStore;
+
+    beforeAll(async () => {
+        mockServer = new Server(`ws://otherhost:8065${Client4.getUrlVersion()}/websocket`);
+        client = new WebSocketClient();
+
+        testStore = mockStore({
+            entities: {
+                general: {
+                    config: {},
+                },
+            },
+            websocket: {
+                lastDisconnectAt: 0,
+            },
+        });
+
+        await testStore.dispatch(Actions.init('web', serverUrl, 'token', MockWebSocket, {}, client));
+    });
+
+    afterAll(() => {
+        mockServer.stop();
+    });
+
+    it('should not fetch from the default server because of events from other servers', () => {
+        const serverVersion = Client4.serverVersion;
+        const actionCount = testStore.getActions().length;
+
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.HELLO, data: {server_version: '9.9.9'}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: ''}, seq: 1}));
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.POSTED, data: {post: JSON.stringify({id: 'post1', channel_id: 'channel1', user_id: 'user1'})}, broadcast: {omit_users: null, user_id: '', channel_id: 'channel1', team_id: ''}, seq: 2}));
+
+        expect(Client4.serverVersion).toBe(serverVersion);
+        expect(testStore.getActions().length).toBe(actionCount);
+    });
+
+    it('should tag actions with the server that they came from', async () => {
+        mockServer.emit('message', JSON.stringify({event: WebsocketEvents.STATUS_CHANGED, data: {user_id: 'user1', status: General.AWAY}, broadcast: {omit_users: null, user_id: 'user1', channel_id: '', team_id: ''}, seq: 1}));
+
+        const actions = testStore.getActions();
+        expect(actions).toContainEqual({type: GeneralTypes.WEBSOCKET_REQUEST, data: null, meta: {serverUrl}});
+        expect(actions).toContainEqual(expect.objectContaining({type: GeneralTypes.WEBSOCKET_SUCCESS, meta: {serverUrl}}));
+        expect(actions).toContainEqual({type: UserTypes.RECEIVED_STATUSES, data: [{user_id: 'user1', status: General.AWAY}], meta: {serverUrl}});
+
+        await testStore.dispatch(Actions.close(false, client));
+
+        expect(testStore.getActions()).toContainEqual(expect.objectContaining({type: GeneralTypes.WEBSOCKET_CLOSED, meta: {serverUrl}}));
+        expect(client.conn).toBeUndefined();
+    });
+});
@@ -1,39 +1,103 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import {Client4} from 'client';
-import websocketClient from '../client/websocket_client';
+import websocketClient, {WebSocketClient} from '../client/websocket_client';
 
-import {ChannelTypes, GeneralTypes, EmojiTypes, PostTypes, PreferenceTypes, TeamTypes, UserTypes, RoleTypes, AdminTypes, IntegrationTypes} from 'action_types';
-import {General, WebsocketEvents, Preferences} from '../constants';
+import {ChannelCategoryTypes, ChannelTypes, GeneralTypes, EmojiTypes, GroupTypes, PostTypes, PreferenceTypes, TeamTypes, ThreadTypes, DraftTypes, UserTypes, RoleTypes, AdminTypes, IntegrationTypes} from 'action_types';
+import {General, Groups, Permissions, WebsocketEvents, Preferences} from '../constants';
+import {getBotAccounts} from 'selectors/entities/bots';
 import {getAllChannels, getChannel, getChannelsNameMapInTeam, getCurrentChannelId, getRedirectChannelNameForTeam, getCurrentChannelStats} from 'selectors/entities/channels';
 import {getConfig} from 'selectors/entities/general';
 import {getAllPosts} from 'selectors/entities/posts';
 import {getDirectShowPreferences} from 'selectors/entities/preferences';
+import {haveISystemPermission} from 'selectors/entities/roles';
+import {getSchemes} from 'selectors/entities/schemes';
 import {getCurrentTeamId, getCurrentTeamMembership, getTeams as getTeamsSelector} from 'selectors/entities/teams';
 import {getCurrentUser, getCurrentUserId, getUsers, getUserStatuses} from 'selectors/entities/users';
 import {getChannelByName} from 'utils/channel_utils';
 import {fromAutoResponder} from 'utils/post_utils';
 import EventEmitter from 'utils/event_emitter';
+import websocketEventRegistry from 'utils/websocket_event_registry';
 import {getMyPreferences} from './preferences';
 
-import {ActionFunc, DispatchFunc, GetStateFunc, PlatformType} from 'types/actions';
+import {ActionFunc, batchActions, DispatchFunc, GetStateFunc, PlatformType} from 'types/actions';
 
 import {getTeam, getMyTeamUnreads, getMyTeams, getMyTeamMembers} from './teams';
 import {getPost, getPosts, getProfilesAndStatusesForPosts, getCustomEmojiForReaction, handleNewPost, postDeleted, receivedPost} from './posts';
+import {fetchMyCategories} from './channel_categories';
+import {getDrafts} from './drafts';
+import {handleAllTeamThreadsRead, handleFollowChanged, handleThreadArrived} from './threads';
 import {fetchMyChannelsAndMembers, getChannelAndMyMember, getChannelStats, markChannelAsRead} from './channels';
 import {checkForModifiedUsers, getMe, getProfilesByIds, getStatusesByIds, loadProfilesForDirect} from './users';
+import {loadBot} from './bots';
+import {getGroup, getGroupSyncables} from './groups';
+import {loadRolesIfNeeded} from './roles';
+import {getScheme} from './schemes';
 import {ChannelMembership} from 'types/channels';
+import {SyncableType} from 'types/groups';
+import {GlobalState} from 'types/store';
 import {Dictionary} from 'types/utilities';
 import {PreferenceType} from 'types/preferences';
-let doDispatch: DispatchFunc;
-export function init(platform: PlatformType, siteUrl: string | undefined | null, token: string | undefined | null, optionalWebSocket: any, additionalOptions: any = {}) {
+import {WebSocketMessage} from 'types/websocket';
+
+export {WebsocketBroadcast, WebSocketMessage} from 'types/websocket';
+
+type ClientState = {
+    serverUrl?: string;
+    reconnect: boolean;
+};
+
+const clientStates = new Map<WebSocketClient, ClientState>();
+
+function getClientState(client: WebSocketClient) {
+    let clientState = clientStates.get(client);
+    if (!clientState) {
+        clientState = {reconnect: false};
+        clientStates.set(client, clientState);
+    }
+
+    return clientState;
+}
+
+// getServerDispatch returns a dispatch function that tags every action dispatched because of a websocket event with the
+// server that it came from. This is only done for clients other than the default one so that apps connected to
+// multiple servers at once can route those actions. Client4 only makes requests to the default server, so any handlers
+// that could fetch more data using it, which are all of the ones that are thunks, are skipped for other servers. Apps
+// have to load that data from those servers themselves.
+function getServerDispatch(dispatch: DispatchFunc, getState: GetStateFunc, serverUrl?: string): DispatchFunc {
+    if (!serverUrl) {
+        return dispatch;
+    }
+
+    const serverDispatch = ((action: any) => {
+        if (typeof action === 'function') {
+            return {data: false};
+        }
+
+        return dispatch({
+            ...action,
+            meta: {
+                ...action.meta,
+                serverUrl,
+            },
+        });
+    }) as DispatchFunc;
+
+    return serverDispatch;
+}
+
+export function init(platform: PlatformType, siteUrl: string | undefined | null, token: string | undefined | null, optionalWebSocket: any, additionalOptions: any = {}, client: WebSocketClient = websocketClient) {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const config = getConfig(getState());
         let connUrl = siteUrl || config.WebsocketURL || Client4.getUrl();
         const authToken = token || Client4.getToken();
 
-        // Set the dispatch and getState globally
-        doDispatch = dispatch;
+        const clientState = getClientState(client);
+        if (client !== websocketClient) {
+            clientState.serverUrl = connUrl;
+        }
+
+        const serverDispatch = getServerDispatch(dispatch, getState, clientState.serverUrl);
 
         // replace the protocol with a websocket one
         if (platform !== 'ios' && platform !== 'android') {
@@ -54,11 +118,13 @@ export function init(platform: PlatformType, siteUrl: string | undefined | null,
         }
 
         connUrl += `${Client4.getUrlVersion()}/websocket`;
-        websocketClient.setFirstConnectCallback(handleFirstConnect);
-        websocketClient.setEventCallback(handleEvent);
-        websocketClient.setReconnectCallback(handleReconnect);
-        websocketClient.setCloseCallback(handleClose);
-        websocketClient.setConnectingCallback(handleConnecting);
+        client.setFirstConnectCallback(() => handleFirstConnect(serverDispatch, client));
+        client.setEventCallback((msg: WebSocketMessage) => handleEvent(serverDispatch, getState, msg));
+        client.setReconnectCallback(() => (clientState.serverUrl ? handleResume(serverDispatch) : handleReconnect(serverDispatch)));
+        client.setResumeCallback(() => handleResume(serverDispatch));
+        client.setCloseCallback((connectFailCount: number) => handleClose(serverDispatch, connectFailCount));
+        client.setConnectingCallback(() => handleConnecting(serverDispatch));
+        client.setHeartbeatCallback((heartbeat: {latency: number; missedPongs: number}) => handleHeartbeat(serverDispatch, heartbeat));
 
         const websocketOpts = {
             connectionUrl: connUrl,
@@ -70,17 +136,18 @@ export function init(platform: PlatformType, siteUrl: string | undefined | null,
             websocketOpts.webSocketConnector = optionalWebSocket;
         }
 
-        return websocketClient.initialize(authToken, websocketOpts);
+        return client.initialize(authToken, websocketOpts);
     };
 }
 
-let reconnect = false;
-export function close(shouldReconnect = false) {
-    return async (dispatch: DispatchFunc) => {
-        reconnect = shouldReconnect;
-        websocketClient.close(true);
+export function close(shouldReconnect = false, client: WebSocketClient = websocketClient) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const clientState = getClientState(client);
+        clientState.reconnect = shouldReconnect;
+
+        client.close(true);
         if (dispatch) {
-            dispatch({
+            getServerDispatch(dispatch, getState, clientState.serverUrl)({
                 type: GeneralTypes.WEBSOCKET_CLOSED,
                 timestamp: Date.now(),
                 data: null,
@@ -139,6 +206,8 @@ export function doReconnect(now: number) {
                 const fethcResult = await dispatch(fetchMyChannelsAndMembers(currentTeamId));
                 const data = (fethcResult as any).data || null;
                 dispatch(loadProfilesForDirect());
+                dispatch(fetchMyCategories(currentTeamId));
+                dispatch(getDrafts(currentTeamId));
 
                 if (data && data.members) {
                     const stillMemberOfCurrentChannel = data.members.find((m: ChannelMembership) => m.channel_id === currentChannelId);
@@ -170,27 +239,42 @@ export function doReconnect(now: number) {
     };
 }
 
-function handleConnecting() {
-    doDispatch({type: GeneralTypes.WEBSOCKET_REQUEST, data: null});
+function handleConnecting(dispatch: DispatchFunc) {
+    dispatch({type: GeneralTypes.WEBSOCKET_REQUEST, data: null});
 }
 
-function handleFirstConnect() {
+function handleFirstConnect(dispatch: DispatchFunc, client: WebSocketClient) {
     const now = Date.now();
 
-    if (reconnect) {
-        reconnect = false;
-        doDispatch(doReconnect(now));
+    const clientState = getClientState(client);
+    if (clientState.serverUrl) {
+        // Other servers' data can't be refetched using Client4
+        clientState.reconnect = false;
+        handleResume(dispatch);
+    } else if (clientState.reconnect) {
+        clientState.reconnect = false;
+        dispatch(doReconnect(now));
     } else {
-        doDispatch(doFirstConnect(now));
+        dispatch(doFirstConnect(now));
     }
 }
 
-function handleReconnect() {
-    doDispatch(doReconnect(Date.now()));
+function handleReconnect(dispatch: DispatchFunc) {
+    dispatch(doReconnect(Date.now()));
 }
 
-function handleClose(connectFailCount: number) {
-    doDispatch({
+// handleResume is called when the server is able to replay the events missed while disconnected, so there's no
+// need to refetch everything like in handleReconnect
+function handleResume(dispatch: DispatchFunc) {
+    dispatch({
+        type: GeneralTypes.WEBSOCKET_SUCCESS,
+        timestamp: Date.now(),
+        data: null,
+    });
+}
+
+function handleClose(dispatch: DispatchFunc, connectFailCount: number) {
+    dispatch({
         type: GeneralTypes.WEBSOCKET_FAILURE,
         error: connectFailCount,
         data: null,
@@ -198,118 +282,168 @@ function handleClose(connectFailCount: number) {
     });
 }
 
-export type WebsocketBroadcast = {
-    omit_users: Dictionary<boolean>;
-    user_id: string;
-    channel_id: string;
-    team_id: string;
+function handleHeartbeat(dispatch: DispatchFunc, {latency, missedPongs}: {latency: number; missedPongs: number}) {
+    dispatch({
+        type: GeneralTypes.WEBSOCKET_HEARTBEAT,
+        data: {latency, missedPongs},
+    });
 }
 
-export type WebSocketMessage = {
-    event: string;
-    data: any;
-    broadcast: WebsocketBroadcast;
-    seq: number;
+function handleEvent(dispatch: DispatchFunc, getState: GetStateFunc, msg: WebSocketMessage) {
+    websocketEventRegistry.notify('before', msg, dispatch, getState);
+
+    handleBuiltInEvent(dispatch, msg);
+
+    websocketEventRegistry.notify('after', msg, dispatch, getState);
 }
 
-function handleEvent(msg: WebSocketMessage) {
+function handleBuiltInEvent(dispatch: DispatchFunc, msg: WebSocketMessage) {
     switch (msg.event) {
     case WebsocketEvents.POSTED:
     case WebsocketEvents.EPHEMERAL_MESSAGE:
-        doDispatch(handleNewPostEvent(msg));
+        dispatch(handleNewPostEvent(msg));
         break;
     case WebsocketEvents.POST_EDITED:
-        doDispatch(handlePostEdited(msg));
+        dispatch(handlePostEdited(msg));
         break;
     case WebsocketEvents.POST_DELETED:
-        doDispatch(handlePostDeleted(msg));
+        dispatch(handlePostDeleted(msg));
         break;
     case WebsocketEvents.LEAVE_TEAM:
-        doDispatch(handleLeaveTeamEvent(msg));
+        dispatch(handleLeaveTeamEvent(msg));
         break;
     case WebsocketEvents.UPDATE_TEAM:
-        doDispatch(handleUpdateTeamEvent(msg));
+        dispatch(handleUpdateTeamEvent(msg));
         break;
     case WebsocketEvents.ADDED_TO_TEAM:
-        doDispatch(handleTeamAddedEvent(msg));
+        dispatch(handleTeamAddedEvent(msg));
         break;
     case WebsocketEvents.USER_ADDED:
-        doDispatch(handleUserAddedEvent(msg));
+        dispatch(handleUserAddedEvent(msg));
         break;
     case WebsocketEvents.USER_REMOVED:
-        doDispatch(handleUserRemovedEvent(msg));
+        dispatch(handleUserRemovedEvent(msg));
         break;
     case WebsocketEvents.USER_UPDATED:
-        doDispatch(handleUserUpdatedEvent(msg));
+        dispatch(handleUserUpdatedEvent(msg));
         break;
     case WebsocketEvents.ROLE_ADDED:
-        doDispatch(handleRoleAddedEvent(msg));
+        dispatch(handleRoleAddedEvent(msg));
         break;
     case WebsocketEvents.ROLE_REMOVED:
-        doDispatch(handleRoleRemovedEvent(msg));
+        dispatch(handleRoleRemovedEvent(msg));
         break;
     case WebsocketEvents.ROLE_UPDATED:
-        doDispatch(handleRoleUpdatedEvent(msg));
+        dispatch(handleRoleUpdatedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_CREATED:
-        doDispatch(handleChannelCreatedEvent(msg));
+        dispatch(handleChannelCreatedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_DELETED:
-        doDispatch(handleChannelDeletedEvent(msg));
+        dispatch(handleChannelDeletedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_UPDATED:
-        doDispatch(handleChannelUpdatedEvent(msg));
+        dispatch(handleChannelUpdatedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_CONVERTED:
-        doDispatch(handleChannelConvertedEvent(msg));
+        dispatch(handleChannelConvertedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_VIEWED:
-        doDispatch(handleChannelViewedEvent(msg));
+        dispatch(handleChannelViewedEvent(msg));
         break;
     case WebsocketEvents.CHANNEL_MEMBER_UPDATED:
-        doDispatch(handleChannelMemberUpdatedEvent(msg));
+        dispatch(handleChannelMemberUpdatedEvent(msg));
         break;
     case WebsocketEvents.DIRECT_ADDED:
-        doDispatch(handleDirectAddedEvent(msg));
+        dispatch(handleDirectAddedEvent(msg));
         break;
     case WebsocketEvents.PREFERENCE_CHANGED:
-        doDispatch(handlePreferenceChangedEvent(msg));
+        dispatch(handlePreferenceChangedEvent(msg));
         break;
     case WebsocketEvents.PREFERENCES_CHANGED:
-        doDispatch(handlePreferencesChangedEvent(msg));
+        dispatch(handlePreferencesChangedEvent(msg));
         break;
     case WebsocketEvents.PREFERENCES_DELETED:
-        doDispatch(handlePreferencesDeletedEvent(msg));
+        dispatch(handlePreferencesDeletedEvent(msg));
         break;
     case WebsocketEvents.STATUS_CHANGED:
-        doDispatch(handleStatusChangedEvent(msg));
+        dispatch(handleStatusChangedEvent(msg));
         break;
     case WebsocketEvents.TYPING:
-        doDispatch(handleUserTypingEvent(msg));
+        dispatch(handleUserTypingEvent(msg));
         break;
     case WebsocketEvents.HELLO:
-        handleHelloEvent(msg);
+        dispatch(handleHelloEvent(msg));
         break;
     case WebsocketEvents.REACTION_ADDED:
-        doDispatch(handleReactionAddedEvent(msg));
+        dispatch(handleReactionAddedEvent(msg));
         break;
     case WebsocketEvents.REACTION_REMOVED:
-        doDispatch(handleReactionRemovedEvent(msg));
+        dispatch(handleReactionRemovedEvent(msg));
         break;
     case WebsocketEvents.EMOJI_ADDED:
-        doDispatch(handleAddEmoji(msg));
+        dispatch(handleAddEmoji(msg));
         break;
     case WebsocketEvents.LICENSE_CHANGED:
-        doDispatch(handleLicenseChangedEvent(msg));
+        dispatch(handleLicenseChangedEvent(msg));
         break;
     case WebsocketEvents.CONFIG_CHANGED:
-        doDispatch(handleConfigChangedEvent(msg));
+        dispatch(handleConfigChangedEvent(msg));
         break;
     case WebsocketEvents.PLUGIN_STATUSES_CHANGED:
-        doDispatch(handlePluginStatusesChangedEvent(msg));
+        dispatch(handlePluginStatusesChangedEvent(msg));
         break;
     case WebsocketEvents.OPEN_DIALOG:
-        doDispatch(handleOpenDialogEvent(msg));
+        dispatch(handleOpenDialogEvent(msg));
+        break;
+    case WebsocketEvents.MEMBERROLE_UPDATED:
+        dispatch(handleTeamMemberRoleUpdatedEvent(msg));
+        break;
+    case WebsocketEvents.CHANNEL_SCHEME_UPDATED:
+        dispatch(handleChannelSchemeUpdatedEvent(msg));
+        break;
+    case WebsocketEvents.RECEIVED_GROUP:
+        dispatch(handleGroupReceivedEvent(msg));
+        break;
+    case WebsocketEvents.RECEIVED_GROUP_ASSOCIATED_TO_TEAM:
+        dispatch(handleGroupAssociatedEvent(msg, Groups.SYNCABLE_TYPE_TEAM));
+        break;
+    case WebsocketEvents.RECEIVED_GROUP_NOT_ASSOCIATED_TO_TEAM:
+        dispatch(handleGroupNotAssociatedEvent(msg, Groups.SYNCABLE_TYPE_TEAM));
+        break;
+    case WebsocketEvents.RECEIVED_GROUP_ASSOCIATED_TO_CHANNEL:
+        dispatch(handleGroupAssociatedEvent(msg, Groups.SYNCABLE_TYPE_CHANNEL));
+        break;
+    case WebsocketEvents.RECEIVED_GROUP_NOT_ASSOCIATED_TO_CHANNEL:
+        dispatch(handleGroupNotAssociatedEvent(msg, Groups.SYNCABLE_TYPE_CHANNEL));
+        break;
+    case WebsocketEvents.SIDEBAR_CATEGORY_CREATED:
+        dispatch(handleSidebarCategoryCreatedEvent(msg));
+        break;
+    case WebsocketEvents.SIDEBAR_CATEGORY_UPDATED:
+        dispatch(handleSidebarCategoryUpdatedEvent(msg));
+        break;
+    case WebsocketEvents.SIDEBAR_CATEGORY_DELETED:
+        dispatch(handleSidebarCategoryDeletedEvent(msg));
+        break;
+    case WebsocketEvents.SIDEBAR_CATEGORY_ORDER_UPDATED:
+        dispatch(handleSidebarCategoryOrderUpdatedEvent(msg));
+        break;
+    case WebsocketEvents.THREAD_UPDATED:
+        dispatch(handleThreadArrived(JSON.parse(msg.data.thread), msg.broadcast.team_id));
+        break;
+    case WebsocketEvents.THREAD_FOLLOW_CHANGED:
+        dispatch(handleFollowChanged(msg.broadcast.team_id, msg.data.thread_id, msg.data.state));
+        break;
+    case WebsocketEvents.THREAD_READ_CHANGED:
+        dispatch(handleThreadReadChangedEvent(msg));
+        break;
+    case WebsocketEvents.DRAFT_CREATED:
+    case WebsocketEvents.DRAFT_UPDATED:
+        dispatch(handleDraftUpdatedEvent(msg));
+        break;
+    case WebsocketEvents.DRAFT_DELETED:
+        dispatch(handleDraftDeletedEvent(msg));
         break;
     }
 }
@@ -367,9 +501,16 @@ function handleLeaveTeamEvent(msg: Partial<WebSocketMessage>) {
 }
 
 function handleUpdateTeamEvent(msg: WebSocketMessage) {
-    return {
-        type: TeamTypes.UPDATED_TEAM,
-        data: JSON.parse(msg.data.team),
+    return (dispatch: DispatchFunc) => {
+        const team = JSON.parse(msg.data.team);
+
+        dispatch({
+            type: TeamTypes.UPDATED_TEAM,
+            data: team,
+        });
+        dispatch(loadSchemeIfNeeded(team.scheme_id));
+
+        return {data: true};
     };
 }
 
@@ -472,6 +613,11 @@ function handleUserUpdatedEvent(msg: WebSocketMessage) {
                     [user.id]: user,
                 },
             });
+
+            // Bots are enabled and disabled by updating their user, so refresh the bot if we already know about it
+            if (user.is_bot && getBotAccounts(getState())[user.id]) {
+                dispatch(loadBot(user.id));
+            }
         }
         return {data: true};
     };
@@ -611,6 +757,222 @@ function handleChannelMemberUpdatedEvent(msg: WebSocketMessage) {
     };
 }
 
+function handleTeamMemberRoleUpdatedEvent(msg: WebSocketMessage) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const member = JSON.parse(msg.data.member);
+
+        if (member.user_id === getCurrentUserId(getState())) {
+            dispatch({
+                type: TeamTypes.RECEIVED_MY_TEAM_MEMBER,
+                data: member,
+            });
+            dispatch(loadRolesIfNeeded(member.roles.split(' ')));
+        } else {
+            dispatch({
+                type: TeamTypes.RECEIVED_MEMBER_IN_TEAM,
+                data: member,
+            });
+        }
+
+        return {data: true};
+    };
+}
+
+function handleChannelSchemeUpdatedEvent(msg: WebSocketMessage) {
+    return async (dispatch: DispatchFunc) => {
+        // The event doesn't include the new scheme, but changing it can change both the channel and our roles in it
+        const result = await dispatch(getChannelAndMyMember(msg.broadcast.channel_id));
+
+        if ('data' in result) {
+            dispatch(loadSchemeIfNeeded(result.data.channel.scheme_id));
+        }
+
+        return {data: true};
+    };
+}
+
+function loadSchemeIfNeeded(schemeId?: string) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+
+        // Only system admins are able to view schemes
+        if (!schemeId || getSchemes(state)[schemeId] || !haveISystemPermission(state, {permission: Permissions.MANAGE_SYSTEM})) {
+            return {data: false};
+        }
+
+        dispatch(getScheme(schemeId));
+
+        return {data: true};
+    };
+}
+
+function handleGroupReceivedEvent(msg: WebSocketMessage) {
+    return {
+        type: GroupTypes.RECEIVED_GROUP,
+        data: JSON.parse(msg.data.group),
+    };
+}
+
+function getGroupsAssociatedToSyncable(state: GlobalState, syncableType: SyncableType, syncableId: string) {
+    if (syncableType === Groups.SYNCABLE_TYPE_TEAM) {
+        return state.entities.teams.groupsAssociatedToTeam[syncableId];
+    }
+
+    // Channels that have had groups removed from them only store the remaining IDs
+    const associated = state.entities.channels.groupsAssociatedToChannel[syncableId];
+    if (Array.isArray(associated)) {
+        return {ids: associated, totalCount: associated.length};
+    }
+
+    return associated;
+}
+
+function getGroupSyncablesOfType(state: GlobalState, syncableType: SyncableType, groupId: string) {
+    const syncables = state.entities.groups.syncables[groupId];
+    if (!syncables) {
+        return null;
+    }
+
+    return syncableType === Groups.SYNCABLE_TYPE_TEAM ? syncables.teams : syncables.channels;
+}
+
+function handleGroupAssociatedEvent(msg: WebSocketMessage, syncableType: SyncableType) {
+    return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const groupId = msg.data.group_id;
+        const isTeam = syncableType === Groups.SYNCABLE_TYPE_TEAM;
+        const syncableId = isTeam ? msg.broadcast.team_id : msg.broadcast.channel_id;
+
+        // Only update the lists that have already been loaded since a partial list would look like a complete one
+        if (getGroupSyncablesOfType(getState(), syncableType, groupId)) {
+            dispatch(getGroupSyncables(groupId, syncableType));
+        }
+
+        const associated = getGroupsAssociatedToSyncable(getState(), syncableType, syncableId);
+        if (!associated) {
+            return {data: true};
+        }
+
+        const result = await dispatch(getGroup(groupId));
+        if (!('data' in result)) {
+            return {data: false};
+        }
+
+        const group = result.data;
+        const totalGroupCount = associated.ids.includes(groupId) ? associated.totalCount : associated.totalCount + 1;
+        dispatch({
+            type: isTeam ? GroupTypes.RECEIVED_GROUPS_ASSOCIATED_TO_TEAM : GroupTypes.RECEIVED_GROUPS_ASSOCIATED_TO_CHANNEL,
+            data: isTeam ? {teamID: syncableId, groups: [group], totalGroupCount} : {channelID: syncableId, groups: [group], totalGroupCount},
+        });
+
+        return {data: true};
+    };
+}
+
+function handleGroupNotAssociatedEvent(msg: WebSocketMessage, syncableType: SyncableType) {
+    return (dispatch: DispatchFunc, getState: GetStateFunc) => {
+        const state = getState();
+        const groupId = msg.data.group_id;
+        const isTeam = syncableType === Groups.SYNCABLE_TYPE_TEAM;
+        const syncableId = isTeam ? msg.broadcast.team_id : msg.broadcast.channel_id;
+
+        const actions = [];
+        if (getGroupSyncablesOfType(state, syncableType, groupId)) {
+            actions.push({
+                type: isTeam ? GroupTypes.UNLINKED_GROUP_TEAM : GroupTypes.UNLINKED_GROUP_CHANNEL,
+                data: {group_id: groupId, syncable_id: syncableId},
+            });
+        }
+
+        if (getGroupsAssociatedToSyncable(state, syncableType, syncableId)) {
+            actions.push({
+                type: isTeam ? GroupTypes.RECEIVED_GROUPS_NOT_ASSOCIATED_TO_TEAM : GroupTypes.RECEIVED_GROUPS_NOT_ASSOCIATED_TO_CHANNEL,
+                data: isTeam ? {teamID: syncableId, groups: [{id: groupId}]} : {channelID: syncableId, groups: [{id: groupId}]},
+            });
+        }
+
+        if (actions.length) {
+            dispatch(batchActions(actions));
+        }
+
+        return {data: true};
+    };
+}
+
+function handleSidebarCategoryCreatedEvent(msg: WebSocketMessage) {
+    // A new category can take channels from other categories and changes their order, so they all need to be refreshed
+    return fetchMyCategories(msg.broadcast.team_id);
+}
+
+function handleSidebarCategoryUpdatedEvent(msg: WebSocketMessage) {
+    return {
+        type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+        data: JSON.parse(msg.data.updatedCategories),
+    };
+}
+
+function handleSidebarCategoryDeletedEvent(msg: WebSocketMessage) {
+    return (dispatch: DispatchFunc) => {
+        dispatch({
+            type: ChannelCategoryTypes.CATEGORY_DELETED,
+            data: msg.data.category_id,
+        });
+
+        // The server moves the channels from the deleted category back into the default categories
+        dispatch(fetchMyCategories(msg.broadcast.team_id));
+
+        return {data: true};
+    };
+}
+
+function handleSidebarCategoryOrderUpdatedEvent(msg: WebSocketMessage) {
+    return {
+        type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+        data: {
+            teamId: msg.broadcast.team_id,
+            order: msg.data.order,
+        },
+    };
+}
+
+function handleThreadReadChangedEvent(msg: WebSocketMessage) {
+    // The event doesn't include a thread when every thread in the team was marked as read
+    if (!msg.data.thread_id) {
+        return handleAllTeamThreadsRead(msg.broadcast.team_id, msg.data.timestamp);
+    }
+
+    return {
+        type: ThreadTypes.READ_CHANGED_THREAD,
+        data: {
+            id: msg.data.thread_id,
+            team_id: msg.broadcast.team_id,
+            lastViewedAt: msg.data.timestamp,
+            prevUnreadReplies: msg.data.previous_unread_replies,
+            newUnreadReplies: msg.data.unread_replies,
+            prevUnreadMentions: msg.data.previous_unread_mentions,
+            newUnreadMentions: msg.data.unread_mentions,
+        },
+    };
+}
+
+function handleDraftUpdatedEvent(msg: WebSocketMessage) {
+    return {
+        type: DraftTypes.RECEIVED_DRAFTS,
+        data: [JSON.parse(msg.data.draft)],
+    };
+}
+
+function handleDraftDeletedEvent(msg: WebSocketMessage) {
+    const draft = JSON.parse(msg.data.draft);
+
+    return {
+        type: DraftTypes.REMOVE_DRAFT,
+        data: {
+            channel_id: draft.channel_id,
+            root_id: draft.root_id,
+        },
+    };
+}
+
 function handleDirectAddedEvent(msg: WebSocketMessage) {
     return (dispatch: DispatchFunc) => {
         dispatch(getChannelAndMyMember(msg.broadcast.channel_id));
@@ -659,11 +1021,15 @@ function handleStatusChangedEvent(msg: WebSocketMessage) {
 }
 
 function handleHelloEvent(msg: WebSocketMessage) {
-    const serverVersion = msg.data.server_version;
-    if (serverVersion && Client4.serverVersion !== serverVersion) {
-        Client4.serverVersion = serverVersion;
-        EventEmitter.emit(General.SERVER_VERSION_CHANGED, serverVersion);
-    }
+    return () => {
+        const serverVersion = msg.data.server_version;
+        if (serverVersion && Client4.serverVersion !== serverVersion) {
+            Client4.serverVersion = serverVersion;
+            EventEmitter.emit(General.SERVER_VERSION_CHANGED, serverVersion);
+        }
+
+        return {data: true};
+    };
 }
 
 function handleUserTypingEvent(msg: WebSocketMessage) {
@@ -819,8 +1185,29 @@ function getAddedDmUsersIfNecessary(preferences: PreferenceType[]) {
     };
 }
 
+// loadStatusesByIds requests the given users' statuses over the websocket, falling back to the REST API if the
+// websocket isn't connected or the request fails
+export function loadStatusesByIds(userIds: string[], client: WebSocketClient = websocketClient): ActionFunc {
+    return async (dispatch: DispatchFunc) => {
+        let statuses: Dictionary<string>;
+        try {
+            statuses = await client.getStatusesByIds(userIds);
+        } catch (error) {
+            return dispatch(getStatusesByIds(userIds));
+        }
+
+        const data = Object.keys(statuses).map((userId) => ({user_id: userId, status: statuses[userId]}));
+        dispatch({
+            type: UserTypes.RECEIVED_STATUSES,
+            data,
+        });
+
+        return {data};
+    };
+}
+
 let lastTimeTypingSent = 0;
-export function userTyping(channelId: string, parentPostId: string): ActionFunc {
+export function userTyping(channelId: string, parentPostId: string, client: WebSocketClient = websocketClient): ActionFunc {
     return async (dispatch: DispatchFunc, getState: GetStateFunc) => {
         const state = getState();
         const config = getConfig(state);
@@ -830,7 +1217,7 @@ export function userTyping(channelId: string, parentPostId: string): ActionFunc
 
         if (((t - lastTimeTypingSent) > parseInt(config.TimeBetweenUserTypingUpdatesMilliseconds!, 10)) &&
             (membersInChannel < parseInt(config.MaxNotificationsPerChannel!, 10)) && (config.EnableUserTypingMessages === 'true')) {
-            websocketClient.userTyping(channelId, parentPostId);
+            client.userTyping(channelId, parentPostId);
             lastTimeTypingSent = t;
         }
 
@@ -0,0 +1,86 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {BatchingAnalyticsProvider, GlobalAnalyticsProvider} from 'client/analytics';
+
+describe('BatchingAnalyticsProvider', () => {
+    function makeEvent(event) {
+        return {category: 'api', event, userId: 'diagnostic1', properties: {type: event}, timestamp: 1};
+    }
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should send events once the flush interval has passed', () => {
+        const send = jest.fn();
+        const provider = new BatchingAnalyticsProvider(send, {flushInterval: 1000});
+
+        provider.track(makeEvent('event1'));
+        jest.advanceTimersByTime(500);
+        provider.track(makeEvent('event2'));
+
+        expect(send).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(500);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith([makeEvent('event1'), makeEvent('event2')]);
+        assert.deepEqual(provider.queue, []);
+        assert.equal(provider.flushTimer, null);
+
+        provider.destroy();
+    });
+
+    test('should send events immediately once the batch is full', () => {
+        const send = jest.fn();
+        const provider = new BatchingAnalyticsProvider(send, {maxBatchSize: 2});
+
+        provider.track(makeEvent('event1'));
+        provider.track(makeEvent('event2'));
+        provider.track(makeEvent('event3'));
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith([makeEvent('event1'), makeEvent('event2')]);
+        assert.deepEqual(provider.queue, [makeEvent('event3')]);
+
+        provider.destroy();
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(send).toHaveBeenLastCalledWith([makeEvent('event3')]);
+    });
+
+    test('should drop events that fail to send', async () => {
+        const provider = new BatchingAnalyticsProvider(() => Promise.reject(new Error('failed')));
+
+        provider.track(makeEvent('event1'));
+
+        await provider.flush();
+
+        assert.deepEqual(provider.queue, []);
+    });
+});
+
+describe('GlobalAnalyticsProvider', () => {
+    afterEach(() => {
+        Reflect.deleteProperty(global, 'analytics');
+    });
+
+    test('should send events to global.analytics', () => {
+        global.analytics = {track: jest.fn()};
+
+        new GlobalAnalyticsProvider().track({category: 'api', event: 'api_posts_create', userId: 'diagnostic1', properties: {type: 'api_posts_create'}, timestamp: 1});
+
+        expect(global.analytics.track).toHaveBeenCalledWith(expect.objectContaining({
+            event: 'event',
+            userId: 'diagnostic1',
+            properties: {type: 'api_posts_create'},
+        }));
+    });
+});
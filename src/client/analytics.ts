@@ -0,0 +1,148 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Dictionary} from 'types/utilities';
+
+// DEFAULT_ALLOWED_EVENTS limits which events are tracked to reduce the data rate - see MM-13062
+export const DEFAULT_ALLOWED_EVENTS = [
+    'api_posts_create',
+    'api_interactive_messages_button_clicked',
+    'api_interactive_messages_menu_selected',
+    'api_interactive_messages_dialog_submitted',
+    'ui_marketplace_download',
+    'ui_marketplace_configure',
+    'ui_marketplace_opened',
+    'ui_marketplace_closed',
+    'ui_marketplace_search',
+];
+
+export const DEFAULT_FLUSH_INTERVAL = 10000;
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+export type AnalyticsEvent = {
+    category: string;
+    event: string;
+
+    // userId is the diagnostic ID of the server rather than the ID of the current user
+    userId: string;
+    properties: Dictionary<any>;
+    timestamp: number;
+};
+
+export type AnalyticsOptions = {
+    // Only events in this list are tracked. All events are tracked when this is null.
+    allowedEvents: string[] | null;
+
+    // The fraction of events that are tracked from 0 to 1
+    sampleRate: number;
+};
+
+// AnalyticsProvider receives the events tracked by Client4. Errors thrown by it are ignored so that analytics can't
+// break the requests being tracked.
+export interface AnalyticsProvider {
+    track(event: AnalyticsEvent): void | Promise<void>;
+}
+
+export class NoopAnalyticsProvider implements AnalyticsProvider {
+    track() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+// GlobalAnalyticsProvider sends events to the Segment client found at window.analytics on the web or global.analytics
+// on React Native
+export class GlobalAnalyticsProvider implements AnalyticsProvider {
+    track(event: AnalyticsEvent) {
+        const options = {
+            context: {
+                ip: '0.0.0.0',
+            },
+            page: {
+                path: '',
+                referrer: '',
+                search: '',
+                title: '',
+                url: '',
+            },
+            anonymousId: '00000000000000000000000000',
+        };
+
+        const globalAny: any = global;
+        if (globalAny && globalAny.window && globalAny.window.analytics && globalAny.window.analytics.initialized) {
+            globalAny.window.analytics.track('event', event.properties, options);
+        } else if (globalAny && globalAny.analytics) {
+            if (globalAny.analytics_context) {
+                options.context = globalAny.analytics_context;
+            }
+
+            globalAny.analytics.track(Object.assign({
+                event: 'event',
+                userId: event.userId,
+            }, {properties: event.properties}, options));
+        }
+    }
+}
+
+export type BatchingOptions = {
+    // The number of milliseconds to wait after an event is tracked before sending it
+    flushInterval: number;
+
+    // Events are sent immediately once this many are waiting
+    maxBatchSize: number;
+};
+
+// BatchingAnalyticsProvider collects events and passes them to send in batches. Any waiting events are also sent when
+// the page is unloaded, so send should use something like navigator.sendBeacon to make sure that they arrive.
+export class BatchingAnalyticsProvider implements AnalyticsProvider {
+    send: (events: AnalyticsEvent[]) => void | Promise<void>;
+    flushInterval: number;
+    maxBatchSize: number;
+    queue: AnalyticsEvent[] = [];
+    flushTimer: NodeJS.Timeout | null = null;
+
+    constructor(send: (events: AnalyticsEvent[]) => void | Promise<void>, options: Partial<BatchingOptions> = {}) {
+        this.send = send;
+        this.flushInterval = options.flushInterval || DEFAULT_FLUSH_INTERVAL;
+        this.maxBatchSize = options.maxBatchSize || DEFAULT_MAX_BATCH_SIZE;
+
+        if (typeof window !== 'undefined' && window.addEventListener) {
+            window.addEventListener('pagehide', this.flush);
+        }
+    }
+
+    track(event: AnalyticsEvent) {
+        this.queue.push(event);
+
+        if (this.queue.length >= this.maxBatchSize) {
+            this.flush();
+        } else if (!this.flushTimer) {
+            this.flushTimer = setTimeout(this.flush, this.flushInterval);
+        }
+    }
+
+    flush = async () => {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        if (this.queue.length === 0) {
+            return;
+        }
+
+        const events = this.queue;
+        this.queue = [];
+
+        try {
+            await this.send(events);
+        } catch (e) {
+            // Events that fail to send are dropped so that they can't build up while the pipeline is unavailable
+        }
+    };
+
+    // destroy sends any waiting events and stops listening for the page to unload
+    destroy() {
+        if (typeof window !== 'undefined' && window.removeEventListener) {
+            window.removeEventListener('pagehide', this.flush);
+        }
+
+        return this.flush();
+    }
+}
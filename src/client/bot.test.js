@@ -0,0 +1,245 @@
+/**
+ * @jest-environment node
+ */
+
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import Bot, {parseCommandArgs} from 'client/bot';
+import {WebSocketClient} from 'client/websocket_client';
+
+const SERVER_URL = 'http://localhost:8065';
+
+class FakeWebSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSING = 2;
+    static CLOSED = 3;
+
+    static instances = [];
+
+    constructor(url) {
+        this.url = url;
+        this.readyState = FakeWebSocket.CONNECTING;
+
+        FakeWebSocket.instances.push(this);
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen();
+    }
+
+    receive(msg) {
+        this.onmessage({data: JSON.stringify(msg)});
+    }
+
+    send() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    close() {
+        this.readyState = FakeWebSocket.CLOSED;
+    }
+}
+
+function posted(post, data = {}) {
+    return {
+        event: 'posted',
+        data: {
+            post: JSON.stringify({id: 'post1', channel_id: 'channel1', root_id: '', message: '', props: {}, ...post}),
+            channel_name: 'town-square',
+            channel_type: 'O',
+            sender_name: '@user1',
+            team_id: 'team1',
+            ...data,
+        },
+        seq: 1,
+    };
+}
+
+describe('Bot', () => {
+    let bot;
+    let socket;
+    let globalWebSocket;
+
+    beforeAll(() => {
+        if (!nock.isActive()) {
+            nock.activate();
+        }
+
+        // Bots run in Node, which doesn't provide the WebSocket added by the test setup
+        globalWebSocket = global.WebSocket;
+        Reflect.deleteProperty(global, 'WebSocket');
+    });
+
+    afterAll(() => {
+        nock.restore();
+        global.WebSocket = globalWebSocket;
+    });
+
+    beforeEach(async () => {
+        FakeWebSocket.instances = [];
+
+        nock(SERVER_URL).
+            get('/api/v4/users/me').
+            reply(200, {id: 'bot1', username: 'mybot'});
+
+        bot = new Bot({
+            url: SERVER_URL,
+            token: 'token',
+            webSocketConnector: FakeWebSocket,
+            webSocketClient: new WebSocketClient(),
+        });
+
+        let startError = null;
+        const started = bot.start();
+        started.catch((error) => {
+            startError = error;
+        });
+
+        while (FakeWebSocket.instances.length === 0) {
+            if (startError) {
+                throw startError;
+            }
+
+            await new Promise((resolve) => setImmediate(resolve)); // eslint-disable-line no-await-in-loop
+        }
+
+        socket = FakeWebSocket.instances[0];
+        socket.open();
+
+        assert.deepEqual(await started, {id: 'bot1', username: 'mybot'});
+    });
+
+    afterEach(async () => {
+        await bot.stop();
+    });
+
+    it('should connect using the token', () => {
+        assert.equal(socket.url, 'ws://localhost:8065/api/v4/websocket');
+        assert.equal(bot.client.getToken(), 'token');
+    });
+
+    it('should start without a global WebSocket', () => {
+        assert.equal(typeof WebSocket, 'undefined');
+        assert.ok(socket instanceof FakeWebSocket);
+        assert.equal(bot.user.id, 'bot1');
+    });
+
+    it('should call the post handlers for posts made by others', async () => {
+        const onPost = jest.fn();
+        const onMention = jest.fn();
+        const onDirectMessage = jest.fn();
+        bot.onPost(onPost).onMention(onMention).onDirectMessage(onDirectMessage);
+
+        socket.receive(posted({user_id: 'user1', message: 'hello'}));
+        socket.receive(posted({user_id: 'bot1', message: 'my own post'}));
+        socket.receive(posted({user_id: 'user1', type: 'system_join_channel'}));
+        socket.receive(posted({user_id: 'bot2', props: {from_bot: 'true'}}));
+        socket.receive(posted({user_id: 'user1', message: '@mybot hello'}, {mentions: JSON.stringify(['bot1'])}));
+        socket.receive(posted({user_id: 'user1', message: 'hi'}, {channel_type: 'D'}));
+
+        await bot.stop();
+
+        expect(onPost).toHaveBeenCalledTimes(3);
+        expect(onPost).toHaveBeenCalledWith(expect.objectContaining({message: 'hello'}), {
+            channelId: 'channel1',
+            channelName: 'town-square',
+            channelType: 'O',
+            teamId: 'team1',
+            senderName: '@user1',
+            mentioned: false,
+        });
+        expect(onMention).toHaveBeenCalledTimes(1);
+        expect(onMention).toHaveBeenCalledWith(expect.objectContaining({message: '@mybot hello'}), expect.objectContaining({mentioned: true}));
+        expect(onDirectMessage).toHaveBeenCalledTimes(1);
+        expect(onDirectMessage).toHaveBeenCalledWith(expect.objectContaining({message: 'hi'}), expect.objectContaining({channelType: 'D'}));
+    });
+
+    it('should parse commands', async () => {
+        const onEcho = jest.fn();
+        bot.onCommand('echo', onEcho);
+
+        socket.receive(posted({user_id: 'user1', message: '!echo one "two three"'}));
+        socket.receive(posted({user_id: 'user1', message: '@mybot: !ECHO four'}));
+        socket.receive(posted({user_id: 'user1', message: 'echo five'}));
+        socket.receive(posted({user_id: 'user1', message: '!other six'}));
+
+        await bot.stop();
+
+        expect(onEcho.mock.calls.map((call) => call[1])).toEqual([['one', 'two three'], ['four']]);
+    });
+
+    it('should call the reaction handlers', async () => {
+        const onReaction = jest.fn();
+        bot.onReaction(onReaction);
+
+        const reaction = {user_id: 'user1', post_id: 'post1', emoji_name: 'smile'};
+        socket.receive({event: 'reaction_added', data: {reaction: JSON.stringify(reaction)}});
+        socket.receive({event: 'reaction_removed', data: {reaction: JSON.stringify(reaction)}});
+        socket.receive({event: 'reaction_added', data: {reaction: JSON.stringify({...reaction, user_id: 'bot1'})}});
+
+        await bot.stop();
+
+        expect(onReaction.mock.calls).toEqual([[reaction, false], [reaction, true]]);
+    });
+
+    it('should reply in the thread of a post', async () => {
+        nock(SERVER_URL).
+            post('/api/v4/posts', {channel_id: 'channel1', root_id: 'root1', parent_id: 'root1', message: 'reply'}).
+            reply(201, {id: 'post2'}).
+            post('/api/v4/posts', {channel_id: 'channel1', root_id: 'post1', parent_id: 'post1', message: 'reply'}).
+            reply(201, {id: 'post3'});
+
+        assert.deepEqual(await bot.reply({id: 'post1', channel_id: 'channel1', root_id: 'root1'}, 'reply'), {id: 'post2'});
+        assert.deepEqual(await bot.reply({id: 'post1', channel_id: 'channel1', root_id: ''}, 'reply'), {id: 'post3'});
+    });
+
+    it('should wait for handlers to finish when stopping', async () => {
+        let finish;
+        let finished = false;
+        bot.onPost(() => new Promise((resolve) => {
+            finish = resolve;
+        }).then(() => {
+            finished = true;
+        }));
+
+        socket.receive(posted({user_id: 'user1'}));
+
+        const stopped = bot.stop();
+        await new Promise((resolve) => setImmediate(resolve));
+        finish();
+        await stopped;
+
+        assert.equal(finished, true);
+
+        // Events received after stopping are ignored
+        const onPost = jest.fn();
+        bot.onPost(onPost);
+        bot.handleEvent(posted({user_id: 'user1'}));
+        expect(onPost).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors from handlers to the error handler', async () => {
+        const error = new Error('failed');
+        const onError = jest.fn();
+        bot.onPost(() => {
+            throw error;
+        }).onError(onError);
+
+        socket.receive(posted({user_id: 'user1'}));
+
+        await bot.stop();
+
+        expect(onError).toHaveBeenCalledWith(error);
+    });
+});
+
+describe('parseCommandArgs', () => {
+    it('should split on whitespace except within quotes', () => {
+        expect(parseCommandArgs('deploy  "web app"  now')).toEqual(['deploy', 'web app', 'now']);
+        expect(parseCommandArgs('')).toEqual([]);
+    });
+});
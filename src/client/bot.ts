@@ -0,0 +1,297 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {General, Posts, WebsocketEvents} from '../constants';
+
+import {ChannelType} from 'types/channels';
+import {Post} from 'types/posts';
+import {Reaction} from 'types/reactions';
+import {UserProfile} from 'types/users';
+import {Dictionary} from 'types/utilities';
+import {PostedEventData, ReactionEventData, WebSocketMessage} from 'types/websocket';
+
+import Client4 from './client4';
+import {WebSocketClient} from './websocket_client';
+
+// Client4 uses the global fetch to make requests. Versions of Node before 18 don't provide one, so a polyfill like
+// isomorphic-fetch has to be loaded before starting a bot on them.
+export type BotOptions = {
+    // url is the address of the Mattermost server, such as https://mattermost.example.com
+    url: string;
+
+    // token is a personal access token from Client4.createUserAccessToken, such as one created for a bot account
+    // made with Client4.createBot
+    token: string;
+
+    // webSocketConnector is the WebSocket implementation used to receive events. Node doesn't provide one, so a
+    // package like ws has to be passed in.
+    webSocketConnector?: any;
+
+    // Commands are posts that start with this followed by the name of the command. Defaults to '!'.
+    commandPrefix?: string;
+
+    // Posts made by other bots are ignored unless this is set since bots replying to each other can end up in a loop
+    respondToBots?: boolean;
+
+    // How often in milliseconds to check that the connection to the server is still alive. Defaults to 30 seconds.
+    pingInterval?: number;
+
+    client?: Client4;
+    webSocketClient?: WebSocketClient;
+};
+
+export type BotPostEvent = {
+    channelId: string;
+    channelName: string;
+    channelType: ChannelType;
+    teamId: string;
+    senderName: string;
+
+    // mentioned is true when the bot was mentioned by the post
+    mentioned: boolean;
+};
+
+export type BotPostHandler = (post: Post, event: BotPostEvent) => void | Promise<void>;
+export type BotCommandHandler = (post: Post, args: string[], event: BotPostEvent) => void | Promise<void>;
+export type BotReactionHandler = (reaction: Reaction, removed: boolean) => void | Promise<void>;
+export type BotErrorHandler = (error: Error) => void;
+
+const DEFAULT_COMMAND_PREFIX = '!';
+const DEFAULT_PING_INTERVAL = 30000;
+
+// parseCommandArgs splits the text of a command on whitespace, keeping text within double quotes together
+export function parseCommandArgs(text: string) {
+    const args = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) { // eslint-disable-line no-cond-assign
+        args.push(typeof match[1] === 'undefined' ? match[2] : match[1]);
+    }
+
+    return args;
+}
+
+function getWebSocketUrl(client: Client4) {
+    return client.getWebSocketUrl().replace(/^http(s?):/, 'ws$1:');
+}
+
+// Bot connects to a Mattermost server using a bot's access token and calls the handlers registered with it as posts
+// and reactions are made. It doesn't depend on a browser or on the redux store, so it can run in Node.
+export default class Bot {
+    client: Client4;
+    webSocketClient: WebSocketClient;
+    options: BotOptions;
+    user: UserProfile | null = null;
+
+    postHandlers: BotPostHandler[] = [];
+    mentionHandlers: BotPostHandler[] = [];
+    directMessageHandlers: BotPostHandler[] = [];
+    reactionHandlers: BotReactionHandler[] = [];
+    commandHandlers: Dictionary<BotCommandHandler> = {};
+    errorHandler: BotErrorHandler | null = null;
+
+    // running contains the handlers that haven't finished yet so that stop can wait for them
+    running = new Set<Promise<void>>();
+    stopped = true;
+
+    constructor(options: BotOptions) {
+        this.options = options;
+        this.client = options.client || new Client4();
+        this.webSocketClient = options.webSocketClient || new WebSocketClient();
+    }
+
+    onPost(handler: BotPostHandler) {
+        this.postHandlers.push(handler);
+        return this;
+    }
+
+    onMention(handler: BotPostHandler) {
+        this.mentionHandlers.push(handler);
+        return this;
+    }
+
+    onDirectMessage(handler: BotPostHandler) {
+        this.directMessageHandlers.push(handler);
+        return this;
+    }
+
+    onReaction(handler: BotReactionHandler) {
+        this.reactionHandlers.push(handler);
+        return this;
+    }
+
+    // onCommand handles posts like "!name arg1 arg2", which may start with a mention of the bot
+    onCommand(name: string, handler: BotCommandHandler) {
+        this.commandHandlers[name.toLowerCase()] = handler;
+        return this;
+    }
+
+    // onError is called with any errors thrown by handlers. Errors are logged to the console if it isn't set.
+    onError(handler: BotErrorHandler) {
+        this.errorHandler = handler;
+        return this;
+    }
+
+    // start checks that the token is valid and starts listening for events. It resolves to the bot's user.
+    async start() {
+        const {url, token, webSocketConnector, pingInterval = DEFAULT_PING_INTERVAL} = this.options;
+
+        this.client.setUrl(url);
+        this.client.setToken(token);
+        this.client.setIncludeCookies(false);
+
+        this.user = await this.client.getMe();
+        this.client.setUserId(this.user.id);
+        this.stopped = false;
+
+        this.webSocketClient.setEventCallback((msg: WebSocketMessage) => this.handleEvent(msg));
+
+        const webSocketOptions: Dictionary<any> = {
+            connectionUrl: getWebSocketUrl(this.client),
+            pingInterval,
+        };
+        if (webSocketConnector) {
+            webSocketOptions.webSocketConnector = webSocketConnector;
+        }
+
+        await this.webSocketClient.initialize(token, webSocketOptions);
+
+        return this.user;
+    }
+
+    // stop disconnects from the server after waiting for any handlers that are still running
+    async stop() {
+        this.stopped = true;
+        this.webSocketClient.close(true);
+
+        while (this.running.size > 0) {
+            await Promise.all(Array.from(this.running)); // eslint-disable-line no-await-in-loop
+        }
+    }
+
+    // reply responds to a post in its thread, starting a new thread if the post isn't already part of one
+    reply(post: Post, message: string, props?: Dictionary<any>) {
+        const rootId = post.root_id || post.id;
+
+        return this.client.createPost({
+            channel_id: post.channel_id,
+            root_id: rootId,
+            parent_id: rootId,
+            message,
+            props,
+        } as Post);
+    }
+
+    // post sends a message to a channel outside of any thread
+    post(channelId: string, message: string, props?: Dictionary<any>) {
+        return this.client.createPost({
+            channel_id: channelId,
+            message,
+            props,
+        } as Post);
+    }
+
+    handleEvent(msg: WebSocketMessage) {
+        if (this.stopped) {
+            return;
+        }
+
+        switch (msg.event) {
+        case WebsocketEvents.POSTED:
+            this.handlePosted(msg);
+            break;
+        case WebsocketEvents.REACTION_ADDED:
+        case WebsocketEvents.REACTION_REMOVED:
+            this.handleReaction(msg);
+            break;
+        }
+    }
+
+    handlePosted(msg: WebSocketMessage<PostedEventData>) {
+        const post: Post = JSON.parse(msg.data.post);
+        if (!this.shouldHandlePost(post)) {
+            return;
+        }
+
+        const mentions: string[] = msg.data.mentions ? JSON.parse(msg.data.mentions) : [];
+        const event: BotPostEvent = {
+            channelId: post.channel_id,
+            channelName: msg.data.channel_name,
+            channelType: msg.data.channel_type,
+            teamId: msg.data.team_id,
+            senderName: msg.data.sender_name,
+            mentioned: mentions.includes(this.user!.id),
+        };
+
+        this.postHandlers.forEach((handler) => this.run(() => handler(post, event)));
+
+        if (event.channelType === General.DM_CHANNEL) {
+            this.directMessageHandlers.forEach((handler) => this.run(() => handler(post, event)));
+        } else if (event.mentioned) {
+            this.mentionHandlers.forEach((handler) => this.run(() => handler(post, event)));
+        }
+
+        this.handleCommand(post, event);
+    }
+
+    shouldHandlePost(post: Post) {
+        if (post.user_id === this.user!.id) {
+            return false;
+        }
+
+        if (post.type && post.type.startsWith(Posts.SYSTEM_MESSAGE_PREFIX)) {
+            return false;
+        }
+
+        return Boolean(this.options.respondToBots || !(post.props && post.props.from_bot));
+    }
+
+    handleCommand(post: Post, event: BotPostEvent) {
+        const prefix = this.options.commandPrefix || DEFAULT_COMMAND_PREFIX;
+        const mention = `@${this.user!.username}`;
+
+        let text = post.message.trim();
+        if (text.toLowerCase().startsWith(mention.toLowerCase())) {
+            text = text.substring(mention.length).replace(/^[:,]?\s*/, '');
+        }
+
+        if (!text.startsWith(prefix)) {
+            return;
+        }
+
+        const [name, ...args] = parseCommandArgs(text.substring(prefix.length));
+        const handler = name && this.commandHandlers[name.toLowerCase()];
+        if (handler) {
+            this.run(() => handler(post, args, event));
+        }
+    }
+
+    handleReaction(msg: WebSocketMessage<ReactionEventData>) {
+        const reaction: Reaction = JSON.parse(msg.data.reaction);
+        if (reaction.user_id === this.user!.id) {
+            return;
+        }
+
+        const removed = msg.event === WebsocketEvents.REACTION_REMOVED;
+        this.reactionHandlers.forEach((handler) => this.run(() => handler(reaction, removed)));
+    }
+
+    run(handler: () => void | Promise<void>) {
+        const promise = Promise.resolve().
+            then(handler).
+            catch((error) => this.handleError(error)).
+            then(() => {
+                this.running.delete(promise);
+            });
+
+        this.running.add(promise);
+    }
+
+    handleError(error: Error) {
+        if (this.errorHandler) {
+            this.errorHandler(error);
+        } else {
+            console.error(error); // eslint-disable-line no-console
+        }
+    }
+}
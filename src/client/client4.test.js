@@ -4,7 +4,7 @@
 import assert from 'assert';
 import nock from 'nock';
 
-import {ClientError, HEADER_X_VERSION_ID} from 'client/client4';
+import {ClientError, HEADER_X_VERSION_ID, REQUEST_CANCELLED, REQUEST_TIMED_OUT, isRequestCancelled} from 'client/client4';
 import TestHelper from 'test/test_helper';
 import {isMinimumServerVersion} from 'utils/helpers';
 
@@ -46,6 +46,720 @@ describe('Client4', () => {
             assert.equal(isMinimumServerVersion(client.serverVersion, 5, 1, 0), true);
         });
     });
+
+    describe('retries', () => {
+        function createClient(policy) {
+            const client = TestHelper.createClient4();
+            client.setRetryPolicy({maxRetries: 2, baseDelay: 1, maxDelay: 10, ...policy});
+            return client;
+        }
+
+        it('should not retry requests by default', async () => {
+            const client = TestHelper.createClient4();
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(503, '{"message":"unavailable"}');
+
+            await assert.rejects(client.getMe(), {message: 'unavailable'});
+            assert.ok(nock.isDone());
+        });
+
+        it('should retry idempotent requests that fail', async () => {
+            const client = createClient();
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                replyWithError('connection refused').
+                get('/users/me').
+                reply(503, '{}').
+                get('/users/me').
+                reply(200, '{"id":"user1"}');
+
+            assert.deepEqual(await client.getMe(), {id: 'user1'});
+        });
+
+        it('should stop retrying after the maximum number of retries', async () => {
+            const client = createClient();
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                times(3).
+                reply(502, '{"message":"bad gateway"}');
+
+            await assert.rejects(client.getMe(), {message: 'bad gateway'});
+            assert.ok(nock.isDone());
+        });
+
+        it('should wait as long as the server asks', async () => {
+            const client = createClient({maxDelay: 0});
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(429, '{}', {'Retry-After': '0.1'}).
+                get('/users/me').
+                reply(200, '{"id":"user1"}');
+
+            const start = Date.now();
+            assert.deepEqual(await client.getMe(), {id: 'user1'});
+            assert.ok(Date.now() - start >= 100);
+        });
+
+        it('should only retry other requests when asked to', async () => {
+            const client = createClient();
+
+            nock(client.getBaseRoute()).
+                post('/users/ids').
+                reply(503, '{"message":"unavailable"}');
+
+            await assert.rejects(client.getProfilesByIds(['user1']), {message: 'unavailable'});
+
+            nock(client.getBaseRoute()).
+                post('/users/ids').
+                reply(503, '{}').
+                post('/users/ids').
+                reply(200, '[]');
+
+            const {data} = await client.doFetchWithResponse(`${client.getBaseRoute()}/users/ids`, {method: 'post', body: '["user1"]', retry: true});
+            assert.deepEqual(data, []);
+        });
+
+        it('should not retry requests that opt out', async () => {
+            const client = createClient();
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(503, '{"message":"unavailable"}');
+
+            await assert.rejects(client.doFetch(`${client.getBaseRoute()}/users/me`, {method: 'get', retry: false}), {message: 'unavailable'});
+        });
+    });
+
+    describe('cancellation', () => {
+        function createSignal() {
+            const listeners = new Set();
+
+            return {
+                aborted: false,
+                addEventListener: (type, listener) => listeners.add(listener),
+                removeEventListener: (type, listener) => listeners.delete(listener),
+                abort() {
+                    this.aborted = true;
+                    listeners.forEach((listener) => listener());
+                },
+                listeners,
+            };
+        }
+
+        it('should reject when the request is cancelled', async () => {
+            const client = TestHelper.createClient4();
+            const signal = createSignal();
+
+            nock(client.getBaseRoute()).
+                post('/teams/team1/posts/search').
+                delay(100).
+                reply(200, '{"order":[],"posts":{}}');
+
+            const request = client.searchPostsWithParams('team1', {terms: 'test'}, {signal});
+            signal.abort();
+
+            await assert.rejects(request, (error) => {
+                assert.equal(error.server_error_id, REQUEST_CANCELLED);
+                assert.ok(isRequestCancelled(error));
+                return true;
+            });
+            assert.equal(signal.listeners.size, 0);
+        });
+
+        it('should not make a request when the signal was already aborted', async () => {
+            const client = TestHelper.createClient4();
+            const signal = createSignal();
+            signal.aborted = true;
+
+            await assert.rejects(client.autocompleteChannels('team1', 'test', {signal}), {server_error_id: REQUEST_CANCELLED});
+        });
+
+        it('should reject when the request times out', async () => {
+            const client = TestHelper.createClient4();
+            client.setDefaultTimeout(50);
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                delay(200).
+                reply(200, '{}');
+
+            await assert.rejects(client.getMe(), (error) => {
+                assert.equal(error.server_error_id, REQUEST_TIMED_OUT);
+                assert.ok(!isRequestCancelled(error));
+                return true;
+            });
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(200, '{"id":"user1"}');
+
+            assert.deepEqual(await client.doFetch(`${client.getBaseRoute()}/users/me`, {method: 'get', timeout: 1000}), {id: 'user1'});
+        });
+    });
+
+    describe('upload progress', () => {
+        class FakeXMLHttpRequest {
+            static last = null;
+
+            upload = {};
+            headers = {};
+            status = 0;
+            statusText = '';
+            responseText = '';
+
+            constructor() {
+                FakeXMLHttpRequest.last = this;
+            }
+
+            open(method, url) {
+                this.method = method;
+                this.url = url;
+            }
+
+            setRequestHeader(key, value) {
+                this.headers[key] = value;
+            }
+
+            send(body) {
+                this.body = body;
+            }
+
+            abort() {
+                this.onabort();
+            }
+
+            getAllResponseHeaders() {
+                return 'content-type: application/json\r\n';
+            }
+
+            respond(status, responseText) {
+                this.status = status;
+                this.responseText = responseText;
+                this.onload();
+            }
+        }
+
+        // The request is sent asynchronously, so this waits for it to be made
+        async function waitForRequest() {
+            while (!FakeXMLHttpRequest.last) {
+                await new Promise((resolve) => setImmediate(resolve)); // eslint-disable-line no-await-in-loop
+            }
+
+            const xhr = FakeXMLHttpRequest.last;
+            FakeXMLHttpRequest.last = null;
+
+            return xhr;
+        }
+
+        beforeEach(() => {
+            FakeXMLHttpRequest.last = null;
+            global.XMLHttpRequest = FakeXMLHttpRequest;
+        });
+
+        afterEach(() => {
+            Reflect.deleteProperty(global, 'XMLHttpRequest');
+        });
+
+        it('should report progress while uploading', async () => {
+            const client = TestHelper.createClient4();
+            const onProgress = jest.fn();
+
+            const request = client.uploadFile('form data', 'boundary', {onProgress});
+
+            const xhr = await waitForRequest();
+            assert.equal(xhr.method, 'POST');
+            assert.equal(xhr.url, client.getFilesRoute());
+            assert.equal(xhr.headers['Content-Type'], 'multipart/form-data; boundary=boundary');
+            assert.equal(xhr.body, 'form data');
+
+            xhr.upload.onprogress({lengthComputable: true, loaded: 50, total: 100});
+            xhr.respond(201, '{"file_infos":[],"client_ids":[]}');
+
+            assert.deepEqual(await request, {file_infos: [], client_ids: []});
+            expect(onProgress).toHaveBeenCalledWith({loaded: 50, total: 100});
+        });
+
+        it('should reject when the upload fails or is cancelled', async () => {
+            const client = TestHelper.createClient4();
+            const onProgress = jest.fn();
+
+            const failed = client.uploadFile('form data', 'boundary', {onProgress});
+            (await waitForRequest()).respond(413, '{"id":"api.file.upload_file.too_large","message":"too large","status_code":413}');
+
+            await assert.rejects(failed, {server_error_id: 'api.file.upload_file.too_large', status_code: 413});
+
+            const signal = {
+                aborted: false,
+                addEventListener(type, listener) {
+                    this.listener = listener;
+                },
+                removeEventListener() {
+                    this.listener = null;
+                },
+            };
+
+            const cancelled = client.uploadFile('form data', 'boundary', {onProgress, signal});
+            await waitForRequest();
+            signal.listener();
+
+            await assert.rejects(cancelled, (error) => isRequestCancelled(error));
+            assert.equal(signal.listener, null);
+        });
+
+        it('should retry uploads like any other request', async () => {
+            const client = TestHelper.createClient4();
+            client.setRetryPolicy({maxRetries: 1, baseDelay: 1, maxDelay: 1});
+
+            const request = client.uploadFile('form data', 'boundary', {onProgress: jest.fn(), retry: true});
+
+            (await waitForRequest()).respond(503, '{"message":"unavailable"}');
+            (await waitForRequest()).respond(201, '{"file_infos":[],"client_ids":[]}');
+
+            assert.deepEqual(await request, {file_infos: [], client_ids: []});
+        });
+
+        it('should only use XMLHttpRequest when progress is requested', async () => {
+            const client = TestHelper.createClient4();
+
+            nock(client.getBaseRoute()).
+                post('/files').
+                reply(201, {file_infos: [], client_ids: []});
+
+            assert.deepEqual(await client.uploadFile('form data', 'boundary'), {file_infos: [], client_ids: []});
+            assert.equal(FakeXMLHttpRequest.last, null);
+        });
+    });
+
+    describe('upload sessions', () => {
+        it('should upload data for a session', async () => {
+            const client = TestHelper.createClient4();
+
+            nock(client.getBaseRoute()).
+                post('/uploads', {channel_id: 'channel1', filename: 'test.txt', file_size: 10}).
+                reply(201, {id: 'upload1', channel_id: 'channel1', filename: 'test.txt', file_size: 10, file_offset: 0});
+
+            const session = await client.createUploadSession({channel_id: 'channel1', filename: 'test.txt', file_size: 10});
+            assert.equal(session.id, 'upload1');
+
+            nock(client.getBaseRoute()).
+                post('/uploads/upload1', '12345').
+                reply(204);
+
+            assert.equal(await client.uploadData('upload1', '12345'), null);
+
+            nock(client.getBaseRoute()).
+                post('/uploads/upload1', '67890').
+                reply(201, {id: 'file1', name: 'test.txt'});
+
+            assert.deepEqual(await client.uploadData('upload1', '67890'), {id: 'file1', name: 'test.txt'});
+        });
+    });
+
+    describe('unauthorized handler', () => {
+        it('should refresh the token and replay the request once', async () => {
+            const client = TestHelper.createClient4();
+            client.setToken('old');
+            client.setOnUnauthorized(jest.fn().mockResolvedValue('new'));
+
+            nock(client.getBaseRoute(), {reqheaders: {Authorization: 'BEARER old'}}).
+                get('/users/me').
+                reply(401, {id: 'api.context.session_expired.app_error', status_code: 401});
+            nock(client.getBaseRoute(), {reqheaders: {Authorization: 'BEARER new'}}).
+                get('/users/me').
+                reply(200, {id: 'user1'});
+
+            assert.deepEqual(await client.getMe(), {id: 'user1'});
+            assert.equal(client.getToken(), 'new');
+            expect(client.onUnauthorized).toHaveBeenCalledTimes(1);
+        });
+
+        it('should share a single refresh between concurrent requests', async () => {
+            const client = TestHelper.createClient4();
+            client.setToken('old');
+
+            let finishRefresh;
+            client.setOnUnauthorized(jest.fn(() => new Promise((resolve) => {
+                finishRefresh = resolve;
+            })));
+
+            const unauthorized = nock(client.getBaseRoute(), {reqheaders: {Authorization: 'BEARER old'}}).
+                get('/users/me').
+                reply(401, {status_code: 401}).
+                get('/users/me/teams').
+                reply(401, {status_code: 401});
+            nock(client.getBaseRoute(), {reqheaders: {Authorization: 'BEARER new'}}).
+                get('/users/me').
+                reply(200, {id: 'user1'}).
+                get('/users/me/teams').
+                reply(200, []);
+
+            const requests = Promise.all([client.getMe(), client.getMyTeams()]);
+
+            // Wait for both requests to fail before finishing the refresh
+            while (!finishRefresh || !unauthorized.isDone()) {
+                await new Promise((resolve) => setTimeout(resolve, 10)); // eslint-disable-line no-await-in-loop
+            }
+            finishRefresh('new');
+
+            assert.deepEqual(await requests, [{id: 'user1'}, []]);
+            expect(client.onUnauthorized).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fail with the original error when the credentials cannot be refreshed', async () => {
+            const client = TestHelper.createClient4();
+            client.setToken('old');
+            client.setOnUnauthorized(jest.fn().mockResolvedValue(false));
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(401, {id: 'api.context.session_expired.app_error', message: 'expired', status_code: 401});
+
+            await assert.rejects(client.getMe(), {status_code: 401, server_error_id: 'api.context.session_expired.app_error'});
+
+            nock(client.getBaseRoute()).
+                post('/users/login').
+                reply(401, {id: 'api.user.login.invalid_credentials', status_code: 401});
+
+            await assert.rejects(client.login('user', 'password'), {status_code: 401});
+            expect(client.onUnauthorized).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('interceptors', () => {
+        it('should let interceptors change requests and responses in order', async () => {
+            const client = TestHelper.createClient4();
+            const calls = [];
+
+            client.addInterceptor({
+                onRequest: (request) => {
+                    calls.push('request1');
+                    return {...request, url: request.url.replace('/users/me', '/users/user1')};
+                },
+                onResponse: (response) => {
+                    calls.push('response1');
+                    return response;
+                },
+            });
+            client.addInterceptor({
+                onRequest: (request) => {
+                    calls.push('request2');
+                    return {...request, options: {...request.options, headers: {...request.options.headers, 'X-Signature': 'signed'}}};
+                },
+                onResponse: (response) => {
+                    calls.push('response2');
+                    return {...response, data: {...response.data, intercepted: true}};
+                },
+            });
+
+            nock(client.getBaseRoute(), {reqheaders: {'X-Signature': 'signed'}}).
+                get('/users/user1').
+                reply(200, {id: 'user1'});
+
+            assert.deepEqual(await client.getMe(), {id: 'user1', intercepted: true});
+            assert.deepEqual(calls, ['request1', 'request2', 'response2', 'response1']);
+        });
+
+        it('should skip the request when an interceptor provides a response', async () => {
+            const client = TestHelper.createClient4();
+            const onRequest = jest.fn((request) => request);
+
+            client.addInterceptor({
+                onRequest: (request) => ({...request, response: {response: null, headers: new Map(), data: {id: 'cached'}}}),
+            });
+            client.addInterceptor({onRequest});
+
+            assert.deepEqual(await client.getMe(), {id: 'cached'});
+            expect(onRequest).not.toHaveBeenCalled();
+        });
+
+        it('should let interceptors recover from errors', async () => {
+            const client = TestHelper.createClient4();
+            const onError = jest.fn();
+
+            client.addInterceptor({
+                onError: (error) => {
+                    if (error.status_code === 404) {
+                        return {response: null, headers: new Map(), data: null};
+                    }
+
+                    return null;
+                },
+            });
+            const removeInterceptor = client.addInterceptor({onError});
+
+            nock(client.getBaseRoute()).
+                get('/users/user1').
+                reply(404, {id: 'store.sql_user.missing_account.const', status_code: 404});
+
+            assert.equal(await client.getUser('user1'), null);
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({status_code: 404}), expect.anything());
+
+            removeInterceptor();
+
+            nock(client.getBaseRoute()).
+                get('/users/user1').
+                reply(500, {id: 'error', status_code: 500});
+
+            await assert.rejects(client.getUser('user1'), {status_code: 500});
+            expect(onError).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('trackEvent', () => {
+        it('should only send allowed events to the analytics provider', () => {
+            const client = TestHelper.createClient4();
+            const provider = {track: jest.fn()};
+            client.setAnalyticsProvider(provider);
+            client.setDiagnosticId('diagnostic1');
+            client.setUserId('user1');
+
+            client.trackEvent('api', 'api_posts_create', {channel_id: 'channel1'});
+            client.trackEvent('api', 'api_users_login');
+
+            expect(provider.track).toHaveBeenCalledTimes(1);
+            expect(provider.track).toHaveBeenCalledWith(expect.objectContaining({
+                category: 'api',
+                event: 'api_posts_create',
+                userId: 'diagnostic1',
+                properties: {
+                    category: 'api',
+                    type: 'api_posts_create',
+                    user_actual_role: 'system_user',
+                    user_actual_id: 'user1',
+                    channel_id: 'channel1',
+                },
+            }));
+
+            client.setAnalyticsOptions({allowedEvents: null});
+            client.trackEvent('api', 'api_users_login');
+
+            expect(provider.track).toHaveBeenCalledTimes(2);
+        });
+
+        it('should sample events', () => {
+            const client = TestHelper.createClient4();
+            const provider = {track: jest.fn()};
+            client.setAnalyticsProvider(provider);
+            client.setAnalyticsOptions({sampleRate: 0.5});
+
+            const random = jest.spyOn(Math, 'random').mockReturnValue(0.7);
+            client.trackEvent('api', 'api_posts_create');
+            expect(provider.track).not.toHaveBeenCalled();
+
+            random.mockReturnValue(0.2);
+            client.trackEvent('api', 'api_posts_create');
+            expect(provider.track).toHaveBeenCalledTimes(1);
+
+            random.mockRestore();
+        });
+
+        it('should ignore errors from the analytics provider', () => {
+            const client = TestHelper.createClient4();
+            client.setAnalyticsProvider({
+                track: () => {
+                    throw new Error('failed');
+                },
+            });
+
+            client.trackEvent('api', 'api_posts_create');
+        });
+    });
+
+    describe('request scheduler', () => {
+        it('should share the response to identical GET requests', async () => {
+            const client = TestHelper.createClient4();
+            client.setRequestSchedulerOptions({dedupeRequests: true});
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                once().
+                reply(200, {id: 'user1'});
+
+            const [me1, me2] = await Promise.all([client.getMe(), client.getMe()]);
+
+            assert.deepEqual(me1, {id: 'user1'});
+            assert.equal(me1, me2);
+        });
+
+        it('should combine lookups by ID into one request', async () => {
+            const client = TestHelper.createClient4();
+            client.setRequestSchedulerOptions({batchWindow: 10});
+
+            nock(client.getBaseRoute()).
+                post('/users/status/ids', ['user1', 'user2', 'user3']).
+                once().
+                reply(200, [{user_id: 'user1', status: 'online'}, {user_id: 'user2', status: 'away'}, {user_id: 'user3', status: 'dnd'}]);
+
+            const [statuses1, statuses2] = await Promise.all([
+                client.getStatusesByIds(['user1', 'user2']),
+                client.getStatusesByIds(['user3']),
+            ]);
+
+            assert.deepEqual(statuses1, [{user_id: 'user1', status: 'online'}, {user_id: 'user2', status: 'away'}]);
+            assert.deepEqual(statuses2, [{user_id: 'user3', status: 'dnd'}]);
+        });
+    });
+
+    describe('paginate', () => {
+        it('should request pages until one is not full', async () => {
+            const client = TestHelper.createClient4();
+
+            nock(client.getBaseRoute()).
+                get('/users').
+                query({page: 0, per_page: 2}).
+                reply(200, [{id: 'user1'}, {id: 'user2'}]).
+                get('/users').
+                query({page: 1, per_page: 2}).
+                reply(200, [{id: 'user3'}]);
+
+            const pages = [];
+            for await (const page of client.paginate((page, perPage) => client.getProfiles(page, perPage), {perPage: 2})) {
+                pages.push(page.map((user) => user.id));
+            }
+
+            expect(pages).toEqual([['user1', 'user2'], ['user3']]);
+        });
+
+        it('should stop requesting pages when iteration stops', async () => {
+            const client = TestHelper.createClient4();
+            const fetchPage = jest.fn((page) => Promise.resolve([page, page]));
+
+            for await (const page of client.paginate(fetchPage, {perPage: 2})) {
+                if (page[0] === 1) {
+                    break;
+                }
+            }
+
+            expect(fetchPage).toHaveBeenCalledTimes(2);
+
+            fetchPage.mockClear();
+            expect(await client.getAllPages(fetchPage, {perPage: 2, startPage: 3, maxPages: 2})).toEqual([3, 3, 4, 4]);
+            expect(fetchPage).toHaveBeenCalledTimes(2);
+        });
+
+        it('should limit the number of pages requested at once and yield them in order', async () => {
+            const client = TestHelper.createClient4();
+
+            let inProgress = 0;
+            let maxInProgress = 0;
+            const fetchPage = jest.fn(async (page) => {
+                inProgress += 1;
+                maxInProgress = Math.max(inProgress, maxInProgress);
+
+                // Later pages finish first
+                await new Promise((resolve) => setTimeout(resolve, 20 - (page * 2)));
+
+                inProgress -= 1;
+                return page < 5 ? [page] : [];
+            });
+
+            const results = await client.getAllPages(fetchPage, {perPage: 1, concurrency: 3});
+
+            expect(results).toEqual([0, 1, 2, 3, 4]);
+            expect(maxInProgress).toBe(3);
+
+            // Pages past the last one may have been requested already
+            expect(fetchPage.mock.calls.length).toBeLessThanOrEqual(8);
+        });
+
+        it('should reject with the error from a page that fails', async () => {
+            const client = TestHelper.createClient4();
+            const fetchPage = (page) => (page === 1 ? Promise.reject(new Error('failed')) : Promise.resolve([page]));
+
+            await assert.rejects(client.getAllPages(fetchPage, {perPage: 1, concurrency: 2}), {message: 'failed'});
+        });
+    });
+
+    describe('etag cache', () => {
+        it('should return the cached response when the server responds with 304', async () => {
+            const client = TestHelper.createClient4();
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(200, '{"id":"user1"}', {Etag: 'etag1'});
+
+            assert.deepEqual(await client.getMe(), {id: 'user1'});
+
+            nock(client.getBaseRoute(), {reqheaders: {'If-None-Match': 'etag1'}}).
+                get('/users/me').
+                reply(304);
+
+            assert.deepEqual(await client.getMe(), {id: 'user1'});
+        });
+
+        it('should purge cached responses on logout', async () => {
+            const client = TestHelper.createClient4();
+            client.setUserId('user1');
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                reply(200, '{"id":"user1"}', {Etag: 'etag1'});
+
+            await client.getMe();
+
+            assert.deepEqual((await client.getEtagCacheInfo()).urls, [`${client.getBaseRoute()}/users/me`]);
+
+            nock(client.getBaseRoute()).
+                post('/users/logout').
+                reply(200, '{}');
+
+            await client.logout();
+
+            assert.equal((await client.getEtagCacheInfo()).entries, 0);
+        });
+
+        it('should log out when the cache fails to be purged', async () => {
+            const client = TestHelper.createClient4();
+            client.setToken('token');
+            client.setEtagCacheStorage({
+                getItem: () => Promise.reject(new Error('broken')),
+                setItem: () => Promise.reject(new Error('broken')),
+                removeItem: () => Promise.reject(new Error('broken')),
+                getAllKeys: () => Promise.reject(new Error('broken')),
+            });
+
+            nock(client.getBaseRoute()).
+                post('/users/logout').
+                reply(200, '{}');
+
+            await client.logout();
+
+            assert.equal(client.token, '');
+        });
+
+        it('should not cache responses that finish after logging out', async () => {
+            const client = TestHelper.createClient4();
+            client.setUserId('user1');
+
+            let received;
+            const requestReceived = new Promise((resolve) => {
+                received = resolve;
+            });
+
+            nock(client.getBaseRoute()).
+                get('/users/me').
+                delay(100).
+                reply(200, () => {
+                    received();
+                    return '{"id":"user1"}';
+                }, {Etag: 'etag1'});
+            nock(client.getBaseRoute()).
+                post('/users/logout').
+                reply(200, '{}');
+
+            const request = client.getMe();
+            await requestReceived;
+            await client.logout();
+
+            assert.deepEqual(await request, {id: 'user1'});
+            assert.equal((await client.getEtagCacheInfo()).entries, 0);
+        });
+    });
 });
 
 describe('ClientError', () => {
@@ -8,21 +8,82 @@ import {General} from '../constants';
 import {isSystemAdmin} from 'utils/user_utils';
 
 import fetch from './fetch_etag';
-import {UserProfile, UserStatus} from 'types/users';
-import {Team} from 'types/teams';
-import {Channel} from 'types/channels';
-import {Post} from 'types/posts';
+import {EtagCache, EtagCacheLimits, EtagCacheStorage} from './etag_cache';
+import {AnalyticsOptions, AnalyticsProvider, DEFAULT_ALLOWED_EVENTS, NoopAnalyticsProvider} from './analytics';
+import {RequestScheduler, RequestSchedulerOptions} from './request_scheduler';
+import {
+    AuthChangeResponse,
+    MfaSecret,
+    TermsOfService,
+    UserAccessToken,
+    UserAutocomplete,
+    UserProfile,
+    UserSearchOptions,
+    UserSession,
+    UsersStats,
+    UserStatus,
+} from 'types/users';
+import {Team, TeamInviteInfo, TeamMembership, TeamStats, TeamsWithCount, TeamUnread} from 'types/teams';
+import {
+    Channel,
+    ChannelMembership,
+    ChannelNotifyProps,
+    ChannelStats,
+    ChannelsWithTotalCount,
+    ChannelViewResponse,
+} from 'types/channels';
+import {ChannelCategory, OrderedChannelCategories} from 'types/channel_categories';
+import {OpenGraphMetadata, Post, PostActionResponse, PostList, PostSearchResults} from 'types/posts';
+import {GetUserThreadsOptions, UserThread, UserThreadList} from 'types/threads';
+import {Draft} from 'types/drafts';
+import {Reaction} from 'types/reactions';
+import {FileInfo, FileUploadResponse, UploadSession} from 'types/files';
 import {Job} from 'types/jobs';
 import {Role} from 'types/roles';
 import {Scheme} from 'types/schemes';
-import {Options} from 'types/client4';
+import {
+    GenericClientResponse,
+    InterceptedRequest,
+    Interceptor,
+    Options,
+    PageFetcher,
+    PaginateOptions,
+    RequestOptions,
+    RetryPolicy,
+    StatusOK,
+    UnauthorizedHandler,
+    UploadOptions,
+    UploadProgress,
+} from 'types/client4';
 import {PreferenceType} from 'types/preferences';
-import {IncomingWebhook, OutgoingWebhook, Command, OAuthApp, DialogSubmission} from 'types/integrations';
+import {SearchParameter} from 'types/search';
+import {
+    Command,
+    CommandArgs,
+    CommandResponse,
+    DialogSubmission,
+    IncomingWebhook,
+    OAuthApp,
+    OAuthAppInfo,
+    OutgoingWebhook,
+    SubmitDialogResponse,
+} from 'types/integrations';
 import {CustomEmoji} from 'types/emojis';
 import {Config} from 'types/config';
+import {
+    Audit,
+    AnalyticsRow,
+    ClusterInfo,
+    ComplianceReport,
+    EnvironmentConfig,
+    LdapGroupsWithCount,
+    SamlCertificateStatus,
+} from 'types/admin';
+import {ClientConfig, ClientLicense, DataRetentionPolicy, License, SystemStatus, WebrtcToken} from 'types/general';
+import {ClientPluginManifest, MarketplacePlugin, PluginManifest, PluginsResponse, PluginStatus} from 'types/plugins';
 import {Bot, BotPatch} from 'types/bots';
 import {Dictionary} from 'types/utilities';
-import {SyncablePatch} from 'types/groups';
+import {Group, GroupChannel, GroupMembers, GroupsWithCount, GroupTeam, SyncablePatch, UsersWithGroupsAndCount} from 'types/groups';
 
 const FormData = require('form-data');
 const HEADER_AUTH = 'Authorization';
@@ -32,10 +93,20 @@ const HEADER_USER_AGENT = 'User-Agent';
 const HEADER_X_CLUSTER_ID = 'X-Cluster-Id';
 const HEADER_X_CSRF_TOKEN = 'X-CSRF-Token';
 export const HEADER_X_VERSION_ID = 'X-Version-Id';
+const HTTP_UNAUTHORIZED = 401;
 const PER_PAGE_DEFAULT = 60;
 const LOGS_PER_PAGE_DEFAULT = 10000;
 export const DEFAULT_LIMIT_BEFORE = 30;
 export const DEFAULT_LIMIT_AFTER = 30;
+export const REQUEST_CANCELLED = 'client.request.cancelled';
+export const REQUEST_TIMED_OUT = 'client.request.timed_out';
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 0,
+    baseDelay: 500,
+    maxDelay: 30000,
+    retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    retryableStatusCodes: [429, 502, 503, 504],
+};
 /* eslint-disable no-throw-literal */
 
 export default class Client4 {
@@ -55,8 +126,22 @@ export default class Client4 {
     translations = {
         connectionError: 'There appears to be a problem with your internet connection.',
         unknownError: 'We received an unexpected status code from the server.',
+        requestCancelled: 'The request was cancelled.',
+        requestTimedOut: 'The request timed out.',
     };
     userRoles?: string;
+    etagCache = new EtagCache();
+    retryPolicy = DEFAULT_RETRY_POLICY;
+    defaultTimeout = 0;
+    onUnauthorized: UnauthorizedHandler | null = null;
+    interceptors: Interceptor[] = [];
+    analyticsProvider: AnalyticsProvider = new NoopAnalyticsProvider();
+    analyticsOptions: AnalyticsOptions = {
+        allowedEvents: DEFAULT_ALLOWED_EVENTS,
+        sampleRate: 1,
+    };
+    refreshingCredentials: Promise<boolean> | null = null;
+    requestScheduler = new RequestScheduler();
 
     getUrl() {
         return this.url;
@@ -103,6 +188,7 @@ export default class Client4 {
 
     setUserId(userId: string) {
         this.userId = userId;
+        this.etagCache.setNamespace(userId);
     }
 
     setUserRoles(roles: string) {
@@ -113,6 +199,112 @@ export default class Client4 {
         this.diagnosticId = diagnosticId;
     }
 
+    // setDefaultTimeout sets how long to wait in milliseconds before giving up on requests that don't specify their
+    // own timeout. Requests never time out when this is 0.
+    setDefaultTimeout(timeout: number) {
+        this.defaultTimeout = timeout;
+    }
+
+    // setOnUnauthorized sets a handler used to refresh the client's credentials when a request fails with a 401. The
+    // request is then made again once with the new credentials. The handler shouldn't use this client since any of its
+    // requests that fail with a 401 will wait for the handler to finish.
+    setOnUnauthorized(handler: UnauthorizedHandler | null) {
+        this.onUnauthorized = handler;
+    }
+
+    // refreshCredentials calls the unauthorized handler, sharing a single call between requests that fail at the same
+    // time, and resolves to whether or not the credentials were refreshed
+    refreshCredentials() {
+        if (!this.onUnauthorized) {
+            return Promise.resolve(false);
+        }
+
+        if (!this.refreshingCredentials) {
+            this.refreshingCredentials = this.onUnauthorized().then(
+                (result) => {
+                    if (typeof result === 'string') {
+                        this.setToken(result);
+                        return Boolean(result);
+                    }
+
+                    return result;
+                },
+                () => false,
+            ).then((refreshed) => {
+                this.refreshingCredentials = null;
+                return refreshed;
+            });
+        }
+
+        return this.refreshingCredentials;
+    }
+
+    // setAnalyticsProvider sets where events from trackEvent are sent. No events are sent by default.
+    setAnalyticsProvider(provider: AnalyticsProvider) {
+        this.analyticsProvider = provider;
+    }
+
+    setAnalyticsOptions(options: Partial<AnalyticsOptions>) {
+        this.analyticsOptions = {...this.analyticsOptions, ...options};
+    }
+
+    // addInterceptor adds an interceptor to the end of the chain and returns a function that removes it
+    addInterceptor(interceptor: Interceptor) {
+        this.interceptors = [...this.interceptors, interceptor];
+
+        return () => {
+            this.interceptors = this.interceptors.filter((other) => other !== interceptor);
+        };
+    }
+
+    // setRequestSchedulerOptions changes how requests are combined and limited. Requests are sent as they're made by
+    // default.
+    setRequestSchedulerOptions(options: Partial<RequestSchedulerOptions>) {
+        this.requestScheduler.setOptions(options);
+    }
+
+    setRetryPolicy(policy: Partial<RetryPolicy>) {
+        this.retryPolicy = {...this.retryPolicy, ...policy};
+    }
+
+    getRetryPolicy(options: Options) {
+        const {retry} = options;
+        if (retry === false) {
+            return null;
+        }
+
+        const policy = typeof retry === 'object' ? {...this.retryPolicy, ...retry} : this.retryPolicy;
+
+        const method = (options.method || 'GET').toUpperCase();
+        if (retry !== true && !policy.retryableMethods.includes(method)) {
+            return null;
+        }
+
+        return policy;
+    }
+
+    setEtagCacheStorage(storage: EtagCacheStorage) {
+        this.etagCache.setStorage(storage);
+    }
+
+    setEtagCacheLimits(limits: Partial<EtagCacheLimits>) {
+        return this.etagCache.setLimits(limits);
+    }
+
+    getEtagCacheInfo() {
+        return this.etagCache.getInfo();
+    }
+
+    // purgeEtagCache removes the cached response for a URL or, if none is provided, every response cached for the
+    // current user
+    purgeEtagCache(url?: string) {
+        if (url) {
+            return this.etagCache.remove(url);
+        }
+
+        return this.etagCache.clear();
+    }
+
     getServerVersion() {
         return this.serverVersion;
     }
@@ -177,10 +369,26 @@ export default class Client4 {
         return `${this.getChannelRoute(channelId)}/scheme`;
     }
 
+    getChannelCategoriesRoute(userId: string, teamId: string) {
+        return `${this.getUserRoute(userId)}/teams/${teamId}/channels/categories`;
+    }
+
     getPostsRoute() {
         return `${this.getBaseRoute()}/posts`;
     }
 
+    getUserThreadsRoute(userId: string, teamId: string) {
+        return `${this.getUserRoute(userId)}/teams/${teamId}/threads`;
+    }
+
+    getUserThreadRoute(userId: string, teamId: string, threadId: string) {
+        return `${this.getUserThreadsRoute(userId, teamId)}/${threadId}`;
+    }
+
+    getDraftsRoute() {
+        return `${this.getBaseRoute()}/drafts`;
+    }
+
     getPostRoute(postId: string) {
         return `${this.getPostsRoute()}/${postId}`;
     }
@@ -201,6 +409,14 @@ export default class Client4 {
         return `${this.getFilesRoute()}/${fileId}`;
     }
 
+    getUploadsRoute() {
+        return `${this.getBaseRoute()}/uploads`;
+    }
+
+    getUploadRoute(uploadId: string) {
+        return `${this.getUploadsRoute()}/${uploadId}`;
+    }
+
     getPreferencesRoute(userId: string) {
         return `${this.getUserRoute(userId)}/preferences`;
     }
@@ -356,14 +572,14 @@ export default class Client4 {
             queryParams.iid = inviteId;
         }
 
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUsersRoute()}${buildQueryString(queryParams)}`,
             {method: 'post', body: JSON.stringify(user)}
         );
     }
 
     patchMe = async (userPatch: Partial<UserProfile>) => {
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUserRoute('me')}/patch`,
             {method: 'put', body: JSON.stringify(userPatch)}
         );
@@ -372,7 +588,7 @@ export default class Client4 {
     patchUser = async (userPatch: Partial<UserProfile> & {id: string}) => {
         this.trackEvent('api', 'api_users_patch');
 
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUserRoute(userPatch.id)}/patch`,
             {method: 'put', body: JSON.stringify(userPatch)}
         );
@@ -381,7 +597,7 @@ export default class Client4 {
     updateUser = async (user: UserProfile) => {
         this.trackEvent('api', 'api_users_update');
 
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUserRoute(user.id)}`,
             {method: 'put', body: JSON.stringify(user)}
         );
@@ -390,7 +606,7 @@ export default class Client4 {
     promoteGuestToUser = async (userId: string) => {
         this.trackEvent('api', 'api_users_promote_guest_to_user');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/promote`,
             {method: 'post'}
         );
@@ -399,7 +615,7 @@ export default class Client4 {
     demoteUserToGuest = async (userId: string) => {
         this.trackEvent('api', 'api_users_demote_user_to_guest');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/demote`,
             {method: 'post'}
         );
@@ -408,7 +624,7 @@ export default class Client4 {
     updateUserRoles = async (userId: string, roles: string) => {
         this.trackEvent('api', 'api_users_update_roles');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/roles`,
             {method: 'put', body: JSON.stringify({roles})}
         );
@@ -422,7 +638,7 @@ export default class Client4 {
             body.code = code;
         }
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/mfa`,
             {method: 'put', body: JSON.stringify(body)}
         );
@@ -431,7 +647,7 @@ export default class Client4 {
     updateUserPassword = async (userId: string, currentPassword: string, newPassword: string) => {
         this.trackEvent('api', 'api_users_newpassword');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/password`,
             {method: 'put', body: JSON.stringify({current_password: currentPassword, new_password: newPassword})}
         );
@@ -440,7 +656,7 @@ export default class Client4 {
     resetUserPassword = async (token: string, newPassword: string) => {
         this.trackEvent('api', 'api_users_reset_password');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/password/reset`,
             {method: 'post', body: JSON.stringify({token, new_password: newPassword})}
         );
@@ -449,7 +665,7 @@ export default class Client4 {
     sendPasswordResetEmail = async (email: string) => {
         this.trackEvent('api', 'api_users_send_password_reset');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/password/reset/send`,
             {method: 'post', body: JSON.stringify({email})}
         );
@@ -458,7 +674,7 @@ export default class Client4 {
     updateUserActive = async (userId: string, active: boolean) => {
         this.trackEvent('api', 'api_users_update_active');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/active`,
             {method: 'put', body: JSON.stringify({active})}
         );
@@ -480,7 +696,7 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/image`,
             request
         );
@@ -489,42 +705,42 @@ export default class Client4 {
     setDefaultProfileImage = async (userId: string) => {
         this.trackEvent('api', 'api_users_set_default_profile_picture');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/image`,
             {method: 'delete'}
         );
     };
 
     verifyUserEmail = async (token: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/email/verify`,
             {method: 'post', body: JSON.stringify({token})}
         );
     }
 
     updateMyTermsOfServiceStatus = async (termsOfServiceId: string, accepted: boolean) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute('me')}/terms_of_service`,
             {method: 'post', body: JSON.stringify({termsOfServiceId, accepted})}
         );
     }
 
     getTermsOfService = async () => {
-        return this.doFetch(
+        return this.doFetch<TermsOfService>(
             `${this.getBaseRoute()}/terms_of_service`,
             {method: 'get'}
         );
     }
 
     createTermsOfService = async (text: string) => {
-        return this.doFetch(
+        return this.doFetch<TermsOfService>(
             `${this.getBaseRoute()}/terms_of_service`,
             {method: 'post', body: JSON.stringify({text})}
         );
     }
 
     sendVerificationEmail = async (email: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/email/verify/send`,
             {method: 'post', body: JSON.stringify({email})}
         );
@@ -548,7 +764,7 @@ export default class Client4 {
             body.ldap_only = 'true';
         }
 
-        const {data} = await this.doFetchWithResponse(
+        const {data} = await this.doFetchWithResponse<UserProfile>(
             `${this.getUsersRoute()}/login`,
             {method: 'post', body: JSON.stringify(body)}
         );
@@ -565,7 +781,7 @@ export default class Client4 {
             token,
         };
 
-        const {data} = await this.doFetchWithResponse(
+        const {data} = await this.doFetchWithResponse<UserProfile>(
             `${this.getUsersRoute()}/login`,
             {method: 'post', body: JSON.stringify(body)}
         );
@@ -576,7 +792,14 @@ export default class Client4 {
     logout = async () => {
         this.trackEvent('api', 'api_users_logout');
 
-        const {response} = await this.doFetchWithResponse(
+        // Cached responses contain the user's data, so remove them even if the server fails to log them out
+        try {
+            await this.purgeEtagCache();
+        } catch (e) {
+            // A broken cache shouldn't prevent the user from logging out
+        }
+
+        const {response} = await this.doFetchWithResponse<StatusOK>(
             `${this.getUsersRoute()}/logout`,
             {method: 'post'}
         );
@@ -593,7 +816,7 @@ export default class Client4 {
     getProfiles = async (page = 0, perPage = PER_PAGE_DEFAULT, options = {}) => {
         this.trackEvent('api', 'api_profiles_get');
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString({page, per_page: perPage, ...options})}`,
             {method: 'get'}
         );
@@ -602,25 +825,27 @@ export default class Client4 {
     getProfilesByIds = async (userIds: string[], options = {}) => {
         this.trackEvent('api', 'api_profiles_get_by_ids');
 
-        return this.doFetch(
-            `${this.getUsersRoute()}/ids${buildQueryString(options)}`,
-            {method: 'post', body: JSON.stringify(userIds)}
-        );
+        const url = `${this.getUsersRoute()}/ids${buildQueryString(options)}`;
+        return this.requestScheduler.batch(url, userIds, (ids) => this.doFetch<UserProfile[]>(
+            url,
+            {method: 'post', body: JSON.stringify(ids)}
+        ), (user) => user.id);
     };
 
     getProfilesByUsernames = async (usernames: string[]) => {
         this.trackEvent('api', 'api_profiles_get_by_usernames');
 
-        return this.doFetch(
-            `${this.getUsersRoute()}/usernames`,
-            {method: 'post', body: JSON.stringify(usernames)}
-        );
+        const url = `${this.getUsersRoute()}/usernames`;
+        return this.requestScheduler.batch(url, usernames, (names) => this.doFetch<UserProfile[]>(
+            url,
+            {method: 'post', body: JSON.stringify(names)}
+        ), (user) => user.username);
     };
 
     getProfilesInTeam = async (teamId: string, page = 0, perPage = PER_PAGE_DEFAULT, sort = '', options = {}) => {
         this.trackEvent('api', 'api_profiles_get_in_team', {team_id: teamId, sort});
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString({...options, in_team: teamId, page, per_page: perPage, sort})}`,
             {method: 'get'}
         );
@@ -634,7 +859,7 @@ export default class Client4 {
             queryStringObj.group_constrained = true;
         }
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString(queryStringObj)}`,
             {method: 'get'}
         );
@@ -643,7 +868,7 @@ export default class Client4 {
     getProfilesWithoutTeam = async (page = 0, perPage = PER_PAGE_DEFAULT, options = {}) => {
         this.trackEvent('api', 'api_profiles_get_without_team');
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString({...options, without_team: 1, page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -659,7 +884,7 @@ export default class Client4 {
         } else {
             queryStringObj = {in_channel: channelId, page, per_page: perPage};
         }
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString(queryStringObj)}`,
             {method: 'get'}
         );
@@ -668,7 +893,7 @@ export default class Client4 {
     getProfilesInGroupChannels = async (channelsIds: string[]) => {
         this.trackEvent('api', 'api_profiles_get_in_group_channels', {channelsIds});
 
-        return this.doFetch(
+        return this.doFetch<Dictionary<UserProfile[]>>(
             `${this.getUsersRoute()}/group_channels`,
             {method: 'post', body: JSON.stringify(channelsIds)}
         );
@@ -682,35 +907,35 @@ export default class Client4 {
             queryStringObj.group_constrained = true;
         }
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}${buildQueryString(queryStringObj)}`,
             {method: 'get'}
         );
     };
 
     getMe = async () => {
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUserRoute('me')}`,
             {method: 'get'}
         );
     };
 
     getUser = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUserRoute(userId)}`,
             {method: 'get'}
         );
     };
 
     getUserByUsername = async (username: string) => {
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUsersRoute()}/username/${username}`,
             {method: 'get'}
         );
     };
 
     getUserByEmail = async (email: string) => {
-        return this.doFetch(
+        return this.doFetch<UserProfile>(
             `${this.getUsersRoute()}/email/${email}`,
             {method: 'get'}
         );
@@ -730,97 +955,99 @@ export default class Client4 {
     };
     autocompleteUsers = async (name: string, teamId: string, channelId: string, options = {
         limit: General.AUTOCOMPLETE_LIMIT_DEFAULT,
-    }) => {
-        return this.doFetch(`${this.getUsersRoute()}/autocomplete${buildQueryString({
+    }, requestOptions: RequestOptions = {}) => {
+        return this.doFetch<UserAutocomplete>(`${this.getUsersRoute()}/autocomplete${buildQueryString({
             in_team: teamId,
             in_channel: channelId,
             name,
             limit: options.limit,
         })}`, {
             method: 'get',
+            ...requestOptions,
         });
     };
     getSessions = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<UserSession[]>(
             `${this.getUserRoute(userId)}/sessions`,
             {method: 'get'}
         );
     };
 
     revokeSession = async (userId: string, sessionId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/sessions/revoke`,
             {method: 'post', body: JSON.stringify({session_id: sessionId})}
         );
     };
 
     revokeAllSessionsForUser = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/sessions/revoke/all`,
             {method: 'post'}
         );
     };
 
     revokeSessionsForAllUsers = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/sessions/revoke/all`,
             {method: 'post'}
         );
     };
 
     getUserAudits = async (userId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Audit[]>(
             `${this.getUserRoute(userId)}/audits${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     checkUserMfa = async (loginId: string) => {
-        return this.doFetch(
+        return this.doFetch<{mfa_required: boolean}>(
             `${this.getUsersRoute()}/mfa`,
             {method: 'post', body: JSON.stringify({login_id: loginId})}
         );
     };
 
     generateMfaSecret = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<MfaSecret>(
             `${this.getUserRoute(userId)}/mfa/generate`,
             {method: 'post'}
         );
     };
 
     attachDevice = async (deviceId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/sessions/device`,
             {method: 'put', body: JSON.stringify({device_id: deviceId})}
         );
     };
 
-    searchUsers = (term: string, options: any) => {
+    searchUsers = (term: string, options: UserSearchOptions) => {
         this.trackEvent('api', 'api_search_users');
 
-        return this.doFetch(
+        return this.doFetch<UserProfile[]>(
             `${this.getUsersRoute()}/search`,
             {method: 'post', body: JSON.stringify({term, ...options})}
         );
     };
 
     getStatusesByIds = async (userIds: string[]) => {
-        return this.doFetch(
-            `${this.getUsersRoute()}/status/ids`,
-            {method: 'post', body: JSON.stringify(userIds)}
-        );
+        const url = `${this.getUsersRoute()}/status/ids`;
+        return this.requestScheduler.batch(url, userIds, (ids) => this.doFetch<UserStatus[]>(
+            url,
+            {method: 'post', body: JSON.stringify(ids)}
+        ), (status) => status.user_id);
     };
 
     getStatus = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<UserStatus>(
             `${this.getUserRoute(userId)}/status`,
             {method: 'get'}
         );
     };
 
     updateStatus = async (status: UserStatus) => {
-        return this.doFetch(
+        return this.doFetch<UserStatus>(
             `${this.getUserRoute(status.user_id)}/status`,
             {method: 'put', body: JSON.stringify(status)}
         );
@@ -829,7 +1056,7 @@ export default class Client4 {
     switchEmailToOAuth = async (service: string, email: string, password: string, mfaCode = '') => {
         this.trackEvent('api', 'api_users_email_to_oauth');
 
-        return this.doFetch(
+        return this.doFetch<AuthChangeResponse>(
             `${this.getUsersRoute()}/login/switch`,
             {method: 'post', body: JSON.stringify({current_service: 'email', new_service: service, email, password, mfa_code: mfaCode})}
         );
@@ -838,7 +1065,7 @@ export default class Client4 {
     switchOAuthToEmail = async (currentService: string, email: string, password: string) => {
         this.trackEvent('api', 'api_users_oauth_to_email');
 
-        return this.doFetch(
+        return this.doFetch<AuthChangeResponse>(
             `${this.getUsersRoute()}/login/switch`,
             {method: 'post', body: JSON.stringify({current_service: currentService, new_service: 'email', email, new_password: password})}
         );
@@ -847,7 +1074,7 @@ export default class Client4 {
     switchEmailToLdap = async (email: string, emailPassword: string, ldapId: string, ldapPassword: string, mfaCode = '') => {
         this.trackEvent('api', 'api_users_email_to_ldap');
 
-        return this.doFetch(
+        return this.doFetch<AuthChangeResponse>(
             `${this.getUsersRoute()}/login/switch`,
             {method: 'post', body: JSON.stringify({current_service: 'email', new_service: 'ldap', email, password: emailPassword, ldap_id: ldapId, new_password: ldapPassword, mfa_code: mfaCode})}
         );
@@ -856,28 +1083,28 @@ export default class Client4 {
     switchLdapToEmail = async (ldapPassword: string, email: string, emailPassword: string, mfaCode = '') => {
         this.trackEvent('api', 'api_users_ldap_to_email');
 
-        return this.doFetch(
+        return this.doFetch<AuthChangeResponse>(
             `${this.getUsersRoute()}/login/switch`,
             {method: 'post', body: JSON.stringify({current_service: 'ldap', new_service: 'email', email, password: ldapPassword, new_password: emailPassword, mfa_code: mfaCode})}
         );
     };
 
     getAuthorizedOAuthApps = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<OAuthApp[]>(
             `${this.getUserRoute(userId)}/oauth/apps/authorized`,
             {method: 'get'}
         );
     }
 
     authorizeOAuthApp = async (responseType: string, clientId: string, redirectUri: string, state: string, scope: string) => {
-        return this.doFetch(
+        return this.doFetch<{redirect: string}>(
             `${this.url}/oauth/authorize`,
             {method: 'post', body: JSON.stringify({client_id: clientId, response_type: responseType, redirect_uri: redirectUri, state, scope})}
         );
     }
 
     deauthorizeOAuthApp = async (clientId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.url}/oauth/deauthorize`,
             {method: 'post', body: JSON.stringify({client_id: clientId})}
         );
@@ -886,28 +1113,28 @@ export default class Client4 {
     createUserAccessToken = async (userId: string, description: string) => {
         this.trackEvent('api', 'api_users_create_access_token');
 
-        return this.doFetch(
+        return this.doFetch<UserAccessToken>(
             `${this.getUserRoute(userId)}/tokens`,
             {method: 'post', body: JSON.stringify({description})}
         );
     }
 
     getUserAccessToken = async (tokenId: string) => {
-        return this.doFetch(
+        return this.doFetch<UserAccessToken>(
             `${this.getUsersRoute()}/tokens/${tokenId}`,
             {method: 'get'}
         );
     }
 
     getUserAccessTokensForUser = async (userId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<UserAccessToken[]>(
             `${this.getUserRoute(userId)}/tokens${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     }
 
     getUserAccessTokens = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<UserAccessToken[]>(
             `${this.getUsersRoute()}/tokens${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -916,21 +1143,21 @@ export default class Client4 {
     revokeUserAccessToken = async (tokenId: string) => {
         this.trackEvent('api', 'api_users_revoke_access_token');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/tokens/revoke`,
             {method: 'post', body: JSON.stringify({token_id: tokenId})}
         );
     }
 
     disableUserAccessToken = async (tokenId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/tokens/disable`,
             {method: 'post', body: JSON.stringify({token_id: tokenId})}
         );
     }
 
     enableUserAccessToken = async (tokenId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUsersRoute()}/tokens/enable`,
             {method: 'post', body: JSON.stringify({token_id: tokenId})}
         );
@@ -941,7 +1168,7 @@ export default class Client4 {
     createTeam = async (team: Team) => {
         this.trackEvent('api', 'api_teams_create');
 
-        return this.doFetch(
+        return this.doFetch<Team>(
             `${this.getTeamsRoute()}`,
             {method: 'post', body: JSON.stringify(team)}
         );
@@ -950,7 +1177,7 @@ export default class Client4 {
     deleteTeam = async (teamId: string) => {
         this.trackEvent('api', 'api_teams_delete');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}`,
             {method: 'delete'}
         );
@@ -959,7 +1186,7 @@ export default class Client4 {
     updateTeam = async (team: Team) => {
         this.trackEvent('api', 'api_teams_update_name', {team_id: team.id});
 
-        return this.doFetch(
+        return this.doFetch<Team>(
             `${this.getTeamRoute(team.id)}`,
             {method: 'put', body: JSON.stringify(team)}
         );
@@ -968,7 +1195,7 @@ export default class Client4 {
     patchTeam = async (team: Partial<Team> & {id: string}) => {
         this.trackEvent('api', 'api_teams_patch_name', {team_id: team.id});
 
-        return this.doFetch(
+        return this.doFetch<Team>(
             `${this.getTeamRoute(team.id)}/patch`,
             {method: 'put', body: JSON.stringify(team)}
         );
@@ -977,7 +1204,7 @@ export default class Client4 {
     regenerateTeamInviteId = async (teamId: string) => {
         this.trackEvent('api', 'api_teams_regenerate_invite_id', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<Team>(
             `${this.getTeamRoute(teamId)}/regenerate_invite_id`,
             {method: 'post'}
         );
@@ -988,21 +1215,21 @@ export default class Client4 {
 
         this.trackEvent('api', 'api_teams_update_scheme', {team_id: teamId, ...patch});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamSchemeRoute(teamId)}`,
             {method: 'put', body: JSON.stringify(patch)}
         );
     };
 
     checkIfTeamExists = async (teamName: string) => {
-        return this.doFetch(
+        return this.doFetch<{exists: boolean}>(
             `${this.getTeamNameRoute(teamName)}/exists`,
             {method: 'get'}
         );
     };
 
     getTeams = async (page = 0, perPage = PER_PAGE_DEFAULT, includeTotalCount = false) => {
-        return this.doFetch(
+        return this.doFetch<Team[] | TeamsWithCount>(
             `${this.getTeamsRoute()}${buildQueryString({page, per_page: perPage, include_total_count: includeTotalCount})}`,
             {method: 'get'}
         );
@@ -1011,14 +1238,14 @@ export default class Client4 {
     searchTeams = (term: string) => {
         this.trackEvent('api', 'api_search_teams');
 
-        return this.doFetch(
+        return this.doFetch<Team[]>(
             `${this.getTeamsRoute()}/search`,
             {method: 'post', body: JSON.stringify({term})}
         );
     };
 
     getTeam = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<Team>(
             this.getTeamRoute(teamId),
             {method: 'get'}
         );
@@ -1027,63 +1254,63 @@ export default class Client4 {
     getTeamByName = async (teamName: string) => {
         this.trackEvent('api', 'api_teams_get_team_by_name');
 
-        return this.doFetch(
+        return this.doFetch<Team>(
             this.getTeamNameRoute(teamName),
             {method: 'get'}
         );
     };
 
     getMyTeams = async () => {
-        return this.doFetch(
+        return this.doFetch<Team[]>(
             `${this.getUserRoute('me')}/teams`,
             {method: 'get'}
         );
     };
 
     getTeamsForUser = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<Team[]>(
             `${this.getUserRoute(userId)}/teams`,
             {method: 'get'}
         );
     };
 
     getMyTeamMembers = async () => {
-        return this.doFetch(
+        return this.doFetch<TeamMembership[]>(
             `${this.getUserRoute('me')}/teams/members`,
             {method: 'get'}
         );
     };
 
     getMyTeamUnreads = async () => {
-        return this.doFetch(
+        return this.doFetch<TeamUnread[]>(
             `${this.getUserRoute('me')}/teams/unread`,
             {method: 'get'}
         );
     };
 
     getTeamMembers = async (teamId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<TeamMembership[]>(
             `${this.getTeamMembersRoute(teamId)}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getTeamMembersForUser = async (userId: string) => {
-        return this.doFetch(
+        return this.doFetch<TeamMembership[]>(
             `${this.getUserRoute(userId)}/teams/members`,
             {method: 'get'}
         );
     };
 
     getTeamMember = async (teamId: string, userId: string) => {
-        return this.doFetch(
+        return this.doFetch<TeamMembership>(
             `${this.getTeamMemberRoute(teamId, userId)}`,
             {method: 'get'}
         );
     };
 
     getTeamMembersByIds = async (teamId: string, userIds: string[]) => {
-        return this.doFetch(
+        return this.doFetch<TeamMembership[]>(
             `${this.getTeamMembersRoute(teamId)}/ids`,
             {method: 'post', body: JSON.stringify(userIds)}
         );
@@ -1093,7 +1320,7 @@ export default class Client4 {
         this.trackEvent('api', 'api_teams_invite_members', {team_id: teamId});
 
         const member = {user_id: userId, team_id: teamId};
-        return this.doFetch(
+        return this.doFetch<TeamMembership>(
             `${this.getTeamMembersRoute(teamId)}`,
             {method: 'post', body: JSON.stringify(member)}
         );
@@ -1103,7 +1330,7 @@ export default class Client4 {
         this.trackEvent('api', 'api_teams_invite_members');
 
         const query = buildQueryString({token, invite_id: inviteId});
-        return this.doFetch(
+        return this.doFetch<TeamMembership>(
             `${this.getTeamsRoute()}/members/invite${query}`,
             {method: 'post'}
         );
@@ -1114,7 +1341,7 @@ export default class Client4 {
 
         const members: any = [];
         userIds.forEach((id) => members.push({team_id: teamId, user_id: id}));
-        return this.doFetch(
+        return this.doFetch<TeamMembership[]>(
             `${this.getTeamMembersRoute(teamId)}/batch`,
             {method: 'post', body: JSON.stringify(members)}
         );
@@ -1122,7 +1349,7 @@ export default class Client4 {
 
     joinTeam = async (inviteId: string) => {
         const query = buildQueryString({invite_id: inviteId});
-        return this.doFetch(
+        return this.doFetch<TeamMembership>(
             `${this.getTeamsRoute()}/members/invite${query}`,
             {method: 'post'}
         );
@@ -1131,35 +1358,35 @@ export default class Client4 {
     removeFromTeam = async (teamId: string, userId: string) => {
         this.trackEvent('api', 'api_teams_remove_members', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamMemberRoute(teamId, userId)}`,
             {method: 'delete'}
         );
     };
 
     getTeamStats = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<TeamStats>(
             `${this.getTeamRoute(teamId)}/stats`,
             {method: 'get'}
         );
     };
 
     getTotalUsersStats = async () => {
-        return this.doFetch(
+        return this.doFetch<UsersStats>(
             `${this.getUsersRoute()}/stats`,
             {method: 'get'}
         );
     };
 
     invalidateAllEmailInvites = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamsRoute()}/invites/email`,
             {method: 'delete'}
         );
     };
 
     getTeamInviteInfo = async (inviteId: string) => {
-        return this.doFetch(
+        return this.doFetch<TeamInviteInfo>(
             `${this.getTeamsRoute()}/invite/${inviteId}`,
             {method: 'get'}
         );
@@ -1168,7 +1395,7 @@ export default class Client4 {
     updateTeamMemberRoles = async (teamId: string, userId: string, roles: string[]) => {
         this.trackEvent('api', 'api_teams_update_member_roles', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamMemberRoute(teamId, userId)}/roles`,
             {method: 'put', body: JSON.stringify({roles})}
         );
@@ -1177,7 +1404,7 @@ export default class Client4 {
     sendEmailInvitesToTeam = async (teamId: string, emails: string[]) => {
         this.trackEvent('api', 'api_teams_invite_members', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}/invite/email`,
             {method: 'post', body: JSON.stringify(emails)}
         );
@@ -1186,7 +1413,7 @@ export default class Client4 {
     sendEmailGuestInvitesToChannels = async (teamId: string, channelIds: string[], emails: string[], message: string) => {
         this.trackEvent('api', 'api_teams_invite_guests', {team_id: teamId, channel_ids: channelIds});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}/invite-guests/email`,
             {method: 'post', body: JSON.stringify({emails, channels: channelIds, message})}
         );
@@ -1209,7 +1436,7 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<{results: string}>(
             `${this.getTeamRoute(teamId)}/import`,
             request
         );
@@ -1241,7 +1468,7 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}/image`,
             request
         );
@@ -1250,7 +1477,7 @@ export default class Client4 {
     removeTeamIcon = async (teamId: string) => {
         this.trackEvent('api', 'api_team_remove_team_icon');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}/image`,
             {method: 'delete'}
         );
@@ -1258,7 +1485,7 @@ export default class Client4 {
 
     updateTeamMemberSchemeRoles = async (teamId: string, userId: string, isSchemeUser: boolean, isSchemeAdmin: boolean) => {
         const body = {scheme_user: isSchemeUser, scheme_admin: isSchemeAdmin};
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getTeamRoute(teamId)}/members/${userId}/schemeRoles`,
             {method: 'put', body: JSON.stringify(body)}
         );
@@ -1274,7 +1501,7 @@ export default class Client4 {
             exclude_default_channels: excludeDefaultChannels,
             include_total_count: includeTotalCount,
         };
-        return this.doFetch(
+        return this.doFetch<Channel[] | ChannelsWithTotalCount>(
             `${this.getChannelsRoute()}${buildQueryString(queryData)}`,
             {method: 'get'}
         );
@@ -1283,7 +1510,7 @@ export default class Client4 {
     createChannel = async (channel: Channel) => {
         this.trackEvent('api', 'api_channels_create', {team_id: channel.team_id});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelsRoute()}`,
             {method: 'post', body: JSON.stringify(channel)}
         );
@@ -1292,7 +1519,7 @@ export default class Client4 {
     createDirectChannel = async (userIds: string[]) => {
         this.trackEvent('api', 'api_channels_create_direct');
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelsRoute()}/direct`,
             {method: 'post', body: JSON.stringify(userIds)}
         );
@@ -1301,7 +1528,7 @@ export default class Client4 {
     createGroupChannel = async (userIds: string[]) => {
         this.trackEvent('api', 'api_channels_create_group');
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelsRoute()}/group`,
             {method: 'post', body: JSON.stringify(userIds)}
         );
@@ -1310,7 +1537,7 @@ export default class Client4 {
     deleteChannel = async (channelId: string) => {
         this.trackEvent('api', 'api_channels_delete', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelRoute(channelId)}`,
             {method: 'delete'}
         );
@@ -1319,7 +1546,7 @@ export default class Client4 {
     updateChannel = async (channel: Channel) => {
         this.trackEvent('api', 'api_channels_update', {channel_id: channel.id});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelRoute(channel.id)}`,
             {method: 'put', body: JSON.stringify(channel)}
         );
@@ -1328,16 +1555,16 @@ export default class Client4 {
     convertChannelToPrivate = async (channelId: string) => {
         this.trackEvent('api', 'api_channels_convert_to_private', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelRoute(channelId)}/convert`,
             {method: 'post'}
         );
     };
 
-    updateChannelPrivacy = async (channelId: string, privacy: any) => {
+    updateChannelPrivacy = async (channelId: string, privacy: string) => {
         this.trackEvent('api', 'api_channels_update_privacy', {channel_id: channelId, privacy});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelRoute(channelId)}/privacy`,
             {method: 'put', body: JSON.stringify({privacy})}
         );
@@ -1346,16 +1573,16 @@ export default class Client4 {
     patchChannel = async (channelId: string, channelPatch: Partial<Channel>) => {
         this.trackEvent('api', 'api_channels_patch', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelRoute(channelId)}/patch`,
             {method: 'put', body: JSON.stringify(channelPatch)}
         );
     };
 
-    updateChannelNotifyProps = async (props: any) => {
+    updateChannelNotifyProps = async (props: Partial<ChannelNotifyProps> & {channel_id: string; user_id: string}) => {
         this.trackEvent('api', 'api_users_update_channel_notifcations', {channel_id: props.channel_id});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelMemberRoute(props.channel_id, props.user_id)}/notify_props`,
             {method: 'put', body: JSON.stringify(props)}
         );
@@ -1366,7 +1593,7 @@ export default class Client4 {
 
         this.trackEvent('api', 'api_channels_update_scheme', {channel_id: channelId, ...patch});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelSchemeRoute(channelId)}`,
             {method: 'put', body: JSON.stringify(patch)}
         );
@@ -1375,14 +1602,14 @@ export default class Client4 {
     getChannel = async (channelId: string) => {
         this.trackEvent('api', 'api_channel_get', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getChannelRoute(channelId)}`,
             {method: 'get'}
         );
     };
 
     getChannelByName = async (teamId: string, channelName: string, includeDeleted = false) => {
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getTeamRoute(teamId)}/channels/name/${channelName}?include_deleted=${includeDeleted}`,
             {method: 'get'}
         );
@@ -1391,63 +1618,63 @@ export default class Client4 {
     getChannelByNameAndTeamName = async (teamName: string, channelName: string, includeDeleted = false) => {
         this.trackEvent('api', 'api_channel_get_by_name_and_teamName', {channel_name: channelName, team_name: teamName, include_deleted: includeDeleted});
 
-        return this.doFetch(
+        return this.doFetch<Channel>(
             `${this.getTeamNameRoute(teamName)}/channels/name/${channelName}?include_deleted=${includeDeleted}`,
             {method: 'get'}
         );
     };
 
     getChannels = async (teamId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getTeamRoute(teamId)}/channels${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getMyChannels = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getUserRoute('me')}/teams/${teamId}/channels`,
             {method: 'get'}
         );
     };
 
     getMyChannelMember = async (channelId: string) => {
-        return this.doFetch(
+        return this.doFetch<ChannelMembership>(
             `${this.getChannelMemberRoute(channelId, 'me')}`,
             {method: 'get'}
         );
     };
 
     getMyChannelMembers = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<ChannelMembership[]>(
             `${this.getUserRoute('me')}/teams/${teamId}/channels/members`,
             {method: 'get'}
         );
     };
 
     getChannelMembers = async (channelId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<ChannelMembership[]>(
             `${this.getChannelMembersRoute(channelId)}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getChannelTimezones = async (channelId: string) => {
-        return this.doFetch(
+        return this.doFetch<string[]>(
             `${this.getChannelRoute(channelId)}/timezones`,
             {method: 'get'}
         );
     };
 
     getChannelMember = async (channelId: string, userId: string) => {
-        return this.doFetch(
+        return this.doFetch<ChannelMembership>(
             `${this.getChannelMemberRoute(channelId, userId)}`,
             {method: 'get'}
         );
     };
 
     getChannelMembersByIds = async (channelId: string, userIds: string[]) => {
-        return this.doFetch(
+        return this.doFetch<ChannelMembership[]>(
             `${this.getChannelMembersRoute(channelId)}/ids`,
             {method: 'post', body: JSON.stringify(userIds)}
         );
@@ -1457,7 +1684,7 @@ export default class Client4 {
         this.trackEvent('api', 'api_channels_add_member', {channel_id: channelId});
 
         const member = {user_id: userId, channel_id: channelId, post_root_id: postRootId};
-        return this.doFetch(
+        return this.doFetch<ChannelMembership>(
             `${this.getChannelMembersRoute(channelId)}`,
             {method: 'post', body: JSON.stringify(member)}
         );
@@ -1466,21 +1693,21 @@ export default class Client4 {
     removeFromChannel = async (userId: string, channelId: string) => {
         this.trackEvent('api', 'api_channels_remove_member', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelMemberRoute(channelId, userId)}`,
             {method: 'delete'}
         );
     };
 
     updateChannelMemberRoles = async (channelId: string, userId: string, roles: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelMemberRoute(channelId, userId)}/roles`,
             {method: 'put', body: JSON.stringify({roles})}
         );
     };
 
     getChannelStats = async (channelId: string) => {
-        return this.doFetch(
+        return this.doFetch<ChannelStats>(
             `${this.getChannelRoute(channelId)}/stats`,
             {method: 'get'}
         );
@@ -1488,28 +1715,28 @@ export default class Client4 {
 
     viewMyChannel = async (channelId: string, prevChannelId?: string) => {
         const data = {channel_id: channelId, prev_channel_id: prevChannelId};
-        return this.doFetch(
+        return this.doFetch<ChannelViewResponse>(
             `${this.getChannelsRoute()}/members/me/view`,
             {method: 'post', body: JSON.stringify(data)}
         );
     };
 
-    autocompleteChannels = async (teamId: string, name: string) => {
-        return this.doFetch(
+    autocompleteChannels = async (teamId: string, name: string, requestOptions: RequestOptions = {}) => {
+        return this.doFetch<Channel[]>(
             `${this.getTeamRoute(teamId)}/channels/autocomplete${buildQueryString({name})}`,
-            {method: 'get'}
+            {method: 'get', ...requestOptions}
         );
     };
 
-    autocompleteChannelsForSearch = async (teamId: string, name: string) => {
-        return this.doFetch(
+    autocompleteChannelsForSearch = async (teamId: string, name: string, requestOptions: RequestOptions = {}) => {
+        return this.doFetch<Channel[]>(
             `${this.getTeamRoute(teamId)}/channels/search_autocomplete${buildQueryString({name})}`,
-            {method: 'get'}
+            {method: 'get', ...requestOptions}
         );
     };
 
     searchChannels = async (teamId: string, term: string) => {
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getTeamRoute(teamId)}/channels/search`,
             {method: 'post', body: JSON.stringify({term})}
         );
@@ -1521,14 +1748,14 @@ export default class Client4 {
             not_associated_to_group: notAssociatedToGroup,
             exclude_default_channels: excludeDefaultChannels,
         };
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getChannelsRoute()}/search`,
             {method: 'post', body: JSON.stringify(body)}
         );
     };
 
     searchGroupChannels = async (term: string) => {
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getChannelsRoute()}/group/search`,
             {method: 'post', body: JSON.stringify({term})}
         );
@@ -1536,12 +1763,71 @@ export default class Client4 {
 
     updateChannelMemberSchemeRoles = async (channelId: string, userId: string, isSchemeUser: boolean, isSchemeAdmin: boolean) => {
         const body = {scheme_user: isSchemeUser, scheme_admin: isSchemeAdmin};
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getChannelRoute(channelId)}/members/${userId}/schemeRoles`,
             {method: 'put', body: JSON.stringify(body)}
         );
     };
 
+    // Channel Category Routes
+
+    getChannelCategories = async (userId: string, teamId: string) => {
+        return this.doFetch<OrderedChannelCategories>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}`,
+            {method: 'get'}
+        );
+    };
+
+    getChannelCategory = async (userId: string, teamId: string, categoryId: string) => {
+        return this.doFetch<ChannelCategory>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}/${categoryId}`,
+            {method: 'get'}
+        );
+    };
+
+    createChannelCategory = async (userId: string, teamId: string, category: Partial<ChannelCategory>) => {
+        return this.doFetch<ChannelCategory>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}`,
+            {method: 'post', body: JSON.stringify(category)}
+        );
+    };
+
+    updateChannelCategory = async (userId: string, teamId: string, category: ChannelCategory) => {
+        return this.doFetch<ChannelCategory>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}/${category.id}`,
+            {method: 'put', body: JSON.stringify(category)}
+        );
+    };
+
+    // updateChannelCategories updates several categories at once, such as when a channel is moved between them
+    updateChannelCategories = async (userId: string, teamId: string, categories: ChannelCategory[]) => {
+        return this.doFetch<ChannelCategory[]>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}`,
+            {method: 'put', body: JSON.stringify(categories)}
+        );
+    };
+
+    deleteChannelCategory = async (userId: string, teamId: string, categoryId: string) => {
+        return this.doFetch<StatusOK>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}/${categoryId}`,
+            {method: 'delete'}
+        );
+    };
+
+    getChannelCategoryOrder = async (userId: string, teamId: string) => {
+        return this.doFetch<string[]>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}/order`,
+            {method: 'get'}
+        );
+    };
+
+    updateChannelCategoryOrder = async (userId: string, teamId: string, categoryOrder: string[]) => {
+        return this.doFetch<string[]>(
+            `${this.getChannelCategoriesRoute(userId, teamId)}/order`,
+            {method: 'put', body: JSON.stringify(categoryOrder)}
+        );
+    };
+
     // Post Routes
 
     createPost = async (post: Post) => {
@@ -1551,7 +1837,7 @@ export default class Client4 {
             this.trackEvent('api', 'api_posts_replied', {channel_id: post.channel_id});
         }
 
-        return this.doFetch(
+        return this.doFetch<Post>(
             `${this.getPostsRoute()}`,
             {method: 'post', body: JSON.stringify(post)}
         );
@@ -1560,14 +1846,14 @@ export default class Client4 {
     updatePost = async (post: Post) => {
         this.trackEvent('api', 'api_posts_update', {channel_id: post.channel_id});
 
-        return this.doFetch(
+        return this.doFetch<Post>(
             `${this.getPostRoute(post.id)}`,
             {method: 'put', body: JSON.stringify(post)}
         );
     };
 
     getPost = async (postId: string) => {
-        return this.doFetch(
+        return this.doFetch<Post>(
             `${this.getPostRoute(postId)}`,
             {method: 'get'}
         );
@@ -1576,7 +1862,7 @@ export default class Client4 {
     patchPost = async (postPatch: Partial<Post> & {id: string}) => {
         this.trackEvent('api', 'api_posts_patch', {channel_id: postPatch.channel_id});
 
-        return this.doFetch(
+        return this.doFetch<Post>(
             `${this.getPostRoute(postPatch.id)}/patch`,
             {method: 'put', body: JSON.stringify(postPatch)}
         );
@@ -1585,35 +1871,35 @@ export default class Client4 {
     deletePost = async (postId: string) => {
         this.trackEvent('api', 'api_posts_delete');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPostRoute(postId)}`,
             {method: 'delete'}
         );
     };
 
     getPostThread = async (postId: string, fetchThreads = true) => {
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getPostRoute(postId)}/thread${buildQueryString({fetchThreads})}`,
             {method: 'get'}
         );
     };
 
     getPosts = async (channelId: string, page = 0, perPage = PER_PAGE_DEFAULT, fetchThreads = true) => {
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getChannelRoute(channelId)}/posts${buildQueryString({page, per_page: perPage, fetchThreads})}`,
             {method: 'get'}
         );
     };
 
     getPostsUnread = async (channelId: string, userId: string, limitAfter = DEFAULT_LIMIT_AFTER, limitBefore = DEFAULT_LIMIT_BEFORE, fetchThreads = true) => {
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getUserRoute(userId)}/channels/${channelId}/posts/unread${buildQueryString({limit_after: limitAfter, limit_before: limitBefore, fetchThreads})}`,
             {method: 'get'}
         );
     };
 
     getPostsSince = async (channelId: string, since: number, fetchThreads = true) => {
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getChannelRoute(channelId)}/posts${buildQueryString({since, fetchThreads})}`,
             {method: 'get'}
         );
@@ -1622,7 +1908,7 @@ export default class Client4 {
     getPostsBefore = async (channelId: string, postId: string, page = 0, perPage = PER_PAGE_DEFAULT, fetchThreads = true) => {
         this.trackEvent('api', 'api_posts_get_before', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getChannelRoute(channelId)}/posts${buildQueryString({before: postId, page, per_page: perPage, fetchThreads})}`,
             {method: 'get'}
         );
@@ -1631,14 +1917,14 @@ export default class Client4 {
     getPostsAfter = async (channelId: string, postId: string, page = 0, perPage = PER_PAGE_DEFAULT, fetchThreads = true) => {
         this.trackEvent('api', 'api_posts_get_after', {channel_id: channelId});
 
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getChannelRoute(channelId)}/posts${buildQueryString({after: postId, page, per_page: perPage, fetchThreads})}`,
             {method: 'get'}
         );
     };
 
     getFileInfosForPost = async (postId: string) => {
-        return this.doFetch(
+        return this.doFetch<FileInfo[]>(
             `${this.getPostRoute(postId)}/files/info`,
             {method: 'get'}
         );
@@ -1647,7 +1933,7 @@ export default class Client4 {
     getFlaggedPosts = async (userId: string, channelId = '', teamId = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
         this.trackEvent('api', 'api_posts_get_flagged', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getUserRoute(userId)}/posts/flagged${buildQueryString({channel_id: channelId, team_id: teamId, page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -1655,7 +1941,7 @@ export default class Client4 {
 
     getPinnedPosts = async (channelId: string) => {
         this.trackEvent('api', 'api_posts_get_pinned', {channel_id: channelId});
-        return this.doFetch(
+        return this.doFetch<PostList>(
             `${this.getChannelRoute(channelId)}/pinned`,
             {method: 'get'}
         );
@@ -1664,7 +1950,7 @@ export default class Client4 {
     pinPost = async (postId: string) => {
         this.trackEvent('api', 'api_posts_pin');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPostRoute(postId)}/pin`,
             {method: 'post'}
         );
@@ -1673,7 +1959,7 @@ export default class Client4 {
     unpinPost = async (postId: string) => {
         this.trackEvent('api', 'api_posts_unpin');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPostRoute(postId)}/unpin`,
             {method: 'post'}
         );
@@ -1682,7 +1968,7 @@ export default class Client4 {
     addReaction = async (userId: string, postId: string, emojiName: string) => {
         this.trackEvent('api', 'api_reactions_save', {post_id: postId});
 
-        return this.doFetch(
+        return this.doFetch<Reaction>(
             `${this.getReactionsRoute()}`,
             {method: 'post', body: JSON.stringify({user_id: userId, post_id: postId, emoji_name: emojiName})}
         );
@@ -1691,25 +1977,25 @@ export default class Client4 {
     removeReaction = async (userId: string, postId: string, emojiName: string) => {
         this.trackEvent('api', 'api_reactions_delete', {post_id: postId});
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getUserRoute(userId)}/posts/${postId}/reactions/${emojiName}`,
             {method: 'delete'}
         );
     };
 
     getReactionsForPost = async (postId: string) => {
-        return this.doFetch(
+        return this.doFetch<Reaction[]>(
             `${this.getPostRoute(postId)}/reactions`,
             {method: 'get'}
         );
     };
 
-    searchPostsWithParams = async (teamId: string, params: any) => {
+    searchPostsWithParams = async (teamId: string, params: Partial<SearchParameter>, requestOptions: RequestOptions = {}) => {
         this.trackEvent('api', 'api_posts_search', {team_id: teamId});
 
-        return this.doFetch(
+        return this.doFetch<PostSearchResults>(
             `${this.getTeamRoute(teamId)}/posts/search`,
-            {method: 'post', body: JSON.stringify(params)}
+            {method: 'post', body: JSON.stringify(params), ...requestOptions}
         );
     };
 
@@ -1718,7 +2004,7 @@ export default class Client4 {
     };
 
     getOpenGraphMetadata = async (url: string) => {
-        return this.doFetch(
+        return this.doFetch<OpenGraphMetadata>(
             `${this.getBaseRoute()}/opengraph`,
             {method: 'post', body: JSON.stringify({url})}
         );
@@ -1741,12 +2027,81 @@ export default class Client4 {
         if (actionCookie !== '') {
             msg.cookie = actionCookie;
         }
-        return this.doFetch(
+        return this.doFetch<PostActionResponse>(
             `${this.getPostRoute(postId)}/actions/${encodeURIComponent(actionId)}`,
             {method: 'post', body: JSON.stringify(msg)}
         );
     };
 
+    // Thread Routes
+
+    // getUserThreads returns the threads followed by a user in a team, newest first. Pass the ID of the last thread
+    // received as options.before to get the next page.
+    getUserThreads = async (userId: string, teamId: string, options: GetUserThreadsOptions = {}) => {
+        const {before = '', after = '', perPage = PER_PAGE_DEFAULT, extended = false, deleted = false, unread = false, since = 0} = options;
+
+        return this.doFetch<UserThreadList>(
+            `${this.getUserThreadsRoute(userId, teamId)}${buildQueryString({before, after, per_page: perPage, extended, deleted, unread, since})}`,
+            {method: 'get'}
+        );
+    };
+
+    getUserThread = async (userId: string, teamId: string, threadId: string, extended = false) => {
+        return this.doFetch<UserThread>(
+            `${this.getUserThreadRoute(userId, teamId, threadId)}${buildQueryString({extended})}`,
+            {method: 'get'}
+        );
+    };
+
+    updateThreadsReadForUser = async (userId: string, teamId: string) => {
+        return this.doFetch<StatusOK>(
+            `${this.getUserThreadsRoute(userId, teamId)}/read`,
+            {method: 'put'}
+        );
+    };
+
+    updateThreadReadForUser = async (userId: string, teamId: string, threadId: string, timestamp: number) => {
+        return this.doFetch<UserThread>(
+            `${this.getUserThreadRoute(userId, teamId, threadId)}/read/${timestamp}`,
+            {method: 'put'}
+        );
+    };
+
+    updateThreadFollowForUser = async (userId: string, teamId: string, threadId: string, state: boolean) => {
+        return this.doFetch<StatusOK>(
+            `${this.getUserThreadRoute(userId, teamId, threadId)}/following`,
+            {method: state ? 'put' : 'delete'}
+        );
+    };
+
+    // Draft Routes
+
+    upsertDraft = async (draft: Draft) => {
+        return this.doFetch<Draft>(
+            `${this.getDraftsRoute()}`,
+            {method: 'post', body: JSON.stringify(draft)}
+        );
+    };
+
+    getUserDrafts = async (userId: string, teamId: string) => {
+        return this.doFetch<Draft[]>(
+            `${this.getUserRoute(userId)}/teams/${teamId}/drafts`,
+            {method: 'get'}
+        );
+    };
+
+    deleteDraft = async (userId: string, channelId: string, rootId = '') => {
+        let url = `${this.getUserRoute(userId)}/channels/${channelId}/drafts`;
+        if (rootId) {
+            url += `/${rootId}`;
+        }
+
+        return this.doFetch<StatusOK>(
+            url,
+            {method: 'delete'}
+        );
+    };
+
     // Files Routes
 
     getFileUrl(fileId: string, timestamp: number) {
@@ -1776,11 +2131,13 @@ export default class Client4 {
         return url;
     }
 
-    uploadFile = async (fileFormData: any, formBoundary: string) => {
+    uploadFile = async (fileFormData: any, formBoundary: string, uploadOptions: UploadOptions = {}) => {
         this.trackEvent('api', 'api_files_upload');
+
         const request: any = {
             method: 'post',
             body: fileFormData,
+            ...uploadOptions,
         };
 
         if (formBoundary) {
@@ -1789,14 +2146,46 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<FileUploadResponse>(
             `${this.getFilesRoute()}`,
             request
         );
     };
 
+    createUploadSession = async (session: {channel_id: string; filename: string; file_size: number}) => {
+        this.trackEvent('api', 'api_uploads_create', {channel_id: session.channel_id});
+
+        return this.doFetch<UploadSession>(
+            `${this.getUploadsRoute()}`,
+            {method: 'post', body: JSON.stringify(session)}
+        );
+    };
+
+    getUploadSession = async (uploadId: string) => {
+        return this.doFetch<UploadSession>(
+            `${this.getUploadRoute(uploadId)}`,
+            {method: 'get'}
+        );
+    };
+
+    getUploadSessionsForUser = async (userId: string) => {
+        return this.doFetch<UploadSession[]>(
+            `${this.getUserRoute(userId)}/uploads`,
+            {method: 'get'}
+        );
+    };
+
+    // uploadData sends the next part of the file for an upload session. It resolves to null until the last part has
+    // been received, after which it resolves to the FileInfo of the uploaded file.
+    uploadData = async (uploadId: string, data: any, uploadOptions: UploadOptions = {}) => {
+        return this.doFetch<FileInfo | null>(
+            `${this.getUploadRoute(uploadId)}`,
+            {method: 'post', body: data, ...uploadOptions}
+        );
+    };
+
     getFilePublicLink = async (fileId: string) => {
-        return this.doFetch(
+        return this.doFetch<{link: string}>(
             `${this.getFileRoute(fileId)}/link`,
             {method: 'get'}
         );
@@ -1805,21 +2194,21 @@ export default class Client4 {
     // Preference Routes
 
     savePreferences = async (userId: string, preferences: PreferenceType[]) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPreferencesRoute(userId)}`,
             {method: 'put', body: JSON.stringify(preferences)}
         );
     };
 
     getMyPreferences = async () => {
-        return this.doFetch(
+        return this.doFetch<PreferenceType[]>(
             `${this.getPreferencesRoute('me')}`,
             {method: 'get'}
         );
     };
 
     deletePreferences = async (userId: string, preferences: PreferenceType[]) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPreferencesRoute(userId)}/delete`,
             {method: 'post', body: JSON.stringify(preferences)}
         );
@@ -1828,7 +2217,7 @@ export default class Client4 {
     // General Routes
 
     ping = async () => {
-        return this.doFetch(
+        return this.doFetch<SystemStatus>(
             `${this.getBaseRoute()}/system/ping?time=${Date.now()}`,
             {method: 'get'}
         );
@@ -1844,28 +2233,28 @@ export default class Client4 {
             });
         }
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             url,
             {method: 'post', body: JSON.stringify({message, level})}
         );
     };
 
     getClientConfigOld = async () => {
-        return this.doFetch(
+        return this.doFetch<ClientConfig>(
             `${this.getBaseRoute()}/config/client?format=old`,
             {method: 'get'}
         );
     };
 
     getClientLicenseOld = async () => {
-        return this.doFetch(
+        return this.doFetch<ClientLicense>(
             `${this.getBaseRoute()}/license/client?format=old`,
             {method: 'get'}
         );
     };
 
     getTranslations = async (url: string) => {
-        return this.doFetch(
+        return this.doFetch<Dictionary<string>>(
             url,
             {method: 'get'}
         );
@@ -1876,7 +2265,7 @@ export default class Client4 {
     }
 
     webrtcToken = async () => {
-        return this.doFetch(
+        return this.doFetch<WebrtcToken>(
             `${this.getBaseRoute()}/webrtc/token`,
             {method: 'get'}
         );
@@ -1887,14 +2276,14 @@ export default class Client4 {
     createIncomingWebhook = async (hook: IncomingWebhook) => {
         this.trackEvent('api', 'api_integrations_created', {team_id: hook.team_id});
 
-        return this.doFetch(
+        return this.doFetch<IncomingWebhook>(
             `${this.getIncomingHooksRoute()}`,
             {method: 'post', body: JSON.stringify(hook)}
         );
     };
 
     getIncomingWebhook = async (hookId: string) => {
-        return this.doFetch(
+        return this.doFetch<IncomingWebhook>(
             `${this.getIncomingHookRoute(hookId)}`,
             {method: 'get'}
         );
@@ -1910,7 +2299,7 @@ export default class Client4 {
             queryParams.team_id = teamId;
         }
 
-        return this.doFetch(
+        return this.doFetch<IncomingWebhook[]>(
             `${this.getIncomingHooksRoute()}${buildQueryString(queryParams)}`,
             {method: 'get'}
         );
@@ -1919,7 +2308,7 @@ export default class Client4 {
     removeIncomingWebhook = async (hookId: string) => {
         this.trackEvent('api', 'api_integrations_deleted');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getIncomingHookRoute(hookId)}`,
             {method: 'delete'}
         );
@@ -1928,7 +2317,7 @@ export default class Client4 {
     updateIncomingWebhook = async (hook: IncomingWebhook) => {
         this.trackEvent('api', 'api_integrations_updated', {team_id: hook.team_id});
 
-        return this.doFetch(
+        return this.doFetch<IncomingWebhook>(
             `${this.getIncomingHookRoute(hook.id)}`,
             {method: 'put', body: JSON.stringify(hook)}
         );
@@ -1937,14 +2326,14 @@ export default class Client4 {
     createOutgoingWebhook = async (hook: OutgoingWebhook) => {
         this.trackEvent('api', 'api_integrations_created', {team_id: hook.team_id});
 
-        return this.doFetch(
+        return this.doFetch<OutgoingWebhook>(
             `${this.getOutgoingHooksRoute()}`,
             {method: 'post', body: JSON.stringify(hook)}
         );
     };
 
     getOutgoingWebhook = async (hookId: string) => {
-        return this.doFetch(
+        return this.doFetch<OutgoingWebhook>(
             `${this.getOutgoingHookRoute(hookId)}`,
             {method: 'get'}
         );
@@ -1964,7 +2353,7 @@ export default class Client4 {
             queryParams.team_id = teamId;
         }
 
-        return this.doFetch(
+        return this.doFetch<OutgoingWebhook[]>(
             `${this.getOutgoingHooksRoute()}${buildQueryString(queryParams)}`,
             {method: 'get'}
         );
@@ -1973,7 +2362,7 @@ export default class Client4 {
     removeOutgoingWebhook = async (hookId: string) => {
         this.trackEvent('api', 'api_integrations_deleted');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getOutgoingHookRoute(hookId)}`,
             {method: 'delete'}
         );
@@ -1982,44 +2371,44 @@ export default class Client4 {
     updateOutgoingWebhook = async (hook: OutgoingWebhook) => {
         this.trackEvent('api', 'api_integrations_updated', {team_id: hook.team_id});
 
-        return this.doFetch(
+        return this.doFetch<OutgoingWebhook>(
             `${this.getOutgoingHookRoute(hook.id)}`,
             {method: 'put', body: JSON.stringify(hook)}
         );
     };
 
     regenOutgoingHookToken = async (id: string) => {
-        return this.doFetch(
+        return this.doFetch<OutgoingWebhook>(
             `${this.getOutgoingHookRoute(id)}/regen_token`,
             {method: 'post'}
         );
     };
 
     getCommandsList = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<Command[]>(
             `${this.getCommandsRoute()}?team_id=${teamId}`,
             {method: 'get'}
         );
     };
 
     getAutocompleteCommandsList = async (teamId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Command[]>(
             `${this.getTeamRoute(teamId)}/commands/autocomplete${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getCustomTeamCommands = async (teamId: string) => {
-        return this.doFetch(
+        return this.doFetch<Command[]>(
             `${this.getCommandsRoute()}?team_id=${teamId}&custom_only=true`,
             {method: 'get'}
         );
     };
 
-    executeCommand = async (command: Command, commandArgs = {}) => {
+    executeCommand = async (command: string, commandArgs: Partial<CommandArgs> = {}) => {
         this.trackEvent('api', 'api_integrations_used');
 
-        return this.doFetch(
+        return this.doFetch<CommandResponse>(
             `${this.getCommandsRoute()}/execute`,
             {method: 'post', body: JSON.stringify({command, ...commandArgs})}
         );
@@ -2028,7 +2417,7 @@ export default class Client4 {
     addCommand = async (command: Command) => {
         this.trackEvent('api', 'api_integrations_created');
 
-        return this.doFetch(
+        return this.doFetch<Command>(
             `${this.getCommandsRoute()}`,
             {method: 'post', body: JSON.stringify(command)}
         );
@@ -2037,14 +2426,14 @@ export default class Client4 {
     editCommand = async (command: Command) => {
         this.trackEvent('api', 'api_integrations_created');
 
-        return this.doFetch(
+        return this.doFetch<Command>(
             `${this.getCommandsRoute()}/${command.id}`,
             {method: 'put', body: JSON.stringify(command)}
         );
     };
 
     regenCommandToken = async (id: string) => {
-        return this.doFetch(
+        return this.doFetch<{token: string}>(
             `${this.getCommandsRoute()}/${id}/regen_token`,
             {method: 'put'}
         );
@@ -2053,7 +2442,7 @@ export default class Client4 {
     deleteCommand = async (id: string) => {
         this.trackEvent('api', 'api_integrations_deleted');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getCommandsRoute()}/${id}`,
             {method: 'delete'}
         );
@@ -2062,35 +2451,35 @@ export default class Client4 {
     createOAuthApp = async (app: OAuthApp) => {
         this.trackEvent('api', 'api_apps_register');
 
-        return this.doFetch(
+        return this.doFetch<OAuthApp>(
             `${this.getOAuthAppsRoute()}`,
             {method: 'post', body: JSON.stringify(app)}
         );
     };
 
     editOAuthApp = async (app: OAuthApp) => {
-        return this.doFetch(
+        return this.doFetch<OAuthApp>(
             `${this.getOAuthAppsRoute()}/${app.id}`,
             {method: 'put', body: JSON.stringify(app)}
         );
     };
 
     getOAuthApps = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<OAuthApp[]>(
             `${this.getOAuthAppsRoute()}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getOAuthApp = async (appId: string) => {
-        return this.doFetch(
+        return this.doFetch<OAuthApp>(
             `${this.getOAuthAppRoute(appId)}`,
             {method: 'get'}
         );
     };
 
     getOAuthAppInfo = async (appId: string) => {
-        return this.doFetch(
+        return this.doFetch<OAuthAppInfo>(
             `${this.getOAuthAppRoute(appId)}/info`,
             {method: 'get'}
         );
@@ -2099,14 +2488,14 @@ export default class Client4 {
     deleteOAuthApp = async (appId: string) => {
         this.trackEvent('api', 'api_apps_delete');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getOAuthAppRoute(appId)}`,
             {method: 'delete'}
         );
     };
 
     regenOAuthAppSecret = async (appId: string) => {
-        return this.doFetch(
+        return this.doFetch<OAuthApp>(
             `${this.getOAuthAppRoute(appId)}/regen_secret`,
             {method: 'post'}
         );
@@ -2114,7 +2503,7 @@ export default class Client4 {
 
     submitInteractiveDialog = async (data: DialogSubmission) => {
         this.trackEvent('api', 'api_interactive_messages_dialog_submitted');
-        return this.doFetch(
+        return this.doFetch<SubmitDialogResponse>(
             `${this.getBaseRoute()}/actions/dialogs/submit`,
             {method: 'post', body: JSON.stringify(data)},
         );
@@ -2139,28 +2528,28 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<CustomEmoji>(
             `${this.getEmojisRoute()}`,
             request
         );
     };
 
     getCustomEmoji = async (id: string) => {
-        return this.doFetch(
+        return this.doFetch<CustomEmoji>(
             `${this.getEmojisRoute()}/${id}`,
             {method: 'get'}
         );
     };
 
     getCustomEmojiByName = async (name: string) => {
-        return this.doFetch(
+        return this.doFetch<CustomEmoji>(
             `${this.getEmojisRoute()}/name/${name}`,
             {method: 'get'}
         );
     };
 
     getCustomEmojis = async (page = 0, perPage = PER_PAGE_DEFAULT, sort = '') => {
-        return this.doFetch(
+        return this.doFetch<CustomEmoji[]>(
             `${this.getEmojisRoute()}${buildQueryString({page, per_page: perPage, sort})}`,
             {method: 'get'}
         );
@@ -2169,7 +2558,7 @@ export default class Client4 {
     deleteCustomEmoji = async (emojiId: string) => {
         this.trackEvent('api', 'api_emoji_custom_delete');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getEmojiRoute(emojiId)}`,
             {method: 'delete'}
         );
@@ -2184,14 +2573,14 @@ export default class Client4 {
     };
 
     searchCustomEmoji = async (term: string, options = {}) => {
-        return this.doFetch(
+        return this.doFetch<CustomEmoji[]>(
             `${this.getEmojisRoute()}/search`,
             {method: 'post', body: JSON.stringify({term, ...options})}
         );
     };
 
     autocompleteCustomEmoji = async (name: string) => {
-        return this.doFetch(
+        return this.doFetch<CustomEmoji[]>(
             `${this.getEmojisRoute()}/autocomplete${buildQueryString({name})}`,
             {method: 'get'}
         );
@@ -2200,7 +2589,7 @@ export default class Client4 {
     // Timezone Routes
 
     getTimezones = async () => {
-        return this.doFetch(
+        return this.doFetch<string[]>(
             `${this.getTimezonesRoute()}`,
             {method: 'get'}
         );
@@ -2209,7 +2598,7 @@ export default class Client4 {
     // Data Retention
 
     getDataRetentionPolicy = () => {
-        return this.doFetch(
+        return this.doFetch<DataRetentionPolicy>(
             `${this.getDataRetentionRoute()}/policy`,
             {method: 'get'}
         );
@@ -2218,35 +2607,35 @@ export default class Client4 {
     // Jobs Routes
 
     getJob = async (id: string) => {
-        return this.doFetch(
+        return this.doFetch<Job>(
             `${this.getJobsRoute()}/${id}`,
             {method: 'get'}
         );
     };
 
     getJobs = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Job[]>(
             `${this.getJobsRoute()}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getJobsByType = async (type: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Job[]>(
             `${this.getJobsRoute()}/type/${type}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     createJob = async (job: Job) => {
-        return this.doFetch(
+        return this.doFetch<Job>(
             `${this.getJobsRoute()}`,
             {method: 'post', body: JSON.stringify(job)}
         );
     };
 
     cancelJob = async (id: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getJobsRoute()}/${id}/cancel`,
             {method: 'post'}
         );
@@ -2255,98 +2644,98 @@ export default class Client4 {
     // Admin Routes
 
     getLogs = async (page = 0, perPage = LOGS_PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<string[]>(
             `${this.getBaseRoute()}/logs${buildQueryString({page, logs_per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getAudits = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Audit[]>(
             `${this.getBaseRoute()}/audits${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getConfig = async () => {
-        return this.doFetch(
+        return this.doFetch<Config>(
             `${this.getBaseRoute()}/config`,
             {method: 'get'}
         );
     };
 
     updateConfig = async (config: Config) => {
-        return this.doFetch(
+        return this.doFetch<Config>(
             `${this.getBaseRoute()}/config`,
             {method: 'put', body: JSON.stringify(config)}
         );
     };
 
     reloadConfig = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/config/reload`,
             {method: 'post'}
         );
     };
 
     getEnvironmentConfig = async () => {
-        return this.doFetch(
+        return this.doFetch<EnvironmentConfig>(
             `${this.getBaseRoute()}/config/environment`,
             {method: 'get'}
         );
     };
 
     testEmail = async (config: Config) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/email/test`,
             {method: 'post', body: JSON.stringify(config)}
         );
     };
 
     testSiteURL = async (siteURL: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/site_url/test`,
             {method: 'post', body: JSON.stringify({site_url: siteURL})}
         );
     };
 
     testS3Connection = async (config: Config) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/file/s3_test`,
             {method: 'post', body: JSON.stringify(config)}
         );
     };
 
     invalidateCaches = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/caches/invalidate`,
             {method: 'post'}
         );
     };
 
     recycleDatabase = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/database/recycle`,
             {method: 'post'}
         );
     };
 
     createComplianceReport = async (job: Job) => {
-        return this.doFetch(
+        return this.doFetch<ComplianceReport>(
             `${this.getBaseRoute()}/compliance/reports`,
             {method: 'post', body: JSON.stringify(job)}
         );
     };
 
     getComplianceReport = async (reportId: string) => {
-        return this.doFetch(
+        return this.doFetch<ComplianceReport>(
             `${this.getBaseRoute()}/compliance/reports/${reportId}`,
             {method: 'get'}
         );
     };
 
     getComplianceReports = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<ComplianceReport[]>(
             `${this.getBaseRoute()}/compliance/reports${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -2366,35 +2755,35 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBrandRoute()}/image`,
             request
         );
     };
 
     deleteBrandImage = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBrandRoute()}/image`,
             {method: 'delete'}
         );
     };
 
     getClusterStatus = async () => {
-        return this.doFetch(
+        return this.doFetch<ClusterInfo[]>(
             `${this.getBaseRoute()}/cluster/status`,
             {method: 'get'}
         );
     };
 
     testLdap = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/ldap/test`,
             {method: 'post'}
         );
     };
 
     syncLdap = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/ldap/sync`,
             {method: 'post'}
         );
@@ -2402,28 +2791,28 @@ export default class Client4 {
 
     getLdapGroups = async (page = 0, perPage = PER_PAGE_DEFAULT, opts = {}) => {
         const query = {page, per_page: perPage, ...opts};
-        return this.doFetch(
+        return this.doFetch<LdapGroupsWithCount>(
             `${this.getBaseRoute()}/ldap/groups${buildQueryString(query)}`,
             {method: 'get'}
         );
     };
 
     linkLdapGroup = async (key: string) => {
-        return this.doFetch(
+        return this.doFetch<Group>(
             `${this.getBaseRoute()}/ldap/groups/${encodeURI(key)}/link`,
             {method: 'post'}
         );
     };
 
     unlinkLdapGroup = async (key: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/ldap/groups/${encodeURI(key)}/link`,
             {method: 'delete'}
         );
     };
 
     getSamlCertificateStatus = async () => {
-        return this.doFetch(
+        return this.doFetch<SamlCertificateStatus>(
             `${this.getBaseRoute()}/saml/certificate/status`,
             {method: 'get'}
         );
@@ -2433,7 +2822,7 @@ export default class Client4 {
         const formData = new FormData();
         formData.append('certificate', fileData);
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/public`,
             {
                 method: 'post',
@@ -2446,7 +2835,7 @@ export default class Client4 {
         const formData = new FormData();
         formData.append('certificate', fileData);
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/private`,
             {
                 method: 'post',
@@ -2459,7 +2848,7 @@ export default class Client4 {
         const formData = new FormData();
         formData.append('certificate', fileData);
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/idp`,
             {
                 method: 'post',
@@ -2469,35 +2858,35 @@ export default class Client4 {
     };
 
     deletePublicSamlCertificate = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/public`,
             {method: 'delete'}
         );
     };
 
     deletePrivateSamlCertificate = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/private`,
             {method: 'delete'}
         );
     };
 
     deleteIdpSamlCertificate = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/saml/certificate/idp`,
             {method: 'delete'}
         );
     };
 
     testElasticsearch = async (config: Config) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/elasticsearch/test`,
             {method: 'post', body: JSON.stringify(config)}
         );
     };
 
     purgeElasticsearchIndexes = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/elasticsearch/purge_indexes`,
             {method: 'post'}
         );
@@ -2520,21 +2909,21 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<License>(
             `${this.getBaseRoute()}/license`,
             request
         );
     };
 
     removeLicense = async () => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/license`,
             {method: 'delete'}
         );
     };
 
     getAnalytics = async (name = 'standard', teamId = '') => {
-        return this.doFetch(
+        return this.doFetch<AnalyticsRow[]>(
             `${this.getBaseRoute()}/analytics/old${buildQueryString({name, team_id: teamId})}`,
             {method: 'get'}
         );
@@ -2543,28 +2932,29 @@ export default class Client4 {
     // Role Routes
 
     getRole = async (roleId: string) => {
-        return this.doFetch(
+        return this.doFetch<Role>(
             `${this.getRolesRoute()}/${roleId}`,
             {method: 'get'}
         );
     };
 
     getRoleByName = async (roleName: string) => {
-        return this.doFetch(
+        return this.doFetch<Role>(
             `${this.getRolesRoute()}/name/${roleName}`,
             {method: 'get'}
         );
     };
 
     getRolesByNames = async (rolesNames: string[]) => {
-        return this.doFetch(
-            `${this.getRolesRoute()}/names`,
-            {method: 'post', body: JSON.stringify(rolesNames)}
-        );
+        const url = `${this.getRolesRoute()}/names`;
+        return this.requestScheduler.batch(url, rolesNames, (names) => this.doFetch<Role[]>(
+            url,
+            {method: 'post', body: JSON.stringify(names)}
+        ), (role) => role.name);
     };
 
     patchRole = async (roleId: string, rolePatch: Partial<Role>) => {
-        return this.doFetch(
+        return this.doFetch<Role>(
             `${this.getRolesRoute()}/${roleId}/patch`,
             {method: 'put', body: JSON.stringify(rolePatch)}
         );
@@ -2573,7 +2963,7 @@ export default class Client4 {
     // Scheme Routes
 
     getSchemes = async (scope = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Scheme[]>(
             `${this.getSchemesRoute()}${buildQueryString({scope, page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -2582,14 +2972,14 @@ export default class Client4 {
     createScheme = async (scheme: Scheme) => {
         this.trackEvent('api', 'api_schemes_create');
 
-        return this.doFetch(
+        return this.doFetch<Scheme>(
             `${this.getSchemesRoute()}`,
             {method: 'post', body: JSON.stringify(scheme)}
         );
     };
 
     getScheme = async (schemeId: string) => {
-        return this.doFetch(
+        return this.doFetch<Scheme>(
             `${this.getSchemesRoute()}/${schemeId}`,
             {method: 'get'}
         );
@@ -2598,7 +2988,7 @@ export default class Client4 {
     deleteScheme = async (schemeId: string) => {
         this.trackEvent('api', 'api_schemes_delete');
 
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getSchemesRoute()}/${schemeId}`,
             {method: 'delete'}
         );
@@ -2607,21 +2997,21 @@ export default class Client4 {
     patchScheme = async (schemeId: string, schemePatch: Partial<Scheme>) => {
         this.trackEvent('api', 'api_schemes_patch', {scheme_id: schemeId});
 
-        return this.doFetch(
+        return this.doFetch<Scheme>(
             `${this.getSchemesRoute()}/${schemeId}/patch`,
             {method: 'put', body: JSON.stringify(schemePatch)}
         );
     };
 
     getSchemeTeams = async (schemeId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Team[]>(
             `${this.getSchemesRoute()}/${schemeId}/teams${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getSchemeChannels = async (schemeId: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Channel[]>(
             `${this.getSchemesRoute()}/${schemeId}/channels${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
@@ -2649,7 +3039,7 @@ export default class Client4 {
             };
         }
 
-        return this.doFetch(
+        return this.doFetch<PluginManifest>(
             this.getPluginsRoute(),
             request
         );
@@ -2660,56 +3050,56 @@ export default class Client4 {
 
         const queryParams = {plugin_download_url: pluginDownloadUrl, force};
 
-        return this.doFetch(
+        return this.doFetch<PluginManifest>(
             `${this.getPluginsRoute()}/install_from_url${buildQueryString(queryParams)}`,
             {method: 'post'}
         );
     };
 
     getPlugins = async () => {
-        return this.doFetch(
+        return this.doFetch<PluginsResponse>(
             this.getPluginsRoute(),
             {method: 'get'}
         );
     };
 
     getMarketplacePlugins = async (filter: string) => {
-        return this.doFetch(
+        return this.doFetch<MarketplacePlugin[]>(
             `${this.getPluginsMarketplaceRoute()}${buildQueryString({filter: filter || ''})}`,
             {method: 'get'}
         );
     }
 
     getPluginStatuses = async () => {
-        return this.doFetch(
+        return this.doFetch<PluginStatus[]>(
             `${this.getPluginsRoute()}/statuses`,
             {method: 'get'}
         );
     };
 
     removePlugin = async (pluginId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             this.getPluginRoute(pluginId),
             {method: 'delete'}
         );
     };
 
     getWebappPlugins = async () => {
-        return this.doFetch(
+        return this.doFetch<ClientPluginManifest[]>(
             `${this.getPluginsRoute()}/webapp`,
             {method: 'get'}
         );
     };
 
     enablePlugin = async (pluginId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPluginRoute(pluginId)}/enable`,
             {method: 'post'}
         );
     };
 
     disablePlugin = async (pluginId: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getPluginRoute(pluginId)}/disable`,
             {method: 'post'}
         );
@@ -2718,35 +3108,35 @@ export default class Client4 {
     // Groups
 
     linkGroupSyncable = async (groupID: string, syncableID: string, syncableType: string, patch: SyncablePatch) => {
-        return this.doFetch(
+        return this.doFetch<GroupTeam | GroupChannel>(
             `${this.getBaseRoute()}/groups/${groupID}/${syncableType}s/${syncableID}/link`,
             {method: 'post', body: JSON.stringify(patch)}
         );
     };
 
     unlinkGroupSyncable = async (groupID: string, syncableID: string, syncableType: string) => {
-        return this.doFetch(
+        return this.doFetch<StatusOK>(
             `${this.getBaseRoute()}/groups/${groupID}/${syncableType}s/${syncableID}/link`,
             {method: 'delete'}
         );
     };
 
     getGroupSyncables = async (groupID: string, syncableType: string) => {
-        return this.doFetch(
+        return this.doFetch<GroupTeam[] | GroupChannel[]>(
             `${this.getBaseRoute()}/groups/${groupID}/${syncableType}s`,
             {method: 'get'}
         );
     };
 
     getGroupMembers = async (groupID: string, page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<GroupMembers>(
             `${this.getBaseRoute()}/groups/${groupID}/members${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     };
 
     getGroup = async (groupID: string) => {
-        return this.doFetch(
+        return this.doFetch<Group>(
             `${this.getBaseRoute()}/groups/${groupID}`,
             {method: 'get'}
         );
@@ -2754,7 +3144,7 @@ export default class Client4 {
 
     getGroupsNotAssociatedToTeam = async (teamID: string, q = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
         this.trackEvent('api', 'api_groups_get_not_associated_to_team', {team_id: teamID});
-        return this.doFetch(
+        return this.doFetch<Group[]>(
             `${this.getBaseRoute()}/groups${buildQueryString({not_associated_to_team: teamID, page, per_page: perPage, q, include_member_count: true})}`,
             {method: 'get'}
         );
@@ -2762,7 +3152,7 @@ export default class Client4 {
 
     getGroupsNotAssociatedToChannel = async (channelID: string, q = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
         this.trackEvent('api', 'api_groups_get_not_associated_to_channel', {channel_id: channelID});
-        return this.doFetch(
+        return this.doFetch<Group[]>(
             `${this.getBaseRoute()}/groups${buildQueryString({not_associated_to_channel: channelID, page, per_page: perPage, q, include_member_count: true})}`,
             {method: 'get'}
         );
@@ -2770,7 +3160,7 @@ export default class Client4 {
 
     getGroupsAssociatedToTeam = async (teamID: string, q = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
         this.trackEvent('api', 'api_groups_get_associated_to_team', {team_id: teamID});
-        return this.doFetch(
+        return this.doFetch<GroupsWithCount>(
             `${this.getBaseRoute()}/teams/${teamID}/groups${buildQueryString({page, per_page: perPage, q, include_member_count: true})}`,
             {method: 'get'}
         );
@@ -2778,21 +3168,21 @@ export default class Client4 {
 
     getGroupsAssociatedToChannel = async (channelID: string, q = '', page = 0, perPage = PER_PAGE_DEFAULT) => {
         this.trackEvent('api', 'api_groups_get_associated_to_channel', {channel_id: channelID});
-        return this.doFetch(
+        return this.doFetch<GroupsWithCount>(
             `${this.getBaseRoute()}/channels/${channelID}/groups${buildQueryString({page, per_page: perPage, q, include_member_count: true})}`,
             {method: 'get'}
         );
     };
 
     getAllGroupsAssociatedToTeam = async (teamID: string) => {
-        return this.doFetch(
+        return this.doFetch<GroupsWithCount>(
             `${this.getBaseRoute()}/teams/${teamID}/groups?paginate=false`,
             {method: 'get'}
         );
     };
 
     getAllGroupsAssociatedToChannel = async (channelID: string) => {
-        return this.doFetch(
+        return this.doFetch<GroupsWithCount>(
             `${this.getBaseRoute()}/channels/${channelID}/groups?paginate=false`,
             {method: 'get'}
         );
@@ -2805,69 +3195,69 @@ export default class Client4 {
             return Promise.resolve();
         }
         const url = `${this.getRedirectLocationRoute()}${buildQueryString({url: urlParam})}`;
-        return this.doFetch(url, {method: 'get'});
+        return this.doFetch<{location: string}>(url, {method: 'get'});
     };
 
     // Bot Routes
 
     createBot = async (bot: Bot) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotsRoute()}`,
             {method: 'post', body: JSON.stringify(bot)}
         );
     }
 
     patchBot = async (botUserId: string, botPatch: BotPatch) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotRoute(botUserId)}`,
             {method: 'put', body: JSON.stringify(botPatch)}
         );
     }
 
     getBot = async (botUserId: string) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotRoute(botUserId)}`,
             {method: 'get'}
         );
     }
 
     getBots = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Bot[]>(
             `${this.getBotsRoute()}${buildQueryString({page, per_page: perPage})}`,
             {method: 'get'}
         );
     }
 
     getBotsIncludeDeleted = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Bot[]>(
             `${this.getBotsRoute()}${buildQueryString({include_deleted: true, page, per_page: perPage})}`,
             {method: 'get'}
         );
     }
 
     getBotsOrphaned = async (page = 0, perPage = PER_PAGE_DEFAULT) => {
-        return this.doFetch(
+        return this.doFetch<Bot[]>(
             `${this.getBotsRoute()}${buildQueryString({only_orphaned: true, page, per_page: perPage})}`,
             {method: 'get'}
         );
     }
 
     disableBot = async (botUserId: string) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotRoute(botUserId)}/disable`,
             {method: 'post'}
         );
     }
 
     enableBot = async (botUserId: string) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotRoute(botUserId)}/enable`,
             {method: 'post'}
         );
     }
 
     assignBot = async (botUserId: string, newOwnerId: string) => {
-        return this.doFetch(
+        return this.doFetch<Bot>(
             `${this.getBotRoute(botUserId)}/assign/${newOwnerId}`,
             {method: 'post'}
         );
@@ -2875,7 +3265,7 @@ export default class Client4 {
 
     teamMembersMinusGroupMembers = async (teamID: string, groupIDs: string[], page: number, perPage: number) => {
         const query = `group_ids=${groupIDs.join(',')}&page=${page}&per_page=${perPage}`;
-        return this.doFetch(
+        return this.doFetch<UsersWithGroupsAndCount>(
             `${this.getTeamRoute(teamID)}/members_minus_group_members?${query}`,
             {method: 'get'},
         );
@@ -2883,27 +3273,295 @@ export default class Client4 {
 
     channelMembersMinusGroupMembers = async (channelID: string, groupIDs: string[], page: number, perPage: number) => {
         const query = `group_ids=${groupIDs.join(',')}&page=${page}&per_page=${perPage}`;
-        return this.doFetch(
+        return this.doFetch<UsersWithGroupsAndCount>(
             `${this.getChannelRoute(channelID)}/members_minus_group_members?${query}`,
             {method: 'get'},
         );
     }
 
+    // Pagination
+
+    // paginate requests pages from a paged route until a page has fewer than perPage results and yields them in order.
+    // Stopping early, such as by breaking out of a for await loop, keeps any more pages from being requested.
+    async *paginate<T>(fetchPage: PageFetcher<T>, options: Partial<PaginateOptions> = {}): AsyncGenerator<T[], void, undefined> {
+        const {
+            perPage = PER_PAGE_DEFAULT,
+            startPage = 0,
+            maxPages = Infinity,
+            concurrency = 1,
+        } = options;
+
+        const endPage = startPage + maxPages;
+        let nextPage = startPage;
+        const pending: Array<Promise<T[]>> = [];
+
+        const requestPages = () => {
+            while (pending.length < Math.max(concurrency, 1) && nextPage < endPage) {
+                const request = fetchPage(nextPage, perPage);
+
+                // Errors for pages after the one that failed are never seen, so keep them from being reported as unhandled
+                request.catch(() => {}); // eslint-disable-line no-empty-function
+
+                pending.push(request);
+                nextPage += 1;
+            }
+        };
+
+        requestPages();
+
+        while (pending.length > 0) {
+            const items = await pending.shift()!; // eslint-disable-line no-await-in-loop
+            if (items.length > 0) {
+                yield items;
+            }
+
+            if (items.length < perPage) {
+                return;
+            }
+
+            requestPages();
+        }
+    }
+
+    // getAllPages returns the results from every page of a paged route
+    getAllPages = async <T>(fetchPage: PageFetcher<T>, options: Partial<PaginateOptions> = {}) => {
+        const results: T[] = [];
+        for await (const items of this.paginate(fetchPage, options)) {
+            results.push(...items);
+        }
+
+        return results;
+    };
+
     // Client Helpers
 
-    doFetch = async (url: string, options: Options) => {
-        const {data} = await this.doFetchWithResponse(url, options);
+    doFetch = async <T>(url: string, options: Options): Promise<T> => {
+        const {data} = await this.doFetchWithResponse<T>(url, options);
 
         return data;
     };
 
-    doFetchWithResponse = async (url: string, options: Options) => {
-        const response = await fetch(url, this.getOptions(options));
+    fetchWithRetry = async (url: string, options: Options) => {
+        const {retry, ...fetchOptions} = options;
+        const policy = this.getRetryPolicy(options);
+
+        for (let attempt = 0; policy && attempt < policy.maxRetries && !(options.signal && options.signal.aborted); attempt++) {
+            let retryAfter = null;
+            try {
+                await this.requestScheduler.waitToSend(url); // eslint-disable-line no-await-in-loop
+                const response = await this.fetchOnce(url, fetchOptions); // eslint-disable-line no-await-in-loop
+                if (!policy.retryableStatusCodes.includes(response.status)) {
+                    return response;
+                }
+
+                retryAfter = response.headers.get('Retry-After');
+            } catch (err) {
+                // Network errors are retried since they're usually caused by the server restarting
+            }
+
+            await delay(getRetryDelay(policy, attempt, retryAfter)); // eslint-disable-line no-await-in-loop
+        }
+
+        await this.requestScheduler.waitToSend(url);
+        return this.fetchOnce(url, fetchOptions);
+    };
+
+    // fetchOnce makes a single attempt at sending a request. fetch can't report the progress of an upload, so
+    // XMLHttpRequest is used instead when the caller asks for it.
+    fetchOnce = (url: string, options: Options) => {
+        const {onProgress, ...fetchOptions} = options;
+        if (onProgress && typeof XMLHttpRequest !== 'undefined') {
+            return this.fetchWithProgress(url, this.getOptions(fetchOptions), onProgress);
+        }
+
+        return fetch(url, this.getOptions(fetchOptions), this.etagCache);
+    };
+
+    doFetchWithResponse = async <T>(url: string, options: Options): Promise<GenericClientResponse<T>> => {
+        return this.requestScheduler.dedupe(options.method, url, options.signal, () => this.interceptAndSend(url, options));
+    };
+
+    interceptAndSend = async (url: string, options: Options): Promise<GenericClientResponse> => {
+        const interceptors = this.interceptors;
+        if (interceptors.length === 0) {
+            return this.sendRequest(url, options);
+        }
+
+        let request: InterceptedRequest = {url, options};
+        for (const interceptor of interceptors) {
+            if (interceptor.onRequest) {
+                request = await interceptor.onRequest(request); // eslint-disable-line no-await-in-loop
+            }
+
+            if (request.response) {
+                break;
+            }
+        }
+
+        let result: GenericClientResponse;
+        try {
+            result = request.response || await this.sendRequest(request.url, request.options);
+        } catch (error) {
+            result = await this.interceptError(error, request);
+        }
+
+        for (const interceptor of [...interceptors].reverse()) {
+            if (interceptor.onResponse) {
+                result = await interceptor.onResponse(result, request); // eslint-disable-line no-await-in-loop
+            }
+        }
+
+        return result;
+    };
+
+    interceptError = async (error: Error, request: InterceptedRequest) => {
+        for (const interceptor of [...this.interceptors].reverse()) {
+            if (interceptor.onError) {
+                const result = await interceptor.onError(error, request); // eslint-disable-line no-await-in-loop
+                if (result) {
+                    return result;
+                }
+            }
+        }
+
+        throw error;
+    };
+
+    sendRequest = async (url: string, options: Options) => {
+        const {signal, timeout = this.defaultTimeout, ...fetchOptions} = options;
+        if (!signal && !timeout) {
+            return this.fetchAndParse(url, fetchOptions);
+        }
+
+        // Not every platform supports aborting requests, so the request is abandoned instead when it can't be aborted
+        const controller = typeof AbortController === 'undefined' ? null : new AbortController();
+
+        let onAbort: () => void = () => {}; // eslint-disable-line no-empty-function
+        let timer: NodeJS.Timeout | undefined;
+        const cancelled = new Promise<never>((resolve, reject) => {
+            const cancel = (serverErrorId: string, message: string) => {
+                if (controller) {
+                    controller.abort();
+                }
+
+                reject(new ClientError(this.getUrl(), {
+                    message,
+                    server_error_id: serverErrorId,
+                    url,
+                }));
+            };
+
+            onAbort = () => cancel(REQUEST_CANCELLED, this.translations.requestCancelled);
+            if (signal) {
+                if (signal.aborted) {
+                    onAbort();
+                } else {
+                    signal.addEventListener('abort', onAbort);
+                }
+            }
+
+            if (timeout) {
+                timer = setTimeout(() => cancel(REQUEST_TIMED_OUT, this.translations.requestTimedOut), timeout);
+            }
+        });
+
+        try {
+            if (signal && signal.aborted) {
+                return await cancelled;
+            }
+
+            return await Promise.race([
+                this.fetchAndParse(url, controller ? {...fetchOptions, signal: controller.signal} : fetchOptions),
+                cancelled,
+            ]);
+        } finally {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+
+            if (timer) {
+                clearTimeout(timer);
+            }
+        }
+    };
+
+    // fetchWithProgress sends a request using XMLHttpRequest so that the progress of its body can be reported. Like
+    // fetch, it resolves to a Response for any status code and rejects with a TypeError if the request couldn't be
+    // made, so that the response is handled the same way as that of any other request.
+    fetchWithProgress = (url: string, options: Options, onProgress: (progress: UploadProgress) => void) => {
+        const {method = 'get', headers = {}, credentials, body, signal} = options;
+
+        return new Promise<Response>((resolve, reject) => {
+            const xhr = new XMLHttpRequest();
+
+            const onAbort = () => xhr.abort();
+            const cleanUp = () => {
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort);
+                }
+            };
+
+            xhr.open(method.toUpperCase(), url);
+            Object.keys(headers).forEach((key) => xhr.setRequestHeader(key, headers[key]));
+            xhr.withCredentials = credentials === 'include';
+
+            xhr.upload.onprogress = (e) => {
+                if (e.lengthComputable) {
+                    onProgress({loaded: e.loaded, total: e.total});
+                }
+            };
+
+            xhr.onload = () => {
+                cleanUp();
+                resolve(new Response(xhr.status === 204 ? null : xhr.responseText, {
+                    status: xhr.status,
+                    statusText: xhr.statusText,
+                    headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+                }));
+            };
+
+            xhr.onerror = () => {
+                cleanUp();
+                reject(new TypeError('Network request failed'));
+            };
+
+            xhr.onabort = () => {
+                cleanUp();
+                reject(new TypeError('Network request aborted'));
+            };
+
+            if (signal) {
+                if (signal.aborted) {
+                    reject(new TypeError('Network request aborted'));
+                    return;
+                }
+
+                signal.addEventListener('abort', onAbort);
+            }
+
+            xhr.send(body);
+        });
+    };
+
+    fetchAndParse = async (url: string, options: Options, canRefresh = true): Promise<GenericClientResponse> => {
+        const token = this.token;
+        const response = await this.fetchWithRetry(url, options);
+
+        if (response.status === HTTP_UNAUTHORIZED && canRefresh && this.onUnauthorized && !isLoginUrl(url)) {
+            // The token may have already been refreshed by another request while this one was in progress
+            const refreshed = this.token !== token || await this.refreshCredentials();
+            if (refreshed) {
+                return this.fetchAndParse(url, options, false);
+            }
+        }
         const headers = parseAndMergeNestedHeaders(response.headers);
 
-        let data;
+        let data = null;
         try {
-            data = await response.json();
+            // Responses with no content, like those for parts of an upload, are treated as null
+            if (response.status !== 204) {
+                data = await response.json();
+            }
         } catch (err) {
             throw new ClientError(this.getUrl(), {
                 message: 'Received invalid response from the server.',
@@ -2952,18 +3610,12 @@ export default class Client4 {
     };
 
     trackEvent(category: string, event: string, props?: any) {
-        // Temporary change to allow only certain events to reduce data rate - see MM-13062
-        if (![
-            'api_posts_create',
-            'api_interactive_messages_button_clicked',
-            'api_interactive_messages_menu_selected',
-            'api_interactive_messages_dialog_submitted',
-            'ui_marketplace_download',
-            'ui_marketplace_configure',
-            'ui_marketplace_opened',
-            'ui_marketplace_closed',
-            'ui_marketplace_search',
-        ].includes(event)) {
+        const {allowedEvents, sampleRate} = this.analyticsOptions;
+        if (allowedEvents && !allowedEvents.includes(event)) {
+            return;
+        }
+
+        if (sampleRate < 1 && Math.random() >= sampleRate) {
             return;
         }
 
@@ -2973,35 +3625,82 @@ export default class Client4 {
             user_actual_role: this.userRoles && isSystemAdmin(this.userRoles) ? 'system_admin, system_user' : 'system_user',
             user_actual_id: this.userId,
         }, props);
-        const options = {
-            context: {
-                ip: '0.0.0.0',
-            },
-            page: {
-                path: '',
-                referrer: '',
-                search: '',
-                title: '',
-                url: '',
-            },
-            anonymousId: '00000000000000000000000000',
-        };
-        const globalAny: any = global;
-        if (globalAny && globalAny.window && globalAny.window.analytics && globalAny.window.analytics.initialized) {
-            globalAny.window.analytics.track('event', properties, options);
-        } else if (globalAny && globalAny.analytics) {
-            if (globalAny.analytics_context) {
-                options.context = globalAny.analytics_context;
-            }
 
-            globalAny.analytics.track(Object.assign({
-                event: 'event',
+        try {
+            const result = this.analyticsProvider.track({
+                category,
+                event,
                 userId: this.diagnosticId,
-            }, {properties}, options));
+                properties,
+                timestamp: Date.now(),
+            });
+
+            if (result) {
+                result.catch(() => {}); // eslint-disable-line no-empty-function
+            }
+        } catch (e) {
+            // Failing to track an event shouldn't affect the request being tracked
         }
     }
 }
 
+// isRequestCancelled returns true if the error was caused by the request being cancelled using its AbortSignal
+export function isRequestCancelled(error: ClientError | Error) {
+    return 'server_error_id' in error && error.server_error_id === REQUEST_CANCELLED;
+}
+
+// isLoginUrl returns true for requests that fail with a 401 because the credentials provided with them are wrong
+function isLoginUrl(url: string) {
+    return url.indexOf('/login') !== -1;
+}
+
+function delay(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(retryAfter: string | null) {
+    if (!retryAfter) {
+        return null;
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+        return Math.max(date - Date.now(), 0);
+    }
+
+    return null;
+}
+
+function getRetryDelay(policy: RetryPolicy, attempt: number, retryAfter: string | null) {
+    const requestedDelay = parseRetryAfter(retryAfter);
+    if (requestedDelay !== null) {
+        return requestedDelay;
+    }
+
+    // Pick a random delay up to the backoff so that clients that failed at the same time don't all retry together
+    const backoff = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay);
+    return Math.random() * backoff;
+}
+
+// parseResponseHeaders converts the headers returned by XMLHttpRequest.getAllResponseHeaders into an object
+function parseResponseHeaders(rawHeaders: string) {
+    const headers: Dictionary<string> = {};
+    for (const line of rawHeaders.trim().split(/[\r\n]+/)) {
+        const index = line.indexOf(':');
+        if (index > 0) {
+            headers[line.substring(0, index).trim().toLowerCase()] = line.substring(index + 1).trim();
+        }
+    }
+
+    return headers;
+}
+
 function parseAndMergeNestedHeaders(originalHeaders: any) {
     const headers = new Map();
     let nestedHeaders = new Map();
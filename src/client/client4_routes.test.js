@@ -0,0 +1,75 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import nock from 'nock';
+
+import TestHelper from 'test/test_helper';
+
+import routes from './client4_routes.json';
+
+// client4_routes.json lists the route used by each method of Client4 that makes a single request along with arguments
+// that can be passed to it. It should be updated whenever a method is added or a route changes. Query parameters with a
+// null value, like timestamps, only need to be present, and arguments like {"file": "name"} are replaced by a file with
+// that name.
+function toArg(arg) {
+    if (arg && typeof arg.file === 'string') {
+        const file = Buffer.from('contents');
+        file.name = arg.file;
+        file.size = file.length;
+        return file;
+    }
+
+    return arg;
+}
+
+function matchesQuery(expected, actual) {
+    const keys = Object.keys(actual);
+    if (keys.length !== Object.keys(expected).length) {
+        return false;
+    }
+
+    return keys.every((key) => expected.hasOwnProperty(key) && (expected[key] === null || expected[key] === actual[key]));
+}
+
+describe('Client4 routes', () => {
+    let client;
+
+    beforeAll(() => {
+        if (!nock.isActive()) {
+            nock.activate();
+        }
+
+        client = TestHelper.createClient4();
+        client.enableLogging = true;
+    });
+
+    afterAll(() => {
+        nock.restore();
+    });
+
+    it('should include every method that makes a request', () => {
+        const names = routes.map((route) => route.name);
+
+        expect(new Set(names).size).toBe(names.length);
+        for (const name of names) {
+            expect(typeof client[name]).toBe('function');
+        }
+
+        // Methods that pass their requests to doFetch or doFetchWithResponse, other than doFetch itself
+        const fetching = Object.keys(client).filter((name) => name !== 'doFetch' && typeof client[name] === 'function' && client[name].toString().includes('this.doFetch'));
+        expect(fetching.filter((name) => !names.includes(name))).toEqual([]);
+    });
+
+    for (const {name, method, path, query = {}, args} of routes) {
+        it(`${name} should use ${method} ${path}`, async () => {
+            const scope = nock(client.getUrl()).
+                intercept(path, method).
+                query((actual) => matchesQuery(query, actual)).
+                reply(200, {});
+
+            await client[name](...args.map(toArg));
+
+            expect(scope.isDone()).toBe(true);
+        });
+    }
+});
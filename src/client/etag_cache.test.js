@@ -0,0 +1,121 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {EtagCache, MemoryEtagCacheStorage} from 'client/etag_cache';
+
+describe('EtagCache', () => {
+    test('should return cached entries for the current namespace', async () => {
+        const cache = new EtagCache();
+
+        await cache.set('http://localhost/api/v4/users/me', 'etag1', {'content-type': 'application/json'}, '{"id":"user1"}');
+
+        const entry = await cache.get('http://localhost/api/v4/users/me');
+        expect(entry).toMatchObject({
+            url: 'http://localhost/api/v4/users/me',
+            etag: 'etag1',
+            headers: {'content-type': 'application/json'},
+            body: '{"id":"user1"}',
+            size: 14,
+        });
+
+        cache.setNamespace('user2');
+        expect(await cache.get('http://localhost/api/v4/users/me')).toBe(null);
+    });
+
+    test('should evict the least recently used entries when there are too many', async () => {
+        const cache = new EtagCache();
+        await cache.setLimits({maxEntries: 2});
+
+        await cache.set('url1', 'etag1', {}, 'body1');
+        await cache.set('url2', 'etag2', {}, 'body2');
+        await cache.get('url1');
+        await cache.set('url3', 'etag3', {}, 'body3');
+
+        expect(await cache.get('url1')).not.toBe(null);
+        expect(await cache.get('url2')).toBe(null);
+        expect(await cache.get('url3')).not.toBe(null);
+        expect(cache.storage.items.size).toBe(2);
+    });
+
+    test('should evict entries when they use too many bytes', async () => {
+        const cache = new EtagCache();
+        await cache.setLimits({maxBytes: 10});
+
+        await cache.set('url1', 'etag1', {}, '12345');
+        await cache.set('url2', 'etag2', {}, '12345');
+        await cache.set('url3', 'etag3', {}, '123');
+
+        const info = await cache.getInfo();
+        expect(info.urls).toEqual(['url2', 'url3']);
+        expect(info.bytes).toBe(8);
+
+        // Entries larger than the whole cache are never stored
+        await cache.set('url4', 'etag4', {}, '12345678901');
+        expect(await cache.get('url4')).toBe(null);
+        expect((await cache.getInfo()).bytes).toBe(8);
+    });
+
+    test('should only clear entries for the given namespace', async () => {
+        const cache = new EtagCache();
+
+        cache.setNamespace('user1');
+        await cache.set('url1', 'etag1', {}, 'body1');
+
+        cache.setNamespace('user2');
+        await cache.set('url1', 'etag1', {}, 'body1');
+        await cache.set('url2', 'etag2', {}, 'body2');
+
+        await cache.clear();
+
+        expect(await cache.getInfo()).toEqual({
+            namespace: 'user2',
+            entries: 0,
+            bytes: 5,
+            maxEntries: cache.maxEntries,
+            maxBytes: cache.maxBytes,
+            urls: [],
+        });
+
+        cache.setNamespace('user1');
+        expect(await cache.get('url1')).not.toBe(null);
+
+        await cache.clearAll();
+        expect(cache.storage.items.size).toBe(0);
+    });
+
+    test('should not cache responses fetched before the namespace changed or the cache was cleared', async () => {
+        const cache = new EtagCache();
+        cache.setNamespace('user1');
+
+        let generation = cache.generation;
+        cache.setNamespace('user2');
+        await cache.set('url1', 'etag1', {}, 'body1', generation);
+
+        generation = cache.generation;
+        await cache.clear();
+        await cache.set('url2', 'etag2', {}, 'body2', generation);
+
+        expect(cache.storage.items.size).toBe(0);
+    });
+
+    test('should load existing entries from storage', async () => {
+        const storage = new MemoryEtagCacheStorage();
+        await storage.setItem('unrelated', 'value');
+
+        const first = new EtagCache();
+        first.setStorage(storage);
+        await first.set('url1', 'etag1', {}, 'body1');
+        await first.set('url2', 'etag2', {}, 'body2');
+
+        const second = new EtagCache();
+        second.setStorage(storage);
+
+        const info = await second.getInfo();
+        expect(info.entries).toBe(2);
+        expect(info.bytes).toBe(10);
+        expect((await second.get('url2')).etag).toBe('etag2');
+
+        await second.setLimits({maxEntries: 1});
+        expect(await storage.getAllKeys()).toEqual(['unrelated', '@mm-etag//url2']);
+    });
+});
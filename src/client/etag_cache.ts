@@ -0,0 +1,298 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Dictionary} from 'types/utilities';
+
+export const DEFAULT_MAX_ENTRIES = 500;
+export const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Every key written to storage starts with this so that the cache can share storage, like AsyncStorage, with other data
+const KEY_PREFIX = '@mm-etag/';
+
+export type EtagCacheEntry = {
+    url: string;
+    etag: string;
+    headers: Dictionary<string>;
+    body: string;
+    size: number;
+    cachedAt: number;
+};
+
+// EtagCacheStorage is implemented by anything that can hold cached responses, such as IndexedDB, AsyncStorage or the
+// filesystem. Its methods match those of AsyncStorage so that it can be used directly. Entries are stored as JSON.
+export interface EtagCacheStorage {
+    getItem(key: string): Promise<string | null | undefined>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+    getAllKeys(): Promise<string[]>;
+}
+
+export type EtagCacheLimits = {
+    maxEntries: number;
+    maxBytes: number;
+};
+
+export type EtagCacheInfo = EtagCacheLimits & {
+    namespace: string;
+
+    // entries is the number of URLs cached for the current namespace
+    entries: number;
+
+    // bytes is the size of the whole cache across every namespace since that's what maxBytes applies to
+    bytes: number;
+
+    // urls contains the URLs cached for the current namespace from least to most recently used
+    urls: string[];
+};
+
+export class MemoryEtagCacheStorage implements EtagCacheStorage {
+    items = new Map<string, string>();
+
+    async getItem(key: string) {
+        return this.items.get(key);
+    }
+
+    async setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+
+    async removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+    async getAllKeys() {
+        return Array.from(this.items.keys());
+    }
+}
+
+export class EtagCache {
+    storage: EtagCacheStorage = new MemoryEtagCacheStorage();
+    maxEntries = DEFAULT_MAX_ENTRIES;
+    maxBytes = DEFAULT_MAX_BYTES;
+    namespace = '';
+
+    // index maps the key of every entry in storage to its size, ordered from least to most recently used. It's
+    // loaded from storage the first time that it's needed.
+    index: Map<string, number> | null = null;
+    loadingIndex: Promise<Map<string, number>> | null = null;
+    bytes = 0;
+
+    // generation changes whenever the namespace changes or entries are cleared so that responses which were being
+    // fetched beforehand aren't cached afterwards
+    generation = 0;
+
+    setStorage(storage: EtagCacheStorage) {
+        this.storage = storage;
+        this.index = null;
+        this.loadingIndex = null;
+        this.bytes = 0;
+    }
+
+    setLimits({maxEntries = this.maxEntries, maxBytes = this.maxBytes}: Partial<EtagCacheLimits>) {
+        this.maxEntries = maxEntries;
+        this.maxBytes = maxBytes;
+
+        return this.evict();
+    }
+
+    // setNamespace changes which entries are used so that users sharing a device never see each other's responses
+    setNamespace(namespace: string) {
+        if (namespace !== this.namespace) {
+            this.generation++;
+        }
+
+        this.namespace = namespace;
+    }
+
+    getNamespacePrefix(namespace = this.namespace) {
+        return `${KEY_PREFIX}${namespace}/`;
+    }
+
+    getKey(url: string) {
+        return this.getNamespacePrefix() + url;
+    }
+
+    async readEntry(key: string): Promise<EtagCacheEntry | null> {
+        const value = await this.storage.getItem(key);
+        if (!value) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(value);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    loadIndex() {
+        if (this.index) {
+            return Promise.resolve(this.index);
+        }
+
+        if (!this.loadingIndex) {
+            this.loadingIndex = this.readIndex();
+        }
+
+        return this.loadingIndex;
+    }
+
+    async readIndex() {
+        const storage = this.storage;
+        const keys = (await storage.getAllKeys()).filter((key) => key.startsWith(KEY_PREFIX));
+
+        const entries = [];
+        for (const key of keys) {
+            const entry = await this.readEntry(key); // eslint-disable-line no-await-in-loop
+            if (entry) {
+                entries.push({key, entry});
+            }
+        }
+
+        // Storage doesn't know when entries were last used, so assume that older entries are less useful
+        entries.sort((a, b) => a.entry.cachedAt - b.entry.cachedAt);
+
+        const index = new Map<string, number>();
+        let bytes = 0;
+        for (const {key, entry} of entries) {
+            index.set(key, entry.size);
+            bytes += entry.size;
+        }
+
+        if (storage === this.storage) {
+            this.index = index;
+            this.bytes = bytes;
+        }
+
+        return index;
+    }
+
+    forget(index: Map<string, number>, key: string) {
+        const size = index.get(key);
+        if (typeof size === 'undefined') {
+            return;
+        }
+
+        index.delete(key);
+        this.bytes -= size;
+    }
+
+    async get(url: string) {
+        const index = await this.loadIndex();
+        const key = this.getKey(url);
+
+        const size = index.get(key);
+        if (typeof size === 'undefined') {
+            return null;
+        }
+
+        const entry = await this.readEntry(key);
+        if (!entry) {
+            this.forget(index, key);
+            return null;
+        }
+
+        // Move the entry to the end of the index to mark it as the most recently used
+        index.delete(key);
+        index.set(key, size);
+
+        return entry;
+    }
+
+    // set caches a response, unless the namespace was changed or the cache was cleared since the given generation
+    async set(url: string, etag: string, headers: Dictionary<string>, body: string, generation = this.generation) {
+        const index = await this.loadIndex();
+        if (generation !== this.generation) {
+            return;
+        }
+
+        const key = this.getKey(url);
+
+        // The length of the body is used as an approximation of its size in bytes
+        const size = body.length;
+        if (size > this.maxBytes) {
+            await this.remove(url);
+            return;
+        }
+
+        this.forget(index, key);
+        index.set(key, size);
+        this.bytes += size;
+
+        const entry: EtagCacheEntry = {url, etag, headers, body, size, cachedAt: Date.now()};
+        await this.storage.setItem(key, JSON.stringify(entry));
+        await this.evict();
+    }
+
+    async remove(url: string) {
+        const index = await this.loadIndex();
+        const key = this.getKey(url);
+
+        this.forget(index, key);
+        await this.storage.removeItem(key);
+    }
+
+    // evict removes the least recently used entries until the cache fits within its limits
+    async evict() {
+        const index = await this.loadIndex();
+
+        const evicted = [];
+        for (const key of Array.from(index.keys())) {
+            if (index.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+                break;
+            }
+
+            this.forget(index, key);
+            evicted.push(key);
+        }
+
+        await Promise.all(evicted.map((key) => this.storage.removeItem(key)));
+    }
+
+    // clear removes every entry cached for the given namespace, defaulting to the current one
+    async clear(namespace = this.namespace) {
+        this.generation++;
+
+        const index = await this.loadIndex();
+        const prefix = this.getNamespacePrefix(namespace);
+
+        const removed = Array.from(index.keys()).filter((key) => key.startsWith(prefix));
+        for (const key of removed) {
+            this.forget(index, key);
+        }
+
+        await Promise.all(removed.map((key) => this.storage.removeItem(key)));
+    }
+
+    // clearAll removes every entry from the cache regardless of namespace
+    async clearAll() {
+        this.generation++;
+
+        const index = await this.loadIndex();
+
+        const removed = Array.from(index.keys());
+        index.clear();
+        this.bytes = 0;
+
+        await Promise.all(removed.map((key) => this.storage.removeItem(key)));
+    }
+
+    async getInfo(): Promise<EtagCacheInfo> {
+        const index = await this.loadIndex();
+        const prefix = this.getNamespacePrefix();
+
+        const urls = Array.from(index.keys()).
+            filter((key) => key.startsWith(prefix)).
+            map((key) => key.substring(prefix.length));
+
+        return {
+            namespace: this.namespace,
+            entries: urls.length,
+            bytes: this.bytes,
+            maxEntries: this.maxEntries,
+            maxBytes: this.maxBytes,
+            urls,
+        };
+    }
+}
+
+export default new EtagCache();
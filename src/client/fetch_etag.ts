@@ -1,36 +1,68 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import {Options} from 'types/client4';
+import {Dictionary} from 'types/utilities';
 
-const data: {[x: string]: any} = {};
-const etags: {[x: string]: string} = {};
-export default ((url?: string, options: Options = {headers: {}}) => {
+import defaultEtagCache, {EtagCache, EtagCacheEntry} from './etag_cache';
+
+async function getCachedEntry(cache: EtagCache, url: string) {
+    try {
+        return await cache.get(url);
+    } catch (e) {
+        // A broken cache shouldn't prevent requests from being made
+        return null;
+    }
+}
+
+async function cacheResponse(cache: EtagCache, generation: number, url: string, etag: string, response: Response) {
+    const headers: Dictionary<string> = {};
+    response.headers.forEach((value, key) => {
+        headers[key] = value;
+    });
+
+    const body = await response.text();
+
+    try {
+        await cache.set(url, etag, headers, body, generation);
+    } catch (e) {
+        // Failing to cache the response shouldn't cause the request to fail
+    }
+
+    // The body has already been read, so return a new response containing it
+    return new Response(body, {status: response.status, statusText: response.statusText, headers});
+}
+
+function entryToResponse(entry: EtagCacheEntry) {
+    return new Response(entry.body, {status: 200, headers: entry.headers});
+}
+
+export default (async (url?: string, options: Options = {headers: {}}, cache: EtagCache = defaultEtagCache) => {
     url = url || options.url; // eslint-disable-line no-param-reassign
 
-    if (options.method === 'GET' || !options.method) {
-        const etag = etags[url!];
-        const cachedResponse = data[`${url}${etag}`]; // ensure etag is for url
-        if (etag) {
-            options.headers!['If-None-Match'] = etag;
+    if (!options.method || options.method.toUpperCase() === 'GET') {
+        // Remember which user made the request in case they log out before it completes
+        const generation = cache.generation;
+
+        const cachedEntry = await getCachedEntry(cache, url!);
+        if (cachedEntry) {
+            options.headers!['If-None-Match'] = cachedEntry.etag;
         }
 
-        return fetch(url!, options).
-            then((response) => {
-                if (response.status === 304) {
-                    return cachedResponse.clone();
-                }
+        const response = await fetch(url!, options);
 
-                if (response.status === 200) {
-                    const responseEtag = response.headers.get('Etag');
+        if (response.status === 304 && cachedEntry) {
+            return entryToResponse(cachedEntry);
+        }
+
+        if (response.status === 200) {
+            const responseEtag = response.headers.get('Etag');
 
-                    if (responseEtag) {
-                        data[`${url}${responseEtag}`] = response.clone();
-                        etags[url!] = responseEtag;
-                    }
-                }
+            if (responseEtag) {
+                return cacheResponse(cache, generation, url!, responseEtag, response);
+            }
+        }
 
-                return response;
-            });
+        return response;
     }
 
     // all other requests go straight to fetch
@@ -0,0 +1,140 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {RequestScheduler} from 'client/request_scheduler';
+
+describe('RequestScheduler', () => {
+    describe('dedupe', () => {
+        test('should share identical GET requests while they are in progress', async () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({dedupeRequests: true});
+
+            const request = jest.fn(() => Promise.resolve({id: 'user1'}));
+
+            const results = await Promise.all([
+                scheduler.dedupe('get', 'url1', undefined, request), // eslint-disable-line no-undefined
+                scheduler.dedupe(undefined, 'url1', undefined, request), // eslint-disable-line no-undefined
+            ]);
+
+            expect(results[0]).toBe(results[1]);
+            expect(request).toHaveBeenCalledTimes(1);
+
+            // The response isn't reused once the request has finished
+            await scheduler.dedupe('get', 'url1', undefined, request); // eslint-disable-line no-undefined
+            expect(request).toHaveBeenCalledTimes(2);
+        });
+
+        test('should not share other requests', async () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({dedupeRequests: true});
+
+            const request = jest.fn(() => Promise.resolve({}));
+            const signal = new AbortController().signal;
+
+            await Promise.all([
+                scheduler.dedupe('post', 'url1', undefined, request), // eslint-disable-line no-undefined
+                scheduler.dedupe('post', 'url1', undefined, request), // eslint-disable-line no-undefined
+                scheduler.dedupe('get', 'url1', signal, request),
+                scheduler.dedupe('get', 'url2', undefined, request), // eslint-disable-line no-undefined
+            ]);
+
+            expect(request).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    describe('batch', () => {
+        test('should combine lookups made within the batch window', async () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({batchWindow: 10});
+
+            const fetchIds = jest.fn((ids) => Promise.resolve(ids.map((id) => ({id}))));
+            const getId = (item) => item.id;
+
+            const results = await Promise.all([
+                scheduler.batch('url', ['user1', 'user2'], fetchIds, getId),
+                scheduler.batch('url', ['user2', 'user3'], fetchIds, getId),
+                scheduler.batch('other', ['user4'], fetchIds, getId),
+            ]);
+
+            expect(results).toEqual([
+                [{id: 'user1'}, {id: 'user2'}],
+                [{id: 'user2'}, {id: 'user3'}],
+                [{id: 'user4'}],
+            ]);
+            expect(fetchIds).toHaveBeenCalledTimes(2);
+            expect(fetchIds).toHaveBeenCalledWith(['user1', 'user2', 'user3']);
+            expect(fetchIds).toHaveBeenCalledWith(['user4']);
+        });
+
+        test('should split lookups with too many IDs', async () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({batchWindow: 1000, maxBatchSize: 2});
+
+            const fetchIds = jest.fn((ids) => Promise.resolve(ids.map((id) => ({id}))));
+
+            // The lookup is sent immediately since the batch is full
+            const result = await scheduler.batch('url', ['user1', 'user2', 'user3'], fetchIds, (item) => item.id);
+
+            expect(result).toEqual([{id: 'user1'}, {id: 'user2'}, {id: 'user3'}]);
+            expect(fetchIds.mock.calls).toEqual([[['user1', 'user2']], [['user3']]]);
+        });
+
+        test('should reject every lookup when the request fails', async () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({batchWindow: 10});
+
+            const error = new Error('failed');
+            const fetchIds = () => Promise.reject(error);
+
+            await expect(Promise.all([
+                scheduler.batch('url', ['user1'], fetchIds, (item) => item.id),
+                scheduler.batch('url', ['user2'], fetchIds, (item) => item.id),
+            ])).rejects.toBe(error);
+        });
+    });
+
+    describe('waitToSend', () => {
+        let now;
+        let dateNow;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+
+            now = 1000;
+            dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+        });
+
+        afterEach(() => {
+            dateNow.mockRestore();
+            jest.useRealTimers();
+        });
+
+        test('should delay requests over the limit for each host', () => {
+            const scheduler = new RequestScheduler();
+            scheduler.setOptions({requestsPerSecond: 2});
+
+            const sent = [];
+            const send = (url) => scheduler.waitToSend(url).then(() => sent.push(url));
+
+            send('http://server1/api/v4/users/me');
+            send('http://server1/api/v4/teams');
+            send('http://server1/api/v4/channels');
+            send('http://server2/api/v4/users/me');
+
+            return Promise.resolve().then(() => {
+                expect(sent).toEqual(['http://server1/api/v4/users/me', 'http://server1/api/v4/teams', 'http://server2/api/v4/users/me']);
+
+                jest.advanceTimersByTime(500);
+                return Promise.resolve();
+            }).then(() => {
+                expect(sent).toContain('http://server1/api/v4/channels');
+
+                // The budget is refilled over time
+                now += 1500;
+                return Promise.all([send('http://server1/api/v4/posts'), send('http://server1/api/v4/posts')]);
+            }).then(() => {
+                expect(sent.length).toBe(6);
+            });
+        });
+    });
+});
@@ -0,0 +1,178 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Dictionary} from 'types/utilities';
+
+export type RequestSchedulerOptions = {
+    // Identical GET requests made while one is already in progress share its response instead of being sent again
+    dedupeRequests: boolean;
+
+    // Lookups by lists of IDs, such as getProfilesByIds, made within this many milliseconds of each other are combined
+    // into a single request. Lookups aren't combined when this is 0.
+    batchWindow: number;
+
+    // Combined lookups are split into separate requests with at most this many IDs
+    maxBatchSize: number;
+
+    // The number of requests that can be sent to each host per second. Requests over the limit wait until they can be
+    // sent. Requests aren't limited when this is 0. Uploads that report their progress aren't counted.
+    requestsPerSecond: number;
+};
+
+export const DEFAULT_REQUEST_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+    dedupeRequests: false,
+    batchWindow: 0,
+    maxBatchSize: 100,
+    requestsPerSecond: 0,
+};
+
+type BatchedLookup = {
+    ids: string[];
+    resolve: (items: any[]) => void;
+    reject: (error: Error) => void;
+};
+
+type Batch = {
+    ids: Set<string>;
+    lookups: BatchedLookup[];
+    fetchIds: (ids: string[]) => Promise<any[]>;
+    getId: (item: any) => string;
+    timer: NodeJS.Timeout;
+};
+
+type RateLimitBucket = {
+    // tokens is the number of requests that can be sent immediately. It goes below zero when requests are waiting.
+    tokens: number;
+    updatedAt: number;
+};
+
+function getHost(url: string) {
+    const match = (/^[a-z]+:\/\/[^/?#]+/i).exec(url);
+    return match ? match[0].toLowerCase() : '';
+}
+
+function delay(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// RequestScheduler reduces the number of requests made by Client4 by sharing the responses to identical requests,
+// combining lookups by ID and limiting how quickly requests are sent.
+export class RequestScheduler {
+    options: RequestSchedulerOptions = DEFAULT_REQUEST_SCHEDULER_OPTIONS;
+    inFlight: Dictionary<Promise<any>> = {};
+    batches: Dictionary<Batch> = {};
+    buckets: Dictionary<RateLimitBucket> = {};
+
+    setOptions(options: Partial<RequestSchedulerOptions>) {
+        this.options = {...this.options, ...options};
+        this.buckets = {};
+    }
+
+    // dedupe returns the response to an identical request that's already in progress or makes a new one. Requests
+    // that can be cancelled are never shared since cancelling one would cancel the others.
+    dedupe<T>(method: string | undefined, url: string, signal: AbortSignal | undefined, request: () => Promise<T>): Promise<T> {
+        if (!this.options.dedupeRequests || signal || (method && method.toLowerCase() !== 'get')) {
+            return request();
+        }
+
+        if (!this.inFlight[url]) {
+            const promise = request();
+            this.inFlight[url] = promise;
+
+            const forget = () => {
+                if (this.inFlight[url] === promise) {
+                    Reflect.deleteProperty(this.inFlight, url);
+                }
+            };
+            promise.then(forget, forget);
+        }
+
+        return this.inFlight[url];
+    }
+
+    // batch combines lookups for the same route made within the batch window. Each lookup resolves to the items with
+    // the IDs that it asked for in the order returned by the server.
+    batch<T>(key: string, ids: string[], fetchIds: (ids: string[]) => Promise<T[]>, getId: (item: T) => string): Promise<T[]> {
+        if (!this.options.batchWindow) {
+            return fetchIds(ids);
+        }
+
+        return new Promise((resolve, reject) => {
+            let batch = this.batches[key];
+            if (!batch) {
+                batch = {
+                    ids: new Set(),
+                    lookups: [],
+                    fetchIds,
+                    getId,
+                    timer: setTimeout(() => this.flushBatch(key), this.options.batchWindow),
+                };
+                this.batches[key] = batch;
+            }
+
+            ids.forEach((id) => batch.ids.add(id));
+            batch.lookups.push({ids, resolve, reject});
+
+            if (batch.ids.size >= this.options.maxBatchSize) {
+                this.flushBatch(key);
+            }
+        });
+    }
+
+    async flushBatch(key: string) {
+        const batch = this.batches[key];
+        if (!batch) {
+            return;
+        }
+
+        clearTimeout(batch.timer);
+        Reflect.deleteProperty(this.batches, key);
+
+        const ids = Array.from(batch.ids);
+        const chunks = [];
+        for (let i = 0; i < ids.length; i += this.options.maxBatchSize) {
+            chunks.push(ids.slice(i, i + this.options.maxBatchSize));
+        }
+
+        let items: any[];
+        try {
+            const results = await Promise.all(chunks.map((chunk) => batch.fetchIds(chunk)));
+            items = results.reduce((all, result) => all.concat(result || []), []);
+        } catch (error) {
+            batch.lookups.forEach((lookup) => lookup.reject(error));
+            return;
+        }
+
+        for (const lookup of batch.lookups) {
+            const requested = new Set(lookup.ids);
+            lookup.resolve(items.filter((item) => requested.has(batch.getId(item))));
+        }
+    }
+
+    // waitToSend resolves once a request can be sent to the host of the given URL without going over the rate limit
+    waitToSend(url: string) {
+        const {requestsPerSecond} = this.options;
+        if (!requestsPerSecond) {
+            return Promise.resolve();
+        }
+
+        const host = getHost(url);
+        const now = Date.now();
+
+        // Each host can send up to a second's worth of requests at once before they start being spaced out
+        let bucket = this.buckets[host];
+        if (bucket) {
+            bucket.tokens = Math.min(requestsPerSecond, bucket.tokens + (((now - bucket.updatedAt) * requestsPerSecond) / 1000));
+            bucket.updatedAt = now;
+        } else {
+            bucket = {tokens: requestsPerSecond, updatedAt: now};
+            this.buckets[host] = bucket;
+        }
+
+        bucket.tokens -= 1;
+        if (bucket.tokens >= 0) {
+            return Promise.resolve();
+        }
+
+        return delay((-bucket.tokens * 1000) / requestsPerSecond);
+    }
+}
@@ -0,0 +1,454 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import websocketClient, {WebSocketClient} from 'client/websocket_client';
+
+const CONNECTION_URL = 'ws://localhost:8065/api/v4/websocket';
+
+class FakeWebSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSING = 2;
+    static CLOSED = 3;
+
+    static instances = [];
+
+    constructor(url) {
+        this.url = url;
+        this.readyState = FakeWebSocket.CONNECTING;
+        this.sent = [];
+
+        FakeWebSocket.instances.push(this);
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen();
+    }
+
+    receive(msg) {
+        this.onmessage({data: JSON.stringify(msg)});
+    }
+
+    send(data) {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+        this.readyState = FakeWebSocket.CLOSED;
+
+        if (this.onclose) {
+            this.onclose();
+        }
+    }
+}
+
+describe('WebSocketClient', () => {
+    let events;
+    let reconnects;
+    let resumes;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+
+        FakeWebSocket.instances = [];
+        events = [];
+        reconnects = 0;
+        resumes = 0;
+
+        websocketClient.setEventCallback((msg) => events.push(msg));
+        websocketClient.setReconnectCallback(() => reconnects++);
+        websocketClient.setResumeCallback(() => resumes++);
+    });
+
+    afterEach(() => {
+        websocketClient.close(true);
+        jest.useRealTimers();
+    });
+
+    function authenticate(socket) {
+        const challenge = socket.sent.find((msg) => msg.action === 'authentication_challenge');
+        socket.receive({status: 'OK', seq_reply: challenge.seq});
+    }
+
+    function connect() {
+        websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket});
+
+        const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+        socket.open();
+        authenticate(socket);
+
+        return socket;
+    }
+
+    function reconnectAfterClose(socket) {
+        socket.close();
+        jest.runOnlyPendingTimers();
+
+        return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    }
+
+    describe('missed events', () => {
+        it('should track the connection id and server sequence', () => {
+            const socket = connect();
+
+            assert.equal(socket.url, CONNECTION_URL);
+
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+            socket.receive({event: 'posted', data: {}, seq: 1});
+
+            assert.equal(websocketClient.connectionId, 'conn1');
+            assert.equal(websocketClient.serverSequence, 2);
+            assert.equal(events.length, 2);
+        });
+
+        it('should resume the previous connection on reconnect', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+            socket.receive({event: 'posted', data: {}, seq: 1});
+
+            const newSocket = reconnectAfterClose(socket);
+
+            assert.equal(newSocket.url, `${CONNECTION_URL}?connection_id=conn1&sequence_number=2`);
+
+            newSocket.open();
+            assert.equal(reconnects, 0);
+
+            newSocket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 2});
+            newSocket.receive({event: 'posted', data: {}, seq: 3});
+
+            assert.equal(resumes, 1);
+            assert.equal(reconnects, 0);
+            assert.equal(websocketClient.serverSequence, 4);
+            assert.equal(events.length, 4);
+        });
+
+        it('should fall back to a full resync when the server cannot resume the connection', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+
+            const newSocket = reconnectAfterClose(socket);
+            newSocket.open();
+            newSocket.receive({event: 'hello', data: {connection_id: 'conn2'}, seq: 0});
+
+            assert.equal(resumes, 0);
+            assert.equal(reconnects, 1);
+            assert.equal(websocketClient.connectionId, 'conn2');
+            assert.equal(websocketClient.serverSequence, 1);
+        });
+
+        it('should fall back to a full resync when the server no longer supports resuming', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+
+            const newSocket = reconnectAfterClose(socket);
+            newSocket.open();
+            assert.equal(reconnects, 0);
+
+            newSocket.receive({event: 'hello', data: {}, seq: 0});
+
+            assert.equal(resumes, 0);
+            assert.equal(reconnects, 1);
+            assert.equal(websocketClient.connectionId, '');
+            assert.equal(websocketClient.serverSequence, 0);
+        });
+
+        it('should reconnect when an event is skipped', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+            socket.receive({event: 'posted', data: {}, seq: 2});
+
+            assert.equal(socket.readyState, FakeWebSocket.CLOSED);
+            assert.equal(events.length, 1);
+
+            jest.runOnlyPendingTimers();
+
+            const newSocket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+            assert.equal(newSocket.url, `${CONNECTION_URL}?connection_id=conn1&sequence_number=1`);
+
+            newSocket.open();
+        });
+
+        it('should do a full resync when the server does not support resuming', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {}, seq: 0});
+            socket.receive({event: 'posted', data: {}, seq: 5});
+
+            assert.equal(events.length, 2);
+
+            const newSocket = reconnectAfterClose(socket);
+            assert.equal(newSocket.url, CONNECTION_URL);
+
+            newSocket.open();
+            assert.equal(reconnects, 1);
+        });
+
+        it('should forget the connection when closed', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+
+            websocketClient.close(true);
+
+            assert.equal(websocketClient.connectionId, '');
+            assert.equal(websocketClient.serverSequence, 0);
+        });
+    });
+
+    describe('sendRequest', () => {
+        it('should resolve with the data of the reply', async () => {
+            const socket = connect();
+
+            const promise = websocketClient.getStatusesByIds(['user1']);
+
+            const msg = socket.sent[socket.sent.length - 1];
+            assert.equal(msg.action, 'get_statuses_by_ids');
+            assert.deepEqual(msg.data, {user_ids: ['user1']});
+
+            socket.receive({status: 'OK', seq_reply: msg.seq, data: {user1: 'online'}});
+
+            assert.deepEqual(await promise, {user1: 'online'});
+        });
+
+        it('should reject when the server returns an error', async () => {
+            const socket = connect();
+
+            const promise = websocketClient.sendRequest('custom_action', {});
+
+            const msg = socket.sent[socket.sent.length - 1];
+            socket.receive({status: 'FAIL', seq_reply: msg.seq, error: {id: 'api.web_socket_router.bad_action.app_error', message: 'invalid action', status_code: 501}});
+
+            await assert.rejects(promise, (error) => {
+                assert.equal(error.action, 'custom_action');
+                assert.equal(error.message, 'invalid action');
+                assert.equal(error.server_error_id, 'api.web_socket_router.bad_action.app_error');
+                assert.equal(error.status_code, 501);
+                return true;
+            });
+        });
+
+        it('should reject when the request times out', async () => {
+            connect();
+
+            const promise = websocketClient.sendRequest('custom_action', {}, {timeout: 1000});
+
+            jest.advanceTimersByTime(1000);
+
+            await assert.rejects(promise, {message: 'websocket request timed out'});
+            assert.deepEqual(websocketClient.pendingRequests, {});
+        });
+
+        it('should reject pending requests when the socket closes', async () => {
+            const socket = connect();
+
+            const promise = websocketClient.sendRequest('custom_action', {});
+
+            socket.close();
+
+            await assert.rejects(promise, {message: 'websocket closed'});
+
+            jest.runOnlyPendingTimers();
+            FakeWebSocket.instances[FakeWebSocket.instances.length - 1].open();
+        });
+
+        it('should reject pending requests when the socket is closed by the client', async () => {
+            websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket});
+
+            const promise = websocketClient.sendRequest('custom_action', {});
+
+            FakeWebSocket.instances[FakeWebSocket.instances.length - 1].open();
+            websocketClient.close(true);
+
+            await assert.rejects(promise, {message: 'websocket closed'});
+        });
+    });
+
+    describe('message queue', () => {
+        it('should send queued messages once the socket has authenticated', async () => {
+            websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket});
+
+            websocketClient.userTyping('channel1', '');
+            const promise = websocketClient.getStatusesByIds(['user1']);
+
+            const socket = FakeWebSocket.instances[0];
+            socket.open();
+
+            assert.deepEqual(socket.sent.map((msg) => msg.action), ['authentication_challenge']);
+
+            authenticate(socket);
+
+            assert.deepEqual(socket.sent.map((msg) => msg.action), ['authentication_challenge', 'user_typing', 'get_statuses_by_ids']);
+
+            socket.receive({status: 'OK', seq_reply: socket.sent[2].seq, data: {user1: 'away'}});
+
+            assert.deepEqual(await promise, {user1: 'away'});
+        });
+
+        it('should send queued messages once the hello event is received', () => {
+            websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket});
+
+            websocketClient.sendMessage('custom_action', {});
+
+            const socket = FakeWebSocket.instances[0];
+            socket.open();
+            socket.receive({event: 'hello', data: {}, seq: 0});
+
+            assert.deepEqual(socket.sent.map((msg) => msg.action), ['authentication_challenge', 'custom_action']);
+        });
+
+        it('should drop stale messages', async () => {
+            const now = Date.now();
+            const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+            websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket});
+
+            websocketClient.userTyping('channel1', '');
+            websocketClient.sendMessage('custom_action', {});
+
+            websocketClient.setQueuePolicy('custom_request', {maxAge: 1000});
+            const promise = websocketClient.sendRequest('custom_request', {});
+
+            dateNow.mockReturnValue(now + 5000);
+
+            const socket = FakeWebSocket.instances[0];
+            socket.open();
+            authenticate(socket);
+
+            assert.deepEqual(socket.sent.map((msg) => msg.action), ['authentication_challenge', 'custom_action']);
+            await assert.rejects(promise, {message: 'websocket message expired before it could be sent'});
+
+            dateNow.mockRestore();
+        });
+
+        it('should keep queued messages when the connection drops', () => {
+            const socket = connect();
+
+            reconnectAfterClose(socket);
+
+            websocketClient.sendMessage('custom_action', {value: 1});
+
+            const newSocket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+            newSocket.open();
+            authenticate(newSocket);
+
+            const msg = newSocket.sent[newSocket.sent.length - 1];
+            assert.equal(msg.action, 'custom_action');
+            assert.deepEqual(msg.data, {value: 1});
+        });
+
+        it('should reconnect using the original options', () => {
+            connect();
+            websocketClient.close(true);
+
+            websocketClient.sendMessage('custom_action', {});
+
+            assert.equal(FakeWebSocket.instances.length, 2);
+
+            const socket = FakeWebSocket.instances[1];
+            assert.equal(socket.url, CONNECTION_URL);
+
+            socket.open();
+            authenticate(socket);
+
+            assert.equal(socket.sent[socket.sent.length - 1].action, 'custom_action');
+        });
+    });
+
+    describe('heartbeat', () => {
+        let heartbeats;
+
+        beforeEach(() => {
+            heartbeats = [];
+            websocketClient.setHeartbeatCallback((heartbeat) => heartbeats.push(heartbeat));
+        });
+
+        function connectWithHeartbeat() {
+            websocketClient.initialize('token', {connectionUrl: CONNECTION_URL, webSocketConnector: FakeWebSocket, pingInterval: 1000, maxMissedPongs: 2});
+
+            const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+            socket.open();
+            authenticate(socket);
+
+            return socket;
+        }
+
+        it('should not ping the server by default', () => {
+            const socket = connect();
+
+            jest.advanceTimersByTime(60000);
+
+            assert.equal(socket.sent.filter((msg) => msg.action === 'ping').length, 0);
+        });
+
+        it('should measure the latency of pings', async () => {
+            const socket = connectWithHeartbeat();
+
+            jest.advanceTimersByTime(1000);
+
+            const ping = socket.sent[socket.sent.length - 1];
+            assert.equal(ping.action, 'ping');
+
+            socket.receive({status: 'OK', seq_reply: ping.seq, data: {text: 'pong'}});
+            await Promise.resolve();
+
+            assert.equal(heartbeats.length, 1);
+            assert.equal(heartbeats[0].missedPongs, 0);
+            assert.ok(heartbeats[0].latency >= 0);
+        });
+
+        it('should close the connection after missing too many pongs', async () => {
+            const socket = connectWithHeartbeat();
+
+            jest.advanceTimersByTime(1000);
+            jest.advanceTimersByTime(1000);
+            await Promise.resolve();
+
+            assert.deepEqual(heartbeats, [{latency: 0, missedPongs: 1}]);
+            assert.equal(socket.readyState, FakeWebSocket.OPEN);
+
+            jest.advanceTimersByTime(1000);
+            await Promise.resolve();
+
+            assert.deepEqual(heartbeats, [{latency: 0, missedPongs: 1}, {latency: 0, missedPongs: 2}]);
+            assert.equal(socket.readyState, FakeWebSocket.CLOSED);
+            assert.equal(websocketClient.conn, undefined);
+
+            jest.runOnlyPendingTimers();
+            FakeWebSocket.instances[FakeWebSocket.instances.length - 1].open();
+        });
+    });
+
+    describe('multiple clients', () => {
+        class OtherFakeWebSocket extends FakeWebSocket {}
+
+        it('should keep connections to different servers independent', () => {
+            const socket = connect();
+            socket.receive({event: 'hello', data: {connection_id: 'conn1'}, seq: 0});
+
+            const otherClient = new WebSocketClient();
+            const otherEvents = [];
+            otherClient.setEventCallback((msg) => otherEvents.push(msg));
+            otherClient.initialize('other_token', {connectionUrl: 'ws://otherhost:8065/api/v4/websocket', webSocketConnector: OtherFakeWebSocket});
+
+            const otherSocket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+            assert.ok(otherSocket instanceof OtherFakeWebSocket);
+            assert.equal(otherClient.connector, OtherFakeWebSocket);
+            assert.equal(websocketClient.connector, FakeWebSocket);
+
+            otherSocket.open();
+            authenticate(otherSocket);
+            otherSocket.receive({event: 'hello', data: {connection_id: 'conn2'}, seq: 0});
+
+            assert.equal(websocketClient.connectionId, 'conn1');
+            assert.equal(otherClient.connectionId, 'conn2');
+            assert.equal(events.length, 1);
+            assert.equal(otherEvents.length, 1);
+
+            otherClient.close(true);
+
+            assert.equal(otherSocket.readyState, FakeWebSocket.CLOSED);
+            assert.equal(socket.readyState, FakeWebSocket.OPEN);
+        });
+    });
+});
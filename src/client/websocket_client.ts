@@ -1,50 +1,150 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
+import {Dictionary} from 'types/utilities';
+
 const MAX_WEBSOCKET_FAILS = 7;
 const MIN_WEBSOCKET_RETRY_TIME = 3000; // 3 sec
 
 const MAX_WEBSOCKET_RETRY_TIME = 300000; // 5 mins
 
-let Socket: any;
+const DEFAULT_REQUEST_TIMEOUT = 30000; // 30 sec
+
+const MAX_QUEUED_MESSAGES = 100;
+
+const DEFAULT_MAX_MISSED_PONGS = 3;
+
+const REQUEST_TIMED_OUT = 'websocket request timed out';
+
+const WEBSOCKET_HELLO = 'hello';
+
+export type WebSocketRequestOptions = {
+    timeout?: number;
+};
+
+export type MessageQueuePolicy = {
+    // maxAge is how long in milliseconds a message can wait to be sent while the socket is connecting before it's dropped
+    maxAge: number;
+};
+
+const DEFAULT_QUEUE_POLICY: MessageQueuePolicy = {
+    maxAge: 60000, // 1 min
+};
+
+const DEFAULT_QUEUE_POLICIES: Dictionary<MessageQueuePolicy> = {
+    user_typing: {maxAge: 5000}, // 5 sec
+};
 
-class WebSocketClient {
+type PendingRequest = {
+    action: string;
+    seq?: number;
+    resolve: (data: any) => void;
+    reject: (error: WebSocketRequestError) => void;
+    timeout: any;
+};
+
+type QueuedMessage = {
+    action: string;
+    data: any;
+    queuedAt: number;
+    request?: PendingRequest;
+};
+
+export class WebSocketRequestError extends Error {
+    action: string;
+    server_error_id?: string;
+    status_code?: number;
+
+    constructor(action: string, data: any) {
+        super(data.message);
+
+        this.message = data.message;
+        this.action = action;
+        this.server_error_id = data.id;
+        this.status_code = data.status_code;
+
+        // Ensure message is treated as a property of this class when object spreading
+        Object.defineProperty(this, 'message', {enumerable: true});
+    }
+}
+
+export class WebSocketClient {
     conn?: WebSocket;
-    connectionUrl: null;
+    connector: any;
+    connectionUrl: string|null;
     token: string|null;
     sequence: number;
+    serverSequence: number;
+    connectionId: string;
     connectFailCount: number;
+    pendingRequests: {[seq: number]: PendingRequest};
+    authenticated: boolean;
+    authenticationSequence: number;
+    messageQueue: QueuedMessage[];
+    queuePolicies: Dictionary<MessageQueuePolicy>;
     eventCallback?: Function;
     firstConnectCallback?: Function;
     reconnectCallback?: Function;
+    resumeCallback?: Function;
     errorCallback?: Function;
     closeCallback?: Function;
     connectingCallback?: Function;
+    heartbeatCallback?: Function;
+    pingInterval: number;
+    maxMissedPongs: number;
+    missedPongs: number;
+    latency: number;
+    pingTimer: any;
     stop: boolean;
     platform: string;
+    connectionOptions: any;
     connectionTimeout: any;
 
     constructor() {
         this.connectionUrl = null;
         this.token = null;
         this.sequence = 1;
+        this.serverSequence = 0;
+        this.connectionId = '';
         this.connectFailCount = 0;
+        this.pendingRequests = {};
+        this.authenticated = false;
+        this.authenticationSequence = 0;
+        this.messageQueue = [];
+        this.queuePolicies = {...DEFAULT_QUEUE_POLICIES};
+        this.pingInterval = 0;
+        this.maxMissedPongs = DEFAULT_MAX_MISSED_PONGS;
+        this.missedPongs = 0;
+        this.latency = 0;
         this.stop = false;
         this.platform = '';
+        this.connectionOptions = {};
     }
 
     initialize(token: string|null, opts: any) {
         const defaults = {
             forceConnection: true,
             connectionUrl: this.connectionUrl,
-            webSocketConnector: WebSocket,
+
+            // The global WebSocket is only read here so that this can be loaded where there isn't one, like in Node
+            webSocketConnector: typeof WebSocket === 'undefined' ? undefined : WebSocket,
+
+            // pingInterval is how often in milliseconds to ping the server to check that the connection is still
+            // alive. Set to 0 to disable the heartbeat.
+            pingInterval: 0,
+            maxMissedPongs: DEFAULT_MAX_MISSED_PONGS,
         };
 
-        const {connectionUrl, forceConnection, webSocketConnector, platform, ...additionalOptions} = Object.assign({}, defaults, opts);
+        const {connectionUrl, forceConnection, webSocketConnector, platform, pingInterval, maxMissedPongs, ...additionalOptions} = Object.assign({}, defaults, opts);
 
         if (platform) {
             this.platform = platform;
         }
 
+        this.pingInterval = pingInterval;
+        this.maxMissedPongs = maxMissedPongs;
+
+        this.connectionOptions = opts;
+
         if (forceConnection) {
             this.stop = false;
         }
@@ -65,7 +165,7 @@ class WebSocketClient {
                 console.log('websocket connecting to ' + connectionUrl); //eslint-disable-line no-console
             }
 
-            Socket = webSocketConnector;
+            this.connector = webSocketConnector;
             if (this.connectingCallback) {
                 this.connectingCallback();
             }
@@ -94,7 +194,13 @@ class WebSocketClient {
                 return;
             }
 
-            this.conn = new Socket(connectionUrl, [], {headers: {origin}, ...(additionalOptions || {})});
+            let websocketUrl = connectionUrl;
+            if (this.connectionId) {
+                // Ask the server to resume the previous connection and replay any events sent after the last one we received
+                websocketUrl += `?connection_id=${encodeURIComponent(this.connectionId)}&sequence_number=${this.serverSequence}`;
+            }
+
+            this.conn = new this.connector(websocketUrl, [], {headers: {origin}, ...(additionalOptions || {})});
             this.connectionUrl = connectionUrl;
             this.token = token;
 
@@ -102,12 +208,16 @@ class WebSocketClient {
                 if (token) {
                     // we check for the platform as a workaround until we fix on the server that further authentications
                     // are ignored
-                    this.sendMessage('authentication_challenge', {token});
+                    this.authenticationSequence = this.sequence;
+                    this.sendToSocket('authentication_challenge', {token});
                 }
 
                 if (this.connectFailCount > 0) {
                     console.log('websocket re-established connection'); //eslint-disable-line no-console
-                    if (this.reconnectCallback) {
+
+                    // When resuming a previous connection, whether or not a full resync is needed is only known
+                    // once the server sends its hello event
+                    if (!this.connectionId && this.reconnectCallback) {
                         this.reconnectCallback();
                     }
                 } else if (this.firstConnectCallback) {
@@ -115,12 +225,21 @@ class WebSocketClient {
                 }
 
                 this.connectFailCount = 0;
+
+                if (!token) {
+                    // The connection was already authenticated using a cookie
+                    this.handleAuthenticated();
+                }
+
                 resolve();
             };
 
             this.conn!.onclose = () => {
                 this.conn = undefined;
                 this.sequence = 1;
+                this.authenticated = false;
+                this.stopHeartbeat();
+                this.rejectPendingRequests('websocket closed');
 
                 if (this.connectFailCount === 0) {
                     console.log('websocket closed'); //eslint-disable-line no-console
@@ -172,16 +291,172 @@ class WebSocketClient {
             this.conn!.onmessage = (evt) => {
                 const msg = JSON.parse(evt.data);
                 if (msg.seq_reply) {
-                    if (msg.error) {
+                    if (msg.seq_reply === this.authenticationSequence) {
+                        this.authenticationSequence = 0;
+
+                        if (msg.error) {
+                            console.warn(msg); //eslint-disable-line no-console
+                        } else {
+                            this.handleAuthenticated();
+                        }
+                        return;
+                    }
+
+                    const request = this.pendingRequests[msg.seq_reply];
+                    if (request) {
+                        delete this.pendingRequests[msg.seq_reply];
+                        clearTimeout(request.timeout);
+
+                        if (msg.error) {
+                            request.reject(new WebSocketRequestError(request.action, msg.error));
+                        } else {
+                            request.resolve(msg.data);
+                        }
+                    } else if (msg.error) {
                         console.warn(msg); //eslint-disable-line no-console
                     }
-                } else if (this.eventCallback) {
+                    return;
+                }
+
+                if (msg.event === WEBSOCKET_HELLO) {
+                    this.handleHello(msg);
+                } else if (this.connectionId) {
+                    if (msg.seq !== this.serverSequence) {
+                        // We missed an event, so reconnect to have the server replay everything after the last one we received
+                        console.log('websocket missed an event, expected seq=' + this.serverSequence + ' received seq=' + msg.seq); //eslint-disable-line no-console
+                        this.conn!.close();
+                        return;
+                    }
+
+                    this.serverSequence = msg.seq + 1;
+                }
+
+                if (this.eventCallback) {
                     this.eventCallback(msg);
                 }
             };
         });
     }
 
+    handleAuthenticated() {
+        this.authenticated = true;
+        this.flushMessageQueue();
+        this.startHeartbeat();
+    }
+
+    startHeartbeat() {
+        this.stopHeartbeat();
+
+        if (this.pingInterval > 0) {
+            this.pingTimer = setInterval(() => this.ping(), this.pingInterval);
+        }
+    }
+
+    stopHeartbeat() {
+        if (this.pingTimer) {
+            clearInterval(this.pingTimer);
+            this.pingTimer = null;
+        }
+
+        // The latency of a previous connection says nothing about the next one
+        this.missedPongs = 0;
+        this.latency = 0;
+    }
+
+    ping() {
+        const start = Date.now();
+
+        // Any reply from the server, even an error, means that the connection is still alive
+        const handlePong = () => {
+            this.latency = Date.now() - start;
+            this.missedPongs = 0;
+            this.notifyHeartbeat();
+        };
+
+        this.sendRequest('ping', null, {timeout: this.pingInterval}).then(handlePong, (error: WebSocketRequestError) => {
+            if (error.server_error_id) {
+                handlePong();
+            } else if (error.message === REQUEST_TIMED_OUT) {
+                this.handleMissedPong();
+            }
+        });
+    }
+
+    handleMissedPong() {
+        this.missedPongs++;
+        this.notifyHeartbeat();
+
+        if (this.missedPongs >= this.maxMissedPongs) {
+            console.log('websocket missed ' + this.missedPongs + ' pongs, closing connection'); //eslint-disable-line no-console
+            this.forceClose();
+        }
+    }
+
+    notifyHeartbeat() {
+        if (this.heartbeatCallback) {
+            this.heartbeatCallback({
+                latency: this.latency,
+                missedPongs: this.missedPongs,
+            });
+        }
+    }
+
+    // forceClose closes the socket without waiting for the close handshake, which may never complete if the
+    // connection is dead, so that we can start reconnecting immediately
+    forceClose() {
+        const conn = this.conn;
+        if (!conn) {
+            return;
+        }
+
+        const onclose = conn.onclose;
+        conn.onclose = null;
+        conn.close();
+
+        if (onclose) {
+            (onclose as Function).call(conn);
+        }
+    }
+
+    handleHello(msg: any) {
+        // The server only sends the hello event once the connection has been authenticated, and it doesn't always
+        // reply to the authentication challenge if the connection was already authenticated using its headers
+        if (!this.authenticated) {
+            this.handleAuthenticated();
+        }
+
+        const previousConnectionId = this.connectionId;
+        const connectionId = msg.data && msg.data.connection_id;
+        if (!connectionId) {
+            // The server doesn't support resuming connections, so it won't have replayed anything we missed if we
+            // tried to resume one
+            this.connectionId = '';
+            this.serverSequence = 0;
+
+            if (previousConnectionId && this.reconnectCallback) {
+                this.reconnectCallback();
+            }
+            return;
+        }
+
+        this.connectionId = connectionId;
+        this.serverSequence = msg.seq + 1;
+
+        if (!previousConnectionId) {
+            return;
+        }
+
+        if (previousConnectionId === connectionId) {
+            // The server is replaying the events we missed through the new connection
+            if (this.resumeCallback) {
+                this.resumeCallback();
+            }
+        } else if (this.reconnectCallback) {
+            // The server couldn't resume the previous connection, so the missed events need to be fetched manually
+            this.reconnectCallback();
+        }
+    }
+
     setConnectingCallback(callback: Function) {
         this.connectingCallback = callback;
     }
@@ -198,6 +473,14 @@ class WebSocketClient {
         this.reconnectCallback = callback;
     }
 
+    setResumeCallback(callback: Function) {
+        this.resumeCallback = callback;
+    }
+
+    setHeartbeatCallback(callback: Function) {
+        this.heartbeatCallback = callback;
+    }
+
     setErrorCallback(callback: Function) {
         this.errorCallback = callback;
     }
@@ -210,7 +493,13 @@ class WebSocketClient {
         this.stop = stop;
         this.connectFailCount = 0;
         this.sequence = 1;
-        if (this.conn && this.conn.readyState === Socket.OPEN) {
+        this.serverSequence = 0;
+        this.connectionId = '';
+        this.authenticated = false;
+        this.stopHeartbeat();
+        this.rejectPendingRequests('websocket closed');
+        this.clearMessageQueue('websocket closed');
+        if (this.conn && this.conn.readyState === this.connector.OPEN) {
             this.conn.onclose = () => {}; //eslint-disable-line no-empty-function
             this.conn.close();
             this.conn = undefined;
@@ -218,21 +507,137 @@ class WebSocketClient {
         }
     }
 
-    sendMessage(action: string, data: any) {
+    setQueuePolicy(action: string, policy: MessageQueuePolicy) {
+        this.queuePolicies[action] = policy;
+    }
+
+    getQueuePolicy(action: string) {
+        return this.queuePolicies[action] || DEFAULT_QUEUE_POLICY;
+    }
+
+    createPendingRequest(action: string, resolve: (data: any) => void, reject: (error: WebSocketRequestError) => void, timeout: number) {
+        const request: PendingRequest = {
+            action,
+            resolve,
+            reject,
+            timeout: setTimeout(() => {
+                this.removePendingRequest(request);
+                reject(new WebSocketRequestError(action, {message: REQUEST_TIMED_OUT}));
+            }, timeout),
+        };
+
+        return request;
+    }
+
+    removePendingRequest(request: PendingRequest) {
+        if (request.seq) {
+            delete this.pendingRequests[request.seq];
+        }
+
+        this.messageQueue = this.messageQueue.filter((message) => message.request !== request);
+    }
+
+    rejectRequest(request: PendingRequest, message: string) {
+        clearTimeout(request.timeout);
+        request.reject(new WebSocketRequestError(request.action, {message}));
+    }
+
+    rejectPendingRequests(message: string) {
+        const pendingRequests = this.pendingRequests;
+        this.pendingRequests = {};
+
+        for (const seq of Object.keys(pendingRequests)) {
+            this.rejectRequest(pendingRequests[Number(seq)], message);
+        }
+    }
+
+    enqueueMessage(message: QueuedMessage) {
+        if (this.messageQueue.length >= MAX_QUEUED_MESSAGES) {
+            const dropped = this.messageQueue.shift()!;
+            if (dropped.request) {
+                this.rejectRequest(dropped.request, 'websocket message queue is full');
+            }
+        }
+
+        this.messageQueue.push(message);
+    }
+
+    flushMessageQueue() {
+        const now = Date.now();
+        const messageQueue = this.messageQueue;
+        this.messageQueue = [];
+
+        for (const message of messageQueue) {
+            if (now - message.queuedAt >= this.getQueuePolicy(message.action).maxAge) {
+                if (message.request) {
+                    this.rejectRequest(message.request, 'websocket message expired before it could be sent');
+                }
+                continue;
+            }
+
+            this.sendToSocket(message.action, message.data, message.request);
+        }
+    }
+
+    clearMessageQueue(message: string) {
+        const messageQueue = this.messageQueue;
+        this.messageQueue = [];
+
+        for (const queued of messageQueue) {
+            if (queued.request) {
+                this.rejectRequest(queued.request, message);
+            }
+        }
+    }
+
+    sendToSocket(action: string, data: any, request?: PendingRequest) {
         const msg = {
             action,
             seq: this.sequence++,
             data,
         };
 
-        if (this.conn && this.conn.readyState === Socket.OPEN) {
-            this.conn.send(JSON.stringify(msg));
-        } else if (!this.conn || this.conn.readyState === Socket.CLOSED) {
+        if (request) {
+            request.seq = msg.seq;
+            this.pendingRequests[msg.seq] = request;
+        }
+
+        this.conn!.send(JSON.stringify(msg));
+    }
+
+    // send sends a message immediately if the socket is connected, or queues it to be sent once the socket has
+    // reconnected and authenticated
+    send(action: string, data: any, request?: PendingRequest) {
+        if (this.conn && this.conn.readyState === this.connector.OPEN && this.authenticated) {
+            this.sendToSocket(action, data, request);
+            return;
+        }
+
+        this.enqueueMessage({
+            action,
+            data,
+            queuedAt: Date.now(),
+            request,
+        });
+
+        if (!this.conn || this.conn.readyState === this.connector.CLOSED) {
             this.conn = undefined;
-            this.initialize(this.token, {platform: this.platform});
+            this.initialize(this.token, this.connectionOptions);
         }
     }
 
+    sendMessage(action: string, data: any) {
+        this.send(action, data);
+    }
+
+    // sendRequest sends a message to the server and returns a promise that resolves with the data of its reply or
+    // rejects if the server returns an error, the request times out, or the socket is closed before it's answered
+    sendRequest(action: string, data: any, {timeout = DEFAULT_REQUEST_TIMEOUT}: WebSocketRequestOptions = {}): Promise<any> {
+        return new Promise((resolve, reject) => {
+            this.send(action, data, this.createPendingRequest(action, resolve, reject, timeout));
+        });
+    }
+
     userTyping(channelId: string, parentId: string) {
         this.sendMessage('user_typing', {
             channel_id: channelId,
@@ -240,14 +645,14 @@ class WebSocketClient {
         });
     }
 
-    getStatuses() {
-        this.sendMessage('get_statuses', null);
+    getStatuses(opts?: WebSocketRequestOptions): Promise<Dictionary<string>> {
+        return this.sendRequest('get_statuses', null, opts);
     }
 
-    getStatusesByIds(userIds: string[]) {
-        this.sendMessage('get_statuses_by_ids', {
+    getStatusesByIds(userIds: string[], opts?: WebSocketRequestOptions): Promise<Dictionary<string>> {
+        return this.sendRequest('get_statuses_by_ids', {
             user_ids: userIds,
-        });
+        }, opts);
     }
 }
 
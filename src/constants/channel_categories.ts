@@ -0,0 +1,15 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {CategorySorting, ChannelCategoryType} from 'types/channel_categories';
+
+export default {
+    FAVORITES: 'favorites' as ChannelCategoryType,
+    CHANNELS: 'channels' as ChannelCategoryType,
+    DIRECT_MESSAGES: 'direct_messages' as ChannelCategoryType,
+    CUSTOM: 'custom' as ChannelCategoryType,
+
+    SORTING_DEFAULT: '' as CategorySorting,
+    SORTING_ALPHABETICAL: 'alpha' as CategorySorting,
+    SORTING_RECENCY: 'recent' as CategorySorting,
+    SORTING_MANUAL: 'manual' as CategorySorting,
+};
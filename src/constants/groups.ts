@@ -1,6 +1,8 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
+import {SyncableType} from 'types/groups';
+
 export default {
-    SYNCABLE_TYPE_TEAM: 'team',
-    SYNCABLE_TYPE_CHANNEL: 'channel',
+    SYNCABLE_TYPE_TEAM: 'team' as SyncableType,
+    SYNCABLE_TYPE_CHANNEL: 'channel' as SyncableType,
 };
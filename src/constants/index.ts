@@ -14,4 +14,6 @@ import Emoji from './emoji';
 import Plugins from './plugins';
 import Groups from './groups';
 import Users from './users';
-export {General, Preferences, Posts, Files, RequestStatus, WebsocketEvents, Alerts, Teams, Stats, Permissions, Emoji, Plugins, Groups, Users};
+import ChannelCategories from './channel_categories';
+import ScheduledPosts from './scheduled_posts';
+export {General, Preferences, Posts, Files, RequestStatus, WebsocketEvents, Alerts, Teams, Stats, Permissions, Emoji, Plugins, Groups, Users, ChannelCategories, ScheduledPosts};
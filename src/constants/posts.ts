@@ -41,6 +41,8 @@ export default {
     },
     MAX_PREV_MSGS: 100,
     POST_COLLAPSE_TIMEOUT: 1000 * 60 * 5, // five minutes
+    DRAFT_SAVE_DELAY: 500,
+    REMINDER_CHECK_INTERVAL: 1000 * 60, // one minute
     IGNORE_POST_TYPES: [
         PostTypes.ADD_REMOVE,
         PostTypes.ADD_TO_CHANNEL,
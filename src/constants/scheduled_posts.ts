@@ -0,0 +1,16 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {ScheduledPostError, ScheduledPostStatus} from 'types/scheduled_posts';
+
+export default {
+    STATUS_SCHEDULED: 'scheduled' as ScheduledPostStatus,
+    STATUS_SENDING: 'sending' as ScheduledPostStatus,
+    STATUS_FAILED: 'failed' as ScheduledPostStatus,
+
+    ERROR_MISSED: 'missed' as ScheduledPostError,
+    ERROR_CHANNEL_ARCHIVED: 'channel_archived' as ScheduledPostError,
+    ERROR_SEND_FAILED: 'send_failed' as ScheduledPostError,
+
+    // Posts that were due longer ago than this when the scheduler starts are marked as missed instead of being sent late
+    MISSED_THRESHOLD: 1000 * 60 * 60, // one hour
+};
@@ -0,0 +1,7 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import MockServer, {DEFAULT_MOCK_SERVER_URL, DEFAULT_PASSWORD} from './mock_server';
+import MockRecorder from './recorder';
+import {mockError, mockResponse} from './routes';
+
+export {MockServer, MockRecorder, DEFAULT_MOCK_SERVER_URL, DEFAULT_PASSWORD, mockError, mockResponse};
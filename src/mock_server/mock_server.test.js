@@ -0,0 +1,160 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import Client4 from 'client/client4';
+import routes from 'client/client4_routes.json';
+
+import MockServer from './mock_server';
+import {mockResponse} from './routes';
+
+describe('MockServer', () => {
+    let server;
+    let client;
+    let user;
+    let team;
+
+    beforeEach(() => {
+        server = new MockServer();
+        server.start();
+
+        user = server.addUser({username: 'user1'});
+        team = server.addTeam({name: 'team1'});
+        server.addTeamMember(team.id, user.id);
+
+        client = new Client4();
+        client.setUrl(server.url);
+    });
+
+    afterEach(() => {
+        server.stop();
+    });
+
+    it('should only handle routes used by Client4', () => {
+        for (const route of server.routes) {
+            const used = routes.some(({method, path}) => method === route.method && route.regex.test(path));
+            expect(used).toBe(true);
+        }
+    });
+
+    it('should keep track of users, teams, channels and posts', async () => {
+        assert.deepEqual(await client.login('user1', 'password'), user);
+
+        // The session is remembered like a cookie so that the token doesn't need to be set
+        assert.deepEqual(await client.getMe(), user);
+        assert.deepEqual((await client.getMyTeams()).map((t) => t.name), ['team1']);
+
+        const channels = await client.getMyChannels(team.id);
+        assert.deepEqual(channels.map((c) => c.name), ['town-square', 'off-topic']);
+
+        const channel = await client.createChannel({team_id: team.id, name: 'channel1', display_name: 'Channel 1', type: 'O'});
+        assert.equal(channel.creator_id, user.id);
+        assert.ok(await client.getChannelMember(channel.id, user.id));
+
+        const post = await client.createPost({channel_id: channel.id, message: 'hello'});
+        const reply = await client.createPost({channel_id: channel.id, root_id: post.id, message: 'reply'});
+
+        const postList = await client.getPosts(channel.id);
+        assert.deepEqual(postList.order, [reply.id, post.id]);
+        assert.equal(postList.posts[post.id].reply_count, 1);
+
+        await client.deletePost(post.id);
+        assert.deepEqual((await client.getPosts(channel.id)).order, []);
+
+        await client.logout();
+        await expect(client.getMe()).rejects.toMatchObject({status_code: 401});
+    });
+
+    it('should handle the requests made to log in and load the current user', async () => {
+        server.roles.system_user = {...server.getRole('system_user'), permissions: ['create_team']};
+
+        const channel = server.getChannelByName(team.id, 'town-square');
+        server.addPost({channel_id: channel.id, user_id: user.id, message: 'hello'});
+
+        assert.equal((await client.getClientConfigOld()).SiteURL, server.url);
+        assert.deepEqual(await client.getClientLicenseOld(), {IsLicensed: 'false'});
+
+        await client.login('user1', 'password');
+        await client.attachDevice('android:device1');
+
+        assert.deepEqual(await client.getMyTeamMembers(), [server.getTeamMember(team.id, user.id)]);
+        assert.deepEqual(await client.getMyTeamUnreads(), [{team_id: team.id, msg_count: 1, mention_count: 0}]);
+        assert.deepEqual(await client.getRolesByNames(['system_user']), [server.roles.system_user]);
+
+        const preference = {user_id: user.id, category: 'display_settings', name: 'use_military_time', value: 'true'};
+        assert.deepEqual(await client.getMyPreferences(), []);
+        await client.savePreferences(user.id, [preference]);
+        await client.savePreferences(user.id, [{...preference, value: 'false'}]);
+        assert.deepEqual(await client.getMyPreferences(), [{...preference, value: 'false'}]);
+        await client.deletePreferences(user.id, [preference]);
+        assert.deepEqual(await client.getMyPreferences(), []);
+    });
+
+    it('should accept tokens', async () => {
+        const otherUser = server.addUser({username: 'user2'});
+        client.setToken(server.createSession(otherUser.id));
+
+        assert.deepEqual(await client.getMe(), otherUser);
+    });
+
+    it('should return errors in the format used by the server', async () => {
+        await expect(client.login('user1', 'wrong')).rejects.toMatchObject({
+            server_error_id: 'api.user.login.invalid_credentials_email_username',
+            status_code: 401,
+        });
+
+        client.setToken(server.createSession(user.id));
+
+        await expect(client.getUser('missing')).rejects.toMatchObject({status_code: 404});
+        await expect(client.getFileInfosForPost('post1')).rejects.toMatchObject({
+            server_error_id: 'mock_server.not_implemented.app_error',
+            status_code: 501,
+        });
+    });
+
+    it('should let routes be added and replaced', async () => {
+        server.route('GET', '/api/v4/users/:user_id', ({params}) => mockResponse({id: params.user_id, username: 'replaced'}));
+        client.setToken(server.createSession(user.id));
+
+        assert.deepEqual(await client.getUser('user2'), {id: 'user2', username: 'replaced'});
+    });
+
+    it('should inject faults', async () => {
+        client.setToken(server.createSession(user.id));
+
+        server.injectFault({method: 'GET', path: '/api/v4/users/:user_id', status: 503, times: 1});
+        await expect(client.getMe()).rejects.toMatchObject({status_code: 503});
+        assert.deepEqual(await client.getMe(), user);
+
+        const removeFault = server.injectFault({path: /^\/api\/v4\/teams/, networkError: true});
+        await expect(client.getTeam(team.id)).rejects.toThrow();
+        assert.deepEqual(await client.getMe(), user);
+
+        removeFault();
+        assert.deepEqual(await client.getTeam(team.id), team);
+
+        server.injectFault({latency: 50, times: 1});
+        const start = Date.now();
+        await client.getMe();
+        expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should replay fixtures in order', async () => {
+        server.loadFixtures([
+            {method: 'GET', path: '/api/v4/users/me', status: 200, data: {id: 'first'}},
+            {method: 'GET', path: '/api/v4/users/me', status: 200, data: {id: 'second'}},
+            {method: 'POST', path: '/api/v4/users/ids', body: ['user3'], status: 200, data: [{id: 'user3'}]},
+            {method: 'GET', path: '/api/v4/teams/team2', status: 404, data: {id: 'app.team.get.find.app_error', message: 'Not found', status_code: 404}},
+        ]);
+
+        assert.deepEqual(await client.getMe(), {id: 'first'});
+        assert.deepEqual(await client.getMe(), {id: 'second'});
+        assert.deepEqual(await client.getMe(), {id: 'second'});
+        assert.deepEqual(await client.getProfilesByIds(['user3']), [{id: 'user3'}]);
+        await expect(client.getTeam('team2')).rejects.toMatchObject({server_error_id: 'app.team.get.find.app_error'});
+
+        // Requests that don't match a fixture are handled normally
+        await expect(client.getProfilesByIds(['user4'])).rejects.toMatchObject({status_code: 401});
+    });
+});
@@ -0,0 +1,931 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {General, WebsocketEvents} from '../constants';
+
+import {Channel, ChannelMembership, ChannelType} from 'types/channels';
+import {MockFault, MockFixture, MockRequest, MockResponse, MockRouteHandler, MockRouteOptions} from 'types/mock_server';
+import {Post, PostType} from 'types/posts';
+import {PreferenceType} from 'types/preferences';
+import {Reaction} from 'types/reactions';
+import {Role} from 'types/roles';
+import {Team, TeamMembership, TeamUnread} from 'types/teams';
+import {UserProfile, UserStatus} from 'types/users';
+import {Dictionary} from 'types/utilities';
+import {WebsocketBroadcast} from 'types/websocket';
+
+import {createWebSocketConnector, MockConnection, MockWebSocket, sendEvent} from './mock_websocket';
+import addDefaultRoutes, {mockError} from './routes';
+
+export const DEFAULT_MOCK_SERVER_URL = 'http://localhost:8065';
+export const DEFAULT_PASSWORD = 'password';
+
+const ID_CHARACTERS = 'ybndrfg8ejkmcpqxot1uwisza345h769';
+
+type MockRoute = {
+    method: string;
+    pattern: string;
+    regex: RegExp;
+    paramNames: string[];
+    handler: MockRouteHandler;
+    public: boolean;
+};
+
+export type FetchFunction = (input: any, init?: any) => Promise<Response>;
+
+function compilePattern(pattern: string) {
+    const paramNames: string[] = [];
+    const source = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:([a-z_]+)/g, (match, name) => {
+        paramNames.push(name);
+        return '([^/]+)';
+    });
+
+    return {regex: new RegExp(`^${source}$`), paramNames};
+}
+
+function parseQuery(queryString: string) {
+    const query: Dictionary<string> = {};
+    for (const pair of queryString.split('&')) {
+        if (pair) {
+            const [key, value = ''] = pair.split('=');
+            query[decodeURIComponent(key)] = decodeURIComponent(value);
+        }
+    }
+
+    return query;
+}
+
+export function parseBody(body: any) {
+    if (typeof body !== 'string') {
+        return body;
+    }
+
+    try {
+        return JSON.parse(body);
+    } catch (e) {
+        return body;
+    }
+}
+
+// REDACTED replaces credentials in the request bodies of recorded fixtures
+export const REDACTED = '[redacted]';
+
+// bodyMatches compares the body of a fixture with that of a request. Redacted values match anything.
+function bodyMatches(expected: any, body: any): boolean {
+    if (expected === REDACTED) {
+        return true;
+    }
+
+    if (Array.isArray(expected)) {
+        return Array.isArray(body) && expected.length === body.length && expected.every((value, i) => bodyMatches(value, body[i]));
+    }
+
+    if (expected && typeof expected === 'object') {
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return false;
+        }
+
+        const keys = Object.keys(expected);
+        return keys.length === Object.keys(body).length && keys.every((key) => bodyMatches(expected[key], body[key]));
+    }
+
+    return expected === body;
+}
+
+function getHeader(headers: Dictionary<string> | undefined, name: string) {
+    if (!headers) {
+        return '';
+    }
+
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : '';
+}
+
+function delay(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// MockServer is an in-process fake of the Mattermost server for testing apps built with Client4 and WebSocketClient.
+// It keeps users, teams, channels, posts and preferences in memory and handles the REST routes needed to log in and
+// load a user's teams, channels and posts as well as the websocket protocol. Other routes can be added with route or
+// replayed from fixtures recorded with MockRecorder. Permissions aren't checked beyond whether the user belongs to a
+// team or channel.
+export default class MockServer {
+    url: string;
+    version = '5.26.0';
+
+    users: Dictionary<UserProfile> = {};
+    passwords: Dictionary<string> = {};
+    teams: Dictionary<Team> = {};
+    teamMembers: Dictionary<Dictionary<TeamMembership>> = {};
+    channels: Dictionary<Channel> = {};
+    channelMembers: Dictionary<Dictionary<ChannelMembership>> = {};
+    posts: Dictionary<Post> = {};
+    reactions: Dictionary<Reaction[]> = {};
+    preferences: Dictionary<PreferenceType[]> = {};
+
+    // roles can be set to give roles permissions. Other roles are returned without any.
+    roles: Dictionary<Role> = {};
+
+    // clientConfig and clientLicense can be changed to test how an app handles the server's settings
+    clientConfig: Dictionary<string>;
+    clientLicense: Dictionary<string> = {IsLicensed: 'false'};
+
+    // sessions maps the tokens of logged in users to their IDs
+    sessions: Dictionary<string> = {};
+
+    // cookieToken is the session used by requests made without a token, like a browser that stores it in a cookie
+    cookieToken = '';
+
+    routes: MockRoute[] = [];
+    faults: MockFault[] = [];
+    fixtures: MockFixture[] = [];
+    usedFixtures = new Set<MockFixture>();
+
+    sockets = new Set<MockWebSocket>();
+    connections: Dictionary<MockConnection> = {};
+
+    // WebSocket can be passed to WebSocketClient as the webSocketConnector to connect to the mock server
+    WebSocket: new (url: string) => MockWebSocket;
+
+    previousFetch: FetchFunction | null = null;
+    lastTimestamp = 0;
+
+    constructor(url = DEFAULT_MOCK_SERVER_URL) {
+        this.url = url.replace(/\/+$/, '');
+        this.clientConfig = {
+            Version: this.version,
+            BuildNumber: this.version,
+            SiteName: 'Mattermost',
+            SiteURL: this.url,
+            EnableCustomEmoji: 'false',
+            DiagnosticsEnabled: 'false',
+        };
+
+        this.WebSocket = createWebSocketConnector(this);
+
+        addDefaultRoutes(this);
+    }
+
+    // start replaces the global fetch so that requests to the mock server's URL are handled by it. Other requests
+    // are passed through.
+    start() {
+        if (this.previousFetch) {
+            return;
+        }
+
+        const root: any = typeof window === 'undefined' ? global : window;
+        this.previousFetch = root.fetch;
+        root.fetch = this.fetch;
+    }
+
+    // stop restores the global fetch and disconnects any websockets. Servers must be stopped in the reverse order
+    // that they were started.
+    stop() {
+        if (this.previousFetch) {
+            const root: any = typeof window === 'undefined' ? global : window;
+            root.fetch = this.previousFetch;
+            this.previousFetch = null;
+        }
+
+        this.dropSockets();
+    }
+
+    fetch = async (input: any, init: any = {}) => {
+        const url: string = typeof input === 'string' ? input : input.url;
+        if (url.indexOf(this.url + '/') !== 0) {
+            if (!this.previousFetch) {
+                throw new TypeError(`The mock server can't handle requests to ${url}`);
+            }
+
+            return this.previousFetch(input, init);
+        }
+
+        const {status, data, headers} = await this.request(init.method, url, init.headers, init.body);
+
+        return new Response(status === 204 ? null : JSON.stringify(data), {
+            status,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Version-Id': this.version,
+                ...headers,
+            },
+        });
+    };
+
+    // request handles a request as if it had been sent to the server. It can be used to test the server without
+    // starting it.
+    request = async (method = 'GET', url: string, headers?: Dictionary<string>, body?: any): Promise<MockResponse> => {
+        const relativeUrl = url.indexOf(this.url) === 0 ? url.substring(this.url.length) : url;
+        const [path, queryString = ''] = relativeUrl.split('?', 2);
+        const upperMethod = method.toUpperCase();
+
+        const faults = this.takeFaults(upperMethod, path);
+        for (const fault of faults) {
+            if (fault.latency) {
+                await delay(fault.latency); // eslint-disable-line no-await-in-loop
+            }
+        }
+
+        if (faults.some((fault) => fault.networkError)) {
+            throw new TypeError('Network request failed');
+        }
+
+        const failure = faults.find((fault) => fault.status);
+        if (failure) {
+            return mockError(failure.status!, 'mock_server.fault.app_error', 'The request failed because of a fault injected into the mock server.');
+        }
+
+        const parsedBody = parseBody(body);
+
+        const fixture = this.takeFixture(upperMethod, relativeUrl, parsedBody);
+        if (fixture) {
+            return {status: fixture.status, data: fixture.data};
+        }
+
+        let token = getHeader(headers, 'Authorization').replace(/^bearer /i, '');
+        if (!token) {
+            token = this.cookieToken;
+        }
+
+        const userId = this.getSessionUserId(token);
+
+        const match = this.matchRoute(upperMethod, path);
+        if (!match) {
+            return mockError(501, 'mock_server.not_implemented.app_error', `The mock server doesn't handle ${upperMethod} ${path}.`);
+        }
+
+        if (!match.route.public && !userId) {
+            return mockError(401, 'api.context.session_expired.app_error', 'Invalid or expired session, please login again.');
+        }
+
+        const mockRequest: MockRequest = {
+            method: upperMethod,
+            path,
+            params: match.params,
+            query: parseQuery(queryString),
+            body: parsedBody,
+            token: userId ? token : '',
+            userId,
+        };
+
+        const response = match.route.handler(mockRequest);
+
+        const newToken = getHeader(response.headers, 'Token');
+        if (newToken) {
+            this.cookieToken = newToken;
+        }
+
+        return response;
+    };
+
+    // route adds a handler for requests matching a method and path pattern such as /api/v4/users/:user_id. Routes
+    // added later take priority, so this can also be used to replace one of the default routes.
+    route(method: string, pattern: string, handler: MockRouteHandler, options: MockRouteOptions = {}) {
+        this.routes.unshift({
+            method: method.toUpperCase(),
+            pattern,
+            ...compilePattern(pattern),
+            handler,
+            public: Boolean(options.public),
+        });
+    }
+
+    matchRoute(method: string, path: string) {
+        for (const route of this.routes) {
+            if (route.method !== method) {
+                continue;
+            }
+
+            const match = route.regex.exec(path);
+            if (match) {
+                const params: Dictionary<string> = {};
+                route.paramNames.forEach((name, i) => {
+                    params[name] = decodeURIComponent(match[i + 1]);
+                });
+
+                return {route, params};
+            }
+        }
+
+        return null;
+    }
+
+    // injectFault makes matching requests slow or fail. It returns a function that removes the fault.
+    injectFault(fault: MockFault) {
+        const added = {...fault};
+        this.faults.push(added);
+
+        return () => {
+            this.faults = this.faults.filter((f) => f !== added);
+        };
+    }
+
+    clearFaults() {
+        this.faults = [];
+    }
+
+    takeFaults(method: string, path: string) {
+        const matching = this.faults.filter((fault) => {
+            if (fault.method && fault.method.toUpperCase() !== method) {
+                return false;
+            }
+
+            if (!fault.path) {
+                return true;
+            }
+
+            if (typeof fault.path === 'string') {
+                return compilePattern(fault.path).regex.test(path);
+            }
+
+            return fault.path.test(path);
+        });
+
+        for (const fault of matching) {
+            if (typeof fault.times === 'number') {
+                fault.times -= 1;
+                if (fault.times <= 0) {
+                    this.faults = this.faults.filter((f) => f !== fault);
+                }
+            }
+        }
+
+        return matching;
+    }
+
+    // loadFixtures makes the server replay recorded responses. Matching fixtures are used in the order that they
+    // were recorded, and the last one is repeated once they've all been used. Fixtures take priority over routes.
+    loadFixtures(fixtures: MockFixture[]) {
+        this.fixtures = this.fixtures.concat(fixtures);
+    }
+
+    takeFixture(method: string, path: string, body: any) {
+        const matching = this.fixtures.filter((fixture) => {
+            if (fixture.method.toUpperCase() !== method || fixture.path !== path) {
+                return false;
+            }
+
+            return typeof fixture.body === 'undefined' || bodyMatches(fixture.body, body);
+        });
+
+        const fixture = matching.find((f) => !this.usedFixtures.has(f)) || matching[matching.length - 1];
+        if (fixture) {
+            this.usedFixtures.add(fixture);
+        }
+
+        return fixture;
+    }
+
+    newId() {
+        let id = '';
+        for (let i = 0; i < 26; i++) {
+            id += ID_CHARACTERS.charAt(Math.floor(Math.random() * ID_CHARACTERS.length));
+        }
+
+        return id;
+    }
+
+    // now returns the current time, making sure that objects created one after another never have the same timestamp
+    now() {
+        this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+        return this.lastTimestamp;
+    }
+
+    // Sessions
+
+    // createSession logs a user in and returns the token for their session
+    createSession(userId: string) {
+        const token = this.newId();
+        this.sessions[token] = userId;
+        return token;
+    }
+
+    revokeSession(token: string) {
+        Reflect.deleteProperty(this.sessions, token);
+    }
+
+    getSessionUserId(token?: string) {
+        return (token && this.sessions[token]) || '';
+    }
+
+    // Users
+
+    addUser(user: Partial<UserProfile> = {}, password = DEFAULT_PASSWORD) {
+        const id = user.id || this.newId();
+        const username = user.username || `user${Object.keys(this.users).length + 1}`;
+        const now = this.now();
+
+        const created: UserProfile = {
+            id,
+            create_at: now,
+            update_at: now,
+            delete_at: 0,
+            username,
+            auth_data: '',
+            auth_service: '',
+            email: `${username}@example.com`,
+            email_verified: true,
+            nickname: '',
+            first_name: '',
+            last_name: '',
+            position: '',
+            roles: General.SYSTEM_USER_ROLE,
+            locale: 'en',
+            notify_props: {
+                desktop: 'mention',
+                desktop_sound: 'true',
+                email: 'true',
+                mark_unread: 'all',
+                push: 'mention',
+                push_status: 'away',
+                comments: 'never',
+                first_name: 'false',
+                channel: 'true',
+                mention_keys: '',
+            },
+            terms_of_service_id: '',
+            terms_of_service_create_at: 0,
+            ...user,
+        };
+
+        this.users[id] = created;
+        this.passwords[id] = password;
+
+        return created;
+    }
+
+    updateUser(user: UserProfile) {
+        const updated = {...user, update_at: this.now()};
+        this.users[user.id] = updated;
+
+        this.broadcast(WebsocketEvents.USER_UPDATED, {user: updated});
+
+        return updated;
+    }
+
+    getUserByUsername(username: string) {
+        const lower = username.toLowerCase();
+        return Object.values(this.users).find((user) => user.username.toLowerCase() === lower);
+    }
+
+    getStatuses(userIds: string[] = Object.keys(this.users)) {
+        const statuses: Dictionary<string> = {};
+        for (const userId of userIds) {
+            statuses[userId] = this.getStatus(userId).status;
+        }
+
+        return statuses;
+    }
+
+    // getStatus considers users online while they're connected to the websocket
+    getStatus(userId: string): UserStatus {
+        const online = Array.from(this.sockets).some((socket) => socket.connection && socket.connection.userId === userId);
+
+        return {
+            user_id: userId,
+            status: online ? General.ONLINE : General.OFFLINE,
+            manual: false,
+            last_activity_at: 0,
+        };
+    }
+
+    // Teams
+
+    // addTeam creates a team along with its default channels
+    addTeam(team: Partial<Team> = {}) {
+        const id = team.id || this.newId();
+        const name = team.name || `team${Object.keys(this.teams).length + 1}`;
+        const now = this.now();
+
+        const created: Team = {
+            id,
+            create_at: now,
+            update_at: now,
+            delete_at: 0,
+            display_name: name,
+            name,
+            description: '',
+            email: '',
+            type: 'O',
+            company_name: '',
+            allowed_domains: '',
+            invite_id: this.newId(),
+            allow_open_invite: true,
+            scheme_id: '',
+            group_constrained: false,
+            ...team,
+        };
+
+        this.teams[id] = created;
+        this.teamMembers[id] = {};
+
+        this.addChannel({team_id: id, name: General.DEFAULT_CHANNEL, display_name: 'Town Square'});
+        this.addChannel({team_id: id, name: 'off-topic', display_name: 'Off-Topic'});
+
+        return created;
+    }
+
+    getTeamByName(name: string) {
+        return Object.values(this.teams).find((team) => team.name === name);
+    }
+
+    getTeamMember(teamId: string, userId: string): TeamMembership | undefined {
+        return this.teamMembers[teamId] && this.teamMembers[teamId][userId];
+    }
+
+    // addTeamMember adds a user to a team and to the team's default channels
+    addTeamMember(teamId: string, userId: string, roles: string = General.TEAM_USER_ROLE) {
+        const existing = this.getTeamMember(teamId, userId);
+        if (existing) {
+            return existing;
+        }
+
+        const member: TeamMembership = {
+            team_id: teamId,
+            user_id: userId,
+            roles,
+            delete_at: 0,
+            msg_count: 0,
+            mention_count: 0,
+            scheme_user: true,
+            scheme_admin: roles.includes('team_admin'),
+        };
+        this.teamMembers[teamId][userId] = member;
+
+        this.broadcast(WebsocketEvents.ADDED_TO_TEAM, {team_id: teamId, user_id: userId}, {user_id: userId});
+
+        for (const channel of Object.values(this.channels)) {
+            if (channel.team_id === teamId && (channel.name === General.DEFAULT_CHANNEL || channel.name === 'off-topic')) {
+                this.addChannelMember(channel.id, userId);
+            }
+        }
+
+        return member;
+    }
+
+    // getTeamUnread counts the unread posts and mentions in the channels of a team that a user belongs to
+    getTeamUnread(teamId: string, userId: string): TeamUnread {
+        let msgCount = 0;
+        let mentionCount = 0;
+        for (const channel of Object.values(this.channels)) {
+            const member = channel.team_id === teamId && this.getChannelMember(channel.id, userId);
+            if (member) {
+                msgCount += channel.total_msg_count - member.msg_count;
+                mentionCount += member.mention_count;
+            }
+        }
+
+        return {team_id: teamId, msg_count: msgCount, mention_count: mentionCount};
+    }
+
+    removeTeamMember(teamId: string, userId: string) {
+        for (const channel of Object.values(this.channels)) {
+            if (channel.team_id === teamId) {
+                this.removeChannelMember(channel.id, userId);
+            }
+        }
+
+        if (this.getTeamMember(teamId, userId)) {
+            this.broadcast(WebsocketEvents.LEAVE_TEAM, {team_id: teamId, user_id: userId}, {team_id: teamId});
+            Reflect.deleteProperty(this.teamMembers[teamId], userId);
+        }
+    }
+
+    // Channels
+
+    addChannel(channel: Partial<Channel> = {}) {
+        const id = channel.id || this.newId();
+        const name = channel.name || `channel${Object.keys(this.channels).length + 1}`;
+        const now = this.now();
+
+        const created: Channel = {
+            id,
+            create_at: now,
+            update_at: now,
+            delete_at: 0,
+            team_id: '',
+            type: General.OPEN_CHANNEL as ChannelType,
+            display_name: name,
+            name,
+            header: '',
+            purpose: '',
+            last_post_at: 0,
+            total_msg_count: 0,
+            extra_update_at: 0,
+            creator_id: '',
+            scheme_id: '',
+            group_constrained: false,
+            ...channel,
+        };
+
+        this.channels[id] = created;
+        this.channelMembers[id] = {};
+
+        return created;
+    }
+
+    // getDirectChannel returns the DM channel between two users, creating it if it doesn't exist yet
+    getDirectChannel(userId: string, otherUserId: string) {
+        const name = [userId, otherUserId].sort().join('__');
+
+        let channel = Object.values(this.channels).find((c) => c.type === General.DM_CHANNEL && c.name === name);
+        if (!channel) {
+            channel = this.addChannel({type: General.DM_CHANNEL as ChannelType, name, display_name: '', creator_id: userId});
+            this.addChannelMember(channel.id, userId);
+            this.addChannelMember(channel.id, otherUserId);
+        }
+
+        return channel;
+    }
+
+    getChannelByName(teamId: string, name: string) {
+        return Object.values(this.channels).find((channel) => channel.team_id === teamId && channel.name === name);
+    }
+
+    getChannelMember(channelId: string, userId: string): ChannelMembership | undefined {
+        return this.channelMembers[channelId] && this.channelMembers[channelId][userId];
+    }
+
+    addChannelMember(channelId: string, userId: string, roles: string = General.CHANNEL_USER_ROLE) {
+        const existing = this.getChannelMember(channelId, userId);
+        if (existing) {
+            return existing;
+        }
+
+        const channel = this.channels[channelId];
+        const now = this.now();
+
+        const member: ChannelMembership = {
+            channel_id: channelId,
+            user_id: userId,
+            roles,
+            last_viewed_at: now,
+            msg_count: channel.total_msg_count,
+            mention_count: 0,
+            notify_props: {
+                desktop: 'default',
+                email: 'default',
+                mark_unread: 'all',
+                push: 'default',
+                ignore_channel_mentions: 'default',
+            },
+            last_update_at: now,
+            scheme_user: true,
+            scheme_admin: roles.includes('channel_admin'),
+        };
+        this.channelMembers[channelId][userId] = member;
+
+        this.broadcast(WebsocketEvents.USER_ADDED, {team_id: channel.team_id, user_id: userId}, {channel_id: channelId});
+
+        return member;
+    }
+
+    removeChannelMember(channelId: string, userId: string) {
+        if (!this.getChannelMember(channelId, userId)) {
+            return;
+        }
+
+        // The user is still a member when the event is sent so that they're told that they were removed
+        this.broadcast(WebsocketEvents.USER_REMOVED, {user_id: userId}, {channel_id: channelId});
+        Reflect.deleteProperty(this.channelMembers[channelId], userId);
+    }
+
+    // viewChannel marks every post in a channel as read by a user
+    viewChannel(channelId: string, userId: string) {
+        const member = this.getChannelMember(channelId, userId);
+        if (!member) {
+            return 0;
+        }
+
+        const now = this.now();
+        this.channelMembers[channelId][userId] = {
+            ...member,
+            last_viewed_at: now,
+            last_update_at: now,
+            msg_count: this.channels[channelId].total_msg_count,
+            mention_count: 0,
+        };
+
+        return now;
+    }
+
+    // Posts
+
+    // addPost creates a post and sends it to the members of its channel
+    addPost(post: Partial<Post> & {channel_id: string}) {
+        const id = post.id || this.newId();
+        const now = this.now();
+
+        const created: Post = {
+            id,
+            create_at: now,
+            update_at: now,
+            edit_at: 0,
+            delete_at: 0,
+            is_pinned: false,
+            user_id: '',
+            root_id: '',
+            parent_id: '',
+            original_id: '',
+            message: '',
+            type: '' as PostType,
+            props: {},
+            hashtags: '',
+            pending_post_id: '',
+            reply_count: 0,
+            metadata: {embeds: [], emojis: [], files: [], images: {}, reactions: []},
+            ...post,
+        };
+
+        this.posts[id] = created;
+
+        if (created.root_id && this.posts[created.root_id]) {
+            const root = this.posts[created.root_id];
+            this.posts[root.id] = {...root, reply_count: root.reply_count + 1};
+        }
+
+        const channel = {...this.channels[created.channel_id]};
+        channel.last_post_at = now;
+        channel.total_msg_count += 1;
+        this.channels[channel.id] = channel;
+
+        const members = this.channelMembers[channel.id] || {};
+        const mentions = Object.keys(members).filter((userId) => {
+            const user = this.users[userId];
+            return userId !== created.user_id && user && created.message.includes(`@${user.username}`);
+        });
+
+        for (const userId of mentions) {
+            members[userId] = {...members[userId], mention_count: members[userId].mention_count + 1};
+        }
+
+        const sender = this.users[created.user_id];
+        this.broadcast(WebsocketEvents.POSTED, {
+            channel_display_name: channel.display_name,
+            channel_name: channel.name,
+            channel_type: channel.type,
+            post: JSON.stringify(created),
+            sender_name: sender ? `@${sender.username}` : '',
+            team_id: channel.team_id,
+            ...(mentions.length > 0 ? {mentions: JSON.stringify(mentions)} : {}),
+        }, {channel_id: channel.id});
+
+        return created;
+    }
+
+    updatePost(post: Post) {
+        const now = this.now();
+        const updated = {...post, update_at: now, edit_at: now};
+        this.posts[post.id] = updated;
+
+        this.broadcast(WebsocketEvents.POST_EDITED, {post: JSON.stringify(updated)}, {channel_id: post.channel_id});
+
+        return updated;
+    }
+
+    // deletePost deletes a post along with any replies to it
+    deletePost(postId: string) {
+        const post = this.posts[postId];
+        const now = this.now();
+
+        for (const p of Object.values(this.posts)) {
+            if (p.id === postId || (p.root_id === postId && !p.delete_at)) {
+                const deleted = {...p, delete_at: now, update_at: now};
+                this.posts[p.id] = deleted;
+
+                this.broadcast(WebsocketEvents.POST_DELETED, {post: JSON.stringify(deleted)}, {channel_id: post.channel_id});
+            }
+        }
+    }
+
+    // getChannelPosts returns the posts in a channel that haven't been deleted starting with the newest
+    getChannelPosts(channelId: string) {
+        return Object.values(this.posts).
+            filter((post) => post.channel_id === channelId && !post.delete_at).
+            sort((a, b) => b.create_at - a.create_at);
+    }
+
+    // Reactions
+
+    addReaction(reaction: Pick<Reaction, 'user_id' | 'post_id' | 'emoji_name'>) {
+        const existing = this.getReactions(reaction.post_id).find((r) => r.user_id === reaction.user_id && r.emoji_name === reaction.emoji_name);
+        if (existing) {
+            return existing;
+        }
+
+        const created: Reaction = {...reaction, create_at: this.now()};
+        this.reactions[reaction.post_id] = [...this.getReactions(reaction.post_id), created];
+
+        const post = this.posts[reaction.post_id];
+        this.broadcast(WebsocketEvents.REACTION_ADDED, {reaction: JSON.stringify(created)}, {channel_id: post.channel_id});
+
+        return created;
+    }
+
+    removeReaction(userId: string, postId: string, emojiName: string) {
+        const reaction = this.getReactions(postId).find((r) => r.user_id === userId && r.emoji_name === emojiName);
+        if (!reaction) {
+            return;
+        }
+
+        this.reactions[postId] = this.getReactions(postId).filter((r) => r !== reaction);
+
+        const post = this.posts[postId];
+        this.broadcast(WebsocketEvents.REACTION_REMOVED, {reaction: JSON.stringify(reaction)}, {channel_id: post.channel_id});
+    }
+
+    getReactions(postId: string) {
+        return this.reactions[postId] || [];
+    }
+
+    // Preferences
+
+    getPreferences(userId: string) {
+        return this.preferences[userId] || [];
+    }
+
+    // savePreferences adds a user's preferences or replaces those with the same category and name
+    savePreferences(userId: string, preferences: PreferenceType[]) {
+        const saved = preferences.map((preference) => ({...preference, user_id: userId}));
+        const isSaved = (preference: PreferenceType) => saved.some((p) => p.category === preference.category && p.name === preference.name);
+
+        this.preferences[userId] = [...this.getPreferences(userId).filter((p) => !isSaved(p)), ...saved];
+
+        this.broadcast(WebsocketEvents.PREFERENCES_CHANGED, {preferences: JSON.stringify(saved)}, {user_id: userId});
+    }
+
+    deletePreferences(userId: string, preferences: PreferenceType[]) {
+        const isDeleted = (preference: PreferenceType) => preferences.some((p) => p.category === preference.category && p.name === preference.name);
+
+        this.preferences[userId] = this.getPreferences(userId).filter((p) => !isDeleted(p));
+
+        this.broadcast(WebsocketEvents.PREFERENCES_DELETED, {preferences: JSON.stringify(preferences)}, {user_id: userId});
+    }
+
+    // Roles
+
+    getRole(name: string): Role {
+        return this.roles[name] || {
+            id: name,
+            name,
+            display_name: name,
+            description: '',
+            create_at: 0,
+            update_at: 0,
+            delete_at: 0,
+            permissions: [],
+            scheme_managed: false,
+            built_in: true,
+        };
+    }
+
+    // WebSockets
+
+    // broadcast sends an event to every connected user that it's meant for. The event is kept for users that have
+    // disconnected so that they receive it if they resume their connection.
+    broadcast(event: string, data: any, broadcast: Partial<WebsocketBroadcast> = {}) {
+        const message = {
+            event,
+            data,
+            broadcast: {omit_users: {}, user_id: '', channel_id: '', team_id: '', ...broadcast},
+        };
+
+        for (const connection of Object.values(this.connections)) {
+            if (this.shouldReceive(connection.userId, message.broadcast)) {
+                sendEvent(connection, message);
+            }
+        }
+    }
+
+    shouldReceive(userId: string, broadcast: WebsocketBroadcast) {
+        if (broadcast.omit_users && broadcast.omit_users[userId]) {
+            return false;
+        }
+
+        if (broadcast.user_id) {
+            return broadcast.user_id === userId;
+        }
+
+        if (broadcast.channel_id) {
+            return Boolean(this.getChannelMember(broadcast.channel_id, userId));
+        }
+
+        if (broadcast.team_id) {
+            return Boolean(this.getTeamMember(broadcast.team_id, userId));
+        }
+
+        return true;
+    }
+
+    // dropSockets disconnects every websocket. Silently dropped sockets stay open but stop sending and receiving
+    // messages, like a connection that has died without being closed.
+    dropSockets(options: {silent?: boolean} = {}) {
+        for (const socket of Array.from(this.sockets)) {
+            if (options.silent) {
+                socket.silent = true;
+            } else {
+                socket.disconnect(1006);
+            }
+        }
+    }
+}
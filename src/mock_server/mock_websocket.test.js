@@ -0,0 +1,105 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {WebSocketClient} from 'client/websocket_client';
+
+import MockServer from './mock_server';
+
+function flush() {
+    return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('MockWebSocket', () => {
+    let server;
+    let user;
+    let otherUser;
+    let channel;
+    let websocketClient;
+    let events;
+
+    beforeEach(async () => {
+        server = new MockServer();
+
+        user = server.addUser({username: 'user1'});
+        otherUser = server.addUser({username: 'user2'});
+
+        const team = server.addTeam();
+        server.addTeamMember(team.id, user.id);
+        server.addTeamMember(team.id, otherUser.id);
+        channel = server.getChannelByName(team.id, 'town-square');
+
+        events = [];
+        websocketClient = new WebSocketClient();
+        websocketClient.setEventCallback((msg) => events.push(msg));
+
+        await websocketClient.initialize(server.createSession(user.id), {
+            connectionUrl: 'ws://localhost:8065/api/v4/websocket',
+            webSocketConnector: server.WebSocket,
+        });
+        await flush();
+    });
+
+    afterEach(() => {
+        websocketClient.close(true);
+        server.stop();
+    });
+
+    it('should authenticate and send events to channel members', async () => {
+        assert.equal(events[0].event, 'hello');
+        assert.equal(events[0].data.connection_id, websocketClient.connectionId);
+
+        server.addPost({channel_id: channel.id, user_id: otherUser.id, message: '@user1 hello'});
+        server.addPost({channel_id: server.getDirectChannel(otherUser.id, otherUser.id).id, user_id: otherUser.id});
+        await flush();
+
+        assert.deepEqual(events.slice(1).map((msg) => msg.event), ['posted']);
+        assert.equal(JSON.parse(events[1].data.post).message, '@user1 hello');
+        assert.deepEqual(JSON.parse(events[1].data.mentions), [user.id]);
+        assert.equal(events[1].data.sender_name, '@user2');
+    });
+
+    it('should reply to requests', async () => {
+        const statuses = await websocketClient.sendRequest('get_statuses_by_ids', {user_ids: [user.id, otherUser.id]});
+        assert.deepEqual(statuses, {[user.id]: 'online', [otherUser.id]: 'offline'});
+
+        await expect(websocketClient.sendRequest('unknown', {})).rejects.toMatchObject({
+            server_error_id: 'api.web_socket_router.bad_action.app_error',
+        });
+    });
+
+    it('should resume the connection after the socket is dropped', async () => {
+        const resumed = jest.fn();
+        websocketClient.setResumeCallback(resumed);
+
+        const connectionId = websocketClient.connectionId;
+
+        jest.useFakeTimers();
+        try {
+            server.dropSockets();
+            await flush();
+
+            // The event is kept for the user while they're disconnected
+            server.addPost({channel_id: channel.id, user_id: otherUser.id, message: 'missed'});
+
+            jest.runOnlyPendingTimers();
+        } finally {
+            jest.useRealTimers();
+        }
+        await flush();
+
+        expect(resumed).toHaveBeenCalled();
+        assert.equal(websocketClient.connectionId, connectionId);
+
+        const posted = events.filter((msg) => msg.event === 'posted');
+        assert.equal(posted.length, 1);
+        assert.equal(JSON.parse(posted[0].data.post).message, 'missed');
+    });
+
+    it('should stop responding when sockets are dropped silently', async () => {
+        server.dropSockets({silent: true});
+
+        await expect(websocketClient.sendRequest('ping', null, {timeout: 10})).rejects.toThrow('request timed out');
+    });
+});
@@ -0,0 +1,257 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {WebsocketEvents} from '../constants';
+
+import {Dictionary} from 'types/utilities';
+import {WebSocketMessage} from 'types/websocket';
+
+import MockServer from './mock_server';
+
+// The number of events kept for each connection so that they can be replayed when it's resumed
+const MAX_MISSED_EVENTS = 128;
+
+type MockWebSocketRequest = {
+    action: string;
+    seq: number;
+    data: any;
+};
+
+// MockConnection is a websocket session on the mock server. It outlives the socket that started it so that a client
+// can resume it and receive any events that it missed after reconnecting.
+export type MockConnection = {
+    id: string;
+    userId: string;
+    sequence: number;
+    events: WebSocketMessage[];
+    socket: MockWebSocket | null;
+};
+
+function later(callback: () => void) {
+    // Messages are delivered asynchronously like they would be by a real socket, but before any timers fire
+    Promise.resolve().then(callback);
+}
+
+function parseQuery(url: string) {
+    const query: Dictionary<string> = {};
+
+    const queryString = url.split('?')[1] || '';
+    for (const pair of queryString.split('&')) {
+        if (pair) {
+            const [key, value = ''] = pair.split('=');
+            query[decodeURIComponent(key)] = decodeURIComponent(value);
+        }
+    }
+
+    return query;
+}
+
+// MockWebSocket implements the parts of the WebSocket interface used by WebSocketClient and speaks the same protocol as
+// the Mattermost server. Use MockServer.WebSocket as the webSocketConnector instead of creating these directly.
+export class MockWebSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSING = 2;
+    static CLOSED = 3;
+
+    server: MockServer;
+    url: string;
+    readyState = MockWebSocket.CONNECTING;
+    connection: MockConnection | null = null;
+
+    // A silent socket stays open but no longer sends or receives anything, like a connection that has died without
+    // being closed
+    silent = false;
+
+    onopen: ((event: any) => void) | null = null;
+    onclose: ((event: any) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    onmessage: ((event: any) => void) | null = null;
+
+    constructor(server: MockServer, url: string) {
+        this.server = server;
+        this.url = url;
+
+        server.sockets.add(this);
+
+        later(() => {
+            if (this.readyState !== MockWebSocket.CONNECTING) {
+                return;
+            }
+
+            this.readyState = MockWebSocket.OPEN;
+            if (this.onopen) {
+                this.onopen({});
+            }
+        });
+    }
+
+    send(data: string) {
+        if (this.readyState !== MockWebSocket.OPEN) {
+            throw new Error('WebSocket is not open');
+        }
+
+        if (this.silent) {
+            return;
+        }
+
+        later(() => this.handleRequest(JSON.parse(data)));
+    }
+
+    close() {
+        this.disconnect(1000);
+    }
+
+    // disconnect closes the socket from the server's side
+    disconnect(code: number) {
+        if (this.readyState === MockWebSocket.CLOSED) {
+            return;
+        }
+
+        this.readyState = MockWebSocket.CLOSED;
+        this.server.sockets.delete(this);
+
+        if (this.connection && this.connection.socket === this) {
+            this.connection.socket = null;
+        }
+
+        later(() => {
+            if (this.onclose) {
+                this.onclose({code});
+            }
+        });
+    }
+
+    receive(msg: any) {
+        if (this.readyState !== MockWebSocket.OPEN || this.silent) {
+            return;
+        }
+
+        const data = JSON.stringify(msg);
+        later(() => {
+            if (this.readyState === MockWebSocket.OPEN && this.onmessage) {
+                this.onmessage({data});
+            }
+        });
+    }
+
+    reply(seq: number, data?: any) {
+        this.receive({status: 'OK', seq_reply: seq, data});
+    }
+
+    replyWithError(seq: number, id: string, message: string) {
+        this.receive({status: 'FAIL', seq_reply: seq, error: {id, message, status_code: 400}});
+    }
+
+    handleRequest(msg: MockWebSocketRequest) {
+        if (this.readyState !== MockWebSocket.OPEN || this.silent) {
+            return;
+        }
+
+        if (msg.action === 'authentication_challenge') {
+            this.authenticate(msg);
+            return;
+        }
+
+        const connection = this.connection;
+        if (!connection) {
+            this.replyWithError(msg.seq, 'api.web_socket_router.not_authenticated.app_error', 'The connection hasn\'t been authenticated.');
+            return;
+        }
+
+        const data = msg.data || {};
+
+        switch (msg.action) {
+        case 'ping':
+            this.reply(msg.seq, {text: 'pong', version: this.server.version, server_time: Date.now()});
+            break;
+        case 'user_typing':
+            this.server.broadcast(WebsocketEvents.TYPING, {
+                parent_id: data.parent_id || '',
+                user_id: connection.userId,
+            }, {channel_id: data.channel_id, omit_users: {[connection.userId]: true}});
+            this.reply(msg.seq);
+            break;
+        case 'get_statuses':
+            this.reply(msg.seq, this.server.getStatuses());
+            break;
+        case 'get_statuses_by_ids':
+            this.reply(msg.seq, this.server.getStatuses(data.user_ids));
+            break;
+        default:
+            this.replyWithError(msg.seq, 'api.web_socket_router.bad_action.app_error', `Unknown action ${msg.action}.`);
+        }
+    }
+
+    authenticate(msg: MockWebSocketRequest) {
+        const userId = this.server.getSessionUserId(msg.data && msg.data.token);
+        if (!userId) {
+            this.replyWithError(msg.seq, 'api.web_socket_router.not_authenticated.app_error', 'Invalid or expired session.');
+            return;
+        }
+
+        this.reply(msg.seq);
+
+        const query = parseQuery(this.url);
+        const sequenceNumber = parseInt(query.sequence_number, 10) || 0;
+
+        let connection = this.server.connections[query.connection_id];
+        let missedEvents: WebSocketMessage[] = [];
+
+        // A connection can only be resumed if none of the events that the client missed have been discarded
+        const resumable = connection && connection.userId === userId &&
+            (connection.events.length === 0 || connection.events[0].seq <= sequenceNumber);
+        if (resumable) {
+            missedEvents = connection.events.filter((event) => event.seq >= sequenceNumber);
+            if (connection.socket) {
+                connection.socket.disconnect(1000);
+            }
+        } else {
+            connection = {
+                id: this.server.newId(),
+                userId,
+                sequence: 0,
+                events: [],
+                socket: null,
+            };
+            this.server.connections[connection.id] = connection;
+        }
+
+        connection.socket = this;
+        this.connection = connection;
+
+        sendEvent(connection, {
+            event: WebsocketEvents.HELLO,
+            data: {connection_id: connection.id, server_version: this.server.version},
+            broadcast: {omit_users: {}, user_id: userId, channel_id: '', team_id: ''},
+        }, false);
+
+        for (const event of missedEvents) {
+            sendEvent(connection, event);
+        }
+    }
+}
+
+// createWebSocketConnector returns a WebSocket class that connects to the given server
+export function createWebSocketConnector(server: MockServer) {
+    return class extends MockWebSocket {
+        constructor(url: string) {
+            super(server, url);
+        }
+    };
+}
+
+// sendEvent sends an event to a connection, keeping a copy of it in case the connection is resumed later
+export function sendEvent(connection: MockConnection, event: Omit<WebSocketMessage, 'seq'>, replayable = true) {
+    const msg = {...event, seq: connection.sequence++};
+
+    if (replayable) {
+        connection.events.push(msg);
+        if (connection.events.length > MAX_MISSED_EVENTS) {
+            connection.events.shift();
+        }
+    }
+
+    if (connection.socket) {
+        connection.socket.receive(msg);
+    }
+}
@@ -0,0 +1,109 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+import nock from 'nock';
+
+import Client4 from 'client/client4';
+
+import MockServer from './mock_server';
+import MockRecorder from './recorder';
+
+const SERVER_URL = 'http://localhost:8065';
+
+describe('MockRecorder', () => {
+    beforeAll(() => {
+        if (!nock.isActive()) {
+            nock.activate();
+        }
+    });
+
+    afterAll(() => {
+        nock.restore();
+    });
+
+    it('should record responses that can be replayed by the mock server', async () => {
+        const client = new Client4();
+        client.setUrl(SERVER_URL);
+
+        // The cached response isn't used while recording since there'd be nothing to record
+        nock(SERVER_URL, {badheaders: ['If-None-Match']}).
+            get('/api/v4/users/me').
+            reply(200, {id: 'user1'}, {Etag: 'etag1'}).
+            get('/api/v4/users/me').
+            reply(200, {id: 'user1', nickname: 'changed'}).
+            post('/api/v4/users/ids', ['user2']).
+            reply(200, [{id: 'user2'}]).
+            get('/api/v4/teams/team1').
+            reply(404, {id: 'app.team.get.find.app_error', message: 'Not found', status_code: 404});
+
+        const recorder = new MockRecorder(SERVER_URL);
+        recorder.start();
+        try {
+            await client.getMe();
+            await client.getMe();
+            await client.getProfilesByIds(['user2']);
+            await expect(client.getTeam('team1')).rejects.toMatchObject({status_code: 404});
+        } finally {
+            recorder.stop();
+        }
+
+        assert.deepEqual(recorder.fixtures, [
+            {method: 'GET', path: '/api/v4/users/me', status: 200, data: {id: 'user1'}},
+            {method: 'GET', path: '/api/v4/users/me', status: 200, data: {id: 'user1', nickname: 'changed'}},
+            {method: 'POST', path: '/api/v4/users/ids', body: ['user2'], status: 200, data: [{id: 'user2'}]},
+            {method: 'GET', path: '/api/v4/teams/team1', status: 404, data: {id: 'app.team.get.find.app_error', message: 'Not found', status_code: 404}},
+        ]);
+
+        const server = new MockServer(SERVER_URL);
+        server.loadFixtures(recorder.fixtures);
+        server.start();
+        try {
+            const replayClient = new Client4();
+            replayClient.setUrl(SERVER_URL);
+
+            assert.deepEqual(await replayClient.getMe(), {id: 'user1'});
+            assert.deepEqual(await replayClient.getMe(), {id: 'user1', nickname: 'changed'});
+            assert.deepEqual(await replayClient.getProfilesByIds(['user2']), [{id: 'user2'}]);
+            await expect(replayClient.getTeam('team1')).rejects.toMatchObject({status_code: 404});
+        } finally {
+            server.stop();
+        }
+    });
+
+    it('should redact credentials from request bodies', async () => {
+        const client = new Client4();
+        client.setUrl(SERVER_URL);
+
+        nock(SERVER_URL).
+            post('/api/v4/users/login').
+            reply(200, {id: 'user1'});
+
+        const recorder = new MockRecorder(SERVER_URL);
+        recorder.start();
+        try {
+            await client.login('user1', 'password1', '123456');
+        } finally {
+            recorder.stop();
+        }
+
+        assert.deepEqual(recorder.fixtures[0].body, {
+            device_id: '',
+            login_id: 'user1',
+            password: '[redacted]',
+            token: '[redacted]',
+        });
+
+        const server = new MockServer(SERVER_URL);
+        server.loadFixtures(recorder.fixtures);
+        server.start();
+        try {
+            const replayClient = new Client4();
+            replayClient.setUrl(SERVER_URL);
+
+            assert.deepEqual(await replayClient.login('user1', 'password2'), {id: 'user1'});
+        } finally {
+            server.stop();
+        }
+    });
+});
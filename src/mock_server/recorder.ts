@@ -0,0 +1,97 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {MockFixture} from 'types/mock_server';
+import {Dictionary} from 'types/utilities';
+
+import {FetchFunction, REDACTED, parseBody} from './mock_server';
+
+const CREDENTIAL_FIELD = /password|token|mfa|secret/i;
+
+// redactCredentials replaces the values of fields like password and token in a request body
+export function redactCredentials(body: any): any {
+    if (Array.isArray(body)) {
+        return body.map(redactCredentials);
+    }
+
+    if (body && typeof body === 'object') {
+        const redacted: Dictionary<any> = {};
+        for (const key of Object.keys(body)) {
+            redacted[key] = CREDENTIAL_FIELD.test(key) ? REDACTED : redactCredentials(body[key]);
+        }
+
+        return redacted;
+    }
+
+    return body;
+}
+
+// MockRecorder records the responses to requests made to a real server so that MockServer can replay them later.
+// Only responses with JSON bodies are recorded. Headers aren't recorded, and credentials like passwords and MFA tokens
+// are redacted from the bodies of requests, but the rest of each request and the responses contain whatever was sent
+// to and returned by the server, such as access tokens created using the API, so the fixtures should be checked for
+// anything private before being shared.
+export default class MockRecorder {
+    url: string;
+    fixtures: MockFixture[] = [];
+    previousFetch: FetchFunction | null = null;
+
+    constructor(url: string) {
+        this.url = url.replace(/\/+$/, '');
+    }
+
+    // start replaces the global fetch with one that records the responses to requests made to the recorder's URL
+    start() {
+        if (this.previousFetch) {
+            return;
+        }
+
+        const root: any = typeof window === 'undefined' ? global : window;
+        this.previousFetch = root.fetch;
+        root.fetch = this.fetch;
+    }
+
+    stop() {
+        if (this.previousFetch) {
+            const root: any = typeof window === 'undefined' ? global : window;
+            root.fetch = this.previousFetch;
+            this.previousFetch = null;
+        }
+    }
+
+    fetch = async (input: any, init: any = {}) => {
+        const url: string = typeof input === 'string' ? input : input.url;
+        if (url.indexOf(this.url + '/') !== 0) {
+            return this.previousFetch!(input, init);
+        }
+
+        // Responses that haven't changed since they were cached have no body to record, so the server is always
+        // asked for the full response
+        const headers: Dictionary<string> = {...init.headers};
+        Reflect.deleteProperty(headers, 'If-None-Match');
+
+        const response = await this.previousFetch!(input, {...init, headers});
+
+        let data;
+        try {
+            const text = await response.clone().text();
+            data = text ? JSON.parse(text) : null;
+        } catch (e) {
+            return response;
+        }
+
+        const fixture: MockFixture = {
+            method: (init.method || 'GET').toUpperCase(),
+            path: url.substring(this.url.length),
+            status: response.status,
+            data,
+        };
+
+        if (typeof init.body === 'string') {
+            fixture.body = redactCredentials(parseBody(init.body));
+        }
+
+        this.fixtures.push(fixture);
+
+        return response;
+    };
+}
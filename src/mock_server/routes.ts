@@ -0,0 +1,576 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {General} from '../constants';
+
+import {Channel} from 'types/channels';
+import {MockRequest, MockResponse} from 'types/mock_server';
+import {Post, PostList} from 'types/posts';
+import {Dictionary} from 'types/utilities';
+
+import MockServer from './mock_server';
+
+const DEFAULT_PER_PAGE = 60;
+const STATUS_OK = {status: 'OK'};
+
+export function mockResponse(data: any, status = 200): MockResponse {
+    return {status, data};
+}
+
+// mockError returns an error in the format used by the server, which Client4 turns into a ClientError
+export function mockError(status: number, id: string, message: string): MockResponse {
+    return {
+        status,
+        data: {
+            id,
+            message,
+            detailed_error: '',
+            request_id: '',
+            status_code: status,
+        },
+    };
+}
+
+function notFound(type: string) {
+    return mockError(404, 'mock_server.not_found.app_error', `Unable to find the ${type}.`);
+}
+
+function forbidden() {
+    return mockError(403, 'api.context.permissions.app_error', 'You do not have the appropriate permissions.');
+}
+
+function invalidParam(name: string) {
+    return mockError(400, 'api.context.invalid_body_param.app_error', `Invalid or missing ${name} in request body.`);
+}
+
+function paginate<T>(items: T[], query: Dictionary<string>) {
+    const page = parseInt(query.page, 10) || 0;
+    const perPage = parseInt(query.per_page, 10) || DEFAULT_PER_PAGE;
+
+    return items.slice(page * perPage, (page + 1) * perPage);
+}
+
+// getUserId replaces "me" in a route with the ID of the current user
+function getUserId(request: MockRequest) {
+    return request.params.user_id === 'me' ? request.userId : request.params.user_id;
+}
+
+function toPostList(server: MockServer, posts: Post[]): PostList {
+    const postList: PostList = {
+        order: posts.map((post) => post.id),
+        posts: {},
+        next_post_id: '',
+        prev_post_id: '',
+    };
+
+    for (const post of posts) {
+        postList.posts[post.id] = post;
+
+        // The root posts of any replies are included so that their threads can be displayed
+        const root = post.root_id && server.posts[post.root_id];
+        if (root && !root.delete_at) {
+            postList.posts[root.id] = root;
+        }
+    }
+
+    return postList;
+}
+
+// addDefaultRoutes adds the routes used by the most common methods of Client4, including those used by the login and
+// loadMe actions and to load the channels and posts of a team
+export default function addDefaultRoutes(server: MockServer) {
+    const canReadChannel = (channel: Channel, userId: string) => {
+        return channel.type === General.OPEN_CHANNEL || Boolean(server.getChannelMember(channel.id, userId));
+    };
+
+    // System
+
+    server.route('GET', '/api/v4/system/ping', () => mockResponse(STATUS_OK), {public: true});
+
+    server.route('GET', '/api/v4/config/client', () => mockResponse(server.clientConfig), {public: true});
+
+    server.route('GET', '/api/v4/license/client', () => mockResponse(server.clientLicense), {public: true});
+
+    // Users
+
+    server.route('POST', '/api/v4/users/login', ({body}) => {
+        let user;
+        if (body.id) {
+            user = server.users[body.id];
+        } else {
+            const loginId = (body.login_id || '').toLowerCase();
+            user = Object.values(server.users).find((u) => u.username.toLowerCase() === loginId || u.email.toLowerCase() === loginId);
+        }
+
+        if (!user || server.passwords[user.id] !== body.password) {
+            return mockError(401, 'api.user.login.invalid_credentials_email_username', 'Enter a valid email or username and/or password.');
+        }
+
+        return {
+            status: 200,
+            data: user,
+            headers: {Token: server.createSession(user.id)},
+        };
+    }, {public: true});
+
+    server.route('POST', '/api/v4/users/logout', ({token}) => {
+        server.revokeSession(token);
+        return mockResponse(STATUS_OK);
+    });
+
+    server.route('PUT', '/api/v4/users/sessions/device', ({body}) => {
+        return body && body.device_id ? mockResponse(STATUS_OK) : invalidParam('device_id');
+    });
+
+    server.route('POST', '/api/v4/users', ({body}) => {
+        if (!body || !body.username) {
+            return invalidParam('user');
+        }
+
+        if (server.getUserByUsername(body.username)) {
+            return mockError(400, 'store.sql_user.save.username_exists.app_error', 'An account with that username already exists.');
+        }
+
+        const {password, ...user} = body;
+        return mockResponse(server.addUser(user, password), 201);
+    }, {public: true});
+
+    server.route('GET', '/api/v4/users', ({query}) => {
+        let users = Object.values(server.users);
+        if (query.in_team) {
+            users = users.filter((user) => server.getTeamMember(query.in_team, user.id));
+        }
+        if (query.in_channel) {
+            users = users.filter((user) => server.getChannelMember(query.in_channel, user.id));
+        }
+
+        return mockResponse(paginate(users, query));
+    });
+
+    server.route('POST', '/api/v4/users/ids', ({body}) => {
+        return mockResponse(body.map((id: string) => server.users[id]).filter(Boolean));
+    });
+
+    server.route('POST', '/api/v4/users/usernames', ({body}) => {
+        return mockResponse(body.map((username: string) => server.getUserByUsername(username)).filter(Boolean));
+    });
+
+    server.route('POST', '/api/v4/users/status/ids', ({body}) => {
+        return mockResponse(body.filter((id: string) => server.users[id]).map((id: string) => server.getStatus(id)));
+    });
+
+    server.route('GET', '/api/v4/users/username/:username', ({params}) => {
+        const user = server.getUserByUsername(params.username);
+        return user ? mockResponse(user) : notFound('user');
+    });
+
+    server.route('GET', '/api/v4/users/:user_id', (request) => {
+        const user = server.users[getUserId(request)];
+        return user ? mockResponse(user) : notFound('user');
+    });
+
+    server.route('GET', '/api/v4/users/:user_id/status', (request) => {
+        const userId = getUserId(request);
+        return server.users[userId] ? mockResponse(server.getStatus(userId)) : notFound('user');
+    });
+
+    server.route('PUT', '/api/v4/users/:user_id/patch', (request) => {
+        const userId = getUserId(request);
+        if (userId !== request.userId) {
+            return forbidden();
+        }
+
+        const {id, roles, create_at, delete_at, ...patch} = request.body; // eslint-disable-line @typescript-eslint/no-unused-vars
+        return mockResponse(server.updateUser({...server.users[userId], ...patch}));
+    });
+
+    // Teams
+
+    server.route('POST', '/api/v4/teams', ({body, userId}) => {
+        if (!body || !body.name) {
+            return invalidParam('team');
+        }
+
+        if (server.getTeamByName(body.name)) {
+            return mockError(400, 'store.sql_team.save.domain_exists.app_error', 'A team with that name already exists.');
+        }
+
+        const team = server.addTeam(body);
+        server.addTeamMember(team.id, userId, `${General.TEAM_USER_ROLE} team_admin`);
+
+        return mockResponse(team, 201);
+    });
+
+    server.route('GET', '/api/v4/teams', ({query}) => {
+        return mockResponse(paginate(Object.values(server.teams), query));
+    });
+
+    server.route('GET', '/api/v4/teams/:team_id', ({params}) => {
+        const team = server.teams[params.team_id];
+        return team ? mockResponse(team) : notFound('team');
+    });
+
+    server.route('GET', '/api/v4/teams/name/:team_name', ({params}) => {
+        const team = server.getTeamByName(params.team_name);
+        return team ? mockResponse(team) : notFound('team');
+    });
+
+    server.route('GET', '/api/v4/users/:user_id/teams', (request) => {
+        const userId = getUserId(request);
+        return mockResponse(Object.values(server.teams).filter((team) => server.getTeamMember(team.id, userId)));
+    });
+
+    server.route('GET', '/api/v4/users/:user_id/teams/members', (request) => {
+        const userId = getUserId(request);
+        return mockResponse(Object.keys(server.teams).map((teamId) => server.getTeamMember(teamId, userId)).filter(Boolean));
+    });
+
+    server.route('GET', '/api/v4/users/:user_id/teams/unread', (request) => {
+        const userId = getUserId(request);
+        return mockResponse(Object.keys(server.teams).filter((teamId) => server.getTeamMember(teamId, userId)).map((teamId) => server.getTeamUnread(teamId, userId)));
+    });
+
+    server.route('GET', '/api/v4/teams/:team_id/members', ({params, query}) => {
+        if (!server.teams[params.team_id]) {
+            return notFound('team');
+        }
+
+        return mockResponse(paginate(Object.values(server.teamMembers[params.team_id]), query));
+    });
+
+    server.route('POST', '/api/v4/teams/:team_id/members', ({params, body}) => {
+        if (!server.teams[params.team_id]) {
+            return notFound('team');
+        }
+
+        if (!server.users[body.user_id]) {
+            return invalidParam('user_id');
+        }
+
+        return mockResponse(server.addTeamMember(params.team_id, body.user_id), 201);
+    });
+
+    server.route('GET', '/api/v4/teams/:team_id/members/:user_id', (request) => {
+        const member = server.getTeamMember(request.params.team_id, getUserId(request));
+        return member ? mockResponse(member) : notFound('team member');
+    });
+
+    server.route('DELETE', '/api/v4/teams/:team_id/members/:user_id', (request) => {
+        server.removeTeamMember(request.params.team_id, getUserId(request));
+        return mockResponse(STATUS_OK);
+    });
+
+    // Channels
+
+    server.route('POST', '/api/v4/channels', ({body, userId}) => {
+        if (!body || !body.name || !server.teams[body.team_id]) {
+            return invalidParam('channel');
+        }
+
+        if (server.getChannelByName(body.team_id, body.name)) {
+            return mockError(400, 'store.sql_channel.save_channel.exists.app_error', 'A channel with that name already exists on the same team.');
+        }
+
+        const channel = server.addChannel({...body, creator_id: userId});
+        server.addChannelMember(channel.id, userId, `${General.CHANNEL_USER_ROLE} channel_admin`);
+
+        return mockResponse(channel, 201);
+    });
+
+    server.route('POST', '/api/v4/channels/direct', ({body}) => {
+        if (!Array.isArray(body) || body.length !== 2 || !body.every((id) => server.users[id])) {
+            return invalidParam('user_ids');
+        }
+
+        return mockResponse(server.getDirectChannel(body[0], body[1]), 201);
+    });
+
+    server.route('GET', '/api/v4/channels/:channel_id', ({params, userId}) => {
+        const channel = server.channels[params.channel_id];
+        if (!channel) {
+            return notFound('channel');
+        }
+
+        return canReadChannel(channel, userId) ? mockResponse(channel) : forbidden();
+    });
+
+    server.route('GET', '/api/v4/teams/:team_id/channels', ({params, query}) => {
+        const channels = Object.values(server.channels).filter((channel) => channel.team_id === params.team_id && channel.type === General.OPEN_CHANNEL && !channel.delete_at);
+        return mockResponse(paginate(channels, query));
+    });
+
+    server.route('GET', '/api/v4/teams/:team_id/channels/name/:channel_name', ({params, userId}) => {
+        const channel = server.getChannelByName(params.team_id, params.channel_name);
+        if (!channel) {
+            return notFound('channel');
+        }
+
+        return canReadChannel(channel, userId) ? mockResponse(channel) : forbidden();
+    });
+
+    // Direct and group messages belong to every team
+    const isMyChannelInTeam = (channel: Channel, teamId: string, userId: string) => {
+        return (channel.team_id === teamId || !channel.team_id) && Boolean(server.getChannelMember(channel.id, userId));
+    };
+
+    server.route('GET', '/api/v4/users/:user_id/teams/:team_id/channels', (request) => {
+        const userId = getUserId(request);
+        return mockResponse(Object.values(server.channels).filter((channel) => isMyChannelInTeam(channel, request.params.team_id, userId)));
+    });
+
+    server.route('GET', '/api/v4/users/:user_id/teams/:team_id/channels/members', (request) => {
+        const userId = getUserId(request);
+        const channels = Object.values(server.channels).filter((channel) => isMyChannelInTeam(channel, request.params.team_id, userId));
+        return mockResponse(channels.map((channel) => server.getChannelMember(channel.id, userId)));
+    });
+
+    server.route('GET', '/api/v4/channels/:channel_id/members', ({params, query}) => {
+        if (!server.channels[params.channel_id]) {
+            return notFound('channel');
+        }
+
+        return mockResponse(paginate(Object.values(server.channelMembers[params.channel_id]), query));
+    });
+
+    server.route('POST', '/api/v4/channels/:channel_id/members', ({params, body}) => {
+        const channel = server.channels[params.channel_id];
+        if (!channel) {
+            return notFound('channel');
+        }
+
+        if (!server.users[body.user_id]) {
+            return invalidParam('user_id');
+        }
+
+        return mockResponse(server.addChannelMember(channel.id, body.user_id), 201);
+    });
+
+    server.route('GET', '/api/v4/channels/:channel_id/members/:user_id', (request) => {
+        const member = server.getChannelMember(request.params.channel_id, getUserId(request));
+        return member ? mockResponse(member) : notFound('channel member');
+    });
+
+    server.route('DELETE', '/api/v4/channels/:channel_id/members/:user_id', (request) => {
+        server.removeChannelMember(request.params.channel_id, getUserId(request));
+        return mockResponse(STATUS_OK);
+    });
+
+    server.route('GET', '/api/v4/channels/:channel_id/stats', ({params}) => {
+        if (!server.channels[params.channel_id]) {
+            return notFound('channel');
+        }
+
+        return mockResponse({
+            channel_id: params.channel_id,
+            member_count: Object.keys(server.channelMembers[params.channel_id]).length,
+        });
+    });
+
+    server.route('POST', '/api/v4/channels/members/:user_id/view', (request) => {
+        const userId = getUserId(request);
+        const channelId = request.body.channel_id;
+        if (!server.getChannelMember(channelId, userId)) {
+            return forbidden();
+        }
+
+        return mockResponse({
+            status: 'OK',
+            last_viewed_at_times: {[channelId]: server.viewChannel(channelId, userId)},
+        });
+    });
+
+    // Preferences
+
+    server.route('GET', '/api/v4/users/:user_id/preferences', (request) => {
+        const userId = getUserId(request);
+        return userId === request.userId ? mockResponse(server.getPreferences(userId)) : forbidden();
+    });
+
+    server.route('PUT', '/api/v4/users/:user_id/preferences', (request) => {
+        const userId = getUserId(request);
+        if (userId !== request.userId) {
+            return forbidden();
+        }
+
+        if (!Array.isArray(request.body)) {
+            return invalidParam('preferences');
+        }
+
+        server.savePreferences(userId, request.body);
+        return mockResponse(STATUS_OK);
+    });
+
+    server.route('POST', '/api/v4/users/:user_id/preferences/delete', (request) => {
+        const userId = getUserId(request);
+        if (userId !== request.userId) {
+            return forbidden();
+        }
+
+        if (!Array.isArray(request.body)) {
+            return invalidParam('preferences');
+        }
+
+        server.deletePreferences(userId, request.body);
+        return mockResponse(STATUS_OK);
+    });
+
+    // Roles
+
+    server.route('POST', '/api/v4/roles/names', ({body}) => {
+        if (!Array.isArray(body)) {
+            return invalidParam('role names');
+        }
+
+        return mockResponse(body.map((name: string) => server.getRole(name)));
+    });
+
+    // Posts
+
+    server.route('POST', '/api/v4/posts', ({body, userId}) => {
+        if (!body || !server.channels[body.channel_id]) {
+            return invalidParam('channel_id');
+        }
+
+        if (!server.getChannelMember(body.channel_id, userId)) {
+            return forbidden();
+        }
+
+        const root = body.root_id && server.posts[body.root_id];
+        if (body.root_id && (!root || root.delete_at || root.channel_id !== body.channel_id)) {
+            return invalidParam('root_id');
+        }
+
+        const {id, create_at, update_at, delete_at, ...post} = body; // eslint-disable-line @typescript-eslint/no-unused-vars
+        return mockResponse(server.addPost({...post, user_id: userId}), 201);
+    });
+
+    const getPost = (postId: string, userId: string) => {
+        const post = server.posts[postId];
+        if (!post || post.delete_at || !canReadChannel(server.channels[post.channel_id], userId)) {
+            return null;
+        }
+
+        return post;
+    };
+
+    server.route('GET', '/api/v4/posts/:post_id', ({params, userId}) => {
+        const post = getPost(params.post_id, userId);
+        return post ? mockResponse(post) : notFound('post');
+    });
+
+    const editPost = ({params, body, userId}: MockRequest) => {
+        const post = getPost(params.post_id, userId);
+        if (!post) {
+            return notFound('post');
+        }
+
+        if (post.user_id !== userId) {
+            return forbidden();
+        }
+
+        const patch: Partial<Post> = {};
+        for (const key of ['message', 'props', 'is_pinned', 'file_ids', 'has_reactions']) {
+            if (body.hasOwnProperty(key)) {
+                (patch as any)[key] = body[key];
+            }
+        }
+
+        return mockResponse(server.updatePost({...post, ...patch}));
+    };
+
+    server.route('PUT', '/api/v4/posts/:post_id', editPost);
+    server.route('PUT', '/api/v4/posts/:post_id/patch', editPost);
+
+    server.route('DELETE', '/api/v4/posts/:post_id', ({params, userId}) => {
+        const post = getPost(params.post_id, userId);
+        if (!post) {
+            return notFound('post');
+        }
+
+        if (post.user_id !== userId) {
+            return forbidden();
+        }
+
+        server.deletePost(post.id);
+        return mockResponse(STATUS_OK);
+    });
+
+    server.route('GET', '/api/v4/posts/:post_id/thread', ({params, userId}) => {
+        const post = getPost(params.post_id, userId);
+        if (!post) {
+            return notFound('post');
+        }
+
+        const rootId = post.root_id || post.id;
+        const thread = Object.values(server.posts).
+            filter((p) => (p.id === rootId || p.root_id === rootId) && !p.delete_at).
+            sort((a, b) => b.create_at - a.create_at);
+
+        return mockResponse(toPostList(server, thread));
+    });
+
+    server.route('GET', '/api/v4/channels/:channel_id/posts', ({params, query, userId}) => {
+        const channel = server.channels[params.channel_id];
+        if (!channel) {
+            return notFound('channel');
+        }
+
+        if (!canReadChannel(channel, userId)) {
+            return forbidden();
+        }
+
+        if (query.since) {
+            // Deleted posts are included so that the client knows to remove them
+            const since = parseInt(query.since, 10);
+            const changed = Object.values(server.posts).
+                filter((post) => post.channel_id === channel.id && post.update_at >= since).
+                sort((a, b) => b.create_at - a.create_at);
+
+            return mockResponse(toPostList(server, changed));
+        }
+
+        let posts = server.getChannelPosts(channel.id);
+        if (query.before) {
+            const index = posts.findIndex((post) => post.id === query.before);
+            posts = index === -1 ? [] : posts.slice(index + 1);
+        } else if (query.after) {
+            // The posts closest to the given one are returned first, but they're still ordered from newest to oldest
+            const index = posts.findIndex((post) => post.id === query.after);
+            posts = index === -1 ? [] : posts.slice(0, index).reverse();
+            return mockResponse(toPostList(server, paginate(posts, query).reverse()));
+        }
+
+        return mockResponse(toPostList(server, paginate(posts, query)));
+    });
+
+    // Reactions
+
+    server.route('POST', '/api/v4/reactions', ({body, userId}) => {
+        if (!body || body.user_id !== userId) {
+            return forbidden();
+        }
+
+        if (!getPost(body.post_id, userId) || !body.emoji_name) {
+            return invalidParam('reaction');
+        }
+
+        return mockResponse(server.addReaction(body));
+    });
+
+    server.route('DELETE', '/api/v4/users/:user_id/posts/:post_id/reactions/:emoji_name', (request) => {
+        const userId = getUserId(request);
+        if (userId !== request.userId) {
+            return forbidden();
+        }
+
+        if (!getPost(request.params.post_id, userId)) {
+            return notFound('post');
+        }
+
+        server.removeReaction(userId, request.params.post_id, request.params.emoji_name);
+        return mockResponse(STATUS_OK);
+    });
+
+    server.route('GET', '/api/v4/posts/:post_id/reactions', ({params, userId}) => {
+        return getPost(params.post_id, userId) ? mockResponse(server.getReactions(params.post_id)) : notFound('post');
+    });
+}
@@ -0,0 +1,93 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {ChannelCategoryTypes, ChannelTypes, TeamTypes, UserTypes} from 'action_types';
+import channelCategoriesReducer from 'reducers/entities/channel_categories';
+
+describe('Reducers.channelCategories', () => {
+    const category1 = {id: 'category1', team_id: 'team1', type: 'favorites', channel_ids: ['channel1']};
+    const category2 = {id: 'category2', team_id: 'team1', type: 'channels', channel_ids: ['channel2', 'channel3']};
+    const category3 = {id: 'category3', team_id: 'team2', type: 'channels', channel_ids: ['channel4']};
+
+    const initialState = {
+        byId: {category1, category2, category3},
+        orderByTeam: {team1: ['category1', 'category2'], team2: ['category3']},
+    };
+
+    it('initial state', () => {
+        const state = channelCategoriesReducer(undefined, {});
+
+        assert.deepEqual(state, {byId: {}, orderByTeam: {}});
+    });
+
+    it('RECEIVED_CATEGORY and RECEIVED_CATEGORIES', () => {
+        const updatedCategory2 = {...category2, display_name: 'Renamed'};
+        const category4 = {id: 'category4', team_id: 'team1', type: 'custom', channel_ids: []};
+
+        let state = channelCategoriesReducer(initialState, {
+            type: ChannelCategoryTypes.RECEIVED_CATEGORY,
+            data: updatedCategory2,
+        });
+        assert.equal(state.byId.category2, updatedCategory2);
+        assert.equal(state.byId.category1, category1);
+
+        state = channelCategoriesReducer(state, {
+            type: ChannelCategoryTypes.RECEIVED_CATEGORIES,
+            data: [category2, category4],
+        });
+        assert.equal(state.byId.category2, category2);
+        assert.equal(state.byId.category4, category4);
+        assert.equal(state.orderByTeam, initialState.orderByTeam);
+    });
+
+    it('RECEIVED_CATEGORY_ORDER', () => {
+        const state = channelCategoriesReducer(initialState, {
+            type: ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER,
+            data: {teamId: 'team1', order: ['category2', 'category1']},
+        });
+
+        assert.deepEqual(state.orderByTeam, {team1: ['category2', 'category1'], team2: ['category3']});
+        assert.equal(state.byId, initialState.byId);
+    });
+
+    it('CATEGORY_DELETED', () => {
+        const state = channelCategoriesReducer(initialState, {
+            type: ChannelCategoryTypes.CATEGORY_DELETED,
+            data: 'category1',
+        });
+
+        assert.deepEqual(state.byId, {category2, category3});
+        assert.deepEqual(state.orderByTeam, {team1: ['category2'], team2: ['category3']});
+    });
+
+    it('LEAVE_CHANNEL', () => {
+        const state = channelCategoriesReducer(initialState, {
+            type: ChannelTypes.LEAVE_CHANNEL,
+            data: {id: 'channel2'},
+        });
+
+        assert.deepEqual(state.byId.category2.channel_ids, ['channel3']);
+        assert.equal(state.byId.category1, category1);
+        assert.equal(state.byId.category3, category3);
+    });
+
+    it('LEAVE_TEAM', () => {
+        const state = channelCategoriesReducer(initialState, {
+            type: TeamTypes.LEAVE_TEAM,
+            data: {id: 'team1'},
+        });
+
+        assert.deepEqual(state.byId, {category3});
+        assert.deepEqual(state.orderByTeam, {team2: ['category3']});
+    });
+
+    it('LOGOUT_SUCCESS', () => {
+        const state = channelCategoriesReducer(initialState, {
+            type: UserTypes.LOGOUT_SUCCESS,
+        });
+
+        assert.deepEqual(state, {byId: {}, orderByTeam: {}});
+    });
+});
@@ -0,0 +1,115 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {combineReducers} from 'redux';
+import {ChannelCategoryTypes, ChannelTypes, TeamTypes, UserTypes} from 'action_types';
+import {GenericAction} from 'types/actions';
+import {ChannelCategory} from 'types/channel_categories';
+import {Team} from 'types/teams';
+import {IDMappedObjects, RelationOneToOne} from 'types/utilities';
+
+export function byId(state: IDMappedObjects<ChannelCategory> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ChannelCategoryTypes.RECEIVED_CATEGORY:
+    case ChannelCategoryTypes.RECEIVED_CATEGORIES: {
+        const categories: ChannelCategory[] = action.type === ChannelCategoryTypes.RECEIVED_CATEGORY ? [action.data] : action.data;
+
+        const nextState = {...state};
+        for (const category of categories) {
+            nextState[category.id] = category;
+        }
+        return nextState;
+    }
+    case ChannelCategoryTypes.CATEGORY_DELETED: {
+        if (!state[action.data]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, action.data);
+        return nextState;
+    }
+    case ChannelTypes.LEAVE_CHANNEL: {
+        const channelId = action.data.id;
+
+        let nextState = state;
+        for (const category of Object.values(state)) {
+            if (category.channel_ids.includes(channelId)) {
+                nextState = {
+                    ...nextState,
+                    [category.id]: {
+                        ...category,
+                        channel_ids: category.channel_ids.filter((id) => id !== channelId),
+                    },
+                };
+            }
+        }
+        return nextState;
+    }
+    case TeamTypes.LEAVE_TEAM: {
+        const team: Team = action.data;
+
+        const nextState = {...state};
+        for (const category of Object.values(state)) {
+            if (category.team_id === team.id) {
+                Reflect.deleteProperty(nextState, category.id);
+            }
+        }
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export function orderByTeam(state: RelationOneToOne<Team, string[]> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ChannelCategoryTypes.RECEIVED_CATEGORY_ORDER: {
+        const {teamId, order} = action.data;
+
+        return {
+            ...state,
+            [teamId]: order,
+        };
+    }
+    case ChannelCategoryTypes.CATEGORY_DELETED: {
+        const categoryId = action.data;
+
+        let nextState = state;
+        for (const teamId of Object.keys(state)) {
+            if (state[teamId].includes(categoryId)) {
+                nextState = {
+                    ...nextState,
+                    [teamId]: state[teamId].filter((id) => id !== categoryId),
+                };
+            }
+        }
+        return nextState;
+    }
+    case TeamTypes.LEAVE_TEAM: {
+        const team: Team = action.data;
+        if (!state[team.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, team.id);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export default combineReducers({
+
+    // object where every key is a category ID and every value is the category
+    byId,
+
+    // object where every key is a team ID and every value is the IDs of the team's categories in the order that they
+    // should be displayed
+    orderByTeam,
+});
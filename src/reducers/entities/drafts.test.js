@@ -0,0 +1,96 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {ChannelTypes, DraftTypes, UserTypes} from 'action_types';
+import draftsReducer from 'reducers/entities/drafts';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Reducers.drafts', () => {
+    const channelDraft = {channel_id: 'channel1', root_id: '', message: 'channel', update_at: 100};
+    const threadDraft = {channel_id: 'channel1', root_id: 'root1', message: 'thread', update_at: 200};
+    const otherDraft = {channel_id: 'channel2', root_id: '', message: 'other', update_at: 300};
+
+    const initialState = deepFreezeAndThrowOnMutation({
+        drafts: {
+            channel1: {'': channelDraft, root1: threadDraft},
+            channel2: {'': otherDraft},
+        },
+    });
+
+    it('initial state', () => {
+        assert.deepEqual(draftsReducer(undefined, {}), {drafts: {}});
+    });
+
+    it('SET_DRAFT', () => {
+        const newDraft = {channel_id: 'channel2', root_id: 'root2', message: 'new', update_at: 400};
+
+        let state = draftsReducer(initialState, {
+            type: DraftTypes.SET_DRAFT,
+            data: newDraft,
+        });
+        assert.deepEqual(state.drafts.channel2, {'': otherDraft, root2: newDraft});
+
+        const updatedDraft = {...channelDraft, message: 'updated'};
+        state = draftsReducer(state, {
+            type: DraftTypes.SET_DRAFT,
+            data: updatedDraft,
+        });
+        assert.deepEqual(state.drafts.channel1, {'': updatedDraft, root1: threadDraft});
+    });
+
+    it('REMOVE_DRAFT', () => {
+        let state = draftsReducer(initialState, {
+            type: DraftTypes.REMOVE_DRAFT,
+            data: {channel_id: 'channel1', root_id: 'root1'},
+        });
+        assert.deepEqual(state.drafts.channel1, {'': channelDraft});
+
+        state = draftsReducer(state, {
+            type: DraftTypes.REMOVE_DRAFT,
+            data: {channel_id: 'channel2', root_id: ''},
+        });
+        assert.deepEqual(state.drafts, {channel1: {'': channelDraft}});
+
+        const nextState = draftsReducer(state, {
+            type: DraftTypes.REMOVE_DRAFT,
+            data: {channel_id: 'channel3', root_id: ''},
+        });
+        assert.equal(nextState, state);
+    });
+
+    it('RECEIVED_DRAFTS should keep the most recently changed drafts', () => {
+        const olderDraft = {...channelDraft, message: 'older', update_at: 50};
+        const newerDraft = {...threadDraft, message: 'newer', update_at: 250};
+        const deletedDraft = {...otherDraft, update_at: 350, delete_at: 350};
+        const newDraft = {channel_id: 'channel3', root_id: '', message: 'new', update_at: 10};
+
+        const state = draftsReducer(initialState, {
+            type: DraftTypes.RECEIVED_DRAFTS,
+            data: [olderDraft, newerDraft, deletedDraft, newDraft],
+        });
+
+        assert.deepEqual(state.drafts, {
+            channel1: {'': channelDraft, root1: newerDraft},
+            channel3: {'': newDraft},
+        });
+    });
+
+    it('LEAVE_CHANNEL', () => {
+        const state = draftsReducer(initialState, {
+            type: ChannelTypes.LEAVE_CHANNEL,
+            data: {id: 'channel1'},
+        });
+
+        assert.deepEqual(state.drafts, {channel2: {'': otherDraft}});
+    });
+
+    it('LOGOUT_SUCCESS', () => {
+        const state = draftsReducer(initialState, {
+            type: UserTypes.LOGOUT_SUCCESS,
+        });
+
+        assert.deepEqual(state, {drafts: {}});
+    });
+});
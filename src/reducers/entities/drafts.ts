@@ -0,0 +1,86 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {combineReducers} from 'redux';
+import {ChannelTypes, DraftTypes, UserTypes} from 'action_types';
+import {GenericAction} from 'types/actions';
+import {Channel} from 'types/channels';
+import {Draft} from 'types/drafts';
+import {Dictionary, RelationOneToOne} from 'types/utilities';
+
+function storeDraft(state: RelationOneToOne<Channel, Dictionary<Draft>>, draft: Draft) {
+    return {
+        ...state,
+        [draft.channel_id]: {
+            ...state[draft.channel_id],
+            [draft.root_id]: draft,
+        },
+    };
+}
+
+function removeDraft(state: RelationOneToOne<Channel, Dictionary<Draft>>, channelId: string, rootId: string) {
+    const draftsForChannel = state[channelId];
+    if (!draftsForChannel || !draftsForChannel[rootId]) {
+        return state;
+    }
+
+    const nextDraftsForChannel = {...draftsForChannel};
+    Reflect.deleteProperty(nextDraftsForChannel, rootId);
+
+    const nextState = {...state};
+    if (Object.keys(nextDraftsForChannel).length === 0) {
+        Reflect.deleteProperty(nextState, channelId);
+    } else {
+        nextState[channelId] = nextDraftsForChannel;
+    }
+    return nextState;
+}
+
+export function drafts(state: RelationOneToOne<Channel, Dictionary<Draft>> = {}, action: GenericAction) {
+    switch (action.type) {
+    case DraftTypes.SET_DRAFT:
+        return storeDraft(state, action.data);
+    case DraftTypes.REMOVE_DRAFT:
+        return removeDraft(state, action.data.channel_id, action.data.root_id);
+    case DraftTypes.RECEIVED_DRAFTS: {
+        let nextState = state;
+
+        for (const draft of action.data as Draft[]) {
+            const existing = state[draft.channel_id] && state[draft.channel_id][draft.root_id];
+
+            // Keep whichever copy of the draft was changed last since it may have been edited while offline
+            if (existing && existing.update_at >= draft.update_at) {
+                continue;
+            }
+
+            if (draft.delete_at) {
+                nextState = removeDraft(nextState, draft.channel_id, draft.root_id);
+            } else {
+                nextState = storeDraft(nextState, draft);
+            }
+        }
+
+        return nextState;
+    }
+    case ChannelTypes.LEAVE_CHANNEL: {
+        const channelId = action.data.id;
+        if (!state[channelId]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, channelId);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export default combineReducers({
+
+    // object where every key is a channel ID and every value is an object mapping the root ID of each thread with a
+    // draft to the draft, using an empty root ID for the draft in the channel itself
+    drafts,
+});
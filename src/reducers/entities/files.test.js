@@ -3,10 +3,12 @@
 
 import assert from 'assert';
 
-import {PostTypes} from 'action_types';
+import {FileTypes, PostTypes, UserTypes} from 'action_types';
 import {
     files as filesReducer,
     fileIdsByPostId as fileIdsByPostIdReducer,
+    fileUploads as fileUploadsReducer,
+    chunkedUploads as chunkedUploadsReducer,
 } from 'reducers/entities/files';
 import deepFreeze from 'utils/deep_freeze';
 
@@ -493,4 +495,130 @@ describe('reducers/entities/files', () => {
             });
         });
     });
+
+    describe('fileUploads', () => {
+        const uploading = {
+            clientId: 'client1',
+            channelId: 'channel1',
+            rootId: '',
+            status: 'uploading',
+            loaded: 0,
+            total: 0,
+        };
+
+        it('should add files when they start uploading', () => {
+            const state = deepFreeze({});
+            const nextState = fileUploadsReducer(state, {
+                type: FileTypes.UPLOAD_FILES_REQUEST,
+                clientIds: ['client1', 'client2'],
+                channelId: 'channel1',
+                rootId: '',
+            });
+
+            assert.deepEqual(nextState, {
+                client1: uploading,
+                client2: {...uploading, clientId: 'client2'},
+            });
+        });
+
+        it('should update the progress of files being uploaded', () => {
+            const state = deepFreeze({client1: uploading});
+            const nextState = fileUploadsReducer(state, {
+                type: FileTypes.UPLOAD_FILES_PROGRESS,
+                clientIds: ['client1'],
+                loaded: 50,
+                total: 100,
+            });
+
+            assert.deepEqual(nextState, {
+                client1: {...uploading, loaded: 50, total: 100},
+            });
+        });
+
+        it('should ignore progress for files that are no longer uploading', () => {
+            const state = deepFreeze({client1: {...uploading, status: 'failed'}});
+            const nextState = fileUploadsReducer(state, {
+                type: FileTypes.UPLOAD_FILES_PROGRESS,
+                clientIds: ['client1', 'client2'],
+                loaded: 50,
+                total: 100,
+            });
+
+            assert.equal(nextState, state);
+        });
+
+        it('should mark files that failed to upload', () => {
+            const state = deepFreeze({client1: uploading});
+            const error = {message: 'error'};
+            const nextState = fileUploadsReducer(state, {
+                type: FileTypes.UPLOAD_FILES_FAILURE,
+                clientIds: ['client1'],
+                error,
+            });
+
+            assert.deepEqual(nextState, {
+                client1: {...uploading, status: 'failed', error},
+            });
+        });
+
+        for (const actionType of [FileTypes.UPLOAD_FILES_SUCCESS, FileTypes.UPLOAD_FILES_CANCEL]) {
+            it(`should remove files on ${actionType}`, () => {
+                const state = deepFreeze({
+                    client1: uploading,
+                    client2: {...uploading, clientId: 'client2'},
+                });
+                const nextState = fileUploadsReducer(state, {
+                    type: actionType,
+                    clientIds: ['client1'],
+                });
+
+                assert.deepEqual(nextState, {
+                    client2: {...uploading, clientId: 'client2'},
+                });
+            });
+        }
+
+        it('should clear files on logout', () => {
+            const state = deepFreeze({client1: uploading});
+            const nextState = fileUploadsReducer(state, {type: UserTypes.LOGOUT_SUCCESS});
+
+            assert.deepEqual(nextState, {});
+        });
+    });
+
+    describe('chunkedUploads', () => {
+        const upload = {
+            clientId: 'client1',
+            channelId: 'channel1',
+            rootId: '',
+            uploadId: 'upload1',
+            filename: 'test.png',
+            fileSize: 100,
+            fileOffset: 0,
+        };
+
+        it('should store and update uploads', () => {
+            let state = deepFreeze({});
+            state = chunkedUploadsReducer(state, {type: FileTypes.RECEIVED_CHUNKED_UPLOAD, data: upload});
+            assert.deepEqual(state, {client1: upload});
+
+            state = deepFreeze(state);
+            state = chunkedUploadsReducer(state, {type: FileTypes.RECEIVED_CHUNKED_UPLOAD, data: {...upload, fileOffset: 50}});
+            assert.deepEqual(state, {client1: {...upload, fileOffset: 50}});
+        });
+
+        it('should remove uploads once they finish', () => {
+            const state = deepFreeze({client1: upload});
+
+            assert.deepEqual(chunkedUploadsReducer(state, {type: FileTypes.REMOVED_CHUNKED_UPLOAD, data: {clientId: 'client1'}}), {});
+            assert.equal(chunkedUploadsReducer(state, {type: FileTypes.REMOVED_CHUNKED_UPLOAD, data: {clientId: 'client2'}}), state);
+        });
+
+        it('should remove uploads when they are cancelled', () => {
+            const state = deepFreeze({client1: upload});
+
+            assert.deepEqual(chunkedUploadsReducer(state, {type: FileTypes.UPLOAD_FILES_CANCEL, clientIds: ['client1']}), {});
+            assert.equal(chunkedUploadsReducer(state, {type: FileTypes.UPLOAD_FILES_CANCEL, clientIds: ['client2']}), state);
+        });
+    });
 });
@@ -5,7 +5,7 @@ import {combineReducers} from 'redux';
 import {FileTypes, PostTypes, UserTypes} from 'action_types';
 import {GenericAction} from 'types/actions';
 import {Post} from 'types/posts';
-import {FileInfo} from 'types/files';
+import {ChunkedUpload, FileInfo, FileUpload} from 'types/files';
 import {Dictionary} from 'types/utilities';
 
 export function files(state: Dictionary<FileInfo> = {}, action: GenericAction) {
@@ -140,8 +140,141 @@ function filePublicLink(state: string | null = null, action: GenericAction) {
     }
 }
 
+export function fileUploads(state: Dictionary<FileUpload> = {}, action: GenericAction) {
+    switch (action.type) {
+    case FileTypes.UPLOAD_FILES_REQUEST: {
+        const {clientIds, channelId, rootId} = action;
+        if (!clientIds) {
+            return state;
+        }
+
+        const nextState = {...state};
+        for (const clientId of clientIds as string[]) {
+            nextState[clientId] = {
+                clientId,
+                channelId,
+                rootId,
+                status: 'uploading',
+                loaded: 0,
+                total: 0,
+            };
+        }
+
+        return nextState;
+    }
+
+    case FileTypes.UPLOAD_FILES_PROGRESS: {
+        const {clientIds, loaded, total} = action;
+
+        let nextState = state;
+        for (const clientId of clientIds as string[]) {
+            const upload = state[clientId];
+
+            // Progress may still be reported for an upload after it's cancelled
+            if (!upload || upload.status !== 'uploading') {
+                continue;
+            }
+
+            if (nextState === state) {
+                nextState = {...state};
+            }
+
+            nextState[clientId] = {...upload, loaded, total};
+        }
+
+        return nextState;
+    }
+
+    case FileTypes.UPLOAD_FILES_FAILURE: {
+        const {clientIds, error} = action;
+
+        let nextState = state;
+        for (const clientId of clientIds as string[]) {
+            const upload = state[clientId];
+            if (!upload) {
+                continue;
+            }
+
+            if (nextState === state) {
+                nextState = {...state};
+            }
+
+            nextState[clientId] = {...upload, status: 'failed', error};
+        }
+
+        return nextState;
+    }
+
+    case FileTypes.UPLOAD_FILES_SUCCESS:
+    case FileTypes.UPLOAD_FILES_CANCEL: {
+        const {clientIds} = action;
+        if (!clientIds) {
+            return state;
+        }
+
+        let nextState = state;
+        for (const clientId of clientIds as string[]) {
+            if (!state[clientId]) {
+                continue;
+            }
+
+            if (nextState === state) {
+                nextState = {...state};
+            }
+
+            Reflect.deleteProperty(nextState, clientId);
+        }
+
+        return nextState;
+    }
+
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export function chunkedUploads(state: Dictionary<ChunkedUpload> = {}, action: GenericAction) {
+    switch (action.type) {
+    case FileTypes.RECEIVED_CHUNKED_UPLOAD:
+        return {
+            ...state,
+            [action.data.clientId]: action.data,
+        };
+
+    case FileTypes.REMOVED_CHUNKED_UPLOAD: {
+        if (!state[action.data.clientId]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, action.data.clientId);
+        return nextState;
+    }
+
+    case FileTypes.UPLOAD_FILES_CANCEL: {
+        const clientIds = action.clientIds as string[];
+        if (!clientIds.some((clientId) => state[clientId])) {
+            return state;
+        }
+
+        const nextState = {...state};
+        clientIds.forEach((clientId) => Reflect.deleteProperty(nextState, clientId));
+        return nextState;
+    }
+
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
 export default combineReducers({
     files,
     fileIdsByPostId,
     filePublicLink,
+    fileUploads,
+    chunkedUploads,
 });
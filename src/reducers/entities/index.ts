@@ -4,10 +4,14 @@
 import {combineReducers} from 'redux';
 
 import channels from './channels';
+import channelCategories from './channel_categories';
 import general from './general';
 import users from './users';
 import teams from './teams';
 import posts from './posts';
+import threads from './threads';
+import drafts from './drafts';
+import scheduledPosts from './scheduled_posts';
 import files from './files';
 import preferences from './preferences';
 import typing from './typing';
@@ -29,7 +33,11 @@ export default combineReducers({
     users,
     teams,
     channels,
+    channelCategories,
     posts,
+    threads,
+    drafts,
+    scheduledPosts,
     files,
     preferences,
     typing,
@@ -0,0 +1,154 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {PostTypes, ScheduledPostTypes, UserTypes} from 'action_types';
+import {ScheduledPosts} from '../../constants';
+import scheduledPostsReducer from 'reducers/entities/scheduled_posts';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Reducers.scheduledPosts', () => {
+    const scheduledPost = {
+        id: 'user1:100',
+        channel_id: 'channel1',
+        root_id: '',
+        message: 'scheduled',
+        scheduled_at: 1000,
+        status: ScheduledPosts.STATUS_SCHEDULED,
+    };
+    const sendingPost = {
+        id: 'user1:200',
+        channel_id: 'channel1',
+        root_id: 'root1',
+        message: 'sending',
+        scheduled_at: 500,
+        status: ScheduledPosts.STATUS_SENDING,
+    };
+
+    const initialState = deepFreezeAndThrowOnMutation({
+        byId: {
+            [scheduledPost.id]: scheduledPost,
+            [sendingPost.id]: sendingPost,
+        },
+    });
+
+    it('initial state', () => {
+        assert.deepEqual(scheduledPostsReducer(undefined, {}), {byId: {}});
+    });
+
+    it('RECEIVED_SCHEDULED_POST', () => {
+        const updatedPost = {...scheduledPost, message: 'updated'};
+
+        const state = scheduledPostsReducer(initialState, {
+            type: ScheduledPostTypes.RECEIVED_SCHEDULED_POST,
+            data: updatedPost,
+        });
+
+        assert.deepEqual(state.byId, {
+            [scheduledPost.id]: updatedPost,
+            [sendingPost.id]: sendingPost,
+        });
+    });
+
+    it('SCHEDULED_POST_SENDING should clear any previous error', () => {
+        let state = scheduledPostsReducer(initialState, {
+            type: ScheduledPostTypes.SCHEDULED_POST_FAILED,
+            data: {id: scheduledPost.id, error: ScheduledPosts.ERROR_MISSED},
+        });
+        assert.equal(state.byId[scheduledPost.id].status, ScheduledPosts.STATUS_FAILED);
+        assert.equal(state.byId[scheduledPost.id].error, ScheduledPosts.ERROR_MISSED);
+
+        state = scheduledPostsReducer(state, {
+            type: ScheduledPostTypes.SCHEDULED_POST_SENDING,
+            data: {id: scheduledPost.id},
+        });
+        assert.deepEqual(state.byId[scheduledPost.id], {...scheduledPost, status: ScheduledPosts.STATUS_SENDING});
+    });
+
+    it('SCHEDULED_POST_REMOVED', () => {
+        let state = scheduledPostsReducer(initialState, {
+            type: ScheduledPostTypes.SCHEDULED_POST_REMOVED,
+            data: {id: scheduledPost.id},
+        });
+        assert.deepEqual(state.byId, {[sendingPost.id]: sendingPost});
+
+        const nextState = scheduledPostsReducer(state, {
+            type: ScheduledPostTypes.SCHEDULED_POST_REMOVED,
+            data: {id: scheduledPost.id},
+        });
+        assert.equal(nextState, state);
+
+        state = scheduledPostsReducer(state, {
+            type: ScheduledPostTypes.SCHEDULED_POST_FAILED,
+            data: {id: scheduledPost.id, error: ScheduledPosts.ERROR_MISSED},
+        });
+        assert.equal(state, nextState);
+    });
+
+    describe('posts created from scheduled posts', () => {
+        it('should remove the scheduled post once the server creates the post', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.RECEIVED_POST,
+                data: {id: 'post1', pending_post_id: sendingPost.id, channel_id: 'channel1'},
+            });
+
+            assert.deepEqual(state.byId, {[scheduledPost.id]: scheduledPost});
+        });
+
+        it('should remove the scheduled post when the post is received over the websocket', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.RECEIVED_NEW_POST,
+                data: {id: 'post1', pending_post_id: sendingPost.id, channel_id: 'channel1'},
+            });
+
+            assert.deepEqual(state.byId, {[scheduledPost.id]: scheduledPost});
+        });
+
+        it('should ignore the pending post', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.RECEIVED_NEW_POST,
+                data: {id: sendingPost.id, pending_post_id: sendingPost.id, channel_id: 'channel1'},
+            });
+
+            assert.equal(state, initialState);
+        });
+
+        it('should mark the scheduled post as failed when the post fails', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.RECEIVED_POST,
+                data: {id: sendingPost.id, pending_post_id: sendingPost.id, channel_id: 'channel1', failed: true},
+            });
+
+            assert.equal(state.byId[sendingPost.id].status, ScheduledPosts.STATUS_FAILED);
+            assert.equal(state.byId[sendingPost.id].error, ScheduledPosts.ERROR_SEND_FAILED);
+        });
+
+        it('should mark the scheduled post as failed when the pending post is removed', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.POST_REMOVED,
+                data: {id: sendingPost.id, pending_post_id: sendingPost.id, channel_id: 'channel1'},
+            });
+
+            assert.equal(state.byId[sendingPost.id].status, ScheduledPosts.STATUS_FAILED);
+            assert.equal(state.byId[sendingPost.id].error, ScheduledPosts.ERROR_SEND_FAILED);
+        });
+
+        it('should ignore scheduled posts that are not being sent', () => {
+            const state = scheduledPostsReducer(initialState, {
+                type: PostTypes.RECEIVED_POST,
+                data: {id: 'post1', pending_post_id: scheduledPost.id, channel_id: 'channel1'},
+            });
+
+            assert.equal(state, initialState);
+        });
+    });
+
+    it('LOGOUT_SUCCESS', () => {
+        const state = scheduledPostsReducer(initialState, {
+            type: UserTypes.LOGOUT_SUCCESS,
+        });
+
+        assert.deepEqual(state, {byId: {}});
+    });
+});
@@ -0,0 +1,105 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {combineReducers} from 'redux';
+import {PostTypes, ScheduledPostTypes, UserTypes} from 'action_types';
+import {ScheduledPosts} from '../../constants';
+import {GenericAction} from 'types/actions';
+import {Post} from 'types/posts';
+import {ScheduledPost, ScheduledPostError} from 'types/scheduled_posts';
+import {IDMappedObjects} from 'types/utilities';
+
+function markFailed(state: IDMappedObjects<ScheduledPost>, id: string, error: ScheduledPostError) {
+    return {
+        ...state,
+        [id]: {
+            ...state[id],
+            status: ScheduledPosts.STATUS_FAILED,
+            error,
+        },
+    };
+}
+
+function removeScheduledPost(state: IDMappedObjects<ScheduledPost>, id: string) {
+    const nextState = {...state};
+    Reflect.deleteProperty(nextState, id);
+    return nextState;
+}
+
+export function byId(state: IDMappedObjects<ScheduledPost> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ScheduledPostTypes.RECEIVED_SCHEDULED_POST:
+        return {
+            ...state,
+            [action.data.id]: action.data,
+        };
+    case ScheduledPostTypes.SCHEDULED_POST_SENDING: {
+        const scheduledPost = state[action.data.id];
+        if (!scheduledPost) {
+            return state;
+        }
+
+        const nextScheduledPost = {
+            ...scheduledPost,
+            status: ScheduledPosts.STATUS_SENDING,
+        };
+        Reflect.deleteProperty(nextScheduledPost, 'error');
+
+        return {
+            ...state,
+            [scheduledPost.id]: nextScheduledPost,
+        };
+    }
+    case ScheduledPostTypes.SCHEDULED_POST_FAILED:
+        if (!state[action.data.id]) {
+            return state;
+        }
+
+        return markFailed(state, action.data.id, action.data.error);
+    case ScheduledPostTypes.SCHEDULED_POST_REMOVED:
+        if (!state[action.data.id]) {
+            return state;
+        }
+
+        return removeScheduledPost(state, action.data.id);
+
+    case PostTypes.RECEIVED_POST:
+    case PostTypes.RECEIVED_NEW_POST: {
+        const post: Post = action.data;
+
+        const scheduledPost = post.pending_post_id && state[post.pending_post_id];
+        if (!scheduledPost || scheduledPost.status !== ScheduledPosts.STATUS_SENDING) {
+            return state;
+        }
+
+        if (post.id !== post.pending_post_id) {
+            // The post was created by the server, so it's no longer scheduled
+            return removeScheduledPost(state, scheduledPost.id);
+        } else if (post.failed) {
+            return markFailed(state, scheduledPost.id, ScheduledPosts.ERROR_SEND_FAILED);
+        }
+
+        return state;
+    }
+    case PostTypes.POST_REMOVED: {
+        // createPost removes pending posts that the server will never accept, such as replies to deleted threads
+        const scheduledPost = state[action.data.id];
+        if (!scheduledPost || scheduledPost.status !== ScheduledPosts.STATUS_SENDING) {
+            return state;
+        }
+
+        return markFailed(state, scheduledPost.id, ScheduledPosts.ERROR_SEND_FAILED);
+    }
+
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export default combineReducers({
+
+    // object where every key is the ID of a post that the current user has scheduled to send later and every value is
+    // the scheduled post
+    byId,
+});
@@ -0,0 +1,131 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {PostTypes, TeamTypes, ThreadTypes, UserTypes} from 'action_types';
+import threadsReducer from 'reducers/entities/threads';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Reducers.threads', () => {
+    const thread1 = {id: 'thread1', reply_count: 2, last_reply_at: 100, last_viewed_at: 50, participants: [{id: 'user1'}], unread_replies: 1, unread_mentions: 1, is_following: true};
+    const thread2 = {id: 'thread2', reply_count: 1, last_reply_at: 200, last_viewed_at: 200, participants: [{id: 'user2'}], unread_replies: 0, unread_mentions: 0, is_following: true};
+
+    const initialState = deepFreezeAndThrowOnMutation({
+        threads: {thread1, thread2},
+        threadsInTeam: {team1: ['thread1', 'thread2'], team2: ['thread2']},
+        counts: {
+            team1: {total: 5, total_unread_threads: 2, total_unread_mentions: 3},
+            team2: {total: 1, total_unread_threads: 0, total_unread_mentions: 0},
+        },
+    });
+
+    it('initial state', () => {
+        const state = threadsReducer(undefined, {});
+
+        assert.deepEqual(state, {threads: {}, threadsInTeam: {}, counts: {}});
+    });
+
+    it('RECEIVED_THREADS', () => {
+        const thread3 = {...thread1, id: 'thread3'};
+
+        const state = threadsReducer(initialState, {
+            type: ThreadTypes.RECEIVED_THREADS,
+            data: {
+                team_id: 'team2',
+                threads: [thread1, thread3],
+                total: 3,
+                total_unread_threads: 2,
+                total_unread_mentions: 2,
+            },
+        });
+
+        assert.equal(state.threads.thread3, thread3);
+        assert.deepEqual(state.threadsInTeam, {team1: ['thread1', 'thread2'], team2: ['thread2', 'thread1', 'thread3']});
+        assert.deepEqual(state.counts.team2, {total: 3, total_unread_threads: 2, total_unread_mentions: 2});
+        assert.equal(state.counts.team1, initialState.counts.team1);
+    });
+
+    it('RECEIVED_THREAD', () => {
+        const updatedThread = {...thread2, reply_count: 2};
+
+        const state = threadsReducer(initialState, {
+            type: ThreadTypes.RECEIVED_THREAD,
+            data: {team_id: 'team1', thread: updatedThread},
+        });
+
+        assert.equal(state.threads.thread2, updatedThread);
+        assert.equal(state.threadsInTeam, initialState.threadsInTeam);
+    });
+
+    it('FOLLOW_CHANGED_THREAD', () => {
+        const state = threadsReducer(initialState, {
+            type: ThreadTypes.FOLLOW_CHANGED_THREAD,
+            data: {id: 'thread1', team_id: 'team1', following: false, unreadReplies: 1, unreadMentions: 1},
+        });
+
+        assert.equal(state.threads.thread1.is_following, false);
+        assert.deepEqual(state.counts.team1, {total: 4, total_unread_threads: 1, total_unread_mentions: 2});
+    });
+
+    it('READ_CHANGED_THREAD', () => {
+        let state = threadsReducer(initialState, {
+            type: ThreadTypes.READ_CHANGED_THREAD,
+            data: {id: 'thread1', team_id: 'team1', lastViewedAt: 100, prevUnreadReplies: 1, newUnreadReplies: 0, prevUnreadMentions: 1, newUnreadMentions: 0},
+        });
+
+        assert.equal(state.threads.thread1.last_viewed_at, 100);
+        assert.equal(state.threads.thread1.unread_replies, 0);
+        assert.equal(state.threads.thread1.unread_mentions, 0);
+        assert.deepEqual(state.counts.team1, {total: 5, total_unread_threads: 1, total_unread_mentions: 2});
+
+        state = threadsReducer(state, {
+            type: ThreadTypes.READ_CHANGED_THREAD,
+            data: {id: 'thread2', team_id: 'team1', lastViewedAt: 200, prevUnreadReplies: 0, newUnreadReplies: 2, prevUnreadMentions: 0, newUnreadMentions: 1},
+        });
+
+        assert.equal(state.threads.thread2.unread_replies, 2);
+        assert.deepEqual(state.counts.team1, {total: 5, total_unread_threads: 2, total_unread_mentions: 3});
+    });
+
+    it('ALL_TEAM_THREADS_READ', () => {
+        const state = threadsReducer(initialState, {
+            type: ThreadTypes.ALL_TEAM_THREADS_READ,
+            data: {team_id: 'team1', threadIds: ['thread1', 'thread2'], lastViewedAt: 300},
+        });
+
+        assert.equal(state.threads.thread1.last_viewed_at, 300);
+        assert.equal(state.threads.thread1.unread_replies, 0);
+        assert.equal(state.threads.thread1.unread_mentions, 0);
+        assert.deepEqual(state.counts.team1, {total: 5, total_unread_threads: 0, total_unread_mentions: 0});
+        assert.equal(state.counts.team2, initialState.counts.team2);
+    });
+
+    it('POST_REMOVED', () => {
+        const state = threadsReducer(initialState, {
+            type: PostTypes.POST_REMOVED,
+            data: {id: 'thread2'},
+        });
+
+        assert.deepEqual(state.threads, {thread1});
+        assert.deepEqual(state.threadsInTeam, {team1: ['thread1'], team2: []});
+    });
+
+    it('LEAVE_TEAM', () => {
+        const state = threadsReducer(initialState, {
+            type: TeamTypes.LEAVE_TEAM,
+            data: {id: 'team1'},
+        });
+
+        assert.deepEqual(state.threadsInTeam, {team2: ['thread2']});
+        assert.deepEqual(Object.keys(state.counts), ['team2']);
+    });
+
+    it('LOGOUT_SUCCESS', () => {
+        const state = threadsReducer(initialState, {
+            type: UserTypes.LOGOUT_SUCCESS,
+        });
+
+        assert.deepEqual(state, {threads: {}, threadsInTeam: {}, counts: {}});
+    });
+});
@@ -0,0 +1,260 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {combineReducers} from 'redux';
+import {PostTypes, TeamTypes, ThreadTypes, UserTypes} from 'action_types';
+import {GenericAction} from 'types/actions';
+import {Post} from 'types/posts';
+import {Team} from 'types/teams';
+import {ThreadsCounts, UserThread} from 'types/threads';
+import {IDMappedObjects, RelationOneToMany, RelationOneToOne} from 'types/utilities';
+
+export function threads(state: IDMappedObjects<UserThread> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ThreadTypes.RECEIVED_THREADS: {
+        const nextState = {...state};
+        for (const thread of action.data.threads as UserThread[]) {
+            nextState[thread.id] = thread;
+        }
+        return nextState;
+    }
+    case ThreadTypes.RECEIVED_THREAD: {
+        const thread: UserThread = action.data.thread;
+
+        return {
+            ...state,
+            [thread.id]: thread,
+        };
+    }
+    case ThreadTypes.FOLLOW_CHANGED_THREAD: {
+        const {id, following} = action.data;
+        if (!state[id]) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [id]: {
+                ...state[id],
+                is_following: following,
+            },
+        };
+    }
+    case ThreadTypes.READ_CHANGED_THREAD: {
+        const {id, lastViewedAt, newUnreadReplies, newUnreadMentions} = action.data;
+        if (!state[id]) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [id]: {
+                ...state[id],
+                last_viewed_at: lastViewedAt,
+                unread_replies: newUnreadReplies,
+                unread_mentions: newUnreadMentions,
+            },
+        };
+    }
+    case ThreadTypes.ALL_TEAM_THREADS_READ: {
+        const {threadIds, lastViewedAt} = action.data;
+
+        const nextState = {...state};
+        for (const id of threadIds as string[]) {
+            if (nextState[id]) {
+                nextState[id] = {
+                    ...nextState[id],
+                    last_viewed_at: lastViewedAt,
+                    unread_replies: 0,
+                    unread_mentions: 0,
+                };
+            }
+        }
+        return nextState;
+    }
+    case PostTypes.POST_REMOVED: {
+        const post: Post = action.data;
+        if (!state[post.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, post.id);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+function addThreadIds(threadIds: string[] = [], newThreadIds: string[]) {
+    const missing = newThreadIds.filter((id) => !threadIds.includes(id));
+    if (missing.length === 0) {
+        return threadIds;
+    }
+
+    return [...threadIds, ...missing];
+}
+
+export function threadsInTeam(state: RelationOneToMany<Team, UserThread> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ThreadTypes.RECEIVED_THREADS: {
+        const teamId = action.data.team_id;
+        const threadIds = (action.data.threads as UserThread[]).map((thread) => thread.id);
+
+        const nextThreadIds = addThreadIds(state[teamId], threadIds);
+        if (nextThreadIds === state[teamId]) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [teamId]: nextThreadIds,
+        };
+    }
+    case ThreadTypes.RECEIVED_THREAD: {
+        const teamId = action.data.team_id;
+
+        const nextThreadIds = addThreadIds(state[teamId], [action.data.thread.id]);
+        if (nextThreadIds === state[teamId]) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [teamId]: nextThreadIds,
+        };
+    }
+    case PostTypes.POST_REMOVED: {
+        const post: Post = action.data;
+
+        let nextState = state;
+        for (const teamId of Object.keys(state)) {
+            if (state[teamId].includes(post.id)) {
+                nextState = {
+                    ...nextState,
+                    [teamId]: state[teamId].filter((id) => id !== post.id),
+                };
+            }
+        }
+        return nextState;
+    }
+    case TeamTypes.LEAVE_TEAM: {
+        const team: Team = action.data;
+        if (!state[team.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, team.id);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export function counts(state: RelationOneToOne<Team, ThreadsCounts> = {}, action: GenericAction) {
+    switch (action.type) {
+    case ThreadTypes.RECEIVED_THREADS: {
+        const {team_id: teamId, total, total_unread_threads: totalUnreadThreads, total_unread_mentions: totalUnreadMentions} = action.data;
+
+        return {
+            ...state,
+            [teamId]: {
+                total,
+                total_unread_threads: totalUnreadThreads,
+                total_unread_mentions: totalUnreadMentions,
+            },
+        };
+    }
+    case ThreadTypes.FOLLOW_CHANGED_THREAD: {
+        const {team_id: teamId, following, unreadReplies = 0, unreadMentions = 0} = action.data;
+        const teamCounts = state[teamId];
+        if (!teamCounts) {
+            return state;
+        }
+
+        // Only followed threads are counted
+        const change = following ? 1 : -1;
+
+        return {
+            ...state,
+            [teamId]: {
+                total: Math.max(teamCounts.total + change, 0),
+                total_unread_threads: Math.max(teamCounts.total_unread_threads + (unreadReplies > 0 ? change : 0), 0),
+                total_unread_mentions: Math.max(teamCounts.total_unread_mentions + (change * unreadMentions), 0),
+            },
+        };
+    }
+    case ThreadTypes.READ_CHANGED_THREAD: {
+        const {team_id: teamId, prevUnreadReplies, newUnreadReplies, prevUnreadMentions, newUnreadMentions} = action.data;
+        const teamCounts = state[teamId];
+        if (!teamCounts) {
+            return state;
+        }
+
+        let unreadThreadsChange = 0;
+        if (prevUnreadReplies > 0 && newUnreadReplies === 0) {
+            unreadThreadsChange = -1;
+        } else if (prevUnreadReplies === 0 && newUnreadReplies > 0) {
+            unreadThreadsChange = 1;
+        }
+
+        return {
+            ...state,
+            [teamId]: {
+                ...teamCounts,
+                total_unread_threads: Math.max(teamCounts.total_unread_threads + unreadThreadsChange, 0),
+                total_unread_mentions: Math.max(teamCounts.total_unread_mentions + (newUnreadMentions - prevUnreadMentions), 0),
+            },
+        };
+    }
+    case ThreadTypes.ALL_TEAM_THREADS_READ: {
+        const teamId = action.data.team_id;
+        const teamCounts = state[teamId];
+        if (!teamCounts) {
+            return state;
+        }
+
+        return {
+            ...state,
+            [teamId]: {
+                ...teamCounts,
+                total_unread_threads: 0,
+                total_unread_mentions: 0,
+            },
+        };
+    }
+    case TeamTypes.LEAVE_TEAM: {
+        const team: Team = action.data;
+        if (!state[team.id]) {
+            return state;
+        }
+
+        const nextState = {...state};
+        Reflect.deleteProperty(nextState, team.id);
+        return nextState;
+    }
+    case UserTypes.LOGOUT_SUCCESS:
+        return {};
+    default:
+        return state;
+    }
+}
+
+export default combineReducers({
+
+    // object where every key is the ID of a thread's root post and every value is the thread as seen by the current user
+    threads,
+
+    // object where every key is a team ID and every value is the IDs of the threads that have been loaded for that team
+    threadsInTeam,
+
+    // object where every key is a team ID and every value is the number of threads that the current user follows in that
+    // team along with how many of them are unread
+    counts,
+});
@@ -99,4 +99,45 @@ describe('websocket', () => {
             expect(state.lastDisconnectAt).toBe(2000);
         });
     });
+
+    describe('heartbeat', () => {
+        test('should store the latency and missed pongs', () => {
+            let state = reducer(undefined, {});
+
+            state = reducer(state, {
+                type: GeneralTypes.WEBSOCKET_SUCCESS,
+                timestamp: 1000,
+            });
+
+            state = reducer(state, {
+                type: GeneralTypes.WEBSOCKET_HEARTBEAT,
+                data: {latency: 50, missedPongs: 1},
+            });
+
+            expect(state.latency).toBe(50);
+            expect(state.missedPongs).toBe(1);
+        });
+
+        test('should reset when disconnected', () => {
+            let state = reducer(undefined, {});
+
+            state = reducer(state, {
+                type: GeneralTypes.WEBSOCKET_SUCCESS,
+                timestamp: 1000,
+            });
+
+            state = reducer(state, {
+                type: GeneralTypes.WEBSOCKET_HEARTBEAT,
+                data: {latency: 50, missedPongs: 2},
+            });
+
+            state = reducer(state, {
+                type: GeneralTypes.WEBSOCKET_FAILURE,
+                timestamp: 2000,
+            });
+
+            expect(state.latency).toBe(0);
+            expect(state.missedPongs).toBe(0);
+        });
+    });
 });
@@ -9,6 +9,8 @@ function getInitialState() {
         connected: false,
         lastConnectAt: 0,
         lastDisconnectAt: 0,
+        latency: 0,
+        missedPongs: 0,
     };
 }
 
@@ -24,6 +26,16 @@ export default function(state = getInitialState(), action: GenericAction) {
             ...state,
             connected: false,
             lastDisconnectAt: action.timestamp,
+            latency: 0,
+            missedPongs: 0,
+        };
+    }
+
+    if (action.type === GeneralTypes.WEBSOCKET_HEARTBEAT) {
+        return {
+            ...state,
+            latency: action.data.latency,
+            missedPongs: action.data.missedPongs,
         };
     }
 
@@ -0,0 +1,128 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {General} from '../../constants';
+import * as Selectors from 'selectors/entities/channel_categories';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Selectors.ChannelCategories', () => {
+    const currentUser = {id: 'user1', username: 'user1', locale: 'en'};
+    const otherUser = {id: 'user2', username: 'aaa'};
+
+    const channel1 = {id: 'channel1', team_id: 'team1', type: General.OPEN_CHANNEL, name: 'channel1', display_name: 'Zebra', delete_at: 0, last_post_at: 300};
+    const channel2 = {id: 'channel2', team_id: 'team1', type: General.OPEN_CHANNEL, name: 'channel2', display_name: 'Apple', delete_at: 0, last_post_at: 100};
+    const channel3 = {id: 'channel3', team_id: 'team1', type: General.OPEN_CHANNEL, name: 'channel3', display_name: 'Mango', delete_at: 0, last_post_at: 200};
+    const archivedChannel = {id: 'channel4', team_id: 'team1', type: General.OPEN_CHANNEL, name: 'channel4', display_name: 'Archived', delete_at: 1000, last_post_at: 0};
+    const notMemberChannel = {id: 'channel5', team_id: 'team1', type: General.OPEN_CHANNEL, name: 'channel5', display_name: 'Not a member', delete_at: 0, last_post_at: 0};
+    const dmChannel = {id: 'dm1', team_id: '', type: General.DM_CHANNEL, name: 'user1__user2', display_name: '', delete_at: 0, last_post_at: 50};
+
+    const favoritesCategory = {id: 'favorites1', team_id: 'team1', type: 'favorites', sorting: '', channel_ids: []};
+    const channelsCategory = {id: 'channels1', team_id: 'team1', type: 'channels', sorting: '', channel_ids: ['channel1', 'channel2', 'channel3', 'channel4', 'channel5']};
+    const dmsCategory = {id: 'dms1', team_id: 'team1', type: 'direct_messages', sorting: '', channel_ids: ['dm1']};
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            channelCategories: {
+                byId: {
+                    favorites1: favoritesCategory,
+                    channels1: channelsCategory,
+                    dms1: dmsCategory,
+                },
+                orderByTeam: {
+                    team1: ['favorites1', 'dms1', 'channels1', 'missing'],
+                },
+            },
+            channels: {
+                currentChannelId: 'channel1',
+                channels: {channel1, channel2, channel3, channel4: archivedChannel, channel5: notMemberChannel, dm1: dmChannel},
+                myMembers: {
+                    channel1: {channel_id: 'channel1'},
+                    channel2: {channel_id: 'channel2'},
+                    channel3: {channel_id: 'channel3'},
+                    channel4: {channel_id: 'channel4'},
+                    dm1: {channel_id: 'dm1'},
+                },
+            },
+            general: {
+                config: {},
+            },
+            posts: {
+                posts: {},
+                postsInChannel: {},
+            },
+            preferences: {
+                myPreferences: {},
+            },
+            users: {
+                currentUserId: currentUser.id,
+                profiles: {user1: currentUser, user2: otherUser},
+                statuses: {},
+            },
+        },
+    });
+
+    it('getCategory', () => {
+        assert.equal(Selectors.getCategory(testState, 'channels1'), channelsCategory);
+        assert.equal(Selectors.getCategory(testState, 'missing'), undefined);
+    });
+
+    it('makeGetCategoriesForTeam', () => {
+        const getCategoriesForTeam = Selectors.makeGetCategoriesForTeam();
+
+        assert.deepEqual(getCategoriesForTeam(testState, 'team1'), [favoritesCategory, dmsCategory, channelsCategory]);
+        assert.deepEqual(getCategoriesForTeam(testState, 'team2'), []);
+    });
+
+    it('getCategoryInTeamByType and getCategoryInTeamWithChannel', () => {
+        assert.equal(Selectors.getCategoryInTeamByType(testState, 'team1', 'direct_messages'), dmsCategory);
+        assert.equal(Selectors.getCategoryInTeamByType(testState, 'team2', 'direct_messages'), undefined);
+
+        assert.equal(Selectors.getCategoryInTeamWithChannel(testState, 'team1', 'channel2'), channelsCategory);
+        assert.equal(Selectors.getCategoryInTeamWithChannel(testState, 'team1', 'channel6'), undefined);
+    });
+
+    describe('makeGetChannelsForCategory', () => {
+        it('should sort channels alphabetically by default and leave out archived and unjoined channels', () => {
+            const getChannelsForCategory = Selectors.makeGetChannelsForCategory();
+
+            assert.deepEqual(getChannelsForCategory(testState, channelsCategory).map((channel) => channel.id), ['channel2', 'channel3', 'channel1']);
+        });
+
+        it('should keep archived channels if they are the current channel', () => {
+            const getChannelsForCategory = Selectors.makeGetChannelsForCategory();
+
+            const state = {
+                ...testState,
+                entities: {
+                    ...testState.entities,
+                    channels: {
+                        ...testState.entities.channels,
+                        currentChannelId: 'channel4',
+                    },
+                },
+            };
+
+            assert.deepEqual(getChannelsForCategory(state, channelsCategory).map((channel) => channel.id), ['channel2', 'channel4', 'channel3', 'channel1']);
+        });
+
+        it('should sort channels by recency or manually', () => {
+            const getChannelsForCategory = Selectors.makeGetChannelsForCategory();
+
+            const recentCategory = {...channelsCategory, sorting: 'recent'};
+            assert.deepEqual(getChannelsForCategory(testState, recentCategory).map((channel) => channel.id), ['channel1', 'channel3', 'channel2']);
+
+            const manualCategory = {...channelsCategory, sorting: 'manual', channel_ids: ['channel3', 'channel1', 'channel2']};
+            assert.deepEqual(getChannelsForCategory(testState, manualCategory).map((channel) => channel.id), ['channel3', 'channel1', 'channel2']);
+        });
+
+        it('should fill in the display names of direct channels', () => {
+            const getChannelsForCategory = Selectors.makeGetChannelsForCategory();
+
+            const channels = getChannelsForCategory(testState, dmsCategory);
+            assert.equal(channels.length, 1);
+            assert.equal(channels[0].display_name, 'aaa');
+        });
+    });
+});
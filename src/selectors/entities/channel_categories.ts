@@ -0,0 +1,105 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {createSelector} from 'reselect';
+import {ChannelCategories} from '../../constants';
+import {getAllChannels} from 'selectors/entities/channels';
+import {getCurrentChannelId, getMyChannelMemberships} from 'selectors/entities/common';
+import {getCurrentUserLocale} from 'selectors/entities/i18n';
+import {getLastPostPerChannel} from 'selectors/entities/posts';
+import {getTeammateNameDisplaySetting} from 'selectors/entities/preferences';
+import {completeDirectChannelInfo, sortChannelsByDisplayName, sortChannelsByRecency} from 'utils/channel_utils';
+
+import {Channel} from 'types/channels';
+import {CategorySorting, ChannelCategory, ChannelCategoryType} from 'types/channel_categories';
+import {Post} from 'types/posts';
+import {GlobalState} from 'types/store';
+import {IDMappedObjects, RelationOneToOne} from 'types/utilities';
+
+export function getAllCategoriesByIds(state: GlobalState): IDMappedObjects<ChannelCategory> {
+    return state.entities.channelCategories.byId;
+}
+
+export function getCategory(state: GlobalState, categoryId: string): ChannelCategory | undefined {
+    return getAllCategoriesByIds(state)[categoryId];
+}
+
+export function getCategoryIdsForTeam(state: GlobalState, teamId: string): string[] | undefined {
+    return state.entities.channelCategories.orderByTeam[teamId];
+}
+
+export function makeGetCategoriesForTeam(): (state: GlobalState, teamId: string) => ChannelCategory[] {
+    return createSelector(
+        getCategoryIdsForTeam,
+        getAllCategoriesByIds,
+        (categoryIds, categoriesById) => {
+            if (!categoryIds) {
+                return [];
+            }
+
+            return categoryIds.map((id) => categoriesById[id]).filter((category) => Boolean(category));
+        },
+    );
+}
+
+export function getCategoryInTeamByType(state: GlobalState, teamId: string, categoryType: ChannelCategoryType): ChannelCategory | undefined {
+    return Object.values(getAllCategoriesByIds(state)).find((category) => category.team_id === teamId && category.type === categoryType);
+}
+
+export function getCategoryInTeamWithChannel(state: GlobalState, teamId: string, channelId: string): ChannelCategory | undefined {
+    return Object.values(getAllCategoriesByIds(state)).find((category) => category.team_id === teamId && category.channel_ids.includes(channelId));
+}
+
+// getCategorySorting returns how the channels in a category are sorted, accounting for categories that use the default
+export function getCategorySorting(category: ChannelCategory): CategorySorting {
+    if (category.sorting !== ChannelCategories.SORTING_DEFAULT) {
+        return category.sorting;
+    }
+
+    return category.type === ChannelCategories.DIRECT_MESSAGES ? ChannelCategories.SORTING_RECENCY : ChannelCategories.SORTING_ALPHABETICAL;
+}
+
+function sortChannelsInCategory(category: ChannelCategory, channels: Channel[], locale: string, lastPosts: RelationOneToOne<Channel, Post>) {
+    switch (getCategorySorting(category)) {
+    case ChannelCategories.SORTING_MANUAL:
+        // The channels are already in the order of the category's channel_ids
+        return channels;
+    case ChannelCategories.SORTING_RECENCY:
+        return channels.sort(sortChannelsByRecency.bind(null, lastPosts));
+    default:
+        return channels.sort(sortChannelsByDisplayName.bind(null, locale));
+    }
+}
+
+// makeGetChannelsForCategory returns the channels in a category that should be shown in the sidebar in the order that
+// they should be displayed. Channels that the current user isn't a member of and archived channels are left out unless
+// it's the current channel.
+export function makeGetChannelsForCategory(): (state: GlobalState, category: ChannelCategory) => Channel[] {
+    return createSelector(
+        getAllChannels,
+        getMyChannelMemberships,
+        getCurrentChannelId,
+        (state: GlobalState) => state.entities.users,
+        getTeammateNameDisplaySetting,
+        (state: GlobalState) => getCurrentUserLocale(state),
+        getLastPostPerChannel,
+        (state: GlobalState, category: ChannelCategory) => category,
+        (allChannels, myMembers, currentChannelId, users, teammateNameDisplay, locale, lastPosts, category) => {
+            const channels: Channel[] = [];
+
+            for (const channelId of category.channel_ids) {
+                const channel = allChannels[channelId];
+                if (!channel || !myMembers[channelId]) {
+                    continue;
+                }
+
+                if (channel.delete_at !== 0 && channel.id !== currentChannelId) {
+                    continue;
+                }
+
+                channels.push(completeDirectChannelInfo(users, teammateNameDisplay!, channel));
+            }
+
+            return sortChannelsInCategory(category, channels, locale, lastPosts);
+        },
+    );
+}
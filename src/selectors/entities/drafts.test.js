@@ -0,0 +1,51 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import * as Selectors from 'selectors/entities/drafts';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Selectors.Drafts', () => {
+    const channelDraft = {channel_id: 'channel1', root_id: '', message: 'channel', update_at: 100};
+    const threadDraft = {channel_id: 'channel1', root_id: 'root1', message: 'thread', update_at: 300};
+    const otherTeamDraft = {channel_id: 'channel2', root_id: '', message: 'other team', update_at: 400};
+    const dmDraft = {channel_id: 'dm1', root_id: '', message: 'direct', update_at: 200};
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            channels: {
+                channels: {
+                    channel1: {id: 'channel1', team_id: 'team1'},
+                    channel2: {id: 'channel2', team_id: 'team2'},
+                    dm1: {id: 'dm1', team_id: ''},
+                },
+            },
+            drafts: {
+                drafts: {
+                    channel1: {'': channelDraft, root1: threadDraft},
+                    channel2: {'': otherTeamDraft},
+                    dm1: {'': dmDraft},
+                },
+            },
+            teams: {
+                currentTeamId: 'team1',
+            },
+        },
+    });
+
+    it('getDraft', () => {
+        assert.equal(Selectors.getDraft(testState, 'channel1'), channelDraft);
+        assert.equal(Selectors.getDraft(testState, 'channel1', 'root1'), threadDraft);
+        assert.equal(Selectors.getDraft(testState, 'channel1', 'root2'), undefined);
+        assert.equal(Selectors.getDraft(testState, 'channel3'), undefined);
+    });
+
+    it('getDrafts', () => {
+        assert.deepEqual(Selectors.getDrafts(testState), [otherTeamDraft, threadDraft, dmDraft, channelDraft]);
+    });
+
+    it('getDraftsInCurrentTeam', () => {
+        assert.deepEqual(Selectors.getDraftsInCurrentTeam(testState), [threadDraft, dmDraft, channelDraft]);
+    });
+});
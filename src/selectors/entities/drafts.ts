@@ -0,0 +1,46 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {createSelector} from 'reselect';
+import {getAllChannels} from 'selectors/entities/channels';
+import {getCurrentTeamId} from 'selectors/entities/teams';
+
+import {Channel} from 'types/channels';
+import {Draft} from 'types/drafts';
+import {GlobalState} from 'types/store';
+import {Dictionary, RelationOneToOne} from 'types/utilities';
+
+export function getAllDraftsByChannel(state: GlobalState): RelationOneToOne<Channel, Dictionary<Draft>> {
+    return state.entities.drafts.drafts;
+}
+
+export function getDraft(state: GlobalState, channelId: string, rootId = ''): Draft | undefined {
+    const draftsForChannel = getAllDraftsByChannel(state)[channelId];
+    return draftsForChannel && draftsForChannel[rootId];
+}
+
+// getDrafts returns every draft, starting with the most recently changed one
+export const getDrafts: (state: GlobalState) => Draft[] = createSelector(
+    getAllDraftsByChannel,
+    (draftsByChannel) => {
+        const drafts: Draft[] = [];
+        for (const draftsForChannel of Object.values(draftsByChannel)) {
+            drafts.push(...Object.values(draftsForChannel));
+        }
+
+        return drafts.sort((a, b) => b.update_at - a.update_at);
+    },
+);
+
+// getDraftsInCurrentTeam returns the drafts to show in the current team, including ones for direct and group messages
+// since those aren't part of any team
+export const getDraftsInCurrentTeam: (state: GlobalState) => Draft[] = createSelector(
+    getDrafts,
+    getAllChannels,
+    getCurrentTeamId,
+    (drafts, channels, currentTeamId) => {
+        return drafts.filter((draft) => {
+            const channel = channels[draft.channel_id];
+            return channel && (channel.team_id === currentTeamId || channel.team_id === '');
+        });
+    },
+);
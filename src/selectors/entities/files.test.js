@@ -0,0 +1,40 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+import * as Selectors from 'selectors/entities/files';
+
+describe('Selectors.Files', () => {
+    const upload1 = {clientId: 'client1', channelId: 'channel1', rootId: '', status: 'uploading', loaded: 25, total: 100};
+    const upload2 = {clientId: 'client2', channelId: 'channel1', rootId: 'root1', status: 'uploading', loaded: 0, total: 0};
+    const upload3 = {clientId: 'client3', channelId: 'channel2', rootId: '', status: 'failed', loaded: 0, total: 0};
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            files: {
+                fileUploads: {
+                    client1: upload1,
+                    client2: upload2,
+                    client3: upload3,
+                },
+            },
+        },
+    });
+
+    it('getFileUploadProgress', () => {
+        assert.equal(Selectors.getFileUploadProgress(testState, 'client1'), 0.25);
+        assert.equal(Selectors.getFileUploadProgress(testState, 'client2'), 0);
+        assert.equal(Selectors.getFileUploadProgress(testState, 'client4'), -1);
+    });
+
+    it('makeGetFileUploadsForChannel', () => {
+        const getFileUploadsForChannel = Selectors.makeGetFileUploadsForChannel();
+
+        assert.deepEqual(getFileUploadsForChannel(testState, 'channel1'), [upload1]);
+        assert.deepEqual(getFileUploadsForChannel(testState, 'channel1', 'root1'), [upload2]);
+        assert.deepEqual(getFileUploadsForChannel(testState, 'channel2', ''), [upload3]);
+        assert.equal(getFileUploadsForChannel(testState, 'channel1'), getFileUploadsForChannel(testState, 'channel1'));
+    });
+});
@@ -36,3 +36,42 @@ export function makeGetFilesForPost() {
         }
     );
 }
+
+export function getFileUploads(state: GlobalState) {
+    return state.entities.files.fileUploads;
+}
+
+export function getFileUpload(state: GlobalState, clientId: string) {
+    return getFileUploads(state)[clientId];
+}
+
+// getFileUploadProgress returns how much of the file with the given client ID has been uploaded as a number from 0
+// to 1, or -1 if it isn't being uploaded
+export function getFileUploadProgress(state: GlobalState, clientId: string) {
+    const upload = getFileUpload(state, clientId);
+    if (!upload) {
+        return -1;
+    }
+
+    if (!upload.total) {
+        return 0;
+    }
+
+    return upload.loaded / upload.total;
+}
+
+// getChunkedUploads returns the uploads that can be continued by resumeFileUpload, keyed by client ID
+export function getChunkedUploads(state: GlobalState) {
+    return state.entities.files.chunkedUploads;
+}
+
+export function makeGetFileUploadsForChannel() {
+    return reselect.createSelector(
+        getFileUploads,
+        (state: GlobalState, channelId: string) => channelId,
+        (state: GlobalState, channelId: string, rootId = '') => rootId,
+        (fileUploads, channelId, rootId) => {
+            return Object.values(fileUploads).filter((upload) => upload.channelId === channelId && (upload.rootId || '') === rootId);
+        }
+    );
+}
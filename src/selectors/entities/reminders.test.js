@@ -0,0 +1,39 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {Preferences} from '../../constants';
+import * as Selectors from 'selectors/entities/reminders';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+import {getPreferenceKey} from 'utils/preference_utils';
+
+describe('Selectors.Reminders', () => {
+    const category = Preferences.CATEGORY_POST_REMINDER;
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            preferences: {
+                myPreferences: {
+                    [getPreferenceKey(category, 'post1')]: {category, name: 'post1', value: '3000'},
+                    [getPreferenceKey(category, 'post2')]: {category, name: 'post2', value: '1000'},
+                    [getPreferenceKey(category, 'post3')]: {category, name: 'post3', value: 'invalid'},
+                    [getPreferenceKey(Preferences.CATEGORY_FLAGGED_POST, 'post4')]: {category: Preferences.CATEGORY_FLAGGED_POST, name: 'post4', value: 'true'},
+                },
+            },
+        },
+    });
+
+    it('getPostReminders', () => {
+        assert.deepEqual(Selectors.getPostReminders(testState), [
+            {post_id: 'post2', remind_at: 1000},
+            {post_id: 'post1', remind_at: 3000},
+        ]);
+    });
+
+    it('getPostReminder', () => {
+        assert.deepEqual(Selectors.getPostReminder(testState, 'post1'), {post_id: 'post1', remind_at: 3000});
+        assert.equal(Selectors.getPostReminder(testState, 'post3'), undefined);
+        assert.equal(Selectors.getPostReminder(testState, 'post4'), undefined);
+    });
+});
@@ -0,0 +1,41 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {createSelector} from 'reselect';
+import {Preferences} from '../../constants';
+import {get as getPreference, makeGetCategory} from 'selectors/entities/preferences';
+
+import {PostReminder} from 'types/reminders';
+import {GlobalState} from 'types/store';
+
+const getReminderCategory = makeGetCategory();
+
+// getPostReminders returns the current user's pending reminders, starting with the one due first
+export const getPostReminders: (state: GlobalState) => PostReminder[] = createSelector(
+    (state: GlobalState) => getReminderCategory(state, Preferences.CATEGORY_POST_REMINDER),
+    (preferences) => {
+        return preferences.
+            map((preference) => ({
+                post_id: preference.name,
+                remind_at: parseInt(preference.value!, 10),
+            })).
+            filter((reminder) => !isNaN(reminder.remind_at)).
+            sort((a, b) => a.remind_at - b.remind_at);
+    },
+);
+
+export function getPostReminder(state: GlobalState, postId: string): PostReminder | undefined {
+    const value = getPreference(state, Preferences.CATEGORY_POST_REMINDER, postId, null);
+    if (value === null) {
+        return undefined;
+    }
+
+    const remindAt = parseInt(value, 10);
+    if (isNaN(remindAt)) {
+        return undefined;
+    }
+
+    return {
+        post_id: postId,
+        remind_at: remindAt,
+    };
+}
@@ -0,0 +1,58 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {ScheduledPosts} from '../../constants';
+import * as Selectors from 'selectors/entities/scheduled_posts';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Selectors.ScheduledPosts', () => {
+    const laterPost = {id: 'post1', channel_id: 'channel1', root_id: '', scheduled_at: 3000, status: ScheduledPosts.STATUS_SCHEDULED};
+    const earlierReply = {id: 'post2', channel_id: 'channel1', root_id: 'root1', scheduled_at: 2000, status: ScheduledPosts.STATUS_SCHEDULED};
+    const failedPost = {id: 'post3', channel_id: 'channel1', root_id: '', scheduled_at: 1000, status: ScheduledPosts.STATUS_FAILED, error: ScheduledPosts.ERROR_MISSED};
+    const sendingPost = {id: 'post4', channel_id: 'channel2', root_id: '', scheduled_at: 500, status: ScheduledPosts.STATUS_SENDING};
+    const otherChannelPost = {id: 'post5', channel_id: 'channel2', root_id: '', scheduled_at: 2500, status: ScheduledPosts.STATUS_SCHEDULED};
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            scheduledPosts: {
+                byId: {
+                    post1: laterPost,
+                    post2: earlierReply,
+                    post3: failedPost,
+                    post4: sendingPost,
+                    post5: otherChannelPost,
+                },
+            },
+        },
+    });
+
+    it('getScheduledPost', () => {
+        assert.equal(Selectors.getScheduledPost(testState, 'post1'), laterPost);
+        assert.equal(Selectors.getScheduledPost(testState, 'post6'), undefined);
+    });
+
+    it('getScheduledPosts', () => {
+        assert.deepEqual(Selectors.getScheduledPosts(testState, 'channel1'), [failedPost, earlierReply, laterPost]);
+        assert.deepEqual(Selectors.getScheduledPosts(testState, 'channel2'), [sendingPost, otherChannelPost]);
+        assert.deepEqual(Selectors.getScheduledPosts(testState, 'channel3'), []);
+    });
+
+    it('getFailedScheduledPosts', () => {
+        assert.deepEqual(Selectors.getFailedScheduledPosts(testState), [failedPost]);
+    });
+
+    it('getNextScheduledPost', () => {
+        assert.equal(Selectors.getNextScheduledPost(testState), earlierReply);
+
+        const state = {
+            entities: {
+                scheduledPosts: {
+                    byId: {post3: failedPost, post4: sendingPost},
+                },
+            },
+        };
+        assert.equal(Selectors.getNextScheduledPost(state), undefined);
+    });
+});
@@ -0,0 +1,62 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {createSelector} from 'reselect';
+import {ScheduledPosts} from '../../constants';
+
+import {ScheduledPost} from 'types/scheduled_posts';
+import {GlobalState} from 'types/store';
+import {IDMappedObjects} from 'types/utilities';
+
+function sortByScheduledAt(a: ScheduledPost, b: ScheduledPost) {
+    return a.scheduled_at - b.scheduled_at;
+}
+
+export function getAllScheduledPosts(state: GlobalState): IDMappedObjects<ScheduledPost> {
+    return state.entities.scheduledPosts.byId;
+}
+
+export function getScheduledPost(state: GlobalState, scheduledPostId: string): ScheduledPost | undefined {
+    return getAllScheduledPosts(state)[scheduledPostId];
+}
+
+// getScheduledPosts returns the scheduled posts in a channel, including replies, starting with the one due first
+export const getScheduledPosts: (state: GlobalState, channelId: string) => ScheduledPost[] = createSelector(
+    getAllScheduledPosts,
+    (state: GlobalState, channelId: string) => channelId,
+    (scheduledPosts, channelId) => {
+        return Object.values(scheduledPosts).
+            filter((scheduledPost) => scheduledPost.channel_id === channelId).
+            sort(sortByScheduledAt);
+    },
+);
+
+// getFailedScheduledPosts returns the scheduled posts in every channel that couldn't be sent so that they can be shown
+// to the user to be rescheduled or cancelled
+export const getFailedScheduledPosts: (state: GlobalState) => ScheduledPost[] = createSelector(
+    getAllScheduledPosts,
+    (scheduledPosts) => {
+        return Object.values(scheduledPosts).
+            filter((scheduledPost) => scheduledPost.status === ScheduledPosts.STATUS_FAILED).
+            sort(sortByScheduledAt);
+    },
+);
+
+// getNextScheduledPost returns the post that will be sent next, if any are waiting to be sent
+export const getNextScheduledPost: (state: GlobalState) => ScheduledPost | undefined = createSelector(
+    getAllScheduledPosts,
+    (scheduledPosts) => {
+        let next: ScheduledPost | undefined;
+
+        for (const scheduledPost of Object.values(scheduledPosts)) {
+            if (scheduledPost.status !== ScheduledPosts.STATUS_SCHEDULED) {
+                continue;
+            }
+
+            if (!next || scheduledPost.scheduled_at < next.scheduled_at) {
+                next = scheduledPost;
+            }
+        }
+
+        return next;
+    },
+);
@@ -0,0 +1,60 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import * as Selectors from 'selectors/entities/threads';
+import deepFreezeAndThrowOnMutation from 'utils/deep_freeze';
+
+describe('Selectors.Threads', () => {
+    const thread1 = {id: 'thread1', last_reply_at: 100, unread_replies: 1, unread_mentions: 0, is_following: true};
+    const thread2 = {id: 'thread2', last_reply_at: 300, unread_replies: 0, unread_mentions: 0, is_following: true};
+    const thread3 = {id: 'thread3', last_reply_at: 200, unread_replies: 2, unread_mentions: 1, is_following: true};
+    const unfollowedThread = {id: 'thread4', last_reply_at: 400, unread_replies: 1, unread_mentions: 0, is_following: false};
+
+    const testState = deepFreezeAndThrowOnMutation({
+        entities: {
+            teams: {
+                currentTeamId: 'team1',
+            },
+            threads: {
+                threads: {thread1, thread2, thread3, thread4: unfollowedThread},
+                threadsInTeam: {
+                    team1: ['thread1', 'thread2', 'thread3', 'thread4', 'missing'],
+                    team2: ['thread2'],
+                },
+                counts: {
+                    team1: {total: 10, total_unread_threads: 4, total_unread_mentions: 2},
+                },
+            },
+        },
+    });
+
+    it('getThread', () => {
+        assert.equal(Selectors.getThread(testState, 'thread1'), thread1);
+        assert.equal(Selectors.getThread(testState, 'missing'), undefined);
+    });
+
+    it('getThreadCountsInTeam', () => {
+        assert.deepEqual(Selectors.getThreadCountsInTeam(testState, 'team1'), {total: 10, total_unread_threads: 4, total_unread_mentions: 2});
+        assert.deepEqual(Selectors.getThreadCountsInTeam(testState, 'team2'), {total: 0, total_unread_threads: 0, total_unread_mentions: 0});
+        assert.deepEqual(Selectors.getThreadCountsInCurrentTeam(testState), Selectors.getThreadCountsInTeam(testState, 'team1'));
+    });
+
+    it('makeGetThreadOrderInTeam', () => {
+        const getThreadOrderInTeam = Selectors.makeGetThreadOrderInTeam();
+
+        assert.deepEqual(getThreadOrderInTeam(testState, 'team1'), ['thread2', 'thread3', 'thread1']);
+        assert.deepEqual(getThreadOrderInTeam(testState, 'team2'), ['thread2']);
+        assert.deepEqual(getThreadOrderInTeam(testState, 'team3'), []);
+        assert.deepEqual(Selectors.getThreadOrderInCurrentTeam(testState), ['thread2', 'thread3', 'thread1']);
+    });
+
+    it('makeGetUnreadThreadOrderInTeam', () => {
+        const getUnreadThreadOrderInTeam = Selectors.makeGetUnreadThreadOrderInTeam();
+
+        assert.deepEqual(getUnreadThreadOrderInTeam(testState, 'team1'), ['thread3', 'thread1']);
+        assert.deepEqual(getUnreadThreadOrderInTeam(testState, 'team2'), []);
+        assert.deepEqual(Selectors.getUnreadThreadOrderInCurrentTeam(testState), ['thread3', 'thread1']);
+    });
+});
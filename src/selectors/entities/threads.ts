@@ -0,0 +1,79 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {getCurrentTeamId} from 'selectors/entities/teams';
+import {createIdsSelector} from 'utils/helpers';
+
+import {GlobalState} from 'types/store';
+import {Team} from 'types/teams';
+import {ThreadsCounts, UserThread} from 'types/threads';
+import {$ID, IDMappedObjects, RelationOneToMany} from 'types/utilities';
+
+const EMPTY_COUNTS: ThreadsCounts = {
+    total: 0,
+    total_unread_threads: 0,
+    total_unread_mentions: 0,
+};
+
+export function getThreads(state: GlobalState): IDMappedObjects<UserThread> {
+    return state.entities.threads.threads;
+}
+
+export function getThread(state: GlobalState, threadId: $ID<UserThread>): UserThread | undefined {
+    return getThreads(state)[threadId];
+}
+
+export function getThreadsInTeam(state: GlobalState): RelationOneToMany<Team, UserThread> {
+    return state.entities.threads.threadsInTeam;
+}
+
+export function getThreadCountsInTeam(state: GlobalState, teamId: $ID<Team>): ThreadsCounts {
+    return state.entities.threads.counts[teamId] || EMPTY_COUNTS;
+}
+
+export function getThreadCountsInCurrentTeam(state: GlobalState): ThreadsCounts {
+    return getThreadCountsInTeam(state, getCurrentTeamId(state));
+}
+
+export function isThreadUnread(thread: UserThread): boolean {
+    return thread.unread_replies > 0 || thread.unread_mentions > 0;
+}
+
+function sortThreadIds(threadIds: Array<$ID<UserThread>> = [], allThreads: IDMappedObjects<UserThread>, unreadOnly: boolean) {
+    return threadIds.
+        map((id) => allThreads[id]).
+        filter((thread) => thread && thread.is_following !== false && (!unreadOnly || isThreadUnread(thread))).
+        sort((a, b) => b.last_reply_at - a.last_reply_at).
+        map((thread) => thread.id);
+}
+
+// makeGetThreadOrderInTeam returns the IDs of the loaded threads that the current user follows in a team, starting with
+// the one with the most recent reply.
+export function makeGetThreadOrderInTeam(): (state: GlobalState, teamId: $ID<Team>) => Array<$ID<UserThread>> {
+    return createIdsSelector(
+        (state: GlobalState, teamId: $ID<Team>) => getThreadsInTeam(state)[teamId],
+        getThreads,
+        (threadIds, allThreads) => sortThreadIds(threadIds, allThreads, false),
+    );
+}
+
+// makeGetUnreadThreadOrderInTeam is like makeGetThreadOrderInTeam, but it only includes threads with unread replies or
+// mentions.
+export function makeGetUnreadThreadOrderInTeam(): (state: GlobalState, teamId: $ID<Team>) => Array<$ID<UserThread>> {
+    return createIdsSelector(
+        (state: GlobalState, teamId: $ID<Team>) => getThreadsInTeam(state)[teamId],
+        getThreads,
+        (threadIds, allThreads) => sortThreadIds(threadIds, allThreads, true),
+    );
+}
+
+export const getThreadOrderInCurrentTeam: (state: GlobalState) => Array<$ID<UserThread>> = createIdsSelector(
+    (state: GlobalState) => getThreadsInTeam(state)[getCurrentTeamId(state)],
+    getThreads,
+    (threadIds, allThreads) => sortThreadIds(threadIds, allThreads, false),
+);
+
+export const getUnreadThreadOrderInCurrentTeam: (state: GlobalState) => Array<$ID<UserThread>> = createIdsSelector(
+    (state: GlobalState) => getThreadsInTeam(state)[getCurrentTeamId(state)],
+    getThreads,
+    (threadIds, allThreads) => sortThreadIds(threadIds, allThreads, true),
+);
@@ -45,6 +45,10 @@ const state: GlobalState = {
             groupsAssociatedToChannel: {},
             totalCount: 0,
         },
+        channelCategories: {
+            byId: {},
+            orderByTeam: {},
+        },
         posts: {
             expandedURLs: {},
             posts: {},
@@ -63,6 +67,17 @@ const state: GlobalState = {
                 },
             },
         },
+        threads: {
+            threads: {},
+            threadsInTeam: {},
+            counts: {},
+        },
+        drafts: {
+            drafts: {},
+        },
+        scheduledPosts: {
+            byId: {},
+        },
         preferences: {
             myPreferences: {},
         },
@@ -100,6 +115,8 @@ const state: GlobalState = {
         files: {
             files: {},
             fileIdsByPostId: {},
+            fileUploads: {},
+            chunkedUploads: {},
         },
         emojis: {
             customEmoji: {},
@@ -629,6 +646,8 @@ const state: GlobalState = {
         connected: false,
         lastConnectAt: 0,
         lastDisconnectAt: 0,
+        latency: 0,
+        missedPongs: 0,
     },
 };
 export default state;
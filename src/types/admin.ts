@@ -11,3 +11,65 @@ export type AdminState = {
     userAccessTokens: any[];
     clusterInfo: any;
 };
+
+export type Audit = {
+    id: string;
+    create_at: number;
+    user_id: string;
+    action: string;
+    extra_info: string;
+    ip_address: string;
+    session_id: string;
+};
+
+export type ComplianceReport = {
+    id: string;
+    create_at: number;
+    user_id: string;
+    status: string;
+    count: number;
+    desc: string;
+    type: string;
+    start_at: number;
+    end_at: number;
+    keywords: string;
+    emails: string;
+};
+
+export type ClusterInfo = {
+    id: string;
+    version: string;
+    config_hash: string;
+    ipaddress: string;
+    hostname: string;
+};
+
+export type AnalyticsRow = {
+    name: string;
+    value: number;
+};
+
+export type SamlCertificateStatus = {
+    idp_certificate_file: boolean;
+    public_certificate_file: boolean;
+    private_key_file: boolean;
+};
+
+export type LdapGroup = {
+    has_syncables: boolean;
+    mattermost_group_id?: string;
+    primary_key: string;
+    name: string;
+};
+
+export type LdapGroupsWithCount = {
+    count: number;
+    groups: Array<LdapGroup>;
+};
+
+// EnvironmentConfig contains the settings that are set by environment variables, grouped by section like in Config
+export type EnvironmentConfig = {
+    [section: string]: {
+        [setting: string]: boolean;
+    };
+};
@@ -0,0 +1,34 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Channel} from './channels';
+import {Team} from './teams';
+import {$ID, IDMappedObjects, RelationOneToOne} from './utilities';
+
+// The favorites, channels and direct_messages categories are created by the server for each team. Users can only
+// create, rename and delete custom categories.
+export type ChannelCategoryType = 'favorites' | 'channels' | 'direct_messages' | 'custom';
+
+// Channels in categories with the default sorting are sorted by recency for direct messages and alphabetically
+// otherwise. Manually sorted categories keep the order of their channel_ids.
+export type CategorySorting = 'alpha' | 'recent' | 'manual' | '';
+
+export type ChannelCategory = {
+    id: string;
+    user_id: string;
+    team_id: string;
+    type: ChannelCategoryType;
+    display_name: string;
+    sorting: CategorySorting;
+    channel_ids: Array<$ID<Channel>>;
+    collapsed: boolean;
+};
+
+export type OrderedChannelCategories = {
+    categories: ChannelCategory[];
+    order: Array<$ID<ChannelCategory>>;
+};
+
+export type ChannelCategoriesState = {
+    byId: IDMappedObjects<ChannelCategory>;
+    orderByTeam: RelationOneToOne<Team, Array<$ID<ChannelCategory>>>;
+};
@@ -59,3 +59,23 @@ export type ChannelsState = {
     groupsAssociatedToChannel: any;
     totalCount: number;
 };
+
+export type ChannelUnread = {
+    channel_id: string;
+    user_id: string;
+    team_id: string;
+    msg_count: number;
+    mention_count: number;
+    last_viewed_at: number;
+    notify_props: Partial<ChannelNotifyProps>;
+};
+
+export type ChannelsWithTotalCount = {
+    channels: Channel[];
+    total_count: number;
+};
+
+export type ChannelViewResponse = {
+    status: 'OK';
+    last_viewed_at_times: RelationOneToOne<Channel, number>;
+};
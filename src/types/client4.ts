@@ -2,10 +2,13 @@
 // See LICENSE.txt for license information.
 // I assume these are the loglevels
 export type logLevel = 'ERROR' | 'WARNING' | 'INFO';
-export type GenericClientResponse = {
+export type GenericClientResponse<T = any> = {
     response: any;
     headers: Map<string, string>;
-    data: any;
+    data: T;
+};
+export type StatusOK = {
+    status: 'OK';
 };
 type ErrorOffline = {
     message: string;
@@ -24,10 +27,89 @@ export type ErrorApi = {
     url: string;
 };
 export type Client4Error = ErrorOffline | ErrorInvalidResponse | ErrorApi;
+export type RetryPolicy = {
+    // The number of times that a failed request will be retried. Requests aren't retried when this is 0.
+    maxRetries: number;
+
+    // The maximum delay in milliseconds before the first retry. This doubles after each retry up to maxDelay.
+    baseDelay: number;
+    maxDelay: number;
+
+    // Requests are only retried by default if they use one of these methods since retrying other requests could
+    // cause them to be applied twice
+    retryableMethods: string[];
+    retryableStatusCodes: number[];
+};
 export type Options = {
     headers?: { [x: string]: string };
     method?: string;
     url?: string;
     credentials?: 'omit' | 'same-origin' | 'include';
     body?: any;
+
+    // Set to false to never retry the request or to true to retry it regardless of its method. A partial policy
+    // can be provided to override the client's retry policy for this request.
+    retry?: boolean | Partial<RetryPolicy>;
+} & UploadOptions;
+
+// RequestOptions can be passed to some Client4 methods to allow their requests to be cancelled
+export type RequestOptions = {
+    signal?: AbortSignal;
+
+    // The number of milliseconds to wait before giving up on the request, including any time spent retrying it
+    timeout?: number;
+};
+
+export type UploadProgress = {
+    loaded: number;
+    total: number;
+};
+
+export type UploadOptions = RequestOptions & {
+    // onProgress is called as the request body is sent. It's only supported on platforms with XMLHttpRequest, which is
+    // used to send the request instead of fetch when it's provided.
+    onProgress?: (progress: UploadProgress) => void;
+};
+
+// UnauthorizedHandler is called when a request fails because the client's credentials are no longer valid. It should
+// resolve to a new token, to true if the credentials were refreshed in some other way, such as by renewing a cookie, or
+// to false if they couldn't be refreshed.
+export type UnauthorizedHandler = () => Promise<string | boolean>;
+
+export type InterceptedRequest = {
+    url: string;
+
+    // options only contain the headers set for this request. Headers set for every request, such as the token, are
+    // added after the request has been intercepted.
+    options: Options;
+
+    // Setting response skips making the request and any remaining onRequest interceptors
+    response?: GenericClientResponse;
+};
+
+// Interceptor can change requests made with Client4 and their results. Interceptors are called in the order that
+// they're added for requests and in the reverse order for responses and errors. Requests made with XMLHttpRequest,
+// such as uploads that report their progress, aren't intercepted.
+export type Interceptor = {
+    onRequest?: (request: InterceptedRequest) => InterceptedRequest | Promise<InterceptedRequest>;
+    onResponse?: (response: GenericClientResponse, request: InterceptedRequest) => GenericClientResponse | Promise<GenericClientResponse>;
+
+    // onError can resolve to a response to recover from the error or rethrow it. The error is passed to the next
+    // interceptor if nothing is returned.
+    onError?: (error: Error, request: InterceptedRequest) => GenericClientResponse | void | Promise<GenericClientResponse | void>;
+};
+
+// PageFetcher requests one page of results from a paged route, such as (page, perPage) => Client4.getProfiles(page, perPage)
+export type PageFetcher<T> = (page: number, perPage: number) => Promise<T[]>;
+
+export type PaginateOptions = {
+    perPage: number;
+    startPage: number;
+
+    // Iteration stops after this many pages even if there are more results
+    maxPages: number;
+
+    // The number of pages that can be requested at once. Requesting more than one page at a time may request pages
+    // past the last one.
+    concurrency: number;
 };
@@ -6,6 +6,7 @@ export type Config = {
     AllowBannerDismissal: string;
     AllowCustomThemes: string;
     AllowedThemes: string;
+    AllowSyncedDrafts: string;
     AndroidAppDownloadLink: string;
     AndroidLatestVersion: string;
     AndroidMinVersion: string;
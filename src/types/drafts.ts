@@ -0,0 +1,26 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Channel} from './channels';
+import {Dictionary, RelationOneToOne} from './utilities';
+
+// Draft is an unsent message. Drafts for replies have the ID of the thread's root post as their root_id, and drafts
+// for the channel itself have an empty root_id.
+export type Draft = {
+    create_at: number;
+    update_at: number;
+    delete_at?: number;
+    user_id: string;
+    channel_id: string;
+    root_id: string;
+    message: string;
+    file_ids: string[];
+    props: Record<string, any>;
+};
+
+export type DraftContents = Partial<Pick<Draft, 'message' | 'file_ids' | 'props'>>;
+
+export type DraftsState = {
+
+    // drafts is keyed by channel ID and then by root post ID
+    drafts: RelationOneToOne<Channel, Dictionary<Draft>>;
+};
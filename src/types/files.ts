@@ -18,10 +18,57 @@ export type FileInfo = {
     has_preview_image: boolean;
     clientId: string;
 };
+export type FileUploadStatus = 'uploading' | 'failed';
+
+// FileUpload tracks a file that's being uploaded before it's attached to a post. Files uploaded in the same request
+// share the same progress.
+export type FileUpload = {
+    clientId: string;
+    channelId: string;
+    rootId: string;
+    status: FileUploadStatus;
+    loaded: number;
+    total: number;
+    error?: any;
+};
+
+// UploadSession is the server's record of a file being uploaded in parts
+export type UploadSession = {
+    id: string;
+    type: 'attachment' | 'import';
+    create_at: number;
+    user_id: string;
+    channel_id: string;
+    filename: string;
+    path: string;
+    file_size: number;
+    file_offset: number;
+};
+
+// ChunkedUpload is stored for each file being uploaded in parts so that the upload can continue after a restart
+export type ChunkedUpload = {
+    clientId: string;
+    channelId: string;
+    rootId: string;
+    uploadId: string;
+    filename: string;
+    fileSize: number;
+    fileOffset: number;
+};
+
+// UploadableFile is anything that can be sent in parts, such as a Blob or a File
+export type UploadableFile = {
+    name: string;
+    size: number;
+    slice(start: number, end: number): any;
+};
+
 export type FilesState = {
     files: Dictionary<FileInfo>;
     fileIdsByPostId: Dictionary<Array<string>>;
     filePublicLink?: string;
+    fileUploads: Dictionary<FileUpload>;
+    chunkedUploads: Dictionary<ChunkedUpload>;
 };
 
 export type FileUploadResponse = {
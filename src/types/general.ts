@@ -13,3 +13,50 @@ export type GeneralState = {
     serverVersion: string;
     timezones: Array<string>;
 };
+
+export type ClientConfig = {
+    [x: string]: string;
+};
+
+export type ClientLicense = {
+    [x: string]: string;
+};
+
+export type DataRetentionPolicy = {
+    message_deletion_enabled: boolean;
+    file_deletion_enabled: boolean;
+    message_retention_cutoff: number;
+    file_retention_cutoff: number;
+};
+
+export type SystemStatus = {
+    status: string;
+    [x: string]: string;
+};
+
+export type WebrtcToken = {
+    token: string;
+    gateway_url: string;
+    stun_uri?: string;
+    turn_uri?: string;
+    turn_password?: string;
+    turn_username?: string;
+};
+
+export type License = {
+    id: string;
+    issued_at: number;
+    starts_at: number;
+    expires_at: number;
+    customer: {
+        id: string;
+        name: string;
+        email: string;
+        company: string;
+    };
+    features: {
+        [x: string]: boolean | number;
+    };
+    sku_name: string;
+    sku_short_name: string;
+};
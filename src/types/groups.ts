@@ -1,5 +1,6 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
+import {UserProfile} from './users';
 export type SyncableType = 'team' | 'channel';
 export type SyncablePatch = {
     auto_add: boolean;
@@ -58,3 +59,16 @@ export type GroupSearchOpts = {
     is_linked?: boolean;
     is_configured?: boolean;
 };
+
+export type GroupsWithCount = {
+    groups: Array<Group>;
+    total_group_count: number;
+};
+export type GroupMembers = {
+    members: Array<UserProfile>;
+    total_member_count: number;
+};
+export type UsersWithGroupsAndCount = {
+    users: Array<UserProfile & {group_ids?: string}>;
+    total_count: number;
+};
@@ -28,6 +28,7 @@ import * as users from './users';
 import * as bots from './bots';
 import * as plugins from './plugins';
 import * as config from './config';
+import * as websocket from './websocket';
 
 export {
     admin,
@@ -57,4 +58,5 @@ export {
     requests,
     reactions,
     users,
+    websocket,
 };
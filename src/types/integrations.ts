@@ -65,6 +65,29 @@ export type OAuthApp = {
     'homepage': string;
     'is_trusted': boolean;
 };
+export type CommandArgs = {
+    channel_id: string;
+    team_id?: string;
+    root_id?: string;
+    parent_id?: string;
+};
+
+export type CommandResponse = {
+    response_type: string;
+    text: string;
+    username?: string;
+    icon_url?: string;
+    type?: string;
+    props?: Record<string, any>;
+    goto_location?: string;
+    trigger_id?: string;
+    skip_slack_parsing?: boolean;
+    attachments?: Array<Record<string, any>>;
+    extra_responses?: Array<CommandResponse>;
+};
+
+export type OAuthAppInfo = Pick<OAuthApp, 'id' | 'name' | 'description' | 'icon_url' | 'homepage'>;
+
 export type IntegrationsState = {
     incomingHooks: IDMappedObjects<IncomingWebhook>;
     outgoingHooks: IDMappedObjects<OutgoingWebhook>;
@@ -84,6 +107,12 @@ export type DialogSubmission = {
     };
     cancelled: boolean;
 };
+export type SubmitDialogResponse = {
+    error?: string;
+    errors?: {
+        [x: string]: string;
+    };
+};
 export type DialogElement = {
     display_name: string;
     name: string;
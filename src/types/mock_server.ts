@@ -0,0 +1,67 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Dictionary} from './utilities';
+
+export type MockRequest = {
+    method: string;
+
+    // path is the part of the URL after the server's address without the query string, such as /api/v4/users/me
+    path: string;
+
+    // params contains the values of the parameters in the route's pattern, such as user_id in /api/v4/users/:user_id
+    params: Dictionary<string>;
+    query: Dictionary<string>;
+    body: any;
+
+    // token is the session used to make the request, and userId is the ID of the user that it belongs to. Both are
+    // empty if the request was made without logging in.
+    token: string;
+    userId: string;
+};
+
+export type MockResponse = {
+    status: number;
+    data: any;
+    headers?: Dictionary<string>;
+};
+
+export type MockRouteHandler = (request: MockRequest) => MockResponse;
+
+export type MockRouteOptions = {
+    // Public routes can be used without logging in
+    public?: boolean;
+};
+
+export type MockFault = {
+    // method and path limit the fault to matching requests. The path can be a route pattern such as
+    // /api/v4/users/:user_id or a regular expression. Every request is affected if they're omitted.
+    method?: string;
+    path?: string | RegExp;
+
+    // latency delays the response by this many milliseconds
+    latency?: number;
+
+    // status makes the server respond with an error with this status code instead of handling the request
+    status?: number;
+
+    // networkError makes the request fail as if the server couldn't be reached
+    networkError?: boolean;
+
+    // times is the number of requests affected before the fault is removed. The fault lasts until it's removed
+    // manually if it isn't set.
+    times?: number;
+};
+
+// MockFixture is a response recorded from a real server that the mock server can replay
+export type MockFixture = {
+    method: string;
+
+    // path includes the query string, such as /api/v4/users?page=0&per_page=60
+    path: string;
+
+    // body is compared with the body of the request if it's set
+    body?: any;
+
+    status: number;
+    data: any;
+};
@@ -13,3 +13,43 @@ export type MarketplacePlugin = {
     };
     installed_version: string;
 }
+
+export type PluginManifest = {
+    id: string;
+    name: string;
+    description?: string;
+    version: string;
+    min_server_version?: string;
+    server?: {
+        executables?: Record<string, string>;
+        executable?: string;
+    };
+    webapp?: {
+        bundle_path: string;
+    };
+    settings_schema?: Record<string, any>;
+};
+
+export type ClientPluginManifest = {
+    id: string;
+    min_server_version?: string;
+    version: string;
+    webapp: {
+        bundle_path: string;
+    };
+};
+
+export type PluginsResponse = {
+    active: Array<PluginManifest>;
+    inactive: Array<PluginManifest>;
+};
+
+export type PluginStatus = {
+    plugin_id: string;
+    cluster_id: string;
+    plugin_path: string;
+    state: number;
+    name: string;
+    description: string;
+    version: string;
+};
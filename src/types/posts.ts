@@ -90,6 +90,39 @@ export type PostOrderBlock = {
     oldest?: boolean;
 };
 
+export type PostList = {
+    order: Array<string>;
+    posts: IDMappedObjects<Post>;
+    next_post_id?: string;
+    prev_post_id?: string;
+};
+
+export type PostSearchResults = PostList & {
+    matches: RelationOneToOne<Post, Array<string>>;
+};
+
+export type OpenGraphMetadataImage = {
+    url: string;
+    secure_url?: string;
+    type?: string;
+    width?: number;
+    height?: number;
+};
+
+export type OpenGraphMetadata = {
+    type?: string;
+    url?: string;
+    title?: string;
+    description?: string;
+    site_name?: string;
+    images?: Array<OpenGraphMetadataImage>;
+};
+
+export type PostActionResponse = {
+    status: string;
+    trigger_id: string;
+};
+
 export type MessageHistory = {
     messages: Array<string>;
     index: {
@@ -0,0 +1,21 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+// Reminders are stored as preferences in the post_reminder category with the ID of the post as the name and the time
+// of the reminder as the value.
+export type PostReminder = {
+    post_id: string;
+    remind_at: number;
+};
+
+// A reminder can be set for an exact time, for an amount of time in milliseconds from now, or for a time of day in the
+// user's timezone a number of days from now, such as 9:00 tomorrow.
+export type ReminderTime = {
+    at: number;
+} | {
+    after: number;
+} | {
+    days: number;
+    hour: number;
+    minute?: number;
+};
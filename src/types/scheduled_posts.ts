@@ -0,0 +1,32 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {IDMappedObjects} from './utilities';
+
+// A scheduled post is waiting for its scheduled_at time until it's sent, sending once it's been passed to createPost,
+// and failed if it couldn't be sent. Scheduled posts are removed once they've been sent successfully.
+export type ScheduledPostStatus = 'scheduled' | 'sending' | 'failed';
+
+export type ScheduledPostError = 'missed' | 'channel_archived' | 'send_failed';
+
+// The ID of a scheduled post is also used as the pending_post_id of the post created from it.
+export type ScheduledPost = {
+    id: string;
+    create_at: number;
+    update_at: number;
+    scheduled_at: number;
+    user_id: string;
+    channel_id: string;
+    root_id: string;
+    message: string;
+    props: Record<string, any>;
+    status: ScheduledPostStatus;
+    error?: ScheduledPostError;
+};
+
+export type ScheduledPostContents = Pick<ScheduledPost, 'channel_id' | 'message'> & Partial<Pick<ScheduledPost, 'root_id' | 'props'>>;
+
+export type ScheduledPostChanges = Partial<Pick<ScheduledPost, 'message' | 'props' | 'scheduled_at'>>;
+
+export type ScheduledPostsState = {
+    byId: IDMappedObjects<ScheduledPost>;
+};
@@ -5,7 +5,11 @@ import {GeneralState} from './general';
 import {UsersState} from './users';
 import {TeamsState} from './teams';
 import {ChannelsState} from './channels';
+import {ChannelCategoriesState} from './channel_categories';
 import {PostsState} from './posts';
+import {ThreadsState} from './threads';
+import {DraftsState} from './drafts';
+import {ScheduledPostsState} from './scheduled_posts';
 import {AdminState} from './admin';
 import {JobsState} from './jobs';
 import {SearchState} from './search';
@@ -28,7 +32,11 @@ export type GlobalState = {
         users: UsersState;
         teams: TeamsState;
         channels: ChannelsState;
+        channelCategories: ChannelCategoriesState;
         posts: PostsState;
+        threads: ThreadsState;
+        drafts: DraftsState;
+        scheduledPosts: ScheduledPostsState;
         bots: {
             accounts: Dictionary<Bot>;
         };
@@ -81,5 +89,7 @@ export type GlobalState = {
         connected: boolean;
         lastConnectAt: number;
         lastDisconnectAt: number;
+        latency: number;
+        missedPongs: number;
     };
 };
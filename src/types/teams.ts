@@ -43,3 +43,27 @@ export type TeamsState = {
     groupsAssociatedToTeam: any;
     totalCount: number;
 };
+
+export type TeamUnread = {
+    team_id: string;
+    msg_count: number;
+    mention_count: number;
+};
+
+export type TeamStats = {
+    team_id: string;
+    total_member_count: number;
+    active_member_count: number;
+};
+
+export type TeamsWithCount = {
+    teams: Team[];
+    total_count: number;
+};
+
+export type TeamInviteInfo = {
+    id: string;
+    name: string;
+    display_name: string;
+    description: string;
+};
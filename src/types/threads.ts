@@ -0,0 +1,46 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {Post} from './posts';
+import {Team} from './teams';
+import {UserProfile} from './users';
+import {$ID, IDMappedObjects, RelationOneToMany, RelationOneToOne} from './utilities';
+
+// UserThread is a thread of replies as seen by one user. Its ID is the ID of the root post. Participants only include
+// the IDs of the users unless the thread was requested with extended set to true.
+export type UserThread = {
+    id: $ID<Post>;
+    reply_count: number;
+    last_reply_at: number;
+    last_viewed_at: number;
+    participants: Array<{id: $ID<UserProfile>} | UserProfile>;
+    post: Post;
+    unread_replies: number;
+    unread_mentions: number;
+    is_following?: boolean;
+};
+
+export type ThreadsCounts = {
+    total: number;
+    total_unread_threads: number;
+    total_unread_mentions: number;
+};
+
+export type UserThreadList = ThreadsCounts & {
+    threads: UserThread[];
+};
+
+export type GetUserThreadsOptions = {
+    before?: $ID<UserThread>;
+    after?: $ID<UserThread>;
+    perPage?: number;
+    extended?: boolean;
+    deleted?: boolean;
+    unread?: boolean;
+    since?: number;
+};
+
+export type ThreadsState = {
+    threads: IDMappedObjects<UserThread>;
+    threadsInTeam: RelationOneToMany<Team, UserThread>;
+    counts: RelationOneToOne<Team, ThreadsCounts>;
+};
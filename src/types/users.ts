@@ -1,9 +1,9 @@
 // Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
 // See LICENSE.txt for license information.
 import {Channel} from './channels';
-import {Team} from './teams';
+import {Team, TeamMembership} from './teams';
 import {PostType} from './posts';
-import {$ID, IDMappedObjects, RelationOneToMany, RelationOneToOne} from './utilities';
+import {$ID, Dictionary, IDMappedObjects, RelationOneToMany, RelationOneToOne} from './utilities';
 export type UserNotifyProps = {
     desktop: 'default' | 'all' | 'mention' | 'none';
     desktop_sound: 'true' | 'false';
@@ -70,4 +70,70 @@ export type UserStatus = {
 	manual: boolean;
 	last_activity_at: number;
 	active_channel?: string;
-}
\ No newline at end of file
+}
+
+export type UserAutocomplete = {
+    users: UserProfile[];
+    out_of_channel?: UserProfile[];
+};
+
+// UserSearchOptions limits the users returned by a search. Each option is ignored when it isn't set.
+export type UserSearchOptions = {
+    team_id?: string;
+    not_in_team_id?: string;
+    in_channel_id?: string;
+    not_in_channel_id?: string;
+    in_group_id?: string;
+    group_constrained?: boolean;
+    allow_inactive?: boolean;
+    without_team?: boolean;
+    limit?: number;
+    role?: string;
+    roles?: string[];
+    channel_roles?: string[];
+    team_roles?: string[];
+};
+
+export type UsersStats = {
+    total_users_count: number;
+};
+
+export type UserSession = {
+    id: string;
+    token: string;
+    create_at: number;
+    expires_at: number;
+    last_activity_at: number;
+    user_id: string;
+    device_id: string;
+    roles: string;
+    is_oauth: boolean;
+    props: Dictionary<string>;
+    team_members?: TeamMembership[];
+};
+
+export type UserAccessToken = {
+    id: string;
+
+    // token is only included in the response when the token is created
+    token?: string;
+    user_id: string;
+    description: string;
+    is_active: boolean;
+};
+
+export type MfaSecret = {
+    secret: string;
+    qr_code: string;
+};
+
+export type AuthChangeResponse = {
+    follow_link: string;
+};
+
+export type TermsOfService = {
+    id: string;
+    create_at: number;
+    user_id: string;
+    text: string;
+};
@@ -0,0 +1,140 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {DispatchFunc, GetStateFunc} from './actions';
+import {ChannelType} from './channels';
+import {Config} from './config';
+import {UserProfile} from './users';
+import {Dictionary} from './utilities';
+
+export type WebsocketBroadcast = {
+    omit_users: Dictionary<boolean>;
+    user_id: string;
+    channel_id: string;
+    team_id: string;
+}
+
+export type WebSocketMessage<T = any> = {
+    event: string;
+    data: T;
+    broadcast: WebsocketBroadcast;
+    seq: number;
+}
+
+// Many of the objects included in websocket events are sent as JSON strings that need to be parsed separately
+type JSONString = string;
+
+export type PostEventData = {
+    post: JSONString;
+};
+
+export type PostedEventData = PostEventData & {
+    channel_display_name: string;
+    channel_name: string;
+    channel_type: ChannelType;
+    sender_name: string;
+    team_id: string;
+    mentions?: JSONString;
+    set_online?: boolean;
+};
+
+export type TeamMemberEventData = {
+    team_id: string;
+    user_id: string;
+};
+
+export type RoleEventData = {
+    role: JSONString;
+};
+
+export type TypingEventData = {
+    parent_id: string;
+    user_id: string;
+};
+
+export type ReactionEventData = {
+    reaction: JSONString;
+};
+
+export type GroupSyncableEventData = {
+    group_id: string;
+};
+
+// thread_id is only omitted when every thread in the team has been marked as read
+export type ThreadReadChangedEventData = {
+    thread_id?: string;
+    timestamp: number;
+    previous_unread_replies?: number;
+    unread_replies?: number;
+    previous_unread_mentions?: number;
+    unread_mentions?: number;
+};
+
+export type DraftEventData = {
+    draft: JSONString;
+};
+
+// WebSocketEventPayloads maps the name of each websocket event sent by the server to the data included with it
+export type WebSocketEventPayloads = {
+    posted: PostedEventData;
+    post_edited: PostEventData;
+    post_deleted: PostEventData;
+    ephemeral_message: PostEventData;
+    channel_converted: {channel_id: string};
+    channel_created: {channel_id: string; team_id: string};
+    channel_deleted: {channel_id: string; delete_at: number; team_id?: string};
+    channel_updated: {channel: JSONString};
+    channel_viewed: {channel_id: string};
+    channel_member_updated: {channelMember: JSONString};
+    direct_added: {teammate_id: string};
+    added_to_team: TeamMemberEventData;
+    leave_team: TeamMemberEventData;
+    update_team: {team: JSONString};
+    user_added: TeamMemberEventData;
+    user_removed: {user_id?: string; channel_id?: string; remover_id: string};
+    user_updated: {user: UserProfile};
+    role_added: RoleEventData;
+    role_removed: RoleEventData;
+    role_updated: RoleEventData;
+    typing: TypingEventData;
+    stop_typing: TypingEventData;
+    preference_changed: {preference: JSONString};
+    preferences_changed: {preferences: JSONString};
+    preferences_deleted: {preferences: JSONString};
+    status_change: {status: string; user_id: string};
+    hello: {server_version: string; connection_id?: string};
+    webrtc: Dictionary<any>;
+    reaction_added: ReactionEventData;
+    reaction_removed: ReactionEventData;
+    emoji_added: {emoji: JSONString};
+    license_changed: {license: Dictionary<string>};
+    config_changed: {config: Partial<Config>};
+    plugin_statuses_changed: {plugin_statuses: Array<any>};
+    open_dialog: {dialog: JSONString};
+    memberrole_updated: {member: JSONString};
+    channel_scheme_updated: {};
+    received_group: {group: JSONString};
+    received_group_associated_to_team: GroupSyncableEventData;
+    received_group_not_associated_to_team: GroupSyncableEventData;
+    received_group_associated_to_channel: GroupSyncableEventData;
+    received_group_not_associated_to_channel: GroupSyncableEventData;
+    sidebar_category_created: {category_id: string};
+    sidebar_category_updated: {updatedCategories: JSONString};
+    sidebar_category_deleted: {category_id: string};
+    sidebar_category_order_updated: {order: string[]};
+    thread_updated: {thread: JSONString};
+    thread_follow_changed: {thread_id: string; state: boolean};
+    thread_read_changed: ThreadReadChangedEventData;
+    draft_created: DraftEventData;
+    draft_updated: DraftEventData;
+    draft_deleted: DraftEventData;
+};
+
+export type WebSocketEventName = keyof WebSocketEventPayloads;
+
+export type WebSocketEventHandler<T = any> = (msg: WebSocketMessage<T>, dispatch: DispatchFunc, getState: GetStateFunc) => void;
+
+export type WebSocketSubscriptionOptions = {
+    // phase controls whether the handler is called before or after the event is handled by mattermost-redux itself.
+    // Defaults to after.
+    phase?: 'before' | 'after';
+};
@@ -21,6 +21,7 @@ import * as team_utils from './team_utils';
 import * as theme_utils from './theme_utils';
 import * as timezone_utils from './timezone_utils';
 import * as user_utils from './user_utils';
+import * as websocket_event_registry from './websocket_event_registry';
 
 export {
     channel_utils,
@@ -43,4 +44,5 @@ export {
     theme_utils,
     timezone_utils,
     user_utils,
+    websocket_event_registry,
 };
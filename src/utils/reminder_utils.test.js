@@ -0,0 +1,41 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import assert from 'assert';
+
+import {getReminderTimestamp} from 'utils/reminder_utils';
+
+describe('ReminderUtils', () => {
+    describe('getReminderTimestamp', () => {
+        const now = Date.UTC(2020, 0, 15, 20, 0); // 15:00 in New York and 05:00 the next day in Tokyo
+
+        it('should return exact times as they are', () => {
+            assert.equal(getReminderTimestamp({at: 12345}, now, 'America/New_York'), 12345);
+        });
+
+        it('should add relative times to the current time', () => {
+            assert.equal(getReminderTimestamp({after: 30 * 60 * 1000}, now, 'America/New_York'), Date.UTC(2020, 0, 15, 20, 30));
+        });
+
+        it('should use the time of day in the given timezone', () => {
+            assert.equal(getReminderTimestamp({days: 1, hour: 9}, now, 'America/New_York'), Date.UTC(2020, 0, 16, 14, 0));
+            assert.equal(getReminderTimestamp({days: 1, hour: 9}, now, 'Asia/Tokyo'), Date.UTC(2020, 0, 17, 0, 0));
+            assert.equal(getReminderTimestamp({days: 0, hour: 17, minute: 30}, now, 'America/New_York'), Date.UTC(2020, 0, 15, 22, 30));
+        });
+
+        it('should account for daylight saving time', () => {
+            const beforeChange = Date.UTC(2020, 2, 7, 20, 0); // 15:00 EST on the day before clocks change
+
+            assert.equal(getReminderTimestamp({days: 1, hour: 9}, beforeChange, 'America/New_York'), Date.UTC(2020, 2, 8, 13, 0));
+        });
+
+        it('should use the local timezone when the timezone is not known', () => {
+            const expected = new Date(now);
+            expected.setDate(expected.getDate() + 1);
+            expected.setHours(9, 0, 0, 0);
+
+            assert.equal(getReminderTimestamp({days: 1, hour: 9}, now, ''), expected.getTime());
+            assert.equal(getReminderTimestamp({days: 1, hour: 9}, now, 'Not/A_Timezone'), expected.getTime());
+        });
+    });
+});
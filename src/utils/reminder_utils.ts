@@ -0,0 +1,22 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import moment from 'moment-timezone';
+
+import {ReminderTime} from 'types/reminders';
+
+// getReminderTimestamp returns when a reminder should be sent. Times of day are in the given timezone if it's known
+// and otherwise in the local timezone.
+export function getReminderTimestamp(time: ReminderTime, now: number, timezone?: string | null): number {
+    if ('at' in time) {
+        return time.at;
+    } else if ('after' in time) {
+        return now + time.after;
+    }
+
+    const date = timezone && moment.tz.zone(timezone) ? moment.tz(now, timezone) : moment(now);
+
+    return date.
+        add(time.days, 'days').
+        set({hour: time.hour, minute: time.minute || 0, second: 0, millisecond: 0}).
+        valueOf();
+}
@@ -0,0 +1,75 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+
+import {WebSocketEventRegistry} from 'utils/websocket_event_registry';
+
+describe('WebSocketEventRegistry', () => {
+    const dispatch = jest.fn();
+    const getState = jest.fn();
+
+    function makeMessage(event) {
+        return {event, data: {}, broadcast: {omit_users: null, user_id: '', channel_id: '', team_id: ''}, seq: 1};
+    }
+
+    test('should call handlers subscribed to an event', () => {
+        const registry = new WebSocketEventRegistry();
+        const handler = jest.fn();
+
+        registry.subscribe('posted', handler);
+
+        const msg = makeMessage('posted');
+        registry.notify('after', msg, dispatch, getState);
+        registry.notify('after', makeMessage('post_edited'), dispatch, getState);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(msg, dispatch, getState);
+    });
+
+    test('should match events by prefix', () => {
+        const registry = new WebSocketEventRegistry();
+        const pluginHandler = jest.fn();
+        const allHandler = jest.fn();
+
+        registry.subscribe('custom_com.example.plugin_*', pluginHandler);
+        registry.subscribe('*', allHandler);
+
+        registry.notify('after', makeMessage('custom_com.example.plugin_updated'), dispatch, getState);
+        registry.notify('after', makeMessage('custom_com.example.other_updated'), dispatch, getState);
+        registry.notify('after', makeMessage('posted'), dispatch, getState);
+
+        expect(pluginHandler).toHaveBeenCalledTimes(1);
+        expect(allHandler).toHaveBeenCalledTimes(3);
+    });
+
+    test('should only call handlers for the given phase', () => {
+        const registry = new WebSocketEventRegistry();
+        const beforeHandler = jest.fn();
+        const afterHandler = jest.fn();
+
+        registry.subscribe('posted', beforeHandler, {phase: 'before'});
+        registry.subscribe('posted', afterHandler);
+
+        registry.notify('before', makeMessage('posted'), dispatch, getState);
+
+        expect(beforeHandler).toHaveBeenCalledTimes(1);
+        expect(afterHandler).not.toHaveBeenCalled();
+
+        registry.notify('after', makeMessage('posted'), dispatch, getState);
+
+        expect(beforeHandler).toHaveBeenCalledTimes(1);
+        expect(afterHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop calling a handler once unsubscribed', () => {
+        const registry = new WebSocketEventRegistry();
+        const handler = jest.fn();
+
+        const unsubscribe = registry.subscribe('typing', handler);
+        unsubscribe();
+
+        registry.notify('after', makeMessage('typing'), dispatch, getState);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(registry.subscriptions).toEqual([]);
+    });
+});
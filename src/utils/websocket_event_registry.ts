@@ -0,0 +1,54 @@
+// Copyright (c) 2015-present Mattermost, Inc. All Rights Reserved.
+// See LICENSE.txt for license information.
+import {DispatchFunc, GetStateFunc} from 'types/actions';
+import {WebSocketEventHandler, WebSocketEventName, WebSocketEventPayloads, WebSocketMessage, WebSocketSubscriptionOptions} from 'types/websocket';
+
+type Subscription = {
+    event: string;
+    handler: WebSocketEventHandler;
+    phase: 'before' | 'after';
+};
+
+// matchesEvent checks if an event name matches a subscription. A subscription ending in * matches any event starting
+// with the rest of it, so 'custom_com.example.plugin_*' matches every event sent by that plugin and '*' matches all events.
+function matchesEvent(pattern: string, event: string) {
+    if (pattern.endsWith('*')) {
+        return event.startsWith(pattern.slice(0, -1));
+    }
+
+    return pattern === event;
+}
+
+export class WebSocketEventRegistry {
+    subscriptions: Subscription[] = [];
+
+    // subscribe registers a handler to be called whenever a matching websocket event is received. It returns a
+    // function that removes the subscription.
+    subscribe<E extends WebSocketEventName>(event: E, handler: WebSocketEventHandler<WebSocketEventPayloads[E]>, options?: WebSocketSubscriptionOptions): () => void;
+    subscribe(event: string, handler: WebSocketEventHandler, options?: WebSocketSubscriptionOptions): () => void;
+    subscribe(event: string, handler: WebSocketEventHandler, {phase = 'after'}: WebSocketSubscriptionOptions = {}) {
+        const subscription = {event, handler, phase};
+        this.subscriptions = [...this.subscriptions, subscription];
+
+        return () => {
+            this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+        };
+    }
+
+    notify(phase: 'before' | 'after', msg: WebSocketMessage, dispatch: DispatchFunc, getState: GetStateFunc) {
+        for (const subscription of this.subscriptions) {
+            if (subscription.phase !== phase || !matchesEvent(subscription.event, msg.event)) {
+                continue;
+            }
+
+            try {
+                subscription.handler(msg, dispatch, getState);
+            } catch (error) {
+                // Don't let one broken handler prevent the others from receiving the event
+                console.error(error); // eslint-disable-line no-console
+            }
+        }
+    }
+}
+
+export default new WebSocketEventRegistry();